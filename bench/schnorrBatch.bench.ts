@@ -0,0 +1,48 @@
+import { describe, bench } from 'vitest';
+import {
+  SchnorrBatchItem,
+  generateSchnorrSignature,
+  randomScalar,
+  verifySchnorrBatch,
+  verifySchnorrSignature,
+  bytesToHex,
+} from '../src/crypto';
+import { derivePublicKeyFromPrivateKey } from '../src/index';
+
+const COUNT = 200;
+
+/**
+ * Sign COUNT random prefix hashes with `distinctKeys` random keys, round robin
+ */
+function signedItems(distinctKeys: number): SchnorrBatchItem[] {
+  const keys = Array.from({ length: distinctKeys }, () => {
+    const privateKey = bytesToHex(randomScalar());
+    return { privateKey, publicKey: derivePublicKeyFromPrivateKey(privateKey) };
+  });
+
+  return Array.from({ length: COUNT }, (_, i) => {
+    const { privateKey, publicKey } = keys[i % distinctKeys];
+    const prefixHash = randomScalar();
+    return { prefixHash, publicKey, signature: generateSchnorrSignature(prefixHash, publicKey, privateKey) };
+  });
+}
+
+for (const distinctKeys of [COUNT, 10]) {
+  describe(`${COUNT} signatures, ${distinctKeys} distinct keys`, () => {
+    const items = signedItems(distinctKeys);
+
+    bench('verifySchnorrSignature loop', () => {
+      for (const item of items) {
+        if (!verifySchnorrSignature(item.prefixHash, item.publicKey, item.signature)) {
+          throw new Error('Single verification failed');
+        }
+      }
+    });
+
+    bench('verifySchnorrBatch', () => {
+      if (!verifySchnorrBatch(items).valid) {
+        throw new Error('Batch verification failed');
+      }
+    });
+  });
+}
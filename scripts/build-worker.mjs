@@ -0,0 +1,30 @@
+/**
+ * Bundle the vanity search worker into a single file
+ *
+ * Node starts worker threads from a file path, outside any bundler, so the
+ * worker cannot use the extensionless imports tsc emits or the named
+ * imports from CommonJS packages (js-sha3). esbuild inlines all of them.
+ *
+ * Usage: node scripts/build-worker.mjs [outfile]   (default: dist/vanity-worker.js)
+ */
+
+import { build } from 'esbuild';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const entryPoint = fileURLToPath(new URL('../src/vanity-worker.ts', import.meta.url));
+
+export async function buildVanityWorker(outfile) {
+  await build({
+    entryPoints: [entryPoint],
+    outfile,
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    target: 'node16',
+    logLevel: 'warning',
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  await buildVanityWorker(process.argv[2] ?? 'dist/vanity-worker.js');
+}
@@ -8,24 +8,40 @@
 import { WalletSync } from './walletSync';
 import { DaemonApi } from './api';
 import { NodeConfig, WalletOutput } from './types';
-import { TransactionDestination } from './transaction';
-import { deriveKeysFromMnemonic } from './index';
+import { TransactionDestination, TransactionPicker } from './transaction';
 import { createTransaction, sendTransaction as sendTx } from './transaction';
-import { MATURITY_BLOCKS } from './config';
+import { CoinSelectionStrategy, CoinSelectionReport } from './coinSelection';
+import {
+  FragmentationReport,
+  ConsolidationExecutor,
+  ConsolidationExecutorConfig,
+  getFragmentationReport,
+} from './consolidation';
+import { FeeSetting, FeeOptions, FeePolicy, FeeEstimate, DEFAULT_FEE_POLICY, pickInputsWithFee } from './fees';
+import { Signer, MnemonicSigner } from './signer';
+import { MAINNET, NetworkParams } from './config';
 
 export interface WalletConfig {
   ip: string;
   port: number;
   ssl?: boolean;
+  network?: NetworkParams; // Default: MAINNET
   publicKey: string;
+  childPublicKeys?: string[]; // Derived child keys to watch (see deriveChildPublicKeys)
+  keyImages?: Record<string, string>; // Public key -> key image, to match spends by key image (see generateKeyImage)
+  signer?: Signer; // Default signer for sends, so a send request needs no mnemonic
+  feePolicy?: FeePolicy; // Per-byte rates of the fee priority tiers (default: DEFAULT_FEE_POLICY)
   startHeight?: number;
 }
 
 export interface SendRequest {
-  mnemonic: string;
+  mnemonic?: string; // Signs with the mnemonic's keys (takes precedence over the wallet's signer)
+  signer?: Signer;   // Signs with this signer (takes precedence over mnemonic)
   destinations: TransactionDestination[];
-  fee?: number;
+  fee?: FeeSetting;  // Flat fee or priority tier (default: 'normal')
   maturityBlocks?: number;
+  childIndexes?: number[]; // With mnemonic: child keys whose outputs may be spent (see deriveChildPrivateKey)
+  coinSelection?: CoinSelectionStrategy; // Default: 'largest-first'
 }
 
 export interface SendResult {
@@ -34,15 +50,26 @@ export interface SendResult {
   inputsUsed: number;
   change: number;
   txHex: string;
+  selection?: CoinSelectionReport; // Why each input was chosen
 }
 
 export class Wallet {
   private walletSync: WalletSync;
   private publicKey: string;
+  private childPublicKeys: string[];
+  private keyImages: Record<string, string>;
+  private signer?: Signer;
   private node: NodeConfig;
+  private network: NetworkParams;
+  private feePolicy: FeePolicy;
 
   constructor(config: WalletConfig) {
     this.publicKey = config.publicKey;
+    this.network = config.network ?? MAINNET;
+    this.feePolicy = config.feePolicy ?? DEFAULT_FEE_POLICY;
+    this.childPublicKeys = config.childPublicKeys ?? [];
+    this.keyImages = config.keyImages ?? {};
+    this.signer = config.signer;
     this.node = {
       ip: config.ip,
       port: config.port,
@@ -52,11 +79,20 @@ export class Wallet {
     // Initialize WalletSync with proper config
     this.walletSync = new WalletSync({
       node: this.node,
-      publicKeys: [this.publicKey],
+      publicKeys: [this.publicKey, ...this.childPublicKeys],
+      keyImages: this.keyImages,
+      network: this.network,
       startHeight: config.startHeight ?? 0,
     });
   }
 
+  /**
+   * Get the network this wallet operates on
+   */
+  getNetwork(): NetworkParams {
+    return this.network;
+  }
+
   /**
    * Get current wallet sync state
    */
@@ -103,7 +139,9 @@ export class Wallet {
     // Create new WalletSync instance with the specified start height
     this.walletSync = new WalletSync({
       node: this.node,
-      publicKeys: [this.publicKey],
+      publicKeys: [this.publicKey, ...this.childPublicKeys],
+      keyImages: this.keyImages,
+      network: this.network,
       startHeight: height,
     });
 
@@ -113,13 +151,16 @@ export class Wallet {
 
   /**
    * Send a transaction
-   * Handles key derivation, transaction creation, and sending internally
+   * Signs with the request's signer or mnemonic, or the wallet's signer
    */
   async sendTransaction(request: SendRequest): Promise<SendResult> {
-    const { mnemonic, destinations, fee, maturityBlocks } = request;
+    const { mnemonic, destinations, fee, maturityBlocks, childIndexes, coinSelection } = request;
 
-    // Derive keys from mnemonic
-    const { publicKey, privateKey } = deriveKeysFromMnemonic(mnemonic);
+    const signer = request.signer
+      ?? (mnemonic !== undefined ? new MnemonicSigner(mnemonic, childIndexes ?? []) : this.signer);
+    if (!signer) {
+      throw new Error('No signer available: pass a signer or mnemonic, or configure the wallet with a signer');
+    }
 
     // Get current height and available outputs
     const syncState = this.walletSync.getState();
@@ -131,15 +172,16 @@ export class Wallet {
     }
 
     // Create transaction
-    const builtTx = createTransaction(
+    const builtTx = await createTransaction(
       availableOutputs,
       destinations,
-      publicKey,
-      privateKey,
+      signer,
       currentHeight,
       this.node,
-      maturityBlocks ?? MATURITY_BLOCKS,
-      fee ?? 1000
+      maturityBlocks ?? this.network.maturityBlocks,
+      this.resolveFee(fee),
+      this.network,
+      coinSelection
     );
 
     if (!builtTx) {
@@ -151,10 +193,73 @@ export class Wallet {
 
     return {
       hash: result.hash,
-      fee: result.fee,
+      fee: builtTx.fee,
       inputsUsed: builtTx.inputs.length,
-      change: builtTx.outputs[builtTx.outputs.length - 1].amount,
+      change: builtTx.selection.change,
       txHex: builtTx.txHex,
+      selection: builtTx.selection,
     };
   }
+
+  /**
+   * Estimate the fee and size of a send without signing anything
+   * Picks from the outputs of the wallet's keys; returns null when the balance does not cover it.
+   */
+  estimateFee(
+    destinations: TransactionDestination[],
+    fee?: FeeSetting,
+    maturityBlocks?: number,
+    coinSelection?: CoinSelectionStrategy
+  ): FeeEstimate | null {
+    const picker = new TransactionPicker(
+      this.walletSync.getAvailableOutputs(),
+      this.walletSync.getState().currentHeight,
+      maturityBlocks ?? this.network.maturityBlocks,
+      this.publicKey,
+      [this.publicKey, ...this.childPublicKeys],
+      coinSelection
+    );
+    const picked = pickInputsWithFee(picker, destinations, this.publicKey, this.resolveFee(fee), this.network);
+    return picked ? picked.estimate : null;
+  }
+
+  /**
+   * Output count and size histogram of the spendable outputs
+   */
+  getFragmentationReport(): FragmentationReport {
+    return getFragmentationReport(this.walletSync.getAvailableOutputs(), { priority: 'low', policy: this.feePolicy });
+  }
+
+  /**
+   * Consolidation of this wallet's outputs into fewer, larger ones
+   * Call run() on the result; the wallet must keep syncing meanwhile (performSync).
+   */
+  createConsolidation(
+    options: Omit<ConsolidationExecutorConfig, 'source' | 'node' | 'network' | 'signer'> & { signer?: Signer } = {}
+  ): ConsolidationExecutor {
+    const signer = options.signer ?? this.signer;
+    if (!signer) {
+      throw new Error('No signer available: pass a signer or configure the wallet with a signer');
+    }
+
+    return new ConsolidationExecutor({
+      ...options,
+      fee: this.resolveFee(options.fee ?? 'low'),
+      signer,
+      source: this.walletSync,
+      node: this.node,
+      network: this.network,
+    });
+  }
+
+  /**
+   * Apply the wallet's fee policy to a priority tier
+   */
+  private resolveFee(fee: FeeSetting = 'normal'): FeeSetting {
+    if (typeof fee === 'number') {
+      return fee;
+    }
+    const options: FeeOptions = typeof fee === 'string' ? { priority: fee } : fee;
+    return { policy: this.feePolicy, ...options };
+  }
 }
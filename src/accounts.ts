@@ -0,0 +1,350 @@
+/**
+ * Pastella Deterministic Accounts
+ *
+ * Derives multiple independent keypairs (accounts) from a single mnemonic
+ * and discovers which of them have been used on chain.
+ *
+ * Derivation scheme:
+ *   account 0:  the mnemonic's own key (the regular wallet address)
+ *   account i:  sec_i = Hs("PastellaAccount\0" || sec_0 || uint32_le(i))
+ *               pub_i = sec_i * G
+ * where Hs is Keccak-256 reduced modulo the curve order. Knowing one account key
+ * reveals nothing about the others or about the mnemonic.
+ *
+ * Public (watch-only) child keys, for handing out receive addresses from a
+ * server that only holds the master public key:
+ *   t_i   = Hs("PastellaChild\0" || pub || uint32_le(i))
+ *   pub_i = pub + t_i * G
+ *   sec_i = sec + t_i
+ * Unlike accounts, anyone with the master public key can link these children,
+ * and a leaked child private key together with the master public key reveals
+ * the master private key.
+ */
+
+import { hashToScalar, bytesToHex, scalarAdd, addScalarToPublicKey } from './crypto';
+import {
+  derivePrivateKeyFromMnemonic,
+  derivePublicKeyFromPrivateKey,
+  publicKeyHexToAddress,
+} from './index';
+import { WalletSync } from './walletSync';
+import { Keyring } from './transaction';
+import { NodeConfig, WalletSyncState } from './types';
+import { MAINNET, NetworkParams } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DerivedAccount {
+  index: number;
+  publicKey: string;   // Hex public key (64 chars)
+  privateKey: string;  // Hex private key (64 chars)
+  address: string;
+}
+
+export interface DiscoveredAccount extends DerivedAccount {
+  outputCount: number; // Outputs ever received (within the scanned range)
+  balance: number;     // Unspent amount in atomic units
+}
+
+export interface AccountDiscoveryOptions {
+  gapLimit?: number;        // Consecutive unused accounts that end the scan (default: 5)
+  startHeight?: number;     // Block height to scan from (default: 0)
+  language?: string;        // Mnemonic language (auto-detected when not given)
+  network?: NetworkParams;  // Network to scan and render addresses for (default: MAINNET)
+  onSyncProgress?: (state: WalletSyncState) => void;
+}
+
+export interface AccountDiscoveryResult {
+  accounts: DiscoveredAccount[];  // Used accounts, ordered by index
+  nextIndex: number;              // First index after the last used account
+  scannedHeight: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ACCOUNT_DOMAIN = 'PastellaAccount\0';
+const CHILD_DOMAIN = 'PastellaChild\0';
+const DEFAULT_GAP_LIMIT = 5;
+const MAX_DERIVATION_INDEX = 0xffffffff;
+
+// ============================================================================
+// DERIVATION
+// ============================================================================
+
+/**
+ * Derive the private key of an account from the master (account 0) private key
+ */
+export function deriveAccountPrivateKey(masterPrivateKey: string, index: number): string {
+  assertIndex(index);
+  if (index === 0) {
+    return masterPrivateKey;
+  }
+
+  return bytesToHex(hashIndexedKey(ACCOUNT_DOMAIN, masterPrivateKey, index));
+}
+
+/**
+ * Derive account `index` from a mnemonic
+ * Account 0 is the wallet the mnemonic has always produced.
+ *
+ * @param network - Network of the account address (default: MAINNET)
+ */
+export function deriveAccount(
+  mnemonic: string,
+  index: number,
+  language?: string,
+  network: NetworkParams = MAINNET
+): DerivedAccount {
+  const masterPrivateKey = derivePrivateKeyFromMnemonic(mnemonic, language);
+  return deriveAccountFromPrivateKey(masterPrivateKey, index, network);
+}
+
+/**
+ * Derive account `index` from the master private key
+ */
+export function deriveAccountFromPrivateKey(
+  masterPrivateKey: string,
+  index: number,
+  network: NetworkParams = MAINNET
+): DerivedAccount {
+  const privateKey = deriveAccountPrivateKey(masterPrivateKey, index);
+  const publicKey = derivePublicKeyFromPrivateKey(privateKey);
+
+  return {
+    index,
+    publicKey,
+    privateKey,
+    address: publicKeyHexToAddress(publicKey, network),
+  };
+}
+
+/**
+ * Derive `count` consecutive accounts starting at `startIndex`
+ */
+export function deriveAccounts(
+  mnemonic: string,
+  count: number,
+  startIndex: number = 0,
+  language?: string,
+  network: NetworkParams = MAINNET
+): DerivedAccount[] {
+  const masterPrivateKey = derivePrivateKeyFromMnemonic(mnemonic, language);
+  const accounts: DerivedAccount[] = [];
+  for (let i = 0; i < count; i++) {
+    accounts.push(deriveAccountFromPrivateKey(masterPrivateKey, startIndex + i, network));
+  }
+  return accounts;
+}
+
+// ============================================================================
+// PUBLIC (WATCH-ONLY) DERIVATION
+// ============================================================================
+
+/**
+ * Compute the tweak scalar t_i for child `index` of a master public key
+ */
+export function deriveChildTweak(masterPublicKey: string, index: number): Uint8Array {
+  assertIndex(index);
+  return hashIndexedKey(CHILD_DOMAIN, masterPublicKey, index);
+}
+
+/**
+ * Derive child public key `index` from the master public key alone
+ */
+export function deriveChildPublicKey(masterPublicKey: string, index: number): string {
+  const tweak = deriveChildTweak(masterPublicKey, index);
+  return bytesToHex(addScalarToPublicKey(masterPublicKey, tweak));
+}
+
+/**
+ * Derive the receive address of child `index` from the master public key alone
+ */
+export function deriveChildAddress(masterPublicKey: string, index: number, network: NetworkParams = MAINNET): string {
+  return publicKeyHexToAddress(deriveChildPublicKey(masterPublicKey, index), network);
+}
+
+/**
+ * Derive `count` consecutive child public keys, e.g. for WalletSync publicKeys
+ */
+export function deriveChildPublicKeys(
+  masterPublicKey: string,
+  count: number,
+  startIndex: number = 0
+): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < count; i++) {
+    keys.push(deriveChildPublicKey(masterPublicKey, startIndex + i));
+  }
+  return keys;
+}
+
+/**
+ * Derive the private key matching deriveChildPublicKey(masterPublicKey, index)
+ * The result can be passed to generateSchnorrSignature with the child public key.
+ */
+export function deriveChildPrivateKey(masterPrivateKey: string, index: number): string {
+  const masterPublicKey = derivePublicKeyFromPrivateKey(masterPrivateKey);
+  const tweak = deriveChildTweak(masterPublicKey, index);
+  return bytesToHex(scalarAdd(hexToBytes(masterPrivateKey), tweak));
+}
+
+/**
+ * Build a keyring (public key -> private key) holding the master key and the
+ * given child indexes, for an InMemorySigner to sign outputs sent to children
+ */
+export function createChildKeyring(masterPrivateKey: string, indexes: number[]): Keyring {
+  const masterPublicKey = derivePublicKeyFromPrivateKey(masterPrivateKey);
+  const masterBytes = hexToBytes(masterPrivateKey);
+  const keyring: Keyring = new Map([[masterPublicKey, masterPrivateKey]]);
+
+  for (const index of indexes) {
+    const tweak = deriveChildTweak(masterPublicKey, index);
+    const privateKey = bytesToHex(scalarAdd(masterBytes, tweak));
+    keyring.set(bytesToHex(addScalarToPublicKey(masterPublicKey, tweak)), privateKey);
+  }
+
+  return keyring;
+}
+
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+/**
+ * Discover the accounts of a mnemonic that have been used on chain
+ *
+ * Scans the chain with WalletSync for the public keys of accounts 0..n and
+ * extends the window until `gapLimit` consecutive accounts after the last
+ * used one have no outputs. Each extension rescans from startHeight.
+ */
+export async function discoverAccounts(
+  mnemonic: string,
+  node: NodeConfig,
+  options: AccountDiscoveryOptions = {}
+): Promise<AccountDiscoveryResult> {
+  const gapLimit = options.gapLimit ?? DEFAULT_GAP_LIMIT;
+  if (gapLimit < 1) {
+    throw new Error('Gap limit must be at least 1');
+  }
+
+  const masterPrivateKey = derivePrivateKeyFromMnemonic(mnemonic, options.language);
+  const network = options.network ?? MAINNET;
+  const derived: DerivedAccount[] = [];
+  let windowEnd = gapLimit;
+
+  while (true) {
+    while (derived.length < windowEnd) {
+      derived.push(deriveAccountFromPrivateKey(masterPrivateKey, derived.length, network));
+    }
+
+    const walletSync = new WalletSync({
+      node,
+      network,
+      publicKeys: derived.map(account => account.publicKey),
+      startHeight: options.startHeight ?? 0,
+      onSyncProgress: options.onSyncProgress,
+    });
+
+    await walletSync.start();
+    walletSync.stop();
+
+    const state = walletSync.getState();
+    if (state.syncErrors.length > 0) {
+      throw new Error(`Account discovery failed: ${state.syncErrors[state.syncErrors.length - 1]}`);
+    }
+
+    const outputs = walletSync.getOutputs();
+    const accounts: DiscoveredAccount[] = [];
+
+    for (const account of derived) {
+      const owned = outputs.filter(output => output.key === account.publicKey);
+      if (owned.length === 0) {
+        continue;
+      }
+      accounts.push({
+        ...account,
+        outputCount: owned.length,
+        balance: owned
+          .filter(output => !output.spentHeight)
+          .reduce((sum, output) => sum + output.amount, 0),
+      });
+    }
+
+    const lastUsed = accounts.length > 0 ? accounts[accounts.length - 1].index : -1;
+    const requiredEnd = lastUsed + 1 + gapLimit;
+
+    if (windowEnd >= requiredEnd) {
+      return {
+        accounts,
+        nextIndex: lastUsed + 1,
+        scannedHeight: state.currentHeight,
+      };
+    }
+
+    windowEnd = requiredEnd;
+  }
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate a derivation index (uint32)
+ */
+function assertIndex(index: number): void {
+  if (!Number.isInteger(index) || index < 0 || index > MAX_DERIVATION_INDEX) {
+    throw new Error(`Derivation index must be an integer between 0 and ${MAX_DERIVATION_INDEX}`);
+  }
+}
+
+/**
+ * Hs(domain || key || uint32_le(index))
+ */
+function hashIndexedKey(domain: string, keyHex: string, index: number): Uint8Array {
+  const domainBytes = new TextEncoder().encode(domain);
+  const key = hexToBytes(keyHex);
+  if (key.length !== 32) {
+    throw new Error(`Key must be 32 bytes, got ${key.length}`);
+  }
+
+  const data = new Uint8Array(domainBytes.length + 32 + 4);
+  data.set(domainBytes, 0);
+  data.set(key, domainBytes.length);
+  new DataView(data.buffer).setUint32(domainBytes.length + 32, index, true);
+
+  return hashToScalar(data);
+}
+
+/**
+ * Convert hex string to bytes
+ */
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  deriveAccount,
+  deriveAccounts,
+  deriveAccountFromPrivateKey,
+  deriveAccountPrivateKey,
+  deriveChildTweak,
+  deriveChildPublicKey,
+  deriveChildPublicKeys,
+  deriveChildAddress,
+  deriveChildPrivateKey,
+  createChildKeyring,
+  discoverAccounts,
+};
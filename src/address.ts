@@ -0,0 +1,245 @@
+/**
+ * Pastella Address Codec
+ *
+ * Single place where addresses are encoded and decoded. Decoding checks the
+ * Base58 alphabet, the varint prefix against the configured network, the
+ * payload length and the Keccak-256 checksum, and reports which check failed.
+ *
+ * Address formats (Base58, CryptoNote block encoding):
+ *   standard:   [varint addressPrefix]           [publicKey 32]                [checksum 4]
+ *   integrated: [varint integratedAddressPrefix] [publicKey 32] [paymentId 32] [checksum 4]
+ * with the prefixes taken from the network (default: MAINNET).
+ * where checksum is the first 4 bytes of Keccak-256 of the preceding bytes.
+ */
+
+import { keccak256 } from 'js-sha3';
+import { PAYMENT_ID_SIZE, MAINNET, NetworkParams } from './config';
+import { base58Encode, base58Decode } from './index';
+import { hexToBytes, bytesToHex, InvalidAddressError, InvalidPaymentIdError } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AddressKind = 'standard' | 'integrated';
+
+export type AddressDecodeFailure =
+  | 'invalid_base58'    // Empty, characters outside the alphabet, or a non-canonical encoding
+  | 'wrong_length'      // Payload size does not match the address kind
+  | 'bad_prefix'        // Varint prefix is not one of the network's prefixes
+  | 'bad_checksum';     // Keccak-256 checksum does not match
+
+export interface DecodedAddress {
+  valid: true;
+  kind: AddressKind;
+  address: string;
+  publicKey: string;
+  paymentId?: string;   // Integrated addresses only
+}
+
+export interface AddressDecodeError {
+  valid: false;
+  error: AddressDecodeFailure;
+  message: string;
+}
+
+export type AddressDecodeResult = DecodedAddress | AddressDecodeError;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]+$/;
+const HEX_KEY_PATTERN = /^[0-9a-fA-F]{64}$/;
+const CHECKSUM_SIZE = 4;
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Encode a public key (and optional payment ID) as an address
+ * With a payment ID the result is an integrated address.
+ */
+export function encodeAddress(publicKey: string | Uint8Array, paymentId?: string, network: NetworkParams = MAINNET): string {
+  const keyBytes = typeof publicKey === 'string' ? hexToBytes(publicKey) : publicKey;
+  if (keyBytes.length !== 32) {
+    throw new Error(`Public key must be 32 bytes, got ${keyBytes.length}`);
+  }
+  if (paymentId !== undefined && !/^[0-9a-fA-F]+$/.test(paymentId)) {
+    throw new InvalidPaymentIdError(paymentId);
+  }
+  const paymentIdBytes = paymentId !== undefined ? hexToBytes(paymentId) : new Uint8Array(0);
+  if (paymentId !== undefined && paymentIdBytes.length !== PAYMENT_ID_SIZE) {
+    throw new InvalidPaymentIdError(paymentId);
+  }
+
+  const prefix = encodeVarint(paymentId !== undefined ? network.integratedAddressPrefix : network.addressPrefix);
+  const payloadLength = prefix.length + 32 + paymentIdBytes.length;
+
+  const data = new Uint8Array(payloadLength + CHECKSUM_SIZE);
+  data.set(prefix, 0);
+  data.set(keyBytes, prefix.length);
+  data.set(paymentIdBytes, prefix.length + 32);
+  data.set(checksumOf(data.subarray(0, payloadLength)), payloadLength);
+
+  return base58Encode(data);
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+/**
+ * Decode and fully verify an address
+ * Never throws; check `valid` and, on failure, `error`.
+ */
+export function decodeAddress(address: string, network: NetworkParams = MAINNET): AddressDecodeResult {
+  if (typeof address !== 'string' || !BASE58_PATTERN.test(address)) {
+    return failure('invalid_base58', 'Address contains characters outside the Base58 alphabet');
+  }
+
+  let decoded: Uint8Array;
+  try {
+    decoded = base58Decode(address);
+  } catch (error) {
+    return failure('wrong_length', `Address length ${address.length} is not a valid Base58 length`);
+  }
+
+  const { value: prefix, bytesRead } = decodeVarint(decoded);
+
+  let kind: AddressKind;
+  if (bytesRead > 0 && prefix === network.addressPrefix) {
+    kind = 'standard';
+  } else if (bytesRead > 0 && prefix === network.integratedAddressPrefix) {
+    kind = 'integrated';
+  } else {
+    return failure('bad_prefix', `Address prefix does not belong to ${network.name}`);
+  }
+
+  const payloadLength = bytesRead + 32 + (kind === 'integrated' ? PAYMENT_ID_SIZE : 0);
+  if (decoded.length !== payloadLength + CHECKSUM_SIZE) {
+    return failure(
+      'wrong_length',
+      `Decoded ${kind} address is ${decoded.length} bytes, expected ${payloadLength + CHECKSUM_SIZE}`
+    );
+  }
+
+  const checksum = checksumOf(decoded.subarray(0, payloadLength));
+  for (let i = 0; i < CHECKSUM_SIZE; i++) {
+    if (decoded[payloadLength + i] !== checksum[i]) {
+      return failure('bad_checksum', 'Address checksum does not match');
+    }
+  }
+
+  // Blocks that overflow 64 bits decode to the same bytes as a canonical encoding
+  if (base58Encode(decoded) !== address) {
+    return failure('invalid_base58', 'Address is not canonically Base58 encoded');
+  }
+
+  const result: DecodedAddress = {
+    valid: true,
+    kind,
+    address,
+    publicKey: bytesToHex(decoded.slice(bytesRead, bytesRead + 32)),
+  };
+  if (kind === 'integrated') {
+    result.paymentId = bytesToHex(decoded.slice(bytesRead + 32, payloadLength));
+  }
+  return result;
+}
+
+/**
+ * Check whether an address is valid (standard or integrated)
+ */
+export function isValidAddress(address: string, network: NetworkParams = MAINNET): boolean {
+  return decodeAddress(address, network).valid;
+}
+
+/**
+ * Same as isValidAddress; the name the utils module used to export
+ */
+export const validateAddress = isValidAddress;
+
+/**
+ * Decode an address, throwing InvalidAddressError naming the failed check
+ */
+export function decodeAddressOrThrow(address: string, network: NetworkParams = MAINNET): DecodedAddress {
+  const result = decodeAddress(address, network);
+  if (result.valid === false) {
+    throw new InvalidAddressError(address, result.error);
+  }
+  return result;
+}
+
+/**
+ * Output key for a send destination
+ * Accepts a standard or integrated address, or a raw 64-char hex public key.
+ */
+export function resolveDestinationKey(
+  destination: string,
+  network: NetworkParams = MAINNET
+): { publicKey: string; paymentId?: string } {
+  if (HEX_KEY_PATTERN.test(destination)) {
+    return { publicKey: destination.toLowerCase() };
+  }
+
+  const decoded = decodeAddressOrThrow(destination, network);
+  return decoded.paymentId !== undefined
+    ? { publicKey: decoded.publicKey, paymentId: decoded.paymentId }
+    : { publicKey: decoded.publicKey };
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+function failure(error: AddressDecodeFailure, message: string): AddressDecodeError {
+  return { valid: false, error, message };
+}
+
+function checksumOf(data: Uint8Array): Uint8Array {
+  return hexToBytes(keccak256(data)).subarray(0, CHECKSUM_SIZE);
+}
+
+/**
+ * Encode a number as varint
+ */
+function encodeVarint(num: number): Uint8Array {
+  const bytes: number[] = [];
+  while (num >= 0x80) {
+    bytes.push((num & 0x7f) | 0x80);
+    num >>>= 7;
+  }
+  bytes.push(num);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode a varint from the start of the data; bytesRead is 0 if it is unterminated
+ */
+function decodeVarint(data: Uint8Array): { value: number; bytesRead: number } {
+  let value = 0;
+  let shift = 0;
+  for (let i = 0; i < data.length && shift < 35; i++) {
+    value += (data[i] & 0x7f) * 2 ** shift;
+    if ((data[i] & 0x80) === 0) {
+      return { value, bytesRead: i + 1 };
+    }
+    shift += 7;
+  }
+  return { value: 0, bytesRead: 0 };
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  encodeAddress,
+  decodeAddress,
+  decodeAddressOrThrow,
+  isValidAddress,
+  validateAddress,
+  resolveDestinationKey,
+};
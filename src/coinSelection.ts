@@ -0,0 +1,268 @@
+/**
+ * Pastella Coin Selection
+ *
+ * Strategies that decide which spendable outputs pay for a transaction.
+ * Every selected output comes with the reason it was chosen, which
+ * TransactionPicker collects into a CoinSelectionReport.
+ *
+ * Strategies:
+ *   largest-first     fewest inputs; big change outputs stay locked for MATURITY_BLOCKS
+ *   smallest-first    spends small outputs first, tidying the wallet at the cost of size
+ *   branch-and-bound  searches for inputs that exactly match, so no change is created;
+ *                     falls back to largest-first when there is no exact match
+ *   oldest-first      spends outputs in the order they were received
+ *   random            random order, plus a few small outputs to consolidate
+ *                     when the wallet holds many of them
+ *
+ * A custom CoinSelector function can be passed wherever a strategy name is accepted.
+ */
+
+import { WalletOutput } from './types';
+import { getSecureRandomBytesSync } from './entropy';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CoinSelectionStrategyName =
+  | 'largest-first'
+  | 'smallest-first'
+  | 'branch-and-bound'
+  | 'oldest-first'
+  | 'random';
+
+export interface SelectedCoin {
+  output: WalletOutput;
+  reason: string;            // Why this output was chosen, for the selection report
+}
+
+/**
+ * Choose outputs from the candidates (all spendable) that cover the target
+ * (amount plus fee). Returns null when they cannot.
+ */
+export type CoinSelector = (candidates: WalletOutput[], target: number) => SelectedCoin[] | null;
+
+export type CoinSelectionStrategy = CoinSelectionStrategyName | CoinSelector;
+
+export interface CoinSelectionReportInput {
+  transactionHash: string;
+  outputIndex: number;
+  amount: number;
+  blockHeight: number;
+  reason: string;
+}
+
+export interface CoinSelectionReport {
+  strategy: string;          // Strategy name, or 'custom'
+  target: number;            // Amount plus fee to cover
+  candidates: number;        // Spendable outputs considered
+  inputs: CoinSelectionReportInput[];
+  totalSelected: number;
+  change: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BNB_MAX_TRIES = 100000;            // Search steps before branch-and-bound gives up
+const CONSOLIDATION_THRESHOLD = 20;      // 'random' tidies up above this many spendable outputs
+const CONSOLIDATION_MAX_EXTRA_INPUTS = 4; // ... adding at most this many small outputs
+
+// ============================================================================
+// STRATEGIES
+// ============================================================================
+
+/**
+ * Largest outputs first: the fewest inputs
+ */
+export function selectLargestFirst(candidates: WalletOutput[], target: number): SelectedCoin[] | null {
+  const sorted = [...candidates].sort((a, b) => b.amount - a.amount);
+  return accumulate(sorted, target, 'largest available output');
+}
+
+/**
+ * Smallest outputs first: spends dust before it accumulates
+ */
+export function selectSmallestFirst(candidates: WalletOutput[], target: number): SelectedCoin[] | null {
+  const sorted = [...candidates].sort((a, b) => a.amount - b.amount);
+  return accumulate(sorted, target, 'smallest available output');
+}
+
+/**
+ * Oldest outputs first, by block height (larger first within a block)
+ */
+export function selectOldestFirst(candidates: WalletOutput[], target: number): SelectedCoin[] | null {
+  const sorted = [...candidates].sort((a, b) => a.blockHeight - b.blockHeight || b.amount - a.amount);
+  return accumulate(sorted, target, output => `oldest available output (block ${output.blockHeight})`);
+}
+
+/**
+ * Depth-first search for outputs summing to exactly the target, so the
+ * transaction needs no change output. Largest outputs are tried first, so a
+ * match with few inputs is found early. The search is bounded and falls back
+ * to largest-first when it finds nothing.
+ */
+export function selectBranchAndBound(candidates: WalletOutput[], target: number): SelectedCoin[] | null {
+  const sorted = [...candidates].sort((a, b) => b.amount - a.amount);
+
+  // remaining[i] = sum of sorted[i..], to prune branches that cannot reach the target
+  const remaining = new Array<number>(sorted.length + 1).fill(0);
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    remaining[i] = remaining[i + 1] + sorted[i].amount;
+  }
+
+  // Outputs with the same amount lead to the same sums; skip past all of them
+  const nextDistinct = (index: number): number => {
+    let next = index + 1;
+    while (next < sorted.length && sorted[next].amount === sorted[index].amount) {
+      next++;
+    }
+    return next;
+  };
+
+  const chosen: number[] = [];
+  let sum = 0;
+  let index = 0;
+
+  for (let tries = 0; target > 0 && tries < BNB_MAX_TRIES; tries++) {
+    if (sum === target) {
+      return chosen.map(i => ({ output: sorted[i], reason: 'part of an exact match (no change output)' }));
+    }
+
+    if (index < sorted.length && sum + remaining[index] >= target) {
+      if (sum + sorted[index].amount <= target) {
+        // Include this output and go deeper
+        chosen.push(index);
+        sum += sorted[index].amount;
+        index++;
+      } else {
+        // Overshoots: leave it out
+        index = nextDistinct(index);
+      }
+      continue;
+    }
+
+    // Dead end: drop the last included output and try the branch without it
+    if (chosen.length === 0) {
+      break;
+    }
+    const last = chosen.pop() as number;
+    sum -= sorted[last].amount;
+    index = nextDistinct(last);
+  }
+
+  return accumulate(sorted, target, 'largest available output (no exact match found)');
+}
+
+/**
+ * Random order, which keeps selections from revealing the wallet's layout;
+ * a wallet with many outputs also spends a few of its smallest ones so they
+ * do not keep piling up
+ */
+export function selectRandom(candidates: WalletOutput[], target: number): SelectedCoin[] | null {
+  const selected = accumulate(shuffle(candidates), target, 'random pick');
+  if (!selected || candidates.length <= CONSOLIDATION_THRESHOLD) {
+    return selected;
+  }
+
+  const used = new Set(selected.map(coin => coin.output));
+  const smallest = candidates
+    .filter(output => !used.has(output))
+    .sort((a, b) => a.amount - b.amount)
+    .slice(0, CONSOLIDATION_MAX_EXTRA_INPUTS);
+
+  for (const output of smallest) {
+    selected.push({
+      output,
+      reason: `small output consolidated (${candidates.length} spendable outputs)`,
+    });
+  }
+  return selected;
+}
+
+/**
+ * Run a strategy by name or a custom selector
+ */
+export function selectCoins(
+  candidates: WalletOutput[],
+  target: number,
+  strategy: CoinSelectionStrategy = 'largest-first'
+): SelectedCoin[] | null {
+  return getCoinSelector(strategy)(candidates, target);
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+function getCoinSelector(strategy: CoinSelectionStrategy): CoinSelector {
+  if (typeof strategy === 'function') {
+    return strategy;
+  }
+
+  switch (strategy) {
+    case 'largest-first':
+      return selectLargestFirst;
+    case 'smallest-first':
+      return selectSmallestFirst;
+    case 'branch-and-bound':
+      return selectBranchAndBound;
+    case 'oldest-first':
+      return selectOldestFirst;
+    case 'random':
+      return selectRandom;
+    default:
+      throw new Error(`Unknown coin selection strategy: ${strategy}`);
+  }
+}
+
+/**
+ * Take outputs in order until they cover the target
+ */
+function accumulate(
+  ordered: WalletOutput[],
+  target: number,
+  reason: string | ((output: WalletOutput) => string)
+): SelectedCoin[] | null {
+  const selected: SelectedCoin[] = [];
+  let total = 0;
+
+  for (const output of ordered) {
+    if (total >= target && selected.length > 0) {
+      break;
+    }
+    selected.push({ output, reason: typeof reason === 'string' ? reason : reason(output) });
+    total += output.amount;
+  }
+
+  return total >= target ? selected : null;
+}
+
+/**
+ * Fisher-Yates shuffle with bytes from the entropy source
+ */
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  const bytes = getSecureRandomBytesSync(4 * result.length);
+  const random = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = random.getUint32(4 * i, true) % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  selectLargestFirst,
+  selectSmallestFirst,
+  selectBranchAndBound,
+  selectOldestFirst,
+  selectRandom,
+  selectCoins,
+};
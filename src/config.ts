@@ -11,6 +11,17 @@
 export const WALLET_ADDRESS_PREFIX = 0x198004;
 export const WALLET_ADDRESS_PREFIX_STRING = "PAS";
 
+/**
+ * Base58 address prefix for integrated addresses (public key + payment ID)
+ * Encoded the same way as WALLET_ADDRESS_PREFIX; these addresses start with "PAS2"
+ */
+export const INTEGRATED_ADDRESS_PREFIX = 0x1a0004;
+
+/**
+ * Payment ID size in bytes
+ */
+export const PAYMENT_ID_SIZE = 32;
+
 /**
  * Number of decimal places for coin amounts
  * 1 PAS = 100,000,000 atomic units (8 decimal places)
@@ -58,6 +69,18 @@ export const STAKING_ENABLE_HEIGHT = 1000;
  */
 export const TX_EXTRA_STAKING = 0x04;
 
+/**
+ * Transaction extra field tag for the extra nonce (0x02)
+ * Format: [0x02][varint length][nonce bytes]
+ */
+export const TX_EXTRA_NONCE = 0x02;
+
+/**
+ * First byte of an extra nonce that carries a payment ID
+ * Format: [0x00][32 bytes payment ID]
+ */
+export const TX_EXTRA_NONCE_PAYMENT_ID = 0x00;
+
 /**
  * Staking transaction type identifier
  */
@@ -83,3 +106,89 @@ export const ANNUAL_REWARD_RATES = [5, 10, 20, 35];
  * Number of blocks to wait for preparation transaction to confirm
  */
 export const STAKING_PREPARATION_TIMEOUT_SECONDS = 300; // 5 minutes
+
+// ============================================================================
+// NETWORK PROFILES
+// ============================================================================
+
+/**
+ * Consensus parameters that differ between networks
+ * The constants above are the mainnet values; pass a NetworkParams to
+ * Wallet, WalletSync, the transaction builder, staking and the address codec
+ * to work on another network. Several networks can be used side by side.
+ */
+export interface NetworkParams {
+  name: string;
+  addressPrefix: number;             // Varint prefix of standard addresses
+  addressPrefixString: string;       // Leading characters of standard addresses
+  integratedAddressPrefix: number;   // Varint prefix of integrated addresses
+  maturityBlocks: number;
+  minFee: number;                    // Atomic units
+  stakingEnableHeight: number;
+  blockTimeSeconds: number;
+  lockPeriodsDays: number[];
+  annualRewardRates: number[];       // Percentage, index matches lockPeriodsDays
+}
+
+/**
+ * Pastella mainnet
+ */
+export const MAINNET: NetworkParams = Object.freeze({
+  name: 'mainnet',
+  addressPrefix: WALLET_ADDRESS_PREFIX,
+  addressPrefixString: WALLET_ADDRESS_PREFIX_STRING,
+  integratedAddressPrefix: INTEGRATED_ADDRESS_PREFIX,
+  maturityBlocks: MATURITY_BLOCKS,
+  minFee: MIN_FEE,
+  stakingEnableHeight: STAKING_ENABLE_HEIGHT,
+  blockTimeSeconds: BLOCK_TIME_SECONDS,
+  lockPeriodsDays: Object.freeze([...MIN_LOCK_PERIOD_DAYS]) as number[],
+  annualRewardRates: Object.freeze([...ANNUAL_REWARD_RATES]) as number[],
+});
+
+/**
+ * Pastella public testnet
+ * Mainnet rules with separate address prefixes ("TPAS" / "TPAT"), so testnet
+ * addresses are never accepted on mainnet and vice versa
+ */
+export const TESTNET: NetworkParams = Object.freeze({
+  ...MAINNET,
+  name: 'testnet',
+  addressPrefix: 0x1d9d1d,
+  addressPrefixString: 'TPAS',
+  integratedAddressPrefix: 0x1e1d1d,
+});
+
+/**
+ * Define a custom network (private testnet, local devnet) on top of a preset
+ *
+ * @param overrides - Parameters that differ from the base network; `name` is required
+ * @param base - Network to start from (default: TESTNET)
+ */
+export function createNetworkParams(
+  overrides: Partial<NetworkParams> & { name: string },
+  base: NetworkParams = TESTNET
+): NetworkParams {
+  const network: NetworkParams = { ...base, ...overrides };
+
+  if (network.addressPrefix === network.integratedAddressPrefix) {
+    throw new Error('Standard and integrated address prefixes must differ');
+  }
+  if (network.lockPeriodsDays.length !== network.annualRewardRates.length) {
+    throw new Error('lockPeriodsDays and annualRewardRates must have the same length');
+  }
+  for (const key of ['maturityBlocks', 'minFee', 'stakingEnableHeight', 'addressPrefix', 'integratedAddressPrefix'] as const) {
+    if (!Number.isSafeInteger(network[key]) || network[key] < 0) {
+      throw new Error(`${key} must be a non-negative integer`);
+    }
+  }
+  if (!(network.blockTimeSeconds > 0)) {
+    throw new Error('blockTimeSeconds must be positive');
+  }
+
+  return Object.freeze({
+    ...network,
+    lockPeriodsDays: Object.freeze([...network.lockPeriodsDays]) as number[],
+    annualRewardRates: Object.freeze([...network.annualRewardRates]) as number[],
+  });
+}
@@ -0,0 +1,558 @@
+/**
+ * Pastella UTXO Consolidation
+ *
+ * Mining and staking wallets collect many small outputs, and a send that
+ * has to spend hundreds of them fails or becomes huge. Consolidation merges
+ * them with self-sends ahead of time.
+ *
+ *   getFragmentationReport(outputs)    output count, size histogram and dust
+ *   planConsolidation(outputs)         size-bounded self-sends for one round
+ *   ConsolidationExecutor              broadcasts round after round until the
+ *                                      wallet is down to the target output count
+ *
+ * Each round turns up to maxInputsPerTransaction outputs into one. The
+ * outputs a round creates only become spendable after MATURITY_BLOCKS, so
+ * the executor waits for them to show up among the wallet's available
+ * outputs before it plans the next round.
+ */
+
+import { WalletOutput, NodeConfig } from './types';
+import { TransactionBuilder, TransactionPickResult, sendTransaction } from './transaction';
+import { FeeSetting, FeePriority, FeeOptions, getTransactionSize, getFeeRate, calculateFee } from './fees';
+import { resolveDestinationKey } from './address';
+import { Signer, getSignerPublicKeys } from './signer';
+import { MAINNET, NetworkParams } from './config';
+import { TransactionFailedError } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FragmentationBucket {
+  min: number;               // Smallest amount in the bucket (inclusive)
+  max: number;               // Largest amount in the bucket (exclusive)
+  count: number;
+  amount: number;            // Sum of the outputs in the bucket
+}
+
+export interface FragmentationReport {
+  outputCount: number;
+  totalAmount: number;
+  smallest: number;
+  largest: number;
+  median: number;
+  histogram: FragmentationBucket[];   // Powers of ten, smallest first
+  inputCost: number;                  // Fee for spending one more input at the report's rate
+  uneconomicalCount: number;          // Outputs worth no more than inputCost
+  uneconomicalAmount: number;
+}
+
+export interface ConsolidationOptions {
+  destination?: string;                // Key or address receiving the merged outputs
+  maxInputsPerTransaction?: number;    // Default: 100
+  maxTransactionSize?: number;         // Bytes (default: 32768)
+  targetOutputCount?: number;          // Stop at this many outputs (default: 1)
+  maxOutputAmount?: number;            // Only merge outputs below this amount (default: all)
+  fee?: FeeSetting;                    // Default: 'low'
+  network?: NetworkParams;             // Default: MAINNET
+}
+
+export interface ConsolidationTransaction {
+  inputs: WalletOutput[];
+  amount: number;            // Merged output: inputs minus fee
+  fee: number;
+  size: number;              // Serialized size in bytes
+}
+
+export interface ConsolidationPlan {
+  transactions: ConsolidationTransaction[];   // This round
+  outputsBefore: number;                       // Outputs considered
+  outputsAfter: number;                        // Outputs left after this round
+  skipped: number;                             // Outputs worth less than spending them costs
+  totalFee: number;
+  estimatedRounds: number;                     // Rounds to reach the target, this one included
+}
+
+/**
+ * Where the executor reads the wallet's outputs; a WalletSync that keeps syncing fits
+ */
+export interface ConsolidationSource {
+  getAvailableOutputs(): WalletOutput[];
+  getState(): { currentHeight: number };
+}
+
+export interface ConsolidationExecutorConfig extends ConsolidationOptions {
+  source: ConsolidationSource;
+  signer: Signer;                       // Signs the inputs; default destination is its primary key
+  node: NodeConfig;
+  maturityBlocks?: number;              // Default: network maturity
+  maxRounds?: number;                   // Default: 10
+  pollInterval?: number;                // ms between checks while waiting (default: 30000)
+  onProgress?: (progress: ConsolidationProgress) => void;
+}
+
+export type ConsolidationPhase = 'idle' | 'broadcasting' | 'waiting' | 'done';
+
+export interface ConsolidationProgress {
+  phase: ConsolidationPhase;
+  round: number;
+  roundTransactions: number;      // Transactions planned this round
+  roundSent: number;              // ... of which broadcast
+  transactionsSent: number;       // All rounds
+  feesPaid: number;
+  outputCount: number;            // Spendable outputs when last planned
+  pendingHashes: string[];        // Transactions whose outputs are not spendable yet
+}
+
+export interface ConsolidationResult {
+  rounds: number;
+  transactions: { hash: string; round: number; inputs: number; amount: number; fee: number }[];
+  feesPaid: number;
+  outputsBefore: number;
+  outputsAfter: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_MAX_INPUTS = 100;
+const DEFAULT_MAX_SIZE = 32768;
+const DEFAULT_MAX_ROUNDS = 10;
+const DEFAULT_POLL_INTERVAL = 30000;
+const DEFAULT_FEE: FeeSetting = 'low';       // Consolidation is never urgent
+
+// Blocks past maturity to wait for a round before deciding it was dropped
+const CONFIRMATION_GRACE_BLOCKS = 60;
+
+const SIGNATURE_SIZE = 64;
+const PLACEHOLDER_KEY = '00'.repeat(32);   // Sizes do not depend on the key itself
+
+// ============================================================================
+// FRAGMENTATION REPORT
+// ============================================================================
+
+/**
+ * Summarize how fragmented a set of outputs is, e.g. WalletSync.getAvailableOutputs()
+ *
+ * @param fee - Rate used to price spending an output (default: 'low')
+ */
+export function getFragmentationReport(
+  outputs: WalletOutput[],
+  fee: FeePriority | FeeOptions = 'low'
+): FragmentationReport {
+  const amounts = outputs.map(output => output.amount).sort((a, b) => a - b);
+  const ratePerByte = getFeeRate(fee);
+
+  const histogram: FragmentationBucket[] = [];
+  if (amounts.length > 0) {
+    let min = powerOfTenBelow(amounts[0]);
+    for (let i = 0; i < amounts.length;) {
+      const max = min === 0 ? 1 : min * 10;
+      const bucket: FragmentationBucket = { min, max, count: 0, amount: 0 };
+      while (i < amounts.length && amounts[i] < max) {
+        bucket.count++;
+        bucket.amount += amounts[i];
+        i++;
+      }
+      histogram.push(bucket);
+      min = max;
+    }
+  }
+
+  // Marginal cost of one typical input (cost varies by a few varint bytes)
+  const inputCost = Math.ceil(inputSize(amounts[amounts.length >> 1] ?? 0) * ratePerByte);
+  const uneconomical = outputs.filter(output => output.amount <= spendCost(output, ratePerByte));
+
+  return {
+    outputCount: amounts.length,
+    totalAmount: amounts.reduce((sum, amount) => sum + amount, 0),
+    smallest: amounts[0] ?? 0,
+    largest: amounts[amounts.length - 1] ?? 0,
+    median: amounts[amounts.length >> 1] ?? 0,
+    histogram,
+    inputCost,
+    uneconomicalCount: uneconomical.length,
+    uneconomicalAmount: uneconomical.reduce((sum, output) => sum + output.amount, 0),
+  };
+}
+
+// ============================================================================
+// PLANNER
+// ============================================================================
+
+/**
+ * Plan one round of consolidation over spendable outputs
+ *
+ * Smallest outputs are merged first, up to maxInputsPerTransaction inputs and
+ * maxTransactionSize bytes per transaction, into one output each. With a
+ * per-byte fee, outputs worth no more than their own share of the fee are
+ * left alone. Later rounds are only estimated: their inputs do not exist yet.
+ */
+export function planConsolidation(outputs: WalletOutput[], options: ConsolidationOptions = {}): ConsolidationPlan {
+  const network = options.network ?? MAINNET;
+  const fee = options.fee ?? DEFAULT_FEE;
+  const maxInputs = options.maxInputsPerTransaction ?? DEFAULT_MAX_INPUTS;
+  const maxSize = options.maxTransactionSize ?? DEFAULT_MAX_SIZE;
+  const target = Math.max(1, options.targetOutputCount ?? 1);
+  const destination = options.destination ?? PLACEHOLDER_KEY;
+  if (!Number.isInteger(maxInputs) || maxInputs < 2) {
+    throw new Error('maxInputsPerTransaction must be at least 2');
+  }
+  resolveDestinationKey(destination, network);
+
+  const ratePerByte = typeof fee === 'number' ? 0 : getFeeRate(fee);
+  const limit = options.maxOutputAmount ?? Infinity;
+  const candidates = outputs.filter(output => output.amount < limit);
+  const eligible = candidates
+    .filter(output => output.amount > spendCost(output, ratePerByte))
+    .sort((a, b) => a.amount - b.amount);
+
+  const plan: ConsolidationPlan = {
+    transactions: [],
+    outputsBefore: outputs.length,
+    outputsAfter: outputs.length,
+    skipped: candidates.length - eligible.length,
+    totalFee: 0,
+    estimatedRounds: 0,
+  };
+
+  let untouched = outputs.length - eligible.length;
+  let remaining = eligible;
+
+  // Merge no more than it takes to reach the target
+  while (remaining.length >= 2 && plan.outputsAfter > target) {
+    // Merging n inputs saves n - 1 outputs
+    const wanted = Math.min(maxInputs, remaining.length, plan.outputsAfter - target + 1);
+    const group = remaining.slice(0, wanted);
+    remaining = remaining.slice(wanted);
+
+    const transaction = buildGroup(group, destination, fee, maxSize, network);
+    if (!transaction) {
+      // Too small to pay the fee; these outputs stay as they are
+      untouched += group.length;
+      continue;
+    }
+
+    // Inputs the size limit cut off go back to the pool
+    remaining = [...group.slice(transaction.inputs.length), ...remaining];
+    plan.transactions.push(transaction);
+    plan.totalFee += transaction.fee;
+    plan.outputsAfter -= transaction.inputs.length - 1;
+  }
+
+  if (plan.transactions.length > 0) {
+    plan.estimatedRounds = 1 + estimateRounds(plan.transactions.length + remaining.length, maxInputs, target, untouched);
+  }
+  return plan;
+}
+
+/**
+ * The largest prefix of the inputs (at least two) that fits the size limit
+ * and pays for itself, as a consolidation transaction
+ */
+function buildGroup(
+  inputs: WalletOutput[],
+  destination: string,
+  fee: FeeSetting,
+  maxSize: number,
+  network: NetworkParams
+): ConsolidationTransaction | null {
+  for (let count = inputs.length; count >= 2;) {
+    const group = inputs.slice(0, count);
+    const total = group.reduce((sum, output) => sum + output.amount, 0);
+
+    // Sized with the full amount: its varint is at least as long as the merged output's
+    const size = getTransactionSize(draftPick(group, destination, total), PLACEHOLDER_KEY, network);
+    if (size > maxSize) {
+      // Inputs are about the same size; shrink by the overshoot and check again
+      const perInput = size / count;
+      count = Math.min(count - 1, Math.floor(count - (size - maxSize) / perInput));
+      continue;
+    }
+
+    const groupFee = typeof fee === 'number' ? fee : calculateFee(size, fee, network);
+    if (total <= groupFee) {
+      return null;
+    }
+    return { inputs: group, amount: total - groupFee, fee: groupFee, size };
+  }
+  return null;
+}
+
+// ============================================================================
+// EXECUTOR
+// ============================================================================
+
+/**
+ * Runs consolidation rounds until the target output count is reached
+ *
+ * ```ts
+ * const executor = new ConsolidationExecutor({ source: walletSync, signer, node, onProgress: console.log });
+ * const result = await executor.run();   // executor.cancel() stops it between steps
+ * ```
+ */
+export class ConsolidationExecutor {
+  private config: ConsolidationExecutorConfig;
+  private progress: ConsolidationProgress = {
+    phase: 'idle',
+    round: 0,
+    roundTransactions: 0,
+    roundSent: 0,
+    transactionsSent: 0,
+    feesPaid: 0,
+    outputCount: 0,
+    pendingHashes: [],
+  };
+  private running: boolean = false;
+  private cancelled: boolean = false;
+  private wakeUp?: () => void;
+
+  constructor(config: ConsolidationExecutorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Current progress
+   */
+  getProgress(): ConsolidationProgress {
+    return { ...this.progress, pendingHashes: [...this.progress.pendingHashes] };
+  }
+
+  /**
+   * Check if consolidation is running
+   */
+  isActive(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Plan, broadcast and wait round by round
+   * Rejects when cancelled or when a round's transactions are not confirmed in time.
+   */
+  async run(): Promise<ConsolidationResult> {
+    if (this.running) {
+      throw new Error('Consolidation is already running');
+    }
+    this.running = true;
+    this.cancelled = false;
+
+    const { source, signer, node } = this.config;
+    const network = this.config.network ?? MAINNET;
+    const maxRounds = this.config.maxRounds ?? DEFAULT_MAX_ROUNDS;
+    const options: ConsolidationOptions = {
+      ...this.config,
+      destination: this.config.destination ?? await signer.getPublicKey(),
+    };
+    const result: ConsolidationResult = { rounds: 0, transactions: [], feesPaid: 0, outputsBefore: 0, outputsAfter: 0 };
+
+    try {
+      const keys = new Set(await getSignerPublicKeys(signer));
+      const spendable = () => source.getAvailableOutputs().filter(output => keys.has(output.key));
+      result.outputsBefore = spendable().length;
+
+      for (let round = 1; round <= maxRounds; round++) {
+        const outputs = spendable();
+        const plan = planConsolidation(outputs, options);
+        this.update({ round, outputCount: outputs.length, roundTransactions: plan.transactions.length, roundSent: 0 });
+        if (plan.transactions.length === 0) {
+          break;
+        }
+
+        this.update({ phase: 'broadcasting' });
+        const startHeight = source.getState().currentHeight;
+        const hashes: string[] = [];
+
+        for (const transaction of plan.transactions) {
+          this.throwIfCancelled();
+
+          const builder = new TransactionBuilder(network);
+          for (const input of transaction.inputs) {
+            builder.addInput(input, signer);
+          }
+          const built = await builder
+            .addOutput(options.destination, transaction.amount)
+            .setFee(transaction.fee)
+            .build();
+          await sendTransaction(built.txHex, node);
+
+          hashes.push(built.hash);
+          result.transactions.push({
+            hash: built.hash,
+            round,
+            inputs: transaction.inputs.length,
+            amount: transaction.amount,
+            fee: built.fee,
+          });
+          result.feesPaid += built.fee;
+          this.update({
+            roundSent: hashes.length,
+            transactionsSent: this.progress.transactionsSent + 1,
+            feesPaid: result.feesPaid,
+          });
+        }
+        result.rounds = round;
+
+        this.update({ phase: 'waiting', pendingHashes: hashes });
+        await this.waitUntilSpendable(hashes, startHeight, network);
+        this.update({ pendingHashes: [] });
+      }
+
+      result.outputsAfter = spendable().length;
+      this.update({ phase: 'done', outputCount: result.outputsAfter });
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Stop after the current step; the pending run() promise rejects
+   * Transactions already broadcast stay on their way.
+   */
+  cancel(): void {
+    if (!this.running) {
+      return;
+    }
+    this.cancelled = true;
+    this.wakeUp?.();
+  }
+
+  /**
+   * Wait until the round's outputs are mature and seen by the source
+   */
+  private async waitUntilSpendable(hashes: string[], startHeight: number, network: NetworkParams): Promise<void> {
+    const maturityBlocks = this.config.maturityBlocks ?? network.maturityBlocks;
+    const deadline = startHeight + maturityBlocks + CONFIRMATION_GRACE_BLOCKS;
+
+    for (;;) {
+      this.throwIfCancelled();
+
+      const available = new Set(this.config.source.getAvailableOutputs().map(output => output.transactionHash));
+      const pending = hashes.filter(hash => !available.has(hash));
+      this.update({ pendingHashes: pending });
+      if (pending.length === 0) {
+        return;
+      }
+
+      if (this.config.source.getState().currentHeight > deadline) {
+        throw new TransactionFailedError(
+          `${pending.length} consolidation transaction(s) not spendable by block ${deadline}: ${pending.join(', ')}`
+        );
+      }
+
+      await this.sleep(this.config.pollInterval ?? DEFAULT_POLL_INTERVAL);
+    }
+  }
+
+  /**
+   * Sleep that cancel() cuts short
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.wakeUp?.(), ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUp = undefined;
+        resolve();
+      };
+    });
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new Error('Consolidation cancelled');
+    }
+  }
+
+  private update(changes: Partial<ConsolidationProgress>): void {
+    this.progress = { ...this.progress, ...changes };
+    this.config.onProgress?.(this.getProgress());
+  }
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Rounds needed to merge `count` outputs down to the target, next to outputs left alone
+ */
+function estimateRounds(count: number, maxInputs: number, target: number, untouched: number): number {
+  let rounds = 0;
+  while (count >= 2 && count + untouched > target) {
+    const merged = Math.ceil(count / maxInputs);
+    if (merged === count) {
+      break;
+    }
+    count = merged;
+    rounds++;
+  }
+  return rounds;
+}
+
+/**
+ * Pick result for sizing a self-send of the given inputs
+ */
+function draftPick(inputs: WalletOutput[], destination: string, amount: number): TransactionPickResult {
+  return {
+    inputs: inputs.map(output => ({
+      output,
+      transactionHash: output.transactionHash,
+      outputIndex: output.outputIndex ?? 0,
+      publicKey: output.key,
+    })),
+    totalInput: amount,
+    fee: 0,
+    change: 0,
+    destinations: [{ address: destination, amount }],
+  };
+}
+
+/**
+ * Fee share of spending one output at a per-byte rate
+ */
+function spendCost(output: WalletOutput, ratePerByte: number): number {
+  return Math.ceil(inputSize(output.amount, output.outputIndex ?? 0) * ratePerByte);
+}
+
+/**
+ * Serialized size of a key input and its signature
+ */
+function inputSize(amount: number, outputIndex: number = 0): number {
+  // tag, amount, index count, index, transaction hash, output index, signature
+  return 1 + varintSize(amount) + 1 + 2 * varintSize(outputIndex) + 32 + SIGNATURE_SIZE;
+}
+
+/**
+ * Largest power of ten not above the amount (0 for 0)
+ */
+function powerOfTenBelow(amount: number): number {
+  if (amount < 1) {
+    return 0;
+  }
+  let power = 1;
+  while (power * 10 <= amount) {
+    power *= 10;
+  }
+  return power;
+}
+
+function varintSize(value: number): number {
+  let size = 1;
+  while (value >= 0x80) {
+    value = Math.floor(value / 0x80);
+    size++;
+  }
+  return size;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  getFragmentationReport,
+  planConsolidation,
+  ConsolidationExecutor,
+};
@@ -6,7 +6,8 @@
  */
 
 import * as ed from '@noble/ed25519';
-import { keccak256 } from 'js-sha3';
+import { keccak256, keccak512 } from 'js-sha3';
+import { getSecureRandomBytesSync } from './entropy';
 
 // ============================================================================
 // SCALAR REDUCTION (Matches crypto-ops.c sc_reduce32)
@@ -18,6 +19,11 @@ import { keccak256 } from 'js-sha3';
  */
 const CURVE_ORDER = 0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3edn;
 
+/**
+ * Field prime p = 2^255 - 19
+ */
+const FIELD_PRIME = 2n ** 255n - 19n;
+
 /**
  * Reduce a 64-byte array to a 32-byte scalar modulo the curve order
  * This matches the sc_reduce32 function from crypto-ops.c
@@ -84,12 +90,82 @@ export function hashToScalar(data: Uint8Array): Uint8Array {
  * Matches random_scalar from crypto.cpp
  */
 export function randomScalar(): Uint8Array {
-  // Generate 64 random bytes
-  const randomBytes = new Uint8Array(64);
-  crypto.getRandomValues(randomBytes);
+  // Reduce 64 random bytes to a scalar
+  return scReduce(getSecureRandomBytesSync(64));
+}
+
+// ============================================================================
+// SIGNING NONCES
+// ============================================================================
+
+/**
+ * How generateSchnorrSignature chooses its nonce k
+ *   random        - k drawn from the platform random source alone
+ *   deterministic - k derived from the private key, prefix hash and public key;
+ *                   the same inputs always give the same signature
+ *   hedged        - the deterministic derivation mixed with 32 fresh random bytes,
+ *                   so a weak or repeating random source cannot leak the key
+ */
+export type SchnorrNonceMode = 'random' | 'deterministic' | 'hedged';
+
+/**
+ * Domain tag prepended to the nonce hash input
+ */
+const NONCE_DOMAIN = new TextEncoder().encode('pastella-schnorr-nonce');
+
+let defaultNonceMode: SchnorrNonceMode = 'hedged';
+
+/**
+ * Set the nonce mode used when generateSchnorrSignature is not given one
+ * 'deterministic' makes every signature reproducible, e.g. for golden test fixtures.
+ */
+export function setSchnorrNonceMode(mode: SchnorrNonceMode): void {
+  if (mode !== 'random' && mode !== 'deterministic' && mode !== 'hedged') {
+    throw new Error(`Unknown nonce mode: ${mode}`);
+  }
+  defaultNonceMode = mode;
+}
+
+/**
+ * Get the nonce mode used when generateSchnorrSignature is not given one
+ */
+export function getSchnorrNonceMode(): SchnorrNonceMode {
+  return defaultNonceMode;
+}
 
-  // Reduce to scalar
-  return scReduce(randomBytes);
+/**
+ * Derive a signing nonce from a keyed hash
+ *
+ * k = Keccak-512(domain || privateKey || prefixHash || publicKey || extraEntropy) mod l
+ *
+ * The private key goes first, so the hash acts as a MAC keyed by it; without
+ * the key the nonce is unpredictable even for a known message.
+ *
+ * @param extraEntropy - Optional fresh random bytes (hedged mode)
+ * @returns 32-byte non-zero scalar
+ */
+export function deriveSchnorrNonce(
+  prefixHash: Uint8Array,
+  publicKeyBytes: Uint8Array,
+  privateKeyBytes: Uint8Array,
+  extraEntropy: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  const input = new Uint8Array(NONCE_DOMAIN.length + 96 + extraEntropy.length + 1);
+  input.set(NONCE_DOMAIN, 0);
+  input.set(privateKeyBytes, NONCE_DOMAIN.length);
+  input.set(prefixHash, NONCE_DOMAIN.length + 32);
+  input.set(publicKeyBytes, NONCE_DOMAIN.length + 64);
+  input.set(extraEntropy, NONCE_DOMAIN.length + 96);
+
+  // The trailing counter byte only changes in the negligible case that k reduces to zero
+  for (let counter = 0; counter < 256; counter++) {
+    input[input.length - 1] = counter;
+    const k = scReduce(hexToBytes(keccak512(input)));
+    if (k.some(b => b !== 0)) {
+      return k;
+    }
+  }
+  throw new Error('Failed to derive a non-zero nonce');
 }
 
 // ============================================================================
@@ -102,12 +178,14 @@ export function randomScalar(): Uint8Array {
  * @param prefixHash - Hash of transaction prefix (32 bytes)
  * @param publicKey - Public key as hex string (64 chars)
  * @param privateKey - Private key as hex string (64 chars)
+ * @param nonceMode - How the nonce is chosen (default: see setSchnorrNonceMode)
  * @returns 64-byte signature (c || s)
  */
 export function generateSchnorrSignature(
   prefixHash: Uint8Array,
   publicKey: string,
-  privateKey: string
+  privateKey: string,
+  nonceMode: SchnorrNonceMode = defaultNonceMode
 ): Uint8Array {
   // Convert keys to bytes
   const publicKeyBytes = hexToBytes(publicKey);
@@ -123,8 +201,17 @@ export function generateSchnorrSignature(
     throw new Error(`Private key must be 32 bytes, got ${privateKeyBytes.length}`);
   }
 
-  // Generate random nonce k
-  const k = randomScalar();
+  // Choose nonce k
+  let k: Uint8Array;
+  if (nonceMode === 'random') {
+    k = randomScalar();
+  } else if (nonceMode === 'deterministic') {
+    k = deriveSchnorrNonce(prefixHash, publicKeyBytes, privateKeyBytes);
+  } else if (nonceMode === 'hedged') {
+    k = deriveSchnorrNonce(prefixHash, publicKeyBytes, privateKeyBytes, getSecureRandomBytesSync(32));
+  } else {
+    throw new Error(`Unknown nonce mode: ${nonceMode}`);
+  }
 
   // Compute commitment R = k*G
   const kBigInt = scalarToBigInt(k);
@@ -219,6 +306,400 @@ export function verifySchnorrSignature(
   return true;
 }
 
+// ============================================================================
+// ADAPTOR SIGNATURES
+// ============================================================================
+
+/**
+ * Adaptor signatures (pre-signatures) bound to an adaptor point T = t*G
+ *
+ * A pre-signature (c || s') commits to R = k*G + T but leaves t out of s:
+ *   c = Hs(h || P || R),  s' = k - c*x
+ * so s'*G + c*P + T = R. Adding t gives the ordinary signature (c || s' + t),
+ * and anyone holding both can take t = s - s' back out. That lets a signature
+ * published on chain hand over a secret, as used by atomic swaps.
+ */
+
+/**
+ * Create a pre-signature that becomes valid once the secret of `adaptorPoint` is added
+ *
+ * @param adaptorPoint - Adaptor point T as hex (64 chars)
+ * @returns 64-byte pre-signature (c || s')
+ */
+export function generateAdaptorSignature(
+  prefixHash: Uint8Array,
+  publicKey: string,
+  privateKey: string,
+  adaptorPoint: string
+): Uint8Array {
+  const publicKeyBytes = hexToBytes(publicKey);
+  const privateKeyBytes = hexToBytes(privateKey);
+  const pointT = decodeAdaptorPoint(adaptorPoint);
+
+  if (prefixHash.length !== 32) {
+    throw new Error(`Prefix hash must be 32 bytes, got ${prefixHash.length}`);
+  }
+  if (publicKeyBytes.length !== 32 || privateKeyBytes.length !== 32) {
+    throw new Error('Keys must be 32 bytes');
+  }
+
+  // Hedged nonce, also bound to T so two pre-signatures of one message never share k
+  const extraEntropy = new Uint8Array(64);
+  extraEntropy.set(getSecureRandomBytesSync(32), 0);
+  extraEntropy.set(pointT.toRawBytes(), 32);
+  const k = scalarToBigInt(deriveSchnorrNonce(prefixHash, publicKeyBytes, privateKeyBytes, extraEntropy));
+
+  const pointR = ed.Point.BASE.multiply(k).add(pointT);
+  const c = schnorrChallenge(prefixHash, publicKeyBytes, pointR.toRawBytes());
+
+  const sec = scalarToBigInt(privateKeyBytes) % CURVE_ORDER;
+  const s = ed.etc.mod(k - scalarToBigInt(c) * sec, CURVE_ORDER);
+
+  const preSignature = new Uint8Array(64);
+  preSignature.set(c, 0);
+  preSignature.set(bigIntToScalar(s), 32);
+  return preSignature;
+}
+
+/**
+ * Verify a pre-signature against a public key and adaptor point
+ */
+export function verifyAdaptorSignature(
+  prefixHash: Uint8Array,
+  publicKey: string,
+  adaptorPoint: string,
+  preSignature: Uint8Array
+): boolean {
+  if (preSignature.length !== 64) {
+    throw new Error(`Pre-signature must be 64 bytes, got ${preSignature.length}`);
+  }
+
+  const c = scalarToBigInt(preSignature.subarray(0, 32));
+  const s = scalarToBigInt(preSignature.subarray(32, 64));
+  if (c >= CURVE_ORDER || s >= CURVE_ORDER) {
+    return false;
+  }
+
+  let pointR: ed.Point;
+  try {
+    pointR = ed.Point.BASE.multiply(s, false)
+      .add(ed.Point.fromHex(publicKey).multiply(c, false))
+      .add(decodeAdaptorPoint(adaptorPoint));
+  } catch (error) {
+    return false;
+  }
+
+  const expectedC = schnorrChallenge(prefixHash, hexToBytes(publicKey), pointR.toRawBytes());
+  return expectedC.every((b, i) => b === preSignature[i]);
+}
+
+/**
+ * Turn a pre-signature into a valid signature with the adaptor secret t
+ *
+ * @param adaptorSecret - Scalar t as hex (64 chars), with T = t*G
+ * @returns 64-byte signature (c || s' + t)
+ */
+export function completeAdaptorSignature(preSignature: Uint8Array, adaptorSecret: string): Uint8Array {
+  if (preSignature.length !== 64) {
+    throw new Error(`Pre-signature must be 64 bytes, got ${preSignature.length}`);
+  }
+
+  const t = scalarToBigInt(hexToBytes(adaptorSecret)) % CURVE_ORDER;
+  const s = (scalarToBigInt(preSignature.subarray(32, 64)) + t) % CURVE_ORDER;
+
+  const signature = new Uint8Array(64);
+  signature.set(preSignature.subarray(0, 32), 0);
+  signature.set(bigIntToScalar(s), 32);
+  return signature;
+}
+
+/**
+ * Recover the adaptor secret t from a pre-signature and its completed signature
+ *
+ * @returns t as hex (64 chars)
+ */
+export function extractAdaptorSecret(preSignature: Uint8Array, signature: Uint8Array): string {
+  if (preSignature.length !== 64 || signature.length !== 64) {
+    throw new Error('Pre-signature and signature must be 64 bytes');
+  }
+  for (let i = 0; i < 32; i++) {
+    if (preSignature[i] !== signature[i]) {
+      throw new Error('Signature was not completed from this pre-signature');
+    }
+  }
+
+  const t = ed.etc.mod(
+    scalarToBigInt(signature.subarray(32, 64)) - scalarToBigInt(preSignature.subarray(32, 64)),
+    CURVE_ORDER
+  );
+  return bytesToHex(bigIntToScalar(t));
+}
+
+/**
+ * c = Hs(h || P || R), the challenge shared by signatures and pre-signatures
+ */
+function schnorrChallenge(prefixHash: Uint8Array, publicKeyBytes: Uint8Array, comm: Uint8Array): Uint8Array {
+  const sComm = new Uint8Array(96);
+  sComm.set(prefixHash, 0);
+  sComm.set(publicKeyBytes, 32);
+  sComm.set(comm, 64);
+  return hashToScalar(sComm);
+}
+
+/**
+ * Decode an adaptor point; it must lie in the prime-order subgroup and not be the identity
+ */
+function decodeAdaptorPoint(adaptorPoint: string): ed.Point {
+  const point = ed.Point.fromHex(adaptorPoint);
+  if (point.is0() || !point.isTorsionFree()) {
+    throw new Error('Adaptor point must be a non-identity point of prime order');
+  }
+  return point;
+}
+
+// ============================================================================
+// BATCH SIGNATURE VERIFICATION
+// ============================================================================
+
+export interface SchnorrBatchItem {
+  prefixHash: Uint8Array;   // 32 bytes
+  publicKey: string;        // Hex, 64 chars
+  signature: Uint8Array;    // 64 bytes (c || s)
+}
+
+export interface SchnorrBatchResult {
+  valid: boolean;           // Every signature in the batch verified
+  invalid: number[];        // Indexes of the failing items, ascending
+}
+
+/**
+ * A key signing at least this many items in a batch gets a fixed-window table
+ * (65 rows of 8 multiples, no doublings per multiplication); below it a width-5
+ * NAF table of 8 odd multiples is cheaper to build.
+ */
+const FIXED_WINDOW_MIN_USES = 3;
+const NAF_WIDTH = 5;
+
+/**
+ * Verify many Schnorr signatures at once
+ *
+ * Gives the same answer as calling verifySchnorrSignature on each item, and
+ * always reports which items failed.
+ *
+ * A signature is (c, s) without its commitment R, so R = s*G + c*P must be
+ * rebuilt for every item before its challenge can be rehashed; a random
+ * linear combination of the verification equations cannot replace that step,
+ * because the equations only exist once each R is known. The batch instead
+ * removes the work the single verifier repeats:
+ *   - each distinct public key is decompressed once and gets a table of its
+ *     multiples, shared by every item it signed
+ *   - scalars and keys are public, so multiplication runs in variable time
+ *   - all commitments are converted to affine with a single field inversion
+ *
+ * Malformed items (wrong lengths, undecodable keys, unreduced scalars) are
+ * reported as invalid instead of throwing.
+ */
+export function verifySchnorrBatch(items: SchnorrBatchItem[]): SchnorrBatchResult {
+  const valid = new Array<boolean>(items.length).fill(false);
+
+  // Decode each distinct key once and count how many items it signs
+  const keys = new Map<string, { bytes: Uint8Array; point: ed.Point | null; uses: number }>();
+  for (const item of items) {
+    const id = typeof item.publicKey === 'string' ? item.publicKey.toLowerCase() : '';
+    let key = keys.get(id);
+    if (!key) {
+      key = { bytes: null, point: null, uses: 0 };
+      if (/^[0-9a-f]{64}$/.test(id)) {
+        key.bytes = hexToBytes(id);
+        try {
+          key.point = ed.Point.fromHex(id);
+        } catch (error) {
+          key.point = null;
+        }
+      }
+      keys.set(id, key);
+    }
+    key.uses++;
+  }
+
+  const multipliers = new Map<string, (scalar: bigint) => ed.Point>();
+  for (const [id, key] of keys) {
+    if (key.point) {
+      multipliers.set(id, key.uses >= FIXED_WINDOW_MIN_USES
+        ? fixedWindowMultiplier(key.point)
+        : nafMultiplier(key.point));
+    }
+  }
+
+  // Rebuild R = s*G + c*P for every well-formed item
+  const pending: number[] = [];
+  const commitments: ed.Point[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const { prefixHash, publicKey, signature } = items[i];
+    const multiply = multipliers.get(typeof publicKey === 'string' ? publicKey.toLowerCase() : '');
+    if (!multiply || !prefixHash || prefixHash.length !== 32 || !signature || signature.length !== 64) {
+      continue;
+    }
+
+    const c = scalarToBigInt(signature.subarray(0, 32));
+    const s = scalarToBigInt(signature.subarray(32, 64));
+    if (c >= CURVE_ORDER || s >= CURVE_ORDER) {
+      continue;
+    }
+
+    const sG = s === 0n ? ed.Point.ZERO : ed.Point.BASE.multiply(s, false);
+    pending.push(i);
+    commitments.push(sG.add(multiply(c)));
+  }
+
+  // Encode every commitment and compare its hash with c
+  const encoded = encodePoints(commitments);
+  const sComm = new Uint8Array(96);
+  for (let j = 0; j < pending.length; j++) {
+    const i = pending[j];
+    const { prefixHash, publicKey, signature } = items[i];
+
+    sComm.set(prefixHash, 0);
+    sComm.set(keys.get(publicKey.toLowerCase()).bytes, 32);
+    sComm.set(encoded[j], 64);
+    const expectedC = hashToScalar(sComm);
+
+    let matches = true;
+    for (let k = 0; k < 32; k++) {
+      if (signature[k] !== expectedC[k]) {
+        matches = false;
+        break;
+      }
+    }
+    valid[i] = matches;
+  }
+
+  const invalid: number[] = [];
+  for (let i = 0; i < items.length; i++) {
+    if (!valid[i]) {
+      invalid.push(i);
+    }
+  }
+
+  return { valid: invalid.length === 0, invalid };
+}
+
+/**
+ * Variable-time c*P with a width-5 NAF over the odd multiples P, 3P, ..., 15P
+ */
+function nafMultiplier(point: ed.Point): (scalar: bigint) => ed.Point {
+  const odd: ed.Point[] = [point];
+  const twice = point.double();
+  for (let k = 1; k < 1 << (NAF_WIDTH - 2); k++) {
+    odd.push(odd[k - 1].add(twice));
+  }
+
+  return (scalar: bigint) => {
+    const digits = nafDigits(scalar);
+    let acc = ed.Point.ZERO;
+    for (let i = digits.length - 1; i >= 0; i--) {
+      acc = acc.double();
+      const d = digits[i];
+      if (d > 0) {
+        acc = acc.add(odd[(d - 1) >> 1]);
+      } else if (d < 0) {
+        acc = acc.add(odd[(-d - 1) >> 1].negate());
+      }
+    }
+    return acc;
+  };
+}
+
+/**
+ * Width-5 NAF digits of a scalar, least significant first
+ */
+function nafDigits(scalar: bigint): number[] {
+  const digits: number[] = [];
+  const window = 1 << NAF_WIDTH;
+  while (scalar > 0n) {
+    let d = 0;
+    if (scalar & 1n) {
+      d = Number(scalar & BigInt(window - 1));
+      if (d >= window >> 1) {
+        d -= window;
+      }
+      scalar -= BigInt(d);
+    }
+    digits.push(d);
+    scalar >>= 1n;
+  }
+  return digits;
+}
+
+/**
+ * Variable-time c*P over signed radix-16 digits, using a table of
+ * j * 16^i * P for j = 1..8 and every digit position i
+ */
+function fixedWindowMultiplier(point: ed.Point): (scalar: bigint) => ed.Point {
+  const rows: ed.Point[][] = [];
+  let base = point;
+  for (let i = 0; i < 65; i++) {
+    const row: ed.Point[] = [base];
+    for (let j = 1; j < 8; j++) {
+      row.push(row[j - 1].add(base));
+    }
+    rows.push(row);
+    base = row[7].double();
+  }
+
+  return (scalar: bigint) => {
+    let acc = ed.Point.ZERO;
+    let carry = 0;
+    for (let i = 0; scalar > 0n || carry; i++) {
+      let d = Number(scalar & 15n) + carry;
+      scalar >>= 4n;
+      carry = d > 8 ? 1 : 0;
+      if (d > 8) {
+        d -= 16;
+      }
+      if (d > 0) {
+        acc = acc.add(rows[i][d - 1]);
+      } else if (d < 0) {
+        acc = acc.add(rows[i][-d - 1].negate());
+      }
+    }
+    return acc;
+  };
+}
+
+/**
+ * Compress points to 32 bytes each, sharing one inversion across all Z coordinates
+ */
+function encodePoints(points: ed.Point[]): Uint8Array[] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const prefix: bigint[] = new Array(points.length);
+  let acc = 1n;
+  for (let i = 0; i < points.length; i++) {
+    prefix[i] = acc;
+    acc = ed.etc.mod(acc * points[i].ez, FIELD_PRIME);
+  }
+
+  let inverse = ed.etc.invert(acc, FIELD_PRIME);
+  const encoded: Uint8Array[] = new Array(points.length);
+  for (let i = points.length - 1; i >= 0; i--) {
+    const { ex, ey, ez } = points[i];
+    const zInverse = ed.etc.mod(inverse * prefix[i], FIELD_PRIME);
+    inverse = ed.etc.mod(inverse * ez, FIELD_PRIME);
+
+    const x = ed.etc.mod(ex * zInverse, FIELD_PRIME);
+    const y = ed.etc.mod(ey * zInverse, FIELD_PRIME);
+    const bytes = bigIntToScalar(y);
+    if (x & 1n) {
+      bytes[31] |= 0x80;
+    }
+    encoded[i] = bytes;
+  }
+  return encoded;
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -265,6 +746,193 @@ function bigIntToScalar(num: bigint): Uint8Array {
   return result;
 }
 
+/**
+ * Reduce modulo the field prime p
+ */
+function fieldMod(a: bigint): bigint {
+  return ed.etc.mod(a, FIELD_PRIME);
+}
+
+/**
+ * a^e modulo the field prime p
+ */
+function fieldPow(a: bigint, e: bigint): bigint {
+  let result = 1n;
+  let base = fieldMod(a);
+  while (e > 0n) {
+    if (e & 1n) {
+      result = fieldMod(result * base);
+    }
+    base = fieldMod(base * base);
+    e >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * (u / v)^((p + 3) / 8) without an inversion (fe_divpowm1)
+ */
+function fieldDivPowM1(u: bigint, v: bigint): bigint {
+  const v3 = fieldMod(v * v * v);
+  const uv7 = fieldMod(u * v3 * v3 * v);
+  return fieldMod(u * v3 * fieldPow(uv7, (FIELD_PRIME - 5n) / 8n));
+}
+
+/**
+ * Square root modulo p of a value known to be a square
+ */
+function fieldSqrt(a: bigint): bigint {
+  let root = fieldPow(a, (FIELD_PRIME + 3n) / 8n);
+  if (fieldMod(root * root - a) !== 0n) {
+    root = fieldMod(root * fieldPow(2n, (FIELD_PRIME - 1n) / 4n));
+  }
+  if (fieldMod(root * root - a) !== 0n) {
+    throw new Error('Field element has no square root');
+  }
+  return root;
+}
+
+// ============================================================================
+// KEY TWEAKING (Child key derivation)
+// ============================================================================
+
+/**
+ * Add two scalars modulo the curve order
+ * Inputs do not need to be reduced (legacy mnemonic keys may exceed l)
+ *
+ * @returns 32-byte reduced scalar (a + b) mod l
+ */
+export function scalarAdd(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length !== 32 || b.length !== 32) {
+    throw new Error('Scalars must be 32 bytes');
+  }
+  return bigIntToScalar((scalarToBigInt(a) + scalarToBigInt(b)) % CURVE_ORDER);
+}
+
+/**
+ * Compute P + s*G for a public key P and scalar s
+ * The result is the public key of (p + s) when P = p*G
+ *
+ * @param publicKey - Public key as hex string (64 chars)
+ * @param scalar - 32-byte scalar
+ * @returns 32-byte public key
+ */
+export function addScalarToPublicKey(publicKey: string, scalar: Uint8Array): Uint8Array {
+  if (scalar.length !== 32) {
+    throw new Error(`Scalar must be 32 bytes, got ${scalar.length}`);
+  }
+
+  const tweak = scalarToBigInt(scalar) % CURVE_ORDER;
+  const point = ed.Point.fromHex(publicKey);
+  const result = tweak === 0n ? point : point.add(ed.Point.BASE.multiply(tweak));
+
+  return result.toRawBytes();
+}
+
+// ============================================================================
+// HASH TO POINT (Matches hash_to_ec / ge_fromfe_frombytes_vartime from crypto.cpp)
+// ============================================================================
+
+/**
+ * Montgomery curve coefficient A of Curve25519
+ */
+const MONTGOMERY_A = 486662n;
+
+/**
+ * Field constants of ge_fromfe_frombytes_vartime, computed on first use
+ * (crypto-ops-data.c: fe_ma, fe_ma2, fe_sqrtm1, fe_fffb1..fe_fffb4)
+ */
+let fromfeConstants: {
+  ma: bigint;
+  ma2: bigint;
+  sqrtm1: bigint;
+  fffb1: bigint;
+  fffb2: bigint;
+  fffb3: bigint;
+  fffb4: bigint;
+} | null = null;
+
+function getFromfeConstants() {
+  if (!fromfeConstants) {
+    const sqrtm1 = fieldPow(2n, (FIELD_PRIME - 1n) / 4n);
+    const aa2 = fieldMod(MONTGOMERY_A * (MONTGOMERY_A + 2n));
+    fromfeConstants = {
+      ma: fieldMod(-MONTGOMERY_A),
+      ma2: fieldMod(-MONTGOMERY_A * MONTGOMERY_A),
+      sqrtm1,
+      fffb1: fieldSqrt(fieldMod(-2n * aa2)),             // sqrt(-2 * A * (A + 2))
+      fffb2: fieldSqrt(fieldMod(2n * aa2)),              // sqrt(2 * A * (A + 2))
+      fffb3: fieldSqrt(fieldMod(-sqrtm1 * aa2)),         // sqrt(-sqrt(-1) * A * (A + 2))
+      fffb4: fieldSqrt(fieldMod(sqrtm1 * aa2)),          // sqrt(sqrt(-1) * A * (A + 2))
+    };
+  }
+  return fromfeConstants;
+}
+
+/**
+ * Map 32 bytes to a curve point (ge_fromfe_frombytes_vartime)
+ *
+ * The bytes are read as a 256-bit little-endian integer reduced modulo p
+ * (unlike fe_frombytes, the top bit is kept) and mapped to a point with the
+ * Elligator-style map used by CryptoNote. The result may have a small-order
+ * component; hash_to_ec clears it by multiplying by the cofactor 8.
+ */
+function pointFromFieldBytes(bytes: Uint8Array): ed.Point {
+  const { ma, ma2, sqrtm1, fffb1, fffb2, fffb3, fffb4 } = getFromfeConstants();
+
+  const u = fieldMod(scalarToBigInt(bytes));
+  const v = fieldMod(2n * u * u);                       // 2 * u^2
+  const w = fieldMod(v + 1n);                           // 2 * u^2 + 1
+  let x = fieldMod(w * w + ma2 * v);                    // w^2 - 2 * A^2 * u^2
+  let rX = fieldDivPowM1(w, x);                         // (w / x)^(m + 1)
+  x = fieldMod(rX * rX * x);
+
+  let z = ma;
+  let sign: bigint;
+  if (fieldMod(w - x) !== 0n && fieldMod(w + x) !== 0n) {
+    x = fieldMod(x * sqrtm1);
+    rX = fieldMod(rX * (fieldMod(w - x) !== 0n ? fffb3 : fffb4));
+    // rX = sqrt(A * (A + 2) * w / x), z = -A
+    sign = 1n;
+  } else {
+    rX = fieldMod(rX * (fieldMod(w - x) !== 0n ? fffb1 : fffb2));
+    rX = fieldMod(rX * u);                              // u * sqrt(2 * A * (A + 2) * w / x)
+    z = fieldMod(z * v);                                // -2 * A * u^2
+    sign = 0n;
+  }
+
+  if ((rX & 1n) !== sign) {
+    rX = fieldMod(-rX);
+  }
+
+  // Projective (X : Y : Z) = (rX * (z + w) : z - w : z + w)
+  const y = fieldMod((z - w) * ed.etc.invert(fieldMod(z + w), FIELD_PRIME));
+  return ed.Point.fromAffine({ x: rX, y });
+}
+
+/**
+ * Hash a public key to a point in the prime-order subgroup
+ * hash_to_ec(P) = 8 * ge_fromfe_frombytes_vartime(Keccak-256(P))
+ */
+function hashToEcPoint(publicKeyBytes: Uint8Array): ed.Point {
+  const hash = hexToBytes(keccak256(publicKeyBytes));
+  return pointFromFieldBytes(hash).double().double().double();
+}
+
+/**
+ * Hash a public key to a curve point (hash_to_ec)
+ *
+ * @param publicKey - Public key as hex string (64 chars)
+ * @returns 32-byte compressed point
+ */
+export function hashToEc(publicKey: string): Uint8Array {
+  const publicKeyBytes = hexToBytes(publicKey);
+  if (publicKeyBytes.length !== 32) {
+    throw new Error(`Public key must be 32 bytes, got ${publicKeyBytes.length}`);
+  }
+  return hashToEcPoint(publicKeyBytes).toRawBytes();
+}
+
 // ============================================================================
 // KEY IMAGE GENERATION (Matches generate_key_image from crypto.cpp)
 // ============================================================================
@@ -274,15 +942,16 @@ function bigIntToScalar(num: bigint): Uint8Array {
  *
  * The key image is computed as: keyImage = x * H(P)
  * where:
- *   - x is the private spend key
- *   - H(P) is the hash of the public key interpreted as an EC point
+ *   - x is the private key of the output
+ *   - H(P) is hash_to_ec(P): Keccak-256 of the public key mapped onto the
+ *     curve and multiplied by the cofactor
  *   - * is elliptic curve scalar multiplication
  *
  * This prevents double-spending because each output can only be spent once
  * with a unique key image derived from the output's public key.
  *
  * @param publicKey - The output's public key as hex string (64 chars)
- * @param privateKey - The private spend key as hex string (64 chars)
+ * @param privateKey - The output's private key as hex string (64 chars)
  * @returns 32-byte key image as hex string
  */
 export function generateKeyImage(publicKey: string, privateKey: string): string {
@@ -297,20 +966,9 @@ export function generateKeyImage(publicKey: string, privateKey: string): string
     throw new Error(`Private key must be 32 bytes, got ${privateKeyBytes.length}`);
   }
 
-  // Hash the public key using Keccak-256
-  const hash = keccak256(publicKeyBytes);
-  const hashBytes = hexToBytes(hash);
-
-  // Reduce hash to get a valid scalar
-  const hashScalar = hashToScalar(hashBytes);
-
-  // Interpret the scalar as an EC point (H(P))
-  // In Ed25519, we multiply the base point by the hash scalar
-  const hashScalarBigInt = scalarToBigInt(hashScalar);
-  const pointHP = ed.Point.BASE.multiply(hashScalarBigInt);
-
-  // Compute keyImage = x * H(P)
-  const privateKeyBigInt = scalarToBigInt(privateKeyBytes);
+  // H(P) lies in the prime-order subgroup, so reducing x modulo l does not change x * H(P)
+  const pointHP = hashToEcPoint(publicKeyBytes);
+  const privateKeyBigInt = scalarToBigInt(privateKeyBytes) % CURVE_ORDER;
   const keyImagePoint = pointHP.multiply(privateKeyBigInt);
 
   // Return key image as hex string
@@ -323,10 +981,21 @@ export function generateKeyImage(publicKey: string, privateKey: string): string
 
 export default {
   generateSchnorrSignature,
+  setSchnorrNonceMode,
+  getSchnorrNonceMode,
+  deriveSchnorrNonce,
   verifySchnorrSignature,
+  verifySchnorrBatch,
+  generateAdaptorSignature,
+  verifyAdaptorSignature,
+  completeAdaptorSignature,
+  extractAdaptorSecret,
   hashToScalar,
   randomScalar,
   bytesToHex,
   hexToBytes,
+  scalarAdd,
+  addScalarToPublicKey,
+  hashToEc,
   generateKeyImage,
 };
@@ -0,0 +1,93 @@
+/**
+ * Pastella Entropy
+ *
+ * The one source of random bytes for the library: wallet generation, keystore
+ * salts, Shamir coefficients, signing nonces and coin selection all draw from
+ * it. The default is WebCrypto getRandomValues (browsers, Node 19+, React
+ * Native with a getRandomValues polyfill). Platforms without it plug in their
+ * own CSPRNG with setEntropySource.
+ *
+ * Signing and coin selection run synchronously, so they need a source that
+ * returns bytes directly; an async source only serves the async callers.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Source of cryptographically secure random bytes
+ * Must return exactly `length` bytes from a CSPRNG (never Math.random)
+ */
+export type EntropySource = (length: number) => Uint8Array | Promise<Uint8Array>;
+
+interface WebCrypto {
+  getRandomValues<T extends ArrayBufferView | null>(array: T): T;
+}
+
+// ============================================================================
+// ENTROPY SOURCE
+// ============================================================================
+
+let customEntropySource: EntropySource | null = null;
+
+/**
+ * Override the default entropy source
+ * Use this on platforms without WebCrypto, e.g. a React Native secure-random module.
+ * Pass null to restore the default platform CSPRNG.
+ */
+export function setEntropySource(source: EntropySource | null): void {
+  customEntropySource = source;
+}
+
+/**
+ * Get random bytes from the given source, the configured source or the platform CSPRNG
+ */
+export async function getSecureRandomBytes(length: number, source?: EntropySource): Promise<Uint8Array> {
+  const entropySource = source ?? customEntropySource ?? defaultEntropySource;
+  return checkLength(await entropySource(length), length);
+}
+
+/**
+ * Synchronous getSecureRandomBytes, for signing and coin selection
+ * Throws when the configured source is async.
+ */
+export function getSecureRandomBytesSync(length: number): Uint8Array {
+  const bytes = (customEntropySource ?? defaultEntropySource)(length);
+  if (!(bytes instanceof Uint8Array)) {
+    throw new Error('The configured entropy source is asynchronous; signing needs one that returns bytes directly');
+  }
+  return checkLength(bytes, length);
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+function defaultEntropySource(length: number): Uint8Array {
+  const webCrypto = (globalThis as { crypto?: WebCrypto }).crypto;
+  if (!webCrypto || typeof webCrypto.getRandomValues !== 'function') {
+    throw new Error('No cryptographically secure random source available. Provide one with setEntropySource()');
+  }
+
+  const bytes = new Uint8Array(length);
+  webCrypto.getRandomValues(bytes);
+  return bytes;
+}
+
+function checkLength(bytes: Uint8Array, length: number): Uint8Array {
+  if (!(bytes instanceof Uint8Array) || bytes.length !== length) {
+    throw new Error(`Entropy source must return ${length} bytes`);
+  }
+  return bytes;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  setEntropySource,
+  getSecureRandomBytes,
+  getSecureRandomBytesSync,
+};
@@ -0,0 +1,175 @@
+/**
+ * Pastella Fee Estimation
+ *
+ * Fees scale with the serialized size of a transaction: a per-byte rate for
+ * the chosen priority, never below the network minimum fee. The size depends
+ * on the inputs picked, and the inputs picked depend on the fee, so picking
+ * is repeated with the fee the last draft needs until the draft pays enough.
+ *
+ * A fee can be given as:
+ *   1000                                   flat fee in atomic units
+ *   'high'                                 priority tier of DEFAULT_FEE_POLICY
+ *   { priority: 'low', policy: myRates }   priority tier of a custom policy
+ */
+
+import { TransactionPicker, TransactionPickResult, TransactionDestination } from './transaction';
+import { createPst } from './pst';
+import { MAINNET, NetworkParams } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FeePriority = 'low' | 'normal' | 'high';
+
+/**
+ * Rate per priority tier, in atomic units per byte
+ */
+export type FeePolicy = Record<FeePriority, number>;
+
+export interface FeeOptions {
+  priority?: FeePriority;   // Default: 'normal'
+  policy?: FeePolicy;       // Default: DEFAULT_FEE_POLICY
+}
+
+/**
+ * Flat fee in atomic units, a priority tier, or a tier of a custom policy
+ */
+export type FeeSetting = number | FeePriority | FeeOptions;
+
+export interface FeeEstimate {
+  fee: number;               // Fee the transaction pays
+  size: number;              // Serialized size in bytes, signatures included
+  ratePerByte: number | null; // null for a flat fee
+  priority: FeePriority | null;
+}
+
+export interface FeePickResult {
+  pickResult: TransactionPickResult;
+  estimate: FeeEstimate;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Default rates: a one-input, two-output transaction (about 215 bytes) pays the
+ * minimum fee at every tier but 'high'; larger ones pay for their size
+ */
+export const DEFAULT_FEE_POLICY: FeePolicy = Object.freeze({
+  low: 2,
+  normal: 4,
+  high: 8,
+});
+
+const SIGNATURE_SIZE = 64;        // One (c || s) signature per input
+const MAX_FEE_ITERATIONS = 32;
+
+// ============================================================================
+// ESTIMATION
+// ============================================================================
+
+/**
+ * Serialized size of the transaction a pick result would build, in bytes
+ * The draft is laid out exactly as createPst lays out the real transaction.
+ *
+ * @param changePublicKey - Receives the change; also the transaction public key
+ */
+export function getTransactionSize(
+  pickResult: TransactionPickResult,
+  changePublicKey: string,
+  network: NetworkParams = MAINNET
+): number {
+  const draft = createPst(pickResult, changePublicKey, network);
+  return draft.prefix.length / 2 + SIGNATURE_SIZE * draft.inputs.length;
+}
+
+/**
+ * Per-byte rate of a priority tier, in atomic units
+ */
+export function getFeeRate(options: FeePriority | FeeOptions = {}): number {
+  const { priority = 'normal', policy = DEFAULT_FEE_POLICY } = typeof options === 'string'
+    ? { priority: options }
+    : options;
+
+  const ratePerByte = policy[priority];
+  if (typeof ratePerByte !== 'number' || !(ratePerByte >= 0)) {
+    throw new Error(`Fee policy has no valid rate for priority '${priority}'`);
+  }
+  return ratePerByte;
+}
+
+/**
+ * Fee for a transaction of the given size: size times the tier's rate,
+ * rounded up and never below the network minimum
+ */
+export function calculateFee(
+  size: number,
+  options: FeePriority | FeeOptions = {},
+  network: NetworkParams = MAINNET
+): number {
+  const ratePerByte = getFeeRate(options);
+  return Math.max(network.minFee, Math.ceil(size * ratePerByte));
+}
+
+/**
+ * Pick inputs for destinations so that the fee covers the transaction's size
+ *
+ * Starts at the network minimum and re-picks with the fee the last draft
+ * needs until a draft pays at least its own fee. A flat fee is picked once.
+ * Returns null when the outputs cannot cover the destinations and fee.
+ *
+ * @param changePublicKey - Receives the change; also the transaction public key
+ */
+export function pickInputsWithFee(
+  picker: TransactionPicker,
+  destinations: TransactionDestination[],
+  changePublicKey: string,
+  fee: FeeSetting = 'normal',
+  network: NetworkParams = MAINNET
+): FeePickResult | null {
+  if (typeof fee === 'number') {
+    const pickResult = picker.pickInputsForDestinations(destinations, fee);
+    if (!pickResult) {
+      return null;
+    }
+    const size = getTransactionSize(pickResult, changePublicKey, network);
+    return { pickResult, estimate: { fee, size, ratePerByte: null, priority: null } };
+  }
+
+  const options: FeeOptions = typeof fee === 'string' ? { priority: fee } : fee;
+  const ratePerByte = getFeeRate(options);
+  let currentFee = network.minFee;
+
+  for (let i = 0; i < MAX_FEE_ITERATIONS; i++) {
+    const pickResult = picker.pickInputsForDestinations(destinations, currentFee);
+    if (!pickResult) {
+      return null;
+    }
+
+    const size = getTransactionSize(pickResult, changePublicKey, network);
+    const requiredFee = calculateFee(size, options, network);
+    if (requiredFee <= currentFee) {
+      return {
+        pickResult,
+        estimate: { fee: currentFee, size, ratePerByte, priority: options.priority ?? 'normal' },
+      };
+    }
+    currentFee = requiredFee;
+  }
+
+  throw new Error(`Fee did not converge after ${MAX_FEE_ITERATIONS} input selections`);
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  DEFAULT_FEE_POLICY,
+  getTransactionSize,
+  getFeeRate,
+  calculateFee,
+  pickInputsWithFee,
+};
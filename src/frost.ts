@@ -0,0 +1,754 @@
+/**
+ * Pastella Threshold Signatures (FROST)
+ *
+ * t-of-n Schnorr signing over Ed25519 following FROST (Komlo & Goldberg,
+ * RFC 9591), adapted to the chain's signature equation:
+ *   c = Hs(prefixHash || groupPublicKey || R),  s = k - c * x
+ * An aggregated signature is therefore an ordinary 64-byte (c || s) signature,
+ * accepted by verifySchnorrSignature and the daemon for outputs sent to the
+ * group public key. The group private key x never exists in one place.
+ *
+ * Key generation (Pedersen DKG with proofs of knowledge), participants 1..n:
+ *   frostDkgRound1    broadcast polynomial commitments and a proof of knowledge
+ *   frostDkgRound2    check every round 1 broadcast, send each participant its share privately
+ *   frostDkgFinalize  check the received shares, derive the key share and group key
+ *
+ * Signing, by any t (or more) participants:
+ *   frostCommit       keep the two nonces, send their commitments to the coordinator
+ *   frostSign         signature share over the prefix hash and everyone's commitments
+ *   frostAggregate    coordinator checks each share and sums them into (c || s)
+ * Given an adaptor point, the same rounds produce a group pre-signature (see
+ * generateAdaptorSignature) instead.
+ *
+ * FrostSigner runs the signing rounds as a Signer, so transactions, PSTs and
+ * staking can be signed by a threshold group like by a single key.
+ */
+
+import * as ed from '@noble/ed25519';
+import { keccak512 } from 'js-sha3';
+import { hashToScalar, verifySchnorrSignature, verifyAdaptorSignature } from './crypto';
+import { getSecureRandomBytes } from './entropy';
+import { Signer } from './signer';
+import { hexToBytes, bytesToHex, FrostError, SignerError } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FrostDkgRound1Package {
+  identifier: number;
+  commitments: string[];      // Polynomial coefficients times G, constant term first
+  proofOfKnowledge: string;   // R || mu (64 bytes) proving knowledge of the constant term
+}
+
+export interface FrostDkgRound1Secret {
+  identifier: number;
+  threshold: number;
+  maxSigners: number;
+  context: string;
+  coefficients: string[];     // Secret polynomial; never leaves the participant
+}
+
+export interface FrostDkgRound2Package {
+  sender: number;
+  recipient: number;
+  share: string;              // Sender's polynomial at the recipient; send privately
+}
+
+export interface FrostDkgRound2Secret {
+  identifier: number;
+  threshold: number;
+  maxSigners: number;
+  ownShare: string;
+  round1Packages: FrostDkgRound1Package[];
+}
+
+export interface FrostPublicKeyPackage {
+  threshold: number;
+  maxSigners: number;
+  groupPublicKey: string;                    // Receives the group's funds
+  verifyingShares: Record<number, string>;   // Identifier -> public key of its share
+}
+
+export interface FrostKeyShare extends FrostPublicKeyPackage {
+  identifier: number;
+  secretShare: string;
+}
+
+export interface FrostCommitment {
+  identifier: number;
+  hiding: string;
+  binding: string;
+}
+
+export interface FrostSigningNonces {
+  identifier: number;
+  hiding: Uint8Array;         // Wiped by frostSign; nonces are single use
+  binding: Uint8Array;
+  commitment: FrostCommitment;
+}
+
+export interface FrostSignatureShare {
+  identifier: number;
+  share: string;
+}
+
+/**
+ * One signing participant as seen by the coordinator
+ * Remote participants implement this over their own transport, and should
+ * check the transaction behind a prefix hash (e.g. with parsePst) before signing.
+ */
+export interface FrostSigningParticipant {
+  identifier: number;
+  commit(): Promise<FrostCommitment>;
+  sign(prefixHash: Uint8Array, commitments: FrostCommitment[]): Promise<FrostSignatureShare>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CURVE_ORDER = 0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3edn;
+const DOMAIN = 'pastella-frost-v1-';
+const SCALAR_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+// ============================================================================
+// DISTRIBUTED KEY GENERATION
+// ============================================================================
+
+/**
+ * DKG round 1: pick a random polynomial of degree threshold - 1
+ *
+ * Broadcast `broadcast` to all other participants; keep `secret`.
+ *
+ * @param context - Session string all participants agree on; binds the proofs to this run
+ */
+export async function frostDkgRound1(
+  identifier: number,
+  threshold: number,
+  maxSigners: number,
+  context: string = ''
+): Promise<{ secret: FrostDkgRound1Secret; broadcast: FrostDkgRound1Package }> {
+  checkParameters(threshold, maxSigners);
+  checkIdentifier(identifier, maxSigners);
+
+  const coefficients: bigint[] = [];
+  for (let i = 0; i < threshold; i++) {
+    coefficients.push(await randomNonzeroScalar());
+  }
+  const commitments = coefficients.map(mulBase);
+
+  const k = await randomNonzeroScalar();
+  const pointR = mulBase(k);
+  const c = proofChallenge(identifier, context, commitments[0], pointR);
+  const mu = mod(k + coefficients[0] * c);
+
+  return {
+    secret: {
+      identifier,
+      threshold,
+      maxSigners,
+      context,
+      coefficients: coefficients.map(scalarToHex),
+    },
+    broadcast: {
+      identifier,
+      commitments: commitments.map(point => point.toHex()),
+      proofOfKnowledge: pointR.toHex() + scalarToHex(mu),
+    },
+  };
+}
+
+/**
+ * DKG round 2: check everyone's round 1 broadcast and compute their shares
+ *
+ * Send each entry of `shares` only to its recipient, over a private and
+ * authenticated channel; keep `secret`.
+ *
+ * @param round1Packages - Round 1 broadcasts of all other participants (own one may be included)
+ */
+export function frostDkgRound2(
+  secret: FrostDkgRound1Secret,
+  round1Packages: FrostDkgRound1Package[]
+): { secret: FrostDkgRound2Secret; shares: FrostDkgRound2Package[] } {
+  const coefficients = secret.coefficients.map(hexToScalar);
+  const ownCommitments = coefficients.map(coefficient => mulBase(coefficient).toHex());
+  const packages = new Map<number, FrostDkgRound1Package>();
+
+  for (const pkg of round1Packages) {
+    if (pkg.identifier === secret.identifier) {
+      if (pkg.commitments.join() !== ownCommitments.join()) {
+        throw new FrostError('Own round 1 package does not match the round 1 secret');
+      }
+      continue;
+    }
+    checkIdentifier(pkg.identifier, secret.maxSigners);
+    if (packages.has(pkg.identifier)) {
+      throw new FrostError(`Duplicate round 1 package from participant ${pkg.identifier}`, { identifier: pkg.identifier });
+    }
+    checkRound1Package(pkg, secret.threshold, secret.context);
+    packages.set(pkg.identifier, pkg);
+  }
+
+  if (packages.size !== secret.maxSigners - 1) {
+    throw new FrostError(
+      `Need round 1 packages from all ${secret.maxSigners - 1} other participants, got ${packages.size}`,
+      { expected: secret.maxSigners - 1, provided: packages.size }
+    );
+  }
+
+  const shares: FrostDkgRound2Package[] = [];
+  for (let recipient = 1; recipient <= secret.maxSigners; recipient++) {
+    if (recipient !== secret.identifier) {
+      shares.push({
+        sender: secret.identifier,
+        recipient,
+        share: scalarToHex(evaluatePolynomial(coefficients, recipient)),
+      });
+    }
+  }
+
+  packages.set(secret.identifier, { identifier: secret.identifier, commitments: ownCommitments, proofOfKnowledge: '' });
+
+  return {
+    secret: {
+      identifier: secret.identifier,
+      threshold: secret.threshold,
+      maxSigners: secret.maxSigners,
+      ownShare: scalarToHex(evaluatePolynomial(coefficients, secret.identifier)),
+      round1Packages: [...packages.values()].sort((a, b) => a.identifier - b.identifier),
+    },
+    shares,
+  };
+}
+
+/**
+ * DKG finalization: check the shares sent to this participant and derive its key share
+ *
+ * Every participant ends up with the same group public key and verifying shares.
+ *
+ * @param shares - Round 2 packages addressed to this participant, one from each other participant
+ */
+export function frostDkgFinalize(secret: FrostDkgRound2Secret, shares: FrostDkgRound2Package[]): FrostKeyShare {
+  const commitments = new Map(secret.round1Packages.map(pkg => [pkg.identifier, pkg.commitments.map(decodePoint)]));
+  let secretShare = hexToScalar(secret.ownShare);
+  const received = new Set<number>();
+
+  for (const pkg of shares) {
+    if (pkg.recipient !== secret.identifier) {
+      throw new FrostError(`Share from participant ${pkg.sender} is addressed to participant ${pkg.recipient}`, { sender: pkg.sender });
+    }
+    if (pkg.sender === secret.identifier || !commitments.has(pkg.sender) || received.has(pkg.sender)) {
+      throw new FrostError(`Unexpected share from participant ${pkg.sender}`, { sender: pkg.sender });
+    }
+
+    const value = hexToScalar(pkg.share);
+    if (!mulBase(value).equals(evaluateCommitments(commitments.get(pkg.sender), secret.identifier))) {
+      throw new FrostError(`Share from participant ${pkg.sender} does not match its commitments`, { sender: pkg.sender });
+    }
+    secretShare = mod(secretShare + value);
+    received.add(pkg.sender);
+  }
+
+  if (received.size !== secret.maxSigners - 1) {
+    throw new FrostError(
+      `Need shares from all ${secret.maxSigners - 1} other participants, got ${received.size}`,
+      { expected: secret.maxSigners - 1, provided: received.size }
+    );
+  }
+
+  // Commitments to the sum of all polynomials give the group key and every verifying share
+  const groupCommitments: ed.Point[] = [];
+  for (let k = 0; k < secret.threshold; k++) {
+    groupCommitments.push([...commitments.values()].reduce((sum, points) => sum.add(points[k]), ed.Point.ZERO));
+  }
+
+  const verifyingShares: Record<number, string> = {};
+  for (let identifier = 1; identifier <= secret.maxSigners; identifier++) {
+    verifyingShares[identifier] = evaluateCommitments(groupCommitments, identifier).toHex();
+  }
+  if (mulBase(secretShare).toHex() !== verifyingShares[secret.identifier]) {
+    throw new FrostError('Derived key share does not match its verifying share');
+  }
+
+  return {
+    identifier: secret.identifier,
+    threshold: secret.threshold,
+    maxSigners: secret.maxSigners,
+    secretShare: scalarToHex(secretShare),
+    groupPublicKey: groupCommitments[0].toHex(),
+    verifyingShares,
+  };
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Signing round 1: generate a pair of nonces and their commitments
+ * Send `commitment` to the coordinator; keep the nonces for exactly one frostSign.
+ */
+export async function frostCommit(keyShare: FrostKeyShare): Promise<FrostSigningNonces> {
+  const secretShare = hexToBytes(keyShare.secretShare);
+  const hiding = await hedgedNonce(secretShare);
+  const binding = await hedgedNonce(secretShare);
+  secretShare.fill(0);
+
+  return {
+    identifier: keyShare.identifier,
+    hiding: scalarToBytes(hiding),
+    binding: scalarToBytes(binding),
+    commitment: {
+      identifier: keyShare.identifier,
+      hiding: mulBase(hiding).toHex(),
+      binding: mulBase(binding).toHex(),
+    },
+  };
+}
+
+/**
+ * Signing round 2: this participant's share of the signature on a prefix hash
+ *
+ * The nonces are wiped afterwards, so they cannot be reused by accident.
+ *
+ * @param commitments - Commitments of every participant in this signing session, own one included
+ * @param adaptorPoint - Sign towards a pre-signature for this adaptor point (all participants must agree)
+ */
+export function frostSign(
+  prefixHash: Uint8Array,
+  keyShare: FrostKeyShare,
+  nonces: FrostSigningNonces,
+  commitments: FrostCommitment[],
+  adaptorPoint?: string
+): FrostSignatureShare {
+  if (nonces.identifier !== keyShare.identifier) {
+    throw new FrostError('Nonces belong to a different participant');
+  }
+  if (nonces.hiding.every(b => b === 0) || nonces.binding.every(b => b === 0)) {
+    throw new FrostError('Nonces have already been used');
+  }
+
+  const session = signingSession(prefixHash, keyShare, commitments, adaptorPoint);
+  const own = session.commitments.find(commitment => commitment.identifier === keyShare.identifier);
+  if (!own || own.hiding !== nonces.commitment.hiding || own.binding !== nonces.commitment.binding) {
+    throw new FrostError('Own commitment is missing from the signing session');
+  }
+
+  const hiding = bytesToScalar(nonces.hiding);
+  const binding = bytesToScalar(nonces.binding);
+  nonces.hiding.fill(0);
+  nonces.binding.fill(0);
+
+  // s = k - c * x, split as z_i = d_i + e_i * rho_i - c * lambda_i * x_i
+  const lambda = lagrangeCoefficient(keyShare.identifier, session.identifiers);
+  const z = mod(
+    hiding + binding * session.bindingFactors.get(keyShare.identifier) -
+    session.challenge * lambda * hexToScalar(keyShare.secretShare)
+  );
+
+  return { identifier: keyShare.identifier, share: scalarToHex(z) };
+}
+
+/**
+ * Check every signature share and combine them into a (c || s) signature
+ *
+ * Throws FrostError naming the participant whose share is invalid.
+ *
+ * @param adaptorPoint - Adaptor point the shares were made for, if any
+ * @returns 64-byte signature valid for the group public key, or a pre-signature for `adaptorPoint`
+ */
+export function frostAggregate(
+  prefixHash: Uint8Array,
+  publicKeyPackage: FrostPublicKeyPackage,
+  commitments: FrostCommitment[],
+  shares: FrostSignatureShare[],
+  adaptorPoint?: string
+): Uint8Array {
+  const session = signingSession(prefixHash, publicKeyPackage, commitments, adaptorPoint);
+  const byIdentifier = new Map<number, bigint>();
+  for (const share of shares) {
+    if (!session.identifiers.includes(share.identifier) || byIdentifier.has(share.identifier)) {
+      throw new FrostError(`Unexpected signature share from participant ${share.identifier}`, { identifier: share.identifier });
+    }
+    byIdentifier.set(share.identifier, hexToScalar(share.share));
+  }
+
+  let s = 0n;
+  for (const commitment of session.commitments) {
+    const identifier = commitment.identifier;
+    if (!byIdentifier.has(identifier)) {
+      throw new FrostError(`Missing signature share from participant ${identifier}`, { identifier });
+    }
+
+    // z_i * G must equal D_i + rho_i * E_i - c * lambda_i * Y_i
+    const z = byIdentifier.get(identifier);
+    const lambda = lagrangeCoefficient(identifier, session.identifiers);
+    const verifyingShare = decodePoint(publicKeyPackage.verifyingShares[identifier]);
+    const expected = decodePoint(commitment.hiding)
+      .add(mulPoint(decodePoint(commitment.binding), session.bindingFactors.get(identifier)))
+      .add(mulPoint(verifyingShare, mod(session.challenge * lambda)).negate());
+    if (!mulBase(z).equals(expected)) {
+      throw new FrostError(`Signature share from participant ${identifier} is invalid`, { identifier });
+    }
+    s = mod(s + z);
+  }
+
+  const signature = new Uint8Array(64);
+  signature.set(scalarToBytes(session.challenge), 0);
+  signature.set(scalarToBytes(s), 32);
+
+  const valid = adaptorPoint === undefined
+    ? verifySchnorrSignature(prefixHash, publicKeyPackage.groupPublicKey, signature)
+    : verifyAdaptorSignature(prefixHash, publicKeyPackage.groupPublicKey, adaptorPoint, signature);
+  if (!valid) {
+    throw new FrostError('Aggregated signature does not verify');
+  }
+  return signature;
+}
+
+// ============================================================================
+// PARTICIPANTS AND SIGNER
+// ============================================================================
+
+/**
+ * Signing participant holding its key share in this process
+ * Keeps the nonces of one pending commitment between commit and sign.
+ */
+export class LocalFrostParticipant implements FrostSigningParticipant {
+  identifier: number;
+  private keyShare: FrostKeyShare;
+  private nonces: FrostSigningNonces | null = null;
+
+  constructor(keyShare: FrostKeyShare) {
+    this.identifier = keyShare.identifier;
+    this.keyShare = keyShare;
+  }
+
+  async commit(): Promise<FrostCommitment> {
+    this.nonces = await frostCommit(this.keyShare);
+    return this.nonces.commitment;
+  }
+
+  async sign(prefixHash: Uint8Array, commitments: FrostCommitment[]): Promise<FrostSignatureShare> {
+    if (!this.nonces) {
+      throw new FrostError('No pending commitment; call commit first');
+    }
+    const nonces = this.nonces;
+    this.nonces = null;
+    return frostSign(prefixHash, this.keyShare, nonces, commitments);
+  }
+}
+
+/**
+ * Signer for a threshold group: coordinates the first `threshold` participants
+ * through both signing rounds for every input it is asked to sign
+ */
+export class FrostSigner implements Signer {
+  private publicKeyPackage: FrostPublicKeyPackage;
+  private participants: FrostSigningParticipant[];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(publicKeyPackage: FrostPublicKeyPackage, participants: FrostSigningParticipant[]) {
+    const identifiers = new Set(participants.map(participant => participant.identifier));
+    if (identifiers.size !== participants.length) {
+      throw new FrostError('Participants must have distinct identifiers');
+    }
+    if (participants.length < publicKeyPackage.threshold) {
+      throw new FrostError(
+        `Need at least ${publicKeyPackage.threshold} participants, got ${participants.length}`,
+        { threshold: publicKeyPackage.threshold, provided: participants.length }
+      );
+    }
+    this.publicKeyPackage = publicKeyPackage;
+    this.participants = participants.slice(0, publicKeyPackage.threshold);
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.publicKeyPackage.groupPublicKey;
+  }
+
+  /**
+   * Requests run one at a time, since a participant holds one pending commitment
+   */
+  signPrefixHash(prefixHash: Uint8Array, publicKey: string): Promise<Uint8Array> {
+    if (publicKey.toLowerCase() !== this.publicKeyPackage.groupPublicKey) {
+      return Promise.reject(new SignerError(`No threshold key for ${publicKey}`, { publicKey }));
+    }
+    const result = this.queue.then(() => this.runSession(prefixHash));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runSession(prefixHash: Uint8Array): Promise<Uint8Array> {
+    const commitments = await Promise.all(this.participants.map(participant => participant.commit()));
+    commitments.forEach((commitment, i) => {
+      if (commitment.identifier !== this.participants[i].identifier) {
+        throw new FrostError(`Participant ${this.participants[i].identifier} returned a commitment for ${commitment.identifier}`);
+      }
+    });
+
+    const shares = await Promise.all(this.participants.map(participant => participant.sign(prefixHash, commitments)));
+    return frostAggregate(prefixHash, this.publicKeyPackage, commitments, shares);
+  }
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+function checkParameters(threshold: number, maxSigners: number): void {
+  if (!Number.isInteger(maxSigners) || maxSigners < 1) {
+    throw new FrostError('Number of participants must be a positive integer');
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > maxSigners) {
+    throw new FrostError('Threshold must be between 1 and the number of participants', { threshold, maxSigners });
+  }
+}
+
+function checkIdentifier(identifier: number, maxSigners: number): void {
+  if (!Number.isInteger(identifier) || identifier < 1 || identifier > maxSigners) {
+    throw new FrostError(`Participant identifier must be between 1 and ${maxSigners}`, { identifier });
+  }
+}
+
+function checkRound1Package(pkg: FrostDkgRound1Package, threshold: number, context: string): void {
+  const fail = (reason: string) =>
+    new FrostError(`Round 1 package from participant ${pkg.identifier} ${reason}`, { identifier: pkg.identifier });
+
+  if (!Array.isArray(pkg.commitments) || pkg.commitments.length !== threshold) {
+    throw fail(`must have ${threshold} commitments`);
+  }
+  let commitments: ed.Point[];
+  let pointR: ed.Point;
+  let mu: bigint;
+  try {
+    commitments = pkg.commitments.map(decodePoint);
+    pointR = decodePoint(pkg.proofOfKnowledge.slice(0, 64));
+    mu = hexToScalar(pkg.proofOfKnowledge.slice(64));
+  } catch (error) {
+    throw fail('is malformed');
+  }
+
+  // mu * G - c * C_0 must give back R
+  const c = proofChallenge(pkg.identifier, context, commitments[0], pointR);
+  if (!mulBase(mu).add(mulPoint(commitments[0], c).negate()).equals(pointR)) {
+    throw fail('has an invalid proof of knowledge');
+  }
+}
+
+/**
+ * Binding factors, group commitment and chain challenge of one signing session
+ * With an adaptor point T the challenge commits to R + T, as for a pre-signature.
+ */
+function signingSession(
+  prefixHash: Uint8Array,
+  publicKeyPackage: FrostPublicKeyPackage,
+  commitments: FrostCommitment[],
+  adaptorPoint?: string
+): {
+  commitments: FrostCommitment[];
+  identifiers: number[];
+  bindingFactors: Map<number, bigint>;
+  challenge: bigint;
+} {
+  if (!(prefixHash instanceof Uint8Array) || prefixHash.length !== 32) {
+    throw new FrostError('Prefix hash must be 32 bytes');
+  }
+
+  const sorted = [...commitments].sort((a, b) => a.identifier - b.identifier);
+  const identifiers = sorted.map(commitment => commitment.identifier);
+  if (new Set(identifiers).size !== identifiers.length) {
+    throw new FrostError('Signing session has duplicate participants');
+  }
+  if (identifiers.length < publicKeyPackage.threshold) {
+    throw new FrostError(
+      `Need commitments from at least ${publicKeyPackage.threshold} participants, got ${identifiers.length}`,
+      { threshold: publicKeyPackage.threshold, provided: identifiers.length }
+    );
+  }
+  identifiers.forEach(identifier => checkIdentifier(identifier, publicKeyPackage.maxSigners));
+
+  const groupKey = hexToBytes(publicKeyPackage.groupPublicKey);
+  const pointT = adaptorPoint === undefined ? ed.Point.ZERO : decodePoint(adaptorPoint);
+  const adaptorBytes = adaptorPoint === undefined ? new Uint8Array(0) : pointT.toRawBytes();
+  const encoded = new Uint8Array(sorted.length * 96);
+  const points = sorted.map((commitment, i) => {
+    const hiding = decodePoint(commitment.hiding);
+    const binding = decodePoint(commitment.binding);
+    encoded.set(scalarToBytes(BigInt(commitment.identifier)), i * 96);
+    encoded.set(hiding.toRawBytes(), i * 96 + 32);
+    encoded.set(binding.toRawBytes(), i * 96 + 64);
+    return { hiding, binding };
+  });
+
+  const bindingFactors = new Map<number, bigint>();
+  let groupCommitment = ed.Point.ZERO;
+  sorted.forEach((commitment, i) => {
+    const rho = hashScalar('rho', groupKey, prefixHash, adaptorBytes, encoded, scalarToBytes(BigInt(commitment.identifier)));
+    bindingFactors.set(commitment.identifier, rho);
+    groupCommitment = groupCommitment.add(points[i].hiding).add(mulPoint(points[i].binding, rho));
+  });
+
+  // Same challenge as generateSchnorrSignature: Hs(h || P || R)
+  const challengeInput = new Uint8Array(96);
+  challengeInput.set(prefixHash, 0);
+  challengeInput.set(groupKey, 32);
+  challengeInput.set(groupCommitment.add(pointT).toRawBytes(), 64);
+
+  return {
+    commitments: sorted,
+    identifiers,
+    bindingFactors,
+    challenge: bytesToScalar(hashToScalar(challengeInput)),
+  };
+}
+
+/**
+ * Lagrange coefficient of `identifier` at x = 0 over the signing set
+ */
+function lagrangeCoefficient(identifier: number, identifiers: number[]): bigint {
+  let numerator = 1n;
+  let denominator = 1n;
+  for (const other of identifiers) {
+    if (other !== identifier) {
+      numerator = mod(numerator * BigInt(other));
+      denominator = mod(denominator * BigInt(other - identifier));
+    }
+  }
+  return mod(numerator * ed.etc.invert(denominator, CURVE_ORDER));
+}
+
+function evaluatePolynomial(coefficients: bigint[], x: number): bigint {
+  let result = 0n;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    result = mod(result * BigInt(x) + coefficients[i]);
+  }
+  return result;
+}
+
+/**
+ * Commitment to a polynomial's value at x, from the commitments to its coefficients
+ */
+function evaluateCommitments(commitments: ed.Point[], x: number): ed.Point {
+  let result = ed.Point.ZERO;
+  for (let i = commitments.length - 1; i >= 0; i--) {
+    result = mulPoint(result, BigInt(x)).add(commitments[i]);
+  }
+  return result;
+}
+
+function proofChallenge(identifier: number, context: string, commitment: ed.Point, pointR: ed.Point): bigint {
+  return hashScalar(
+    'dkg',
+    scalarToBytes(BigInt(identifier)),
+    new TextEncoder().encode(context),
+    commitment.toRawBytes(),
+    pointR.toRawBytes()
+  );
+}
+
+/**
+ * Keccak-512 with a domain tag, reduced modulo the curve order
+ */
+function hashScalar(tag: string, ...parts: Uint8Array[]): bigint {
+  const hash = keccak512.create();
+  hash.update(new TextEncoder().encode(DOMAIN + tag));
+  for (const part of parts) {
+    hash.update(part);
+  }
+  const digest = new Uint8Array(hash.arrayBuffer());
+  let value = 0n;
+  for (let i = digest.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(digest[i]);
+  }
+  return mod(value);
+}
+
+/**
+ * Fresh randomness hashed together with the secret share, so a weak RNG alone
+ * cannot expose the share through the nonces
+ */
+async function hedgedNonce(secretShare: Uint8Array): Promise<bigint> {
+  const nonce = hashScalar('nonce', await getSecureRandomBytes(32), secretShare);
+  return nonce === 0n ? hedgedNonce(secretShare) : nonce;
+}
+
+async function randomNonzeroScalar(): Promise<bigint> {
+  const scalar = hashScalar('random', await getSecureRandomBytes(64));
+  return scalar === 0n ? randomNonzeroScalar() : scalar;
+}
+
+function mod(a: bigint): bigint {
+  return ed.etc.mod(a, CURVE_ORDER);
+}
+
+function mulBase(scalar: bigint): ed.Point {
+  return ed.Point.BASE.multiply(mod(scalar), false);
+}
+
+function mulPoint(point: ed.Point, scalar: bigint): ed.Point {
+  return point.multiply(mod(scalar), false);
+}
+
+/**
+ * Decode a point, rejecting the identity and points with a small-order component
+ */
+function decodePoint(hex: string): ed.Point {
+  let point: ed.Point;
+  try {
+    point = ed.Point.fromHex(hex);
+  } catch (error) {
+    throw new FrostError('Invalid curve point', { point: hex });
+  }
+  if (point.is0() || !point.isTorsionFree()) {
+    throw new FrostError('Curve point is not in the prime-order subgroup', { point: hex });
+  }
+  return point;
+}
+
+function hexToScalar(hex: string): bigint {
+  if (typeof hex !== 'string' || !SCALAR_PATTERN.test(hex)) {
+    throw new FrostError('Scalar must be 64 hex characters');
+  }
+  const scalar = bytesToScalar(hexToBytes(hex));
+  if (scalar >= CURVE_ORDER) {
+    throw new FrostError('Scalar is not reduced modulo the curve order');
+  }
+  return scalar;
+}
+
+function bytesToScalar(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = 31; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+function scalarToBytes(scalar: bigint): Uint8Array {
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = Number((scalar >> BigInt(i * 8)) & 0xffn);
+  }
+  return bytes;
+}
+
+function scalarToHex(scalar: bigint): string {
+  return bytesToHex(scalarToBytes(scalar));
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  frostDkgRound1,
+  frostDkgRound2,
+  frostDkgFinalize,
+  frostCommit,
+  frostSign,
+  frostAggregate,
+  LocalFrostParticipant,
+  FrostSigner,
+};
@@ -3,221 +3,17 @@
  */
 
 import * as Ed25519 from '@noble/ed25519';
-import sha3 from 'js-sha3';
-import * as crypto from 'crypto';
-import { WALLET_ADDRESS_PREFIX, DECIMALS, TICKER } from './config';
-
-const keccak256 = sha3.keccak256;
-
-// ============================================================================
-// WORDLIST
-// ============================================================================
-const WORDLIST = [
-  'abbey', 'abducts', 'ability', 'ablaze', 'abnormal', 'abort', 'abrasive', 'absorb', 
-  'abyss', 'academy', 'aces', 'aching', 'acidic', 'acoustic', 'acquire', 'across', 
-  'actress', 'acumen', 'adapt', 'addicted', 'adept', 'adhesive', 'adjust', 'adopt', 
-  'adrenalin', 'adult', 'adventure', 'aerial', 'afar', 'affair', 'afield', 'afloat', 
-  'afoot', 'afraid', 'after', 'against', 'agenda', 'aggravate', 'agile', 'aglow', 
-  'agnostic', 'agony', 'agreed', 'ahead', 'aided', 'ailments', 'aimless', 'airport', 
-  'aisle', 'ajar', 'akin', 'alarms', 'album', 'alchemy', 'alerts', 'algebra', 
-  'alkaline', 'alley', 'almost', 'aloof', 'alpine', 'already', 'also', 'altitude', 
-  'alumni', 'always', 'amaze', 'ambush', 'amended', 'amidst', 'ammo', 'amnesty', 
-  'among', 'amply', 'amused', 'anchor', 'android', 'anecdote', 'angled', 'ankle', 
-  'annoyed', 'answers', 'antics', 'anvil', 'anxiety', 'anybody', 'apart', 'apex', 
-  'aphid', 'aplomb', 'apology', 'apply', 'apricot', 'aptitude', 'aquarium', 'arbitrary', 
-  'archer', 'ardent', 'arena', 'argue', 'arises', 'army', 'around', 'arrow', 
-  'arsenic', 'artistic', 'ascend', 'ashtray', 'aside', 'asked', 'asleep', 'aspire', 
-  'assorted', 'asylum', 'athlete', 'atlas', 'atom', 'atrium', 'attire', 'auburn', 
-  'auctions', 'audio', 'august', 'aunt', 'austere', 'autumn', 'avatar', 'avidly', 
-  'avoid', 'awakened', 'awesome', 'awful', 'awkward', 'awning', 'awoken', 'axes', 
-  'axis', 'axle', 'aztec', 'azure', 'baby', 'bacon', 'badge', 'baffles', 
-  'bagpipe', 'bailed', 'bakery', 'balding', 'bamboo', 'banjo', 'baptism', 'basin', 
-  'batch', 'bawled', 'bays', 'because', 'beer', 'befit', 'begun', 'behind', 
-  'being', 'below', 'bemused', 'benches', 'berries', 'bested', 'betting', 'bevel', 
-  'beware', 'beyond', 'bias', 'bicycle', 'bids', 'bifocals', 'biggest', 'bikini', 
-  'bimonthly', 'binocular', 'biology', 'biplane', 'birth', 'biscuit', 'bite', 'biweekly', 
-  'blender', 'blip', 'bluntly', 'boat', 'bobsled', 'bodies', 'bogeys', 'boil', 
-  'boldly', 'bomb', 'border', 'boss', 'both', 'bounced', 'bovine', 'bowling', 
-  'boxes', 'boyfriend', 'broken', 'brunt', 'bubble', 'buckets', 'budget', 'buffet', 
-  'bugs', 'building', 'bulb', 'bumper', 'bunch', 'business', 'butter', 'buying', 
-  'buzzer', 'bygones', 'byline', 'bypass', 'cabin', 'cactus', 'cadets', 'cafe', 
-  'cage', 'cajun', 'cake', 'calamity', 'camp', 'candy', 'casket', 'catch', 
-  'cause', 'cavernous', 'cease', 'cedar', 'ceiling', 'cell', 'cement', 'cent', 
-  'certain', 'chlorine', 'chrome', 'cider', 'cigar', 'cinema', 'circle', 'cistern', 
-  'citadel', 'civilian', 'claim', 'click', 'clue', 'coal', 'cobra', 'cocoa', 
-  'code', 'coexist', 'coffee', 'cogs', 'cohesive', 'coils', 'colony', 'comb', 
-  'cool', 'copy', 'corrode', 'costume', 'cottage', 'cousin', 'cowl', 'criminal', 
-  'cube', 'cucumber', 'cuddled', 'cuffs', 'cuisine', 'cunning', 'cupcake', 'custom', 
-  'cycling', 'cylinder', 'cynical', 'dabbing', 'dads', 'daft', 'dagger', 'daily', 
-  'damp', 'dangerous', 'dapper', 'darted', 'dash', 'dating', 'dauntless', 'dawn', 
-  'daytime', 'dazed', 'debut', 'decay', 'dedicated', 'deepest', 'deftly', 'degrees', 
-  'dehydrate', 'deity', 'dejected', 'delayed', 'demonstrate', 'dented', 'deodorant', 'depth', 
-  'desk', 'devoid', 'dewdrop', 'dexterity', 'dialect', 'dice', 'diet', 'different', 
-  'digit', 'dilute', 'dime', 'dinner', 'diode', 'diplomat', 'directed', 'distance', 
-  'ditch', 'divers', 'dizzy', 'doctor', 'dodge', 'does', 'dogs', 'doing', 
-  'dolphin', 'domestic', 'donuts', 'doorway', 'dormant', 'dosage', 'dotted', 'double', 
-  'dove', 'down', 'dozen', 'dreams', 'drinks', 'drowning', 'drunk', 'drying', 
-  'dual', 'dubbed', 'duckling', 'dude', 'duets', 'duke', 'dullness', 'dummy', 
-  'dunes', 'duplex', 'duration', 'dusted', 'duties', 'dwarf', 'dwelt', 'dwindling', 
-  'dying', 'dynamite', 'dyslexic', 'each', 'eagle', 'earth', 'easy', 'eating', 
-  'eavesdrop', 'eccentric', 'echo', 'eclipse', 'economics', 'ecstatic', 'eden', 'edgy', 
-  'edited', 'educated', 'eels', 'efficient', 'eggs', 'egotistic', 'eight', 'either', 
-  'eject', 'elapse', 'elbow', 'eldest', 'eleven', 'elite', 'elope', 'else', 
-  'eluded', 'emails', 'ember', 'emerge', 'emit', 'emotion', 'empty', 'emulate', 
-  'energy', 'enforce', 'enhanced', 'enigma', 'enjoy', 'enlist', 'enmity', 'enough', 
-  'enraged', 'ensign', 'entrance', 'envy', 'epoxy', 'equip', 'erase', 'erected', 
-  'erosion', 'error', 'eskimos', 'espionage', 'essential', 'estate', 'etched', 'eternal', 
-  'ethics', 'etiquette', 'evaluate', 'evenings', 'evicted', 'evolved', 'examine', 'excess', 
-  'exhale', 'exit', 'exotic', 'exquisite', 'extra', 'exult', 'fabrics', 'factual', 
-  'fading', 'fainted', 'faked', 'fall', 'family', 'fancy', 'farming', 'fatal', 
-  'faulty', 'fawns', 'faxed', 'fazed', 'feast', 'february', 'federal', 'feel', 
-  'feline', 'females', 'fences', 'ferry', 'festival', 'fetches', 'fever', 'fewest', 
-  'fiat', 'fibula', 'fictional', 'fidget', 'fierce', 'fifteen', 'fight', 'films', 
-  'firm', 'fishing', 'fitting', 'five', 'fixate', 'fizzle', 'fleet', 'flippant', 
-  'flying', 'foamy', 'focus', 'foes', 'foggy', 'foiled', 'folding', 'fonts', 
-  'foolish', 'fossil', 'fountain', 'fowls', 'foxes', 'foyer', 'framed', 'friendly', 
-  'frown', 'fruit', 'frying', 'fudge', 'fuel', 'fugitive', 'fully', 'fuming', 
-  'fungal', 'furnished', 'fuselage', 'future', 'fuzzy', 'gables', 'gadget', 'gags', 
-  'gained', 'galaxy', 'gambit', 'gang', 'gasp', 'gather', 'gauze', 'gave', 
-  'gawk', 'gaze', 'gearbox', 'gecko', 'geek', 'gels', 'gemstone', 'general', 
-  'geometry', 'germs', 'gesture', 'getting', 'geyser', 'ghetto', 'ghost', 'giant', 
-  'giddy', 'gifts', 'gigantic', 'gills', 'gimmick', 'ginger', 'girth', 'giving', 
-  'glass', 'gleeful', 'glide', 'gnaw', 'gnome', 'goat', 'goblet', 'godfather', 
-  'goes', 'goggles', 'going', 'goldfish', 'gone', 'goodbye', 'gopher', 'gorilla', 
-  'gossip', 'gotten', 'gourmet', 'governing', 'gown', 'greater', 'grunt', 'guarded', 
-  'guest', 'guide', 'gulp', 'gumball', 'guru', 'gusts', 'gutter', 'guys', 
-  'gymnast', 'gypsy', 'gyrate', 'habitat', 'hacksaw', 'haggled', 'hairy', 'hamburger', 
-  'happens', 'hashing', 'hatchet', 'haunted', 'having', 'hawk', 'haystack', 'hazard', 
-  'hectare', 'hedgehog', 'heels', 'hefty', 'height', 'hemlock', 'hence', 'heron', 
-  'hesitate', 'hexagon', 'hickory', 'hiding', 'highway', 'hijack', 'hiker', 'hills', 
-  'himself', 'hinder', 'hippo', 'hire', 'history', 'hitched', 'hive', 'hoax', 
-  'hobby', 'hockey', 'hoisting', 'hold', 'honked', 'hookup', 'hope', 'hornet', 
-  'hospital', 'hotel', 'hounded', 'hover', 'howls', 'hubcaps', 'huddle', 'huge', 
-  'hull', 'humid', 'hunter', 'hurried', 'husband', 'huts', 'hybrid', 'hydrogen', 
-  'hyper', 'iceberg', 'icing', 'icon', 'identity', 'idiom', 'idled', 'idols', 
-  'igloo', 'ignore', 'iguana', 'illness', 'imagine', 'imbalance', 'imitate', 'impel', 
-  'inactive', 'inbound', 'incur', 'industrial', 'inexact', 'inflamed', 'ingested', 'initiate', 
-  'injury', 'inkling', 'inline', 'inmate', 'innocent', 'inorganic', 'input', 'inquest', 
-  'inroads', 'insult', 'intended', 'inundate', 'invoke', 'inwardly', 'ionic', 'irate', 
-  'iris', 'irony', 'irritate', 'island', 'isolated', 'issued', 'italics', 'itches', 
-  'items', 'itinerary', 'itself', 'ivory', 'jabbed', 'jackets', 'jaded', 'jagged', 
-  'jailed', 'jamming', 'january', 'jargon', 'jaunt', 'javelin', 'jaws', 'jazz', 
-  'jeans', 'jeers', 'jellyfish', 'jeopardy', 'jerseys', 'jester', 'jetting', 'jewels', 
-  'jigsaw', 'jingle', 'jittery', 'jive', 'jobs', 'jockey', 'jogger', 'joining', 
-  'joking', 'jolted', 'jostle', 'journal', 'joyous', 'jubilee', 'judge', 'juggled', 
-  'juicy', 'jukebox', 'july', 'jump', 'junk', 'jury', 'justice', 'juvenile', 
-  'kangaroo', 'karate', 'keep', 'kennel', 'kept', 'kernels', 'kettle', 'keyboard', 
-  'kickoff', 'kidneys', 'king', 'kiosk', 'kisses', 'kitchens', 'kiwi', 'knapsack', 
-  'knee', 'knife', 'knowledge', 'knuckle', 'koala', 'laboratory', 'ladder', 'lagoon', 
-  'lair', 'lakes', 'lamb', 'language', 'laptop', 'large', 'last', 'later', 
-  'launching', 'lava', 'lawsuit', 'layout', 'lazy', 'lectures', 'ledge', 'leech', 
-  'left', 'legion', 'leisure', 'lemon', 'lending', 'leopard', 'lesson', 'lettuce', 
-  'lexicon', 'liar', 'library', 'licks', 'lids', 'lied', 'lifestyle', 'light', 
-  'likewise', 'lilac', 'limits', 'linen', 'lion', 'lipstick', 'liquid', 'listen', 
-  'lively', 'loaded', 'lobster', 'locker', 'lodge', 'lofty', 'logic', 'loincloth', 
-  'long', 'looking', 'lopped', 'lordship', 'losing', 'lottery', 'loudly', 'love', 
-  'lower', 'loyal', 'lucky', 'luggage', 'lukewarm', 'lullaby', 'lumber', 'lunar', 
-  'lurk', 'lush', 'luxury', 'lymph', 'lynx', 'lyrics', 'macro', 'madness', 
-  'magically', 'mailed', 'major', 'makeup', 'malady', 'mammal', 'maps', 'masterful', 
-  'match', 'maul', 'maverick', 'maximum', 'mayor', 'maze', 'meant', 'mechanic', 
-  'medicate', 'meeting', 'megabyte', 'melting', 'memoir', 'menu', 'merger', 'mesh', 
-  'metro', 'mews', 'mice', 'midst', 'mighty', 'mime', 'mirror', 'misery', 
-  'mittens', 'mixture', 'moat', 'mobile', 'mocked', 'mohawk', 'moisture', 'molten', 
-  'moment', 'money', 'moon', 'mops', 'morsel', 'mostly', 'motherly', 'mouth', 
-  'movement', 'mowing', 'much', 'muddy', 'muffin', 'mugged', 'mullet', 'mumble', 
-  'mundane', 'muppet', 'mural', 'musical', 'muzzle', 'myriad', 'mystery', 'myth', 
-  'nabbing', 'nagged', 'nail', 'names', 'nanny', 'napkin', 'narrate', 'nasty', 
-  'natural', 'nautical', 'navy', 'nearby', 'necklace', 'needed', 'negative', 'neither', 
-  'neon', 'nephew', 'nerves', 'nestle', 'network', 'neutral', 'never', 'newt', 
-  'nexus', 'nibs', 'niche', 'niece', 'nifty', 'nightly', 'nimbly', 'nineteen', 
-  'nirvana', 'nitrogen', 'nobody', 'nocturnal', 'nodes', 'noises', 'nomad', 'noodles', 
-  'northern', 'nostril', 'noted', 'nouns', 'novelty', 'nowhere', 'nozzle', 'nuance', 
-  'nucleus', 'nudged', 'nugget', 'nuisance', 'null', 'number', 'nuns', 'nurse', 
-  'nutshell', 'nylon', 'oaks', 'oars', 'oasis', 'oatmeal', 'obedient', 'object', 
-  'obliged', 'obnoxious', 'observant', 'obtains', 'obvious', 'occur', 'ocean', 'october', 
-  'odds', 'odometer', 'offend', 'often', 'oilfield', 'ointment', 'okay', 'older', 
-  'olive', 'olympics', 'omega', 'omission', 'omnibus', 'onboard', 'oncoming', 'oneself', 
-  'ongoing', 'onion', 'online', 'onslaught', 'onto', 'onward', 'oozed', 'opacity', 
-  'opened', 'opposite', 'optical', 'opus', 'orange', 'orbit', 'orchid', 'orders', 
-  'organs', 'origin', 'ornament', 'orphans', 'oscar', 'ostrich', 'otherwise', 'otter', 
-  'ouch', 'ought', 'ounce', 'ourselves', 'oust', 'outbreak', 'oval', 'oven', 
-  'owed', 'owls', 'owner', 'oxidant', 'oxygen', 'oyster', 'ozone', 'pact', 
-  'paddles', 'pager', 'pairing', 'palace', 'pamphlet', 'pancakes', 'paper', 'paradise', 
-  'pastry', 'patio', 'pause', 'pavements', 'pawnshop', 'payment', 'peaches', 'pebbles', 
-  'peculiar', 'pedantic', 'peeled', 'pegs', 'pelican', 'pencil', 'people', 'pepper', 
-  'perfect', 'pests', 'petals', 'phase', 'pheasants', 'phone', 'phrases', 'physics', 
-  'piano', 'picked', 'pierce', 'pigment', 'piloted', 'pimple', 'pinched', 'pioneer', 
-  'pipeline', 'pirate', 'pistons', 'pitched', 'pivot', 'pixels', 'pizza', 'playful', 
-  'pledge', 'pliers', 'plotting', 'plus', 'plywood', 'poaching', 'pockets', 'podcast', 
-  'poetry', 'point', 'poker', 'polar', 'ponies', 'pool', 'popular', 'portents', 
-  'possible', 'potato', 'pouch', 'poverty', 'powder', 'pram', 'present', 'pride', 
-  'problems', 'pruned', 'prying', 'psychic', 'public', 'puck', 'puddle', 'puffin', 
-  'pulp', 'pumpkins', 'punch', 'puppy', 'purged', 'push', 'putty', 'puzzled', 
-  'pylons', 'pyramid', 'python', 'queen', 'quick', 'quote', 'rabbits', 'racetrack', 
-  'radar', 'rafts', 'rage', 'railway', 'raking', 'rally', 'ramped', 'randomly', 
-  'rapid', 'rarest', 'rash', 'rated', 'ravine', 'rays', 'razor', 'react', 
-  'rebel', 'recipe', 'reduce', 'reef', 'refer', 'regular', 'reheat', 'reinvest', 
-  'rejoices', 'rekindle', 'relic', 'remedy', 'renting', 'reorder', 'repent', 'request', 
-  'reruns', 'rest', 'return', 'reunion', 'revamp', 'rewind', 'rhino', 'rhythm', 
-  'ribbon', 'richly', 'ridges', 'rift', 'rigid', 'rims', 'ringing', 'riots', 
-  'ripped', 'rising', 'ritual', 'river', 'roared', 'robot', 'rockets', 'rodent', 
-  'rogue', 'roles', 'romance', 'roomy', 'roped', 'roster', 'rotate', 'rounded', 
-  'rover', 'rowboat', 'royal', 'ruby', 'rudely', 'ruffled', 'rugged', 'ruined', 
-  'ruling', 'rumble', 'runway', 'rural', 'rustled', 'ruthless', 'sabotage', 'sack', 
-  'sadness', 'safety', 'saga', 'sailor', 'sake', 'salads', 'sample', 'sanity', 
-  'sapling', 'sarcasm', 'sash', 'satin', 'saucepan', 'saved', 'sawmill', 'saxophone', 
-  'sayings', 'scamper', 'scenic', 'school', 'science', 'scoop', 'scrub', 'scuba', 
-  'seasons', 'second', 'sedan', 'seeded', 'segments', 'seismic', 'selfish', 'semifinal', 
-  'sensible', 'september', 'sequence', 'serving', 'session', 'setup', 'seventh', 'sewage', 
-  'shackles', 'shelter', 'shipped', 'shocking', 'shrugged', 'shuffled', 'shyness', 'siblings', 
-  'sickness', 'sidekick', 'sieve', 'sifting', 'sighting', 'silk', 'simplest', 'sincerely', 
-  'sipped', 'siren', 'situated', 'sixteen', 'sizes', 'skater', 'skew', 'skirting', 
-  'skulls', 'skydive', 'slackens', 'sleepless', 'slid', 'slower', 'slug', 'smash', 
-  'smelting', 'smidgen', 'smog', 'smuggled', 'snake', 'sneeze', 'sniff', 'snout', 
-  'snug', 'soapy', 'sober', 'soccer', 'soda', 'software', 'soggy', 'soil', 
-  'solved', 'somewhere', 'sonic', 'soothe', 'soprano', 'sorry', 'southern', 'sovereign', 
-  'sowed', 'soya', 'space', 'speedy', 'sphere', 'spiders', 'splendid', 'spout', 
-  'sprig', 'spud', 'spying', 'square', 'stacking', 'stellar', 'stick', 'stockpile', 
-  'strained', 'stunning', 'stylishly', 'subtly', 'succeed', 'suddenly', 'suede', 'suffice', 
-  'sugar', 'suitcase', 'sulking', 'summon', 'sunken', 'superior', 'surfer', 'sushi', 
-  'suture', 'swagger', 'swept', 'swiftly', 'sword', 'swung', 'syllabus', 'symptoms', 
-  'syndrome', 'syringe', 'system', 'taboo', 'tacit', 'tadpoles', 'tagged', 'tail', 
-  'taken', 'talent', 'tamper', 'tanks', 'tapestry', 'tarnished', 'tasked', 'tattoo', 
-  'taunts', 'tavern', 'tawny', 'taxi', 'teardrop', 'technical', 'tedious', 'teeming', 
-  'tell', 'template', 'tender', 'tepid', 'tequila', 'terminal', 'testing', 'tether', 
-  'textbook', 'thaw', 'theatrics', 'thirsty', 'thorn', 'threaten', 'thumbs', 'thwart', 
-  'ticket', 'tidy', 'tiers', 'tiger', 'tilt', 'timber', 'tinted', 'tipsy', 
-  'tirade', 'tissue', 'titans', 'toaster', 'tobacco', 'today', 'toenail', 'toffee', 
-  'together', 'toilet', 'token', 'tolerant', 'tomorrow', 'tonic', 'toolbox', 'topic', 
-  'torch', 'tossed', 'total', 'touchy', 'towel', 'toxic', 'toyed', 'trash', 
-  'trendy', 'tribal', 'trolling', 'truth', 'trying', 'tsunami', 'tubes', 'tucks', 
-  'tudor', 'tuesday', 'tufts', 'tugs', 'tuition', 'tulips', 'tumbling', 'tunnel', 
-  'turnip', 'tusks', 'tutor', 'tuxedo', 'twang', 'tweezers', 'twice', 'twofold', 
-  'tycoon', 'typist', 'tyrant', 'ugly', 'ulcers', 'ultimate', 'umbrella', 'umpire', 
-  'unafraid', 'unbending', 'uncle', 'under', 'uneven', 'unfit', 'ungainly', 'unhappy', 
-  'union', 'unjustly', 'unknown', 'unlikely', 'unmask', 'unnoticed', 'unopened', 'unplugs', 
-  'unquoted', 'unrest', 'unsafe', 'until', 'unusual', 'unveil', 'unwind', 'unzip', 
-  'upbeat', 'upcoming', 'update', 'upgrade', 'uphill', 'upkeep', 'upload', 'upon', 
-  'upper', 'upright', 'upstairs', 'uptight', 'upwards', 'urban', 'urchins', 'urgent', 
-  'usage', 'useful', 'usher', 'using', 'usual', 'utensils', 'utility', 'utmost', 
-  'utopia', 'uttered', 'vacation', 'vague', 'vain', 'value', 'vampire', 'vane', 
-  'vapidly', 'vary', 'vastness', 'vats', 'vaults', 'vector', 'veered', 'vegan', 
-  'vehicle', 'vein', 'velvet', 'venomous', 'verification', 'vessel', 'veteran', 'vexed', 
-  'vials', 'vibrate', 'victim', 'video', 'viewpoint', 'vigilant', 'viking', 'village', 
-  'vinegar', 'violin', 'vipers', 'virtual', 'visited', 'vitals', 'vivid', 'vixen', 
-  'vocal', 'vogue', 'voice', 'volcano', 'vortex', 'voted', 'voucher', 'vowels', 
-  'voyage', 'vulture', 'wade', 'waffle', 'wagtail', 'waist', 'waking', 'wallets', 
-  'wanted', 'warped', 'washing', 'water', 'waveform', 'waxing', 'wayside', 'weavers', 
-  'website', 'wedge', 'weekday', 'weird', 'welders', 'went', 'wept', 'were', 
-  'western', 'wetsuit', 'whale', 'when', 'whipped', 'whole', 'wickets', 'width', 
-  'wield', 'wife', 'wiggle', 'wildly', 'winter', 'wipeout', 'wiring', 'wise', 
-  'withdrawn', 'wives', 'wizard', 'wobbly', 'woes', 'woken', 'wolf', 'womanly', 
-  'wonders', 'woozy', 'worry', 'wounded', 'woven', 'wrap', 'wrist', 'wrong', 
-  'yacht', 'yahoo', 'yanks', 'yard', 'yawning', 'yearbook', 'yellow', 'yesterday', 
-  'yeti', 'yields', 'yodel', 'yoga', 'younger', 'yoyo', 'zapped', 'zeal', 
-  'zebra', 'zero', 'zesty', 'zigzags', 'zinger', 'zippers', 'zodiac', 'zombie', 
-  'zones', 'zoom', 
-]
+import { DECIMALS, TICKER, MAINNET, NetworkParams } from './config';
+import {
+  Wordlist,
+  WORDLIST_SIZE,
+  DEFAULT_LANGUAGE,
+  getWordlist,
+  getSupportedLanguages,
+} from './wordlists';
+import { InvalidMnemonicError } from './utils';
+import { encodeAddress, decodeAddress } from './address';
+import { EntropySource, getSecureRandomBytes } from './entropy';
 
 const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
 const BASE58_MAP: Record<string, number> = {};
@@ -236,49 +32,87 @@ function hexToBytes(hex: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Encode a string as UTF-8 bytes (checksums are computed over UTF-8, like pastella-core)
+ */
+function utf8Encode(str: string): number[] {
+  const bytes: number[] = [];
+  for (const char of str) {
+    const code = char.codePointAt(0);
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+}
+
+let crc32Table: Uint32Array | null = null;
+
 function crc32(str: string): number {
-  const table = new Uint32Array(256);
-  for (let i = 0; i < 256; i++) {
-    let crc = i;
-    for (let j = 0; j < 8; j++) {
-      crc = (crc & 1) ? (0xEDB88320 ^ (crc >>> 1)) : (crc >>> 1);
+  if (!crc32Table) {
+    crc32Table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let crc = i;
+      for (let j = 0; j < 8; j++) {
+        crc = (crc & 1) ? (0xEDB88320 ^ (crc >>> 1)) : (crc >>> 1);
+      }
+      crc32Table[i] = crc;
     }
-    table[i] = crc;
   }
+  const table = crc32Table;
 
   let crc = 0xFFFFFFFF;
-  for (let i = 0; i < str.length; i++) {
-    crc = (crc >>> 8) ^ table[(crc ^ str.charCodeAt(i)) & 0xFF];
+  for (const byte of utf8Encode(str)) {
+    crc = (crc >>> 8) ^ table[(crc ^ byte) & 0xFF];
   }
 
   return (crc ^ 0xFFFFFFFF) >>> 0;
 }
 
-function getWordIndex(word: string): number {
-  const index = WORDLIST.indexOf(word);
+function getWordIndex(word: string, wordlist: Wordlist): number {
+  const index = wordlist.words.indexOf(word);
   if (index === -1) {
     throw new Error(`Word not found in wordlist: ${word}`);
   }
   return index;
 }
 
+/**
+ * Split a mnemonic into NFKC-normalized words
+ */
+function splitMnemonicWords(mnemonic: string): string[] {
+  return mnemonic.normalize('NFKC').trim().split(/\s+/);
+}
+
 // ============================================================================
 // MNEMONIC CONVERSION (EXACT COPY)
 // ============================================================================
-function mnemonicToPrivateKey(mnemonic: string): Uint8Array {
-  const words = mnemonic.trim().split(/\s+/);
+function mnemonicToPrivateKey(mnemonic: string, language?: string): Uint8Array {
+  const words = splitMnemonicWords(mnemonic);
   if (words.length !== 25) {
     throw new Error('Mnemonic must have exactly 25 words');
   }
 
+  const wordlist = getWordlist(language ?? detectMnemonicLanguage(mnemonic));
   const dataWords = words.slice(0, 24);
   const privateKeyBytes: number[] = [];
 
   for (let i = 0; i < 24; i += 3) {
-    const w1 = getWordIndex(dataWords[i]);
-    const w2 = getWordIndex(dataWords[i + 1]);
-    const w3 = getWordIndex(dataWords[i + 2]);
-    const wlLen = 1626;
+    const w1 = getWordIndex(dataWords[i], wordlist);
+    const w2 = getWordIndex(dataWords[i + 1], wordlist);
+    const w3 = getWordIndex(dataWords[i + 2], wordlist);
+    const wlLen = WORDLIST_SIZE;
 
     const val = w1 + wlLen * (((wlLen - w1) + w2) % wlLen) +
                 wlLen * wlLen * (((wlLen - w2) + w3) % wlLen);
@@ -298,10 +132,39 @@ function mnemonicToPrivateKey(mnemonic: string): Uint8Array {
   return new Uint8Array(privateKeyBytes);
 }
 
-function calculateChecksumWord(words: string[]): string {
+/**
+ * Encode 32 private key bytes as a 25-word mnemonic
+ * Inverse of mnemonicToPrivateKey: every 4-byte little-endian chunk becomes 3 words
+ */
+function privateKeyToMnemonic(privateKeyBytes: Uint8Array, language: string = DEFAULT_LANGUAGE): string {
+  if (privateKeyBytes.length !== 32) {
+    throw new Error(`Private key must be 32 bytes, got ${privateKeyBytes.length}`);
+  }
+
+  const wordlist = getWordlist(language);
+  const view = new DataView(privateKeyBytes.buffer, privateKeyBytes.byteOffset, privateKeyBytes.byteLength);
+  const wlLen = WORDLIST_SIZE;
+  const words: string[] = [];
+
+  for (let i = 0; i < 32; i += 4) {
+    const val = view.getUint32(i, true);
+
+    const w1 = val % wlLen;
+    const w2 = (Math.floor(val / wlLen) + w1) % wlLen;
+    const w3 = (Math.floor(Math.floor(val / wlLen) / wlLen) + w2) % wlLen;
+
+    words.push(wordlist.words[w1], wordlist.words[w2], wordlist.words[w3]);
+  }
+
+  words.push(calculateChecksumWord(words, wordlist));
+
+  return words.join(' ');
+}
+
+function calculateChecksumWord(words: string[], wordlist: Wordlist): string {
   let trimmed = '';
   for (const word of words) {
-    trimmed += word.substr(0, 3);
+    trimmed += Array.from(word).slice(0, wordlist.prefixLength).join('');
   }
 
   const hash = crc32(trimmed);
@@ -310,35 +173,407 @@ function calculateChecksumWord(words: string[]): string {
   return words[checksumIndex];
 }
 
-function verifyMnemonicChecksum(mnemonic: string): boolean {
-  const words = mnemonic.trim().split(/\s+/);
+function verifyMnemonicChecksum(mnemonic: string, language?: string): boolean {
+  const words = splitMnemonicWords(mnemonic);
   if (words.length !== 25) {
     return false;
   }
 
+  let wordlist: Wordlist;
+  try {
+    wordlist = getWordlist(language ?? detectMnemonicLanguage(mnemonic));
+  } catch (error) {
+    return false;
+  }
+
   const dataWords = words.slice(0, 24);
-  const expectedChecksum = calculateChecksumWord(dataWords);
+  const expectedChecksum = calculateChecksumWord(dataWords, wordlist);
   const actualChecksum = words[24];
 
   return expectedChecksum === actualChecksum;
 }
 
+/**
+ * Detect the language of a mnemonic
+ * Picks the registered wordlist containing every word. If several do
+ * (lists share a few words), the one whose checksum word verifies wins.
+ *
+ * @throws if no wordlist contains all words, or the language is ambiguous
+ */
+export function detectMnemonicLanguage(mnemonic: string): string {
+  const words = splitMnemonicWords(mnemonic);
+
+  const candidates = getSupportedLanguages().filter(language => {
+    const wordSet = new Set(getWordlist(language).words);
+    return words.every(word => wordSet.has(word));
+  });
+
+  if (candidates.length === 0) {
+    throw new Error('Mnemonic words do not belong to any supported language');
+  }
+  if (candidates.length === 1 || words.length !== 25) {
+    return candidates[0];
+  }
+
+  const verified = candidates.filter(language => {
+    const wordlist = getWordlist(language);
+    return calculateChecksumWord(words.slice(0, 24), wordlist) === words[24];
+  });
+
+  if (verified.length === 1) {
+    return verified[0];
+  }
+
+  throw new Error(`Mnemonic language is ambiguous: ${candidates.join(', ')}`);
+}
+
+/**
+ * Re-encode a mnemonic in another language
+ * The private key (and therefore the address) is unchanged.
+ */
+export function convertMnemonicLanguage(mnemonic: string, targetLanguage: string, sourceLanguage?: string): string {
+  if (!verifyMnemonicChecksum(mnemonic, sourceLanguage)) {
+    throw new Error('Invalid mnemonic checksum');
+  }
+
+  const privateKeyBytes = mnemonicToPrivateKey(mnemonic, sourceLanguage);
+  return privateKeyToMnemonic(privateKeyBytes, targetLanguage);
+}
+
 // ============================================================================
-// ADDRESS GENERATION
+// MNEMONIC DIAGNOSTICS
 // ============================================================================
-function encodeVarint(num: number): Uint8Array {
-  const bytes: number[] = [];
 
-  while (num >= 0x80) {
-    const byte = (num & 0x7f) | 0x80;
-    bytes.push(byte);
-    num >>>= 7;
+const MAX_SUGGESTIONS = 5;
+const MAX_EDIT_DISTANCE = 2;
+
+export interface MnemonicWordIssue {
+  index: number;          // Position of the word in the mnemonic (0-based)
+  word: string;           // The word as entered
+  suggestions: string[];  // Closest wordlist matches, best first
+}
+
+export interface MnemonicDiagnosis {
+  valid: boolean;
+  wordCount: number;
+  language: string | null;             // Detected (or given) language, null if no word matched any list
+  unknownWords: MnemonicWordIssue[];
+  checksumValid: boolean;
+  expectedChecksumWord: string | null; // Checksum word computed from the first 24 words, when they are all known
+  errors: string[];
+}
+
+export type MnemonicRecoveryKind = 'missing' | 'substituted' | 'transposed';
+
+export interface MnemonicCandidate {
+  mnemonic: string;
+  address: string;
+  position: number;           // Position of the inserted/replaced word (first position for transpositions)
+  kind: MnemonicRecoveryKind;
+}
+
+export interface MnemonicRecoveryOptions {
+  language?: string;
+  knownAddress?: string;      // Only return candidates deriving this address
+  maxCandidates?: number;     // Stop after this many candidates (default: unlimited)
+}
+
+/**
+ * Levenshtein distance between two words (compared by code point)
+ */
+function editDistance(a: string, b: string): number {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  let previous = Array.from({ length: t.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[t.length];
+}
+
+/**
+ * Suggest wordlist words for an unknown word
+ * Unique-prefix matches come first, then words within a small edit distance
+ */
+function suggestWords(word: string, wordlist: Wordlist): string[] {
+  const lower = word.toLowerCase();
+  const chars = Array.from(lower);
+  const suggestions: string[] = [];
+
+  // Unique prefix: the first prefixLength characters identify exactly one word
+  if (wordlist.prefixLength > 0 && chars.length >= wordlist.prefixLength) {
+    const prefix = chars.slice(0, wordlist.prefixLength).join('');
+    const match = wordlist.words.find(w => w.toLowerCase().startsWith(prefix));
+    if (match) {
+      suggestions.push(match);
+    }
+  }
+
+  // Truncated entry that only one word starts with
+  const completions = wordlist.words.filter(w => w.toLowerCase().startsWith(lower));
+  if (completions.length === 1 && !suggestions.includes(completions[0])) {
+    suggestions.push(completions[0]);
+  }
+
+  const close = wordlist.words
+    .map(w => ({ word: w, distance: editDistance(lower, w.toLowerCase()) }))
+    .filter(c => c.distance <= MAX_EDIT_DISTANCE)
+    .sort((a, b) => a.distance - b.distance || a.word.localeCompare(b.word));
+
+  for (const candidate of close) {
+    if (!suggestions.includes(candidate.word)) {
+      suggestions.push(candidate.word);
+    }
+  }
+
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Pick the language that knows the most words of a (possibly misspelled) mnemonic
+ */
+function guessMnemonicLanguage(words: string[]): string | null {
+  let best: string | null = null;
+  let bestCount = 0;
+
+  for (const language of getSupportedLanguages()) {
+    const wordSet = new Set(getWordlist(language).words);
+    const count = words.filter(word => wordSet.has(word)).length;
+    if (count > bestCount) {
+      best = language;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Diagnose a mnemonic: word count, unknown words with suggestions, and checksum
+ */
+export function diagnoseMnemonic(mnemonic: string, language?: string): MnemonicDiagnosis {
+  const words = mnemonic.trim() ? splitMnemonicWords(mnemonic) : [];
+  const errors: string[] = [];
+
+  if (words.length !== 25) {
+    errors.push(`Mnemonic must have exactly 25 words, got ${words.length}`);
+  }
+
+  const detected = language ?? guessMnemonicLanguage(words);
+  if (!detected) {
+    errors.push('Mnemonic words do not belong to any supported language');
+    return {
+      valid: false,
+      wordCount: words.length,
+      language: null,
+      unknownWords: words.map((word, index) => ({ index, word, suggestions: [] })),
+      checksumValid: false,
+      expectedChecksumWord: null,
+      errors,
+    };
+  }
+
+  const wordlist = getWordlist(detected);
+  const wordSet = new Set(wordlist.words);
+
+  const unknownWords: MnemonicWordIssue[] = [];
+  words.forEach((word, index) => {
+    if (!wordSet.has(word)) {
+      unknownWords.push({ index, word, suggestions: suggestWords(word, wordlist) });
+    }
+  });
+
+  for (const issue of unknownWords) {
+    errors.push(`Unknown word at position ${issue.index + 1}: ${issue.word}`);
+  }
+
+  // Checksum can be computed once the 24 data words are known
+  let expectedChecksumWord: string | null = null;
+  let checksumValid = false;
+  if (words.length >= 24 && !unknownWords.some(issue => issue.index < 24)) {
+    expectedChecksumWord = calculateChecksumWord(words.slice(0, 24), wordlist);
+    if (words.length === 25) {
+      checksumValid = words[24] === expectedChecksumWord;
+      if (!checksumValid && wordSet.has(words[24])) {
+        errors.push(`Wrong checksum word: expected ${expectedChecksumWord}, got ${words[24]}`);
+      }
+    }
+  }
+
+  return {
+    valid: words.length === 25 && unknownWords.length === 0 && checksumValid,
+    wordCount: words.length,
+    language: detected,
+    unknownWords,
+    checksumValid,
+    expectedChecksumWord,
+    errors,
+  };
+}
+
+/**
+ * Validate a mnemonic phrase
+ * Checks the word count (24 words + checksum), that every word is in the
+ * wordlist and that the checksum word matches. Use diagnoseMnemonic for details.
+ */
+export function validateMnemonic(mnemonic: string, language?: string): boolean {
+  return diagnoseMnemonic(mnemonic, language).valid;
+}
+
+/**
+ * Recover a mnemonic with one missing, mistyped or swapped word
+ *
+ * Candidates are tested against the checksum word. As roughly 1 in 24 random
+ * candidates passes the checksum, pass knownAddress to pin down the right one.
+ *
+ * - 24 words: a word is missing, every word is tried at every position
+ * - 25 words with an unknown word: that word is replaced
+ * - 25 known words with a bad checksum: every single-word substitution and
+ *   every adjacent transposition is tried
+ */
+export function recoverMnemonic(mnemonic: string, options: MnemonicRecoveryOptions = {}): MnemonicCandidate[] {
+  const words = splitMnemonicWords(mnemonic);
+  const language = options.language ?? guessMnemonicLanguage(words);
+  if (!language) {
+    throw new Error('Mnemonic words do not belong to any supported language');
+  }
+
+  const wordlist = getWordlist(language);
+  const wordSet = new Set(wordlist.words);
+  const maxCandidates = options.maxCandidates ?? Number.MAX_SAFE_INTEGER;
+  const candidates: MnemonicCandidate[] = [];
+  const seen = new Set<string>();
+
+  const tryCandidate = (candidateWords: string[], position: number, kind: MnemonicRecoveryKind): boolean => {
+    if (calculateChecksumWord(candidateWords.slice(0, 24), wordlist) !== candidateWords[24]) {
+      return false;
+    }
+
+    const candidate = candidateWords.join(' ');
+    if (seen.has(candidate)) {
+      return false;
+    }
+    seen.add(candidate);
+
+    const keypair = generateEd25519Keypair(mnemonicToPrivateKey(candidate, language));
+    const address = publicKeyToAddress(keypair.publicKey);
+    if (options.knownAddress && address !== options.knownAddress) {
+      return false;
+    }
+
+    candidates.push({ mnemonic: candidate, address, position, kind });
+    return candidates.length >= maxCandidates;
+  };
+
+  // Order replacement words by closeness to what was typed, so likely fixes come first
+  const replacementsFor = (word: string | null): string[] => {
+    if (word === null) {
+      return wordlist.words;
+    }
+    const suggested = suggestWords(word, wordlist);
+    return [...suggested, ...wordlist.words.filter(w => !suggested.includes(w))];
+  };
+
+  if (words.length === 24) {
+    if (words.some(word => !wordSet.has(word))) {
+      throw new Error('Cannot recover a missing word while other words are unknown');
+    }
+
+    // Missing checksum word is determined by the data words
+    const withChecksum = [...words, calculateChecksumWord(words, wordlist)];
+    if (tryCandidate(withChecksum, 24, 'missing')) {
+      return candidates;
+    }
+
+    for (let position = 0; position < 24; position++) {
+      for (const word of wordlist.words) {
+        const candidateWords = [...words.slice(0, position), word, ...words.slice(position)];
+        if (tryCandidate(candidateWords, position, 'missing')) {
+          return candidates;
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  if (words.length !== 25) {
+    throw new Error(`Can only recover a single word: got ${words.length} words`);
+  }
+
+  const unknown = words
+    .map((word, index) => ({ word, index }))
+    .filter(entry => !wordSet.has(entry.word));
+
+  if (unknown.length > 1) {
+    throw new Error(`Cannot recover more than one unknown word, got ${unknown.length}`);
+  }
+
+  const positions = unknown.length === 1
+    ? [unknown[0].index]
+    : Array.from({ length: 25 }, (_, i) => i);
+
+  for (const position of positions) {
+    for (const word of replacementsFor(words[position])) {
+      if (word === words[position]) continue;
+      const candidateWords = [...words];
+      candidateWords[position] = word;
+      if (tryCandidate(candidateWords, position, 'substituted')) {
+        return candidates;
+      }
+    }
+  }
+
+  if (unknown.length === 0) {
+    for (let position = 0; position < 24; position++) {
+      if (words[position] === words[position + 1]) continue;
+      const candidateWords = [...words];
+      candidateWords[position] = words[position + 1];
+      candidateWords[position + 1] = words[position];
+      if (tryCandidate(candidateWords, position, 'transposed')) {
+        return candidates;
+      }
+    }
   }
-  bytes.push(num & 0xff);
 
-  return new Uint8Array(bytes);
+  return candidates;
 }
 
+// ============================================================================
+// ENTROPY
+// ============================================================================
+
+/**
+ * Reduce 32 entropy bytes modulo the curve order so the mnemonic encodes a canonical scalar
+ * Matches sc_reduce32 as used by pastella-core when recovering keys from a seed
+ */
+function reduceEntropyToScalar(entropy: Uint8Array): Uint8Array {
+  let scalarBigInt = 0n;
+  for (let i = 0; i < 32; i++) {
+    scalarBigInt |= BigInt(entropy[i]) << (BigInt(i) * 8n);
+  }
+
+  const curveOrder = 0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3edn;
+  const reduced = scalarBigInt % curveOrder;
+
+  const result = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    result[i] = Number((reduced >> (BigInt(i) * 8n)) & 0xffn);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// ADDRESS GENERATION
+// ============================================================================
 function uint8BeToBigInt(buffer: Uint8Array, offset: number, size: number): bigint {
   if (size < 1 || size > 8) {
     throw new Error('Invalid size');
@@ -484,7 +719,10 @@ function base58Encode(buffer: Uint8Array): string {
   return result.join('');
 }
 
-function generateEd25519Keypair(privateKeyBytes: Uint8Array): { publicKey: Uint8Array; privateKey: Uint8Array } {
+/**
+ * Derive the Ed25519 keypair of a private key (reduced modulo the curve order)
+ */
+export function generateEd25519Keypair(privateKeyBytes: Uint8Array): { publicKey: Uint8Array; privateKey: Uint8Array } {
   let scalarBigInt = 0n;
   for (let i = 0; i < 32; i++) {
     scalarBigInt |= BigInt(privateKeyBytes[i]) << (BigInt(i) * 8n);
@@ -517,46 +755,55 @@ function generateEd25519Keypair(privateKeyBytes: Uint8Array): { publicKey: Uint8
   };
 }
 
-function publicKeyToAddress(publicKeyBytes: Uint8Array): string {
-  const prefixBytes = encodeVarint(WALLET_ADDRESS_PREFIX);
-
-  const buffer = new Uint8Array(prefixBytes.length + publicKeyBytes.length);
-  buffer.set(prefixBytes, 0);
-  buffer.set(publicKeyBytes, prefixBytes.length);
-
-  const hashHex = keccak256(buffer);
-  const hashBytes = hexToBytes(hashHex);
-
-  const checksum = hashBytes.slice(0, 4);
-
-  const finalBuffer = new Uint8Array(buffer.length + 4);
-  finalBuffer.set(buffer, 0);
-  finalBuffer.set(checksum, buffer.length);
-
-  return base58Encode(finalBuffer);
+/**
+ * Encode a 32-byte public key as a Pastella address
+ * @param network - Network whose address prefix is used (default: MAINNET)
+ */
+export function publicKeyToAddress(publicKeyBytes: Uint8Array, network: NetworkParams = MAINNET): string {
+  return encodeAddress(publicKeyBytes, undefined, network);
 }
 
 // ============================================================================
 // EXPORTED WALLET CLASS
 // ============================================================================
 export class PastellaWallet {
-  static async generateWallet(): Promise<{ mnemonic: string; address: string }> {
-    // Generate 24 random words
-    const words: string[] = [];
-    for (let i = 0; i < 24; i++) {
-      const randomIndex = Math.floor(Math.random() * WORDLIST.length);
-      words.push(WORDLIST[randomIndex]);
+  /**
+   * Generate a new wallet from 32 bytes of CSPRNG entropy
+   * @param entropySource - Optional source overriding the configured/default CSPRNG
+   * @param language - Mnemonic language (default: english)
+   */
+  static async generateWallet(
+    entropySource?: EntropySource,
+    language: string = DEFAULT_LANGUAGE
+  ): Promise<{ mnemonic: string; address: string }> {
+    const entropy = await getSecureRandomBytes(32, entropySource);
+    return PastellaWallet.generateWalletFromEntropy(entropy, language);
+  }
+
+  /**
+   * Deterministically generate a wallet from 32 bytes of entropy
+   *
+   * entropy → sc_reduce32 → private key → 25-word mnemonic → public key → address
+   * The same entropy always yields the same wallet, which makes the derivation chain auditable.
+   */
+  static generateWalletFromEntropy(
+    entropy: Uint8Array,
+    language: string = DEFAULT_LANGUAGE
+  ): { mnemonic: string; address: string } {
+    if (entropy.length !== 32) {
+      throw new Error(`Entropy must be 32 bytes, got ${entropy.length}`);
     }
 
-    // Calculate checksum word
-    const checksumWord = calculateChecksumWord(words);
+    const privateKeyBytes = reduceEntropyToScalar(entropy);
+    if (privateKeyBytes.every(b => b === 0)) {
+      throw new Error('Entropy reduces to a zero private key');
+    }
 
-    // Combine to create 25-word mnemonic
-    const mnemonic = [...words, checksumWord].join(' ');
+    // Encode private key as 25-word mnemonic
+    const mnemonic = privateKeyToMnemonic(privateKeyBytes, language);
 
     // Generate address from mnemonic
-    const privateKeyBytes = mnemonicToPrivateKey(mnemonic);
-    const keypair = generateEd25519Keypair(privateKeyBytes);
+    const keypair = generateEd25519Keypair(mnemonicToPrivateKey(mnemonic, language));
     const address = publicKeyToAddress(keypair.publicKey);
 
     return {
@@ -565,12 +812,17 @@ export class PastellaWallet {
     };
   }
 
-  static async importFromMnemonic(mnemonic: string): Promise<{ address: string }> {
-    if (!verifyMnemonicChecksum(mnemonic)) {
-      throw new Error('Invalid mnemonic checksum');
+  /**
+   * Import a wallet from its mnemonic
+   * @throws InvalidMnemonicError carrying a MnemonicDiagnosis (unknown words, suggestions, checksum)
+   */
+  static async importFromMnemonic(mnemonic: string, language?: string): Promise<{ address: string }> {
+    const diagnosis = diagnoseMnemonic(mnemonic, language);
+    if (!diagnosis.valid) {
+      throw new InvalidMnemonicError(diagnosis);
     }
 
-    const privateKeyBytes = mnemonicToPrivateKey(mnemonic);
+    const privateKeyBytes = mnemonicToPrivateKey(mnemonic, language);
     const keypair = generateEd25519Keypair(privateKeyBytes);
     const address = publicKeyToAddress(keypair.publicKey);
 
@@ -614,21 +866,31 @@ export class PastellaWallet {
 /**
  * Convert a hex string public key to a readable address
  */
-export function publicKeyHexToAddress(publicKeyHex: string): string {
+export function publicKeyHexToAddress(publicKeyHex: string, network: NetworkParams = MAINNET): string {
   const publicKeyBytes = hexToBytes(publicKeyHex);
-  return publicKeyToAddress(publicKeyBytes);
+  return publicKeyToAddress(publicKeyBytes, network);
+}
+
+/**
+ * Extract the public key from a standard address, verifying prefix, length and checksum
+ * Returns null otherwise; decodeAddress reports which check failed
+ */
+export function addressToPublicKeyHex(address: string, network: NetworkParams = MAINNET): string | null {
+  const decoded = decodeAddress(address, network);
+  return decoded.valid && decoded.kind === 'standard' ? decoded.publicKey : null;
 }
 
 /**
  * Derive the public spend key from a mnemonic phrase
  * Returns the public key as a hex string for wallet sync
+ * The language is auto-detected when not given
  */
-export function derivePublicKeyFromMnemonic(mnemonic: string): string {
-  if (!verifyMnemonicChecksum(mnemonic)) {
+export function derivePublicKeyFromMnemonic(mnemonic: string, language?: string): string {
+  if (!verifyMnemonicChecksum(mnemonic, language)) {
     throw new Error('Invalid mnemonic checksum');
   }
 
-  const privateKeyBytes = mnemonicToPrivateKey(mnemonic);
+  const privateKeyBytes = mnemonicToPrivateKey(mnemonic, language);
   const keypair = generateEd25519Keypair(privateKeyBytes);
 
   // Convert public key bytes to hex string
@@ -641,12 +903,12 @@ export function derivePublicKeyFromMnemonic(mnemonic: string): string {
  * Derive the private key from a mnemonic phrase
  * Returns the private key as a hex string for signing transactions
  */
-export function derivePrivateKeyFromMnemonic(mnemonic: string): string {
-  if (!verifyMnemonicChecksum(mnemonic)) {
+export function derivePrivateKeyFromMnemonic(mnemonic: string, language?: string): string {
+  if (!verifyMnemonicChecksum(mnemonic, language)) {
     throw new Error('Invalid mnemonic checksum');
   }
 
-  const privateKeyBytes = mnemonicToPrivateKey(mnemonic);
+  const privateKeyBytes = mnemonicToPrivateKey(mnemonic, language);
 
   // Convert private key bytes to hex string
   return Array.from(privateKeyBytes)
@@ -654,6 +916,19 @@ export function derivePrivateKeyFromMnemonic(mnemonic: string): string {
     .join('');
 }
 
+/**
+ * Encode a private key hex string as a 25-word mnemonic
+ * The key is not reduced, so the mnemonic restores exactly this key
+ */
+export function privateKeyHexToMnemonic(privateKeyHex: string, language: string = DEFAULT_LANGUAGE): string {
+  const hexKey = privateKeyHex.replace(/^0x/i, '');
+  if (!/^[0-9a-fA-F]{64}$/.test(hexKey)) {
+    throw new Error('Private key must be 64 hex characters');
+  }
+
+  return privateKeyToMnemonic(hexToBytes(hexKey), language);
+}
+
 /**
  * Derive the public key from a private key hex string
  * Returns the public key as a hex string for wallet sync
@@ -688,13 +963,17 @@ export function derivePublicKeyFromPrivateKey(privateKeyHex: string): string {
 /**
  * Derive both public and private keys from a mnemonic phrase
  * Returns both keys as hex strings for transaction signing
+ * Accepts a mnemonic in any supported language (auto-detected when not given)
  */
-export function deriveKeysFromMnemonic(mnemonic: string): { publicKey: string; privateKey: string } {
-  if (!verifyMnemonicChecksum(mnemonic)) {
+export function deriveKeysFromMnemonic(
+  mnemonic: string,
+  language?: string
+): { publicKey: string; privateKey: string } {
+  if (!verifyMnemonicChecksum(mnemonic, language)) {
     throw new Error('Invalid mnemonic checksum');
   }
 
-  const privateKeyBytes = mnemonicToPrivateKey(mnemonic);
+  const privateKeyBytes = mnemonicToPrivateKey(mnemonic, language);
   const keypair = generateEd25519Keypair(privateKeyBytes);
 
   // Convert both keys to hex strings
@@ -748,6 +1027,37 @@ export function atomicToCoins(atomic: number): number {
 // ============================================================================
 export { DaemonApi } from './api';
 export { WalletSync, WalletSyncConfig } from './walletSync';
+export {
+  setSchnorrNonceMode,
+  getSchnorrNonceMode,
+  SchnorrNonceMode,
+  verifySchnorrSignature,
+  verifySchnorrBatch,
+  SchnorrBatchItem,
+  SchnorrBatchResult,
+  generateAdaptorSignature,
+  verifyAdaptorSignature,
+  completeAdaptorSignature,
+  extractAdaptorSecret,
+  hashToEc,
+  generateKeyImage,
+} from './crypto';
+export * from './entropy';
+export * from './wordlists';
+export * from './accounts';
+export * from './keystore';
+export * from './shamir';
+export * from './message';
+export * from './paymentUri';
+export * from './integratedAddress';
+export * from './address';
+export * from './signer';
+export * from './pst';
+export * from './fees';
+export * from './coinSelection';
+export * from './consolidation';
+export * from './frost';
+export * from './swap';
 export { Wallet } from './Wallet';
 export * from './types';
 export * from './transaction';
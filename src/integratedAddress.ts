@@ -0,0 +1,187 @@
+/**
+ * Pastella Integrated Addresses
+ *
+ * An integrated address bundles a wallet public key with a payment ID, so a
+ * service can hand out one deposit address per customer while every deposit
+ * still lands on the same wallet key.
+ *
+ * Address format (Base58, same block encoding as standard addresses):
+ *   [varint integratedAddressPrefix] [publicKey 32] [paymentId 32] [checksum 4]
+ * where checksum is the first 4 bytes of Keccak-256 of the preceding bytes.
+ *
+ * Outputs sent to an integrated address go to the plain public key; the
+ * payment ID travels in the transaction extra field as an extra nonce:
+ *   [TX_EXTRA_NONCE] [varint 33] [TX_EXTRA_NONCE_PAYMENT_ID] [paymentId 32]
+ */
+
+import { PAYMENT_ID_SIZE, TX_EXTRA_NONCE, TX_EXTRA_NONCE_PAYMENT_ID, MAINNET, NetworkParams } from './config';
+import { addressToPublicKeyHex } from './index';
+import { EntropySource, getSecureRandomBytes } from './entropy';
+import { encodeAddress, decodeAddress } from './address';
+import { ParsedExtraField, parseExtraFields } from './transaction';
+import { hexToBytes, bytesToHex, InvalidAddressError, InvalidPaymentIdError } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IntegratedAddressInfo {
+  integratedAddress: string;
+  address: string;      // Standard address of the same public key
+  publicKey: string;
+  paymentId: string;    // Hex, 32 bytes
+}
+
+// ============================================================================
+// PAYMENT IDS
+// ============================================================================
+
+/**
+ * Check that a payment ID is 32 bytes of hex
+ */
+export function isValidPaymentId(paymentId: string): boolean {
+  return typeof paymentId === 'string' && new RegExp(`^[0-9a-fA-F]{${PAYMENT_ID_SIZE * 2}}$`).test(paymentId);
+}
+
+/**
+ * Generate a random payment ID
+ */
+export async function generatePaymentId(entropySource?: EntropySource): Promise<string> {
+  return bytesToHex(await getSecureRandomBytes(PAYMENT_ID_SIZE, entropySource));
+}
+
+// ============================================================================
+// ADDRESS ENCODING
+// ============================================================================
+
+/**
+ * Combine a standard address and a payment ID into an integrated address
+ */
+export function createIntegratedAddress(address: string, paymentId: string, network: NetworkParams = MAINNET): string {
+  const publicKey = addressToPublicKeyHex(address, network);
+  if (!publicKey) {
+    throw new InvalidAddressError(address);
+  }
+  if (!isValidPaymentId(paymentId)) {
+    throw new InvalidPaymentIdError(paymentId);
+  }
+
+  return encodeAddress(publicKey, paymentId, network);
+}
+
+/**
+ * Decode an integrated address, or null if it is not a valid one
+ */
+export function decodeIntegratedAddress(
+  integratedAddress: string,
+  network: NetworkParams = MAINNET
+): IntegratedAddressInfo | null {
+  const decoded = decodeAddress(integratedAddress, network);
+  if (!decoded.valid || decoded.kind !== 'integrated') {
+    return null;
+  }
+
+  return {
+    integratedAddress,
+    address: encodeAddress(decoded.publicKey, undefined, network),
+    publicKey: decoded.publicKey,
+    paymentId: decoded.paymentId,
+  };
+}
+
+/**
+ * Payment ID of an integrated address, or null if it is not a valid one
+ */
+export function extractPaymentId(integratedAddress: string, network: NetworkParams = MAINNET): string | null {
+  const decoded = decodeIntegratedAddress(integratedAddress, network);
+  return decoded ? decoded.paymentId : null;
+}
+
+/**
+ * Split an integrated address into its standard address and payment ID
+ * Throws InvalidAddressError if the address is not a valid integrated address
+ */
+export function parseIntegratedAddress(integratedAddress: string, network: NetworkParams = MAINNET): IntegratedAddressInfo {
+  const decoded = decodeAddress(integratedAddress, network);
+  if (decoded.valid === false) {
+    throw new InvalidAddressError(integratedAddress, decoded.error);
+  }
+  if (decoded.kind !== 'integrated') {
+    throw new InvalidAddressError(integratedAddress, 'not an integrated address');
+  }
+  return decodeIntegratedAddress(integratedAddress, network);
+}
+
+/**
+ * Check whether a string is a valid integrated address
+ */
+export function isIntegratedAddress(address: string, network: NetworkParams = MAINNET): boolean {
+  return decodeIntegratedAddress(address, network) !== null;
+}
+
+// ============================================================================
+// TRANSACTION EXTRA
+// ============================================================================
+
+/**
+ * Extra nonce field carrying a payment ID
+ */
+export function serializePaymentIdNonce(paymentId: string): Uint8Array {
+  if (!isValidPaymentId(paymentId)) {
+    throw new InvalidPaymentIdError(paymentId);
+  }
+
+  const field = new Uint8Array(3 + PAYMENT_ID_SIZE);
+  field[0] = TX_EXTRA_NONCE;
+  field[1] = 1 + PAYMENT_ID_SIZE;   // Nonce length, fits in a single varint byte
+  field[2] = TX_EXTRA_NONCE_PAYMENT_ID;
+  field.set(hexToBytes(paymentId), 3);
+  return field;
+}
+
+/**
+ * Find the payment ID in a transaction extra field
+ *
+ * Reads the fields the way parseTransaction does, so a payment ID after a
+ * staking field is still found. Returns null if there is none, or if the
+ * field is malformed.
+ *
+ * @param extra - Raw extra bytes, as hex or binary
+ */
+export function getPaymentIdFromExtra(extra: string | Uint8Array | ArrayBuffer): string | null {
+  let bytes: Uint8Array;
+  if (typeof extra === 'string') {
+    if (!/^([0-9a-fA-F]{2})*$/.test(extra)) {
+      return null;
+    }
+    bytes = hexToBytes(extra);
+  } else {
+    bytes = extra instanceof Uint8Array ? extra : new Uint8Array(extra);
+  }
+
+  let fields: ParsedExtraField[];
+  try {
+    fields = parseExtraFields(bytes);
+  } catch (error) {
+    return null;   // A field runs past the end of the extra
+  }
+
+  const nonce = fields.find(field => field.type === 'nonce' && field.paymentId !== undefined);
+  return nonce && nonce.type === 'nonce' ? nonce.paymentId : null;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  createIntegratedAddress,
+  decodeIntegratedAddress,
+  extractPaymentId,
+  parseIntegratedAddress,
+  isIntegratedAddress,
+  generatePaymentId,
+  isValidPaymentId,
+  serializePaymentIdNonce,
+  getPaymentIdFromExtra,
+};
@@ -0,0 +1,474 @@
+/**
+ * Pastella Keystore
+ *
+ * Password-encrypted, versioned JSON container for a wallet secret
+ * (mnemonic or private key). The format is documented in DOCS.md so that
+ * other Pastella tools can read it.
+ *
+ * Encryption:
+ *   key        = scrypt(NFKC(password), salt, N, r, p, dkLen = 32)
+ *   ciphertext = XChaCha20-Poly1305(key, nonce, secret, aad)
+ *   aad        = "pastella-keystore:<version>:<secretType>:<address>:<creationHeight>"
+ * The label is not authenticated and can be edited without the password.
+ */
+
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import {
+  diagnoseMnemonic,
+  derivePrivateKeyFromMnemonic,
+  derivePublicKeyFromPrivateKey,
+  publicKeyHexToAddress,
+} from './index';
+import { EntropySource, getSecureRandomBytes } from './entropy';
+import {
+  hexToBytes,
+  bytesToHex,
+  KeystoreError,
+  InvalidPasswordError,
+  InvalidMnemonicError,
+} from './utils';
+import { MAINNET, NetworkParams } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type KeystoreSecretType = 'mnemonic' | 'privateKey';
+
+export type KdfPreset = 'mobile' | 'desktop';
+
+export interface ScryptParams {
+  n: number;  // CPU/memory cost, power of two (memory ~ 128 * n * r bytes)
+  r: number;  // Block size
+  p: number;  // Parallelism
+}
+
+export interface Keystore {
+  version: number;
+  type: 'pastella-keystore';
+  address: string;
+  label: string;
+  creationHeight: number;        // Height to start syncing from when restoring
+  secretType: KeystoreSecretType;
+  crypto: {
+    kdf: 'scrypt';
+    kdfparams: ScryptParams & {
+      dklen: number;
+      salt: string;              // Hex, 32 bytes
+    };
+    cipher: 'xchacha20-poly1305';
+    cipherparams: {
+      nonce: string;             // Hex, 24 bytes
+    };
+    ciphertext: string;          // Hex, encrypted secret followed by the 16-byte tag
+  };
+}
+
+export interface KeystoreSecret {
+  mnemonic?: string;
+  privateKey?: string;
+}
+
+export interface CreateKeystoreOptions {
+  label?: string;
+  creationHeight?: number;
+  kdf?: KdfPreset | ScryptParams;   // Default: 'desktop'
+  entropySource?: EntropySource;    // Salt and nonce source (default: platform CSPRNG)
+  network?: NetworkParams;          // Network of the stored address (default: MAINNET)
+  onProgress?: (progress: number) => void;
+}
+
+export interface UnlockedKeystore {
+  secretType: KeystoreSecretType;
+  mnemonic: string | null;
+  privateKey: string;
+  publicKey: string;
+  address: string;
+  label: string;
+  creationHeight: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const KEYSTORE_VERSION = 1;
+
+/**
+ * scrypt presets
+ * mobile:  N = 2^14, 16 MiB, roughly 0.1-0.3 s on a phone
+ * desktop: N = 2^17, 128 MiB, roughly 0.5-1 s on a desktop CPU
+ */
+export const KDF_PRESETS: Record<KdfPreset, ScryptParams> = {
+  mobile: { n: 1 << 14, r: 8, p: 1 },
+  desktop: { n: 1 << 17, r: 8, p: 1 },
+};
+
+const KEYSTORE_TYPE = 'pastella-keystore';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const NONCE_LENGTH = 24;
+const TAG_LENGTH = 16;
+
+// Upper bound so a crafted keystore cannot make unlocking exhaust memory
+const MAX_SCRYPT_MEMORY = 1 << 30; // 1 GiB
+const MAX_SCRYPT_P = 16;
+
+// ============================================================================
+// KEYSTORE API
+// ============================================================================
+
+/**
+ * Encrypt a mnemonic or private key into a new keystore
+ */
+export async function createKeystore(
+  secret: KeystoreSecret,
+  password: string,
+  options: CreateKeystoreOptions = {}
+): Promise<Keystore> {
+  const { secretType, value, privateKey } = normalizeSecret(secret);
+  const address = publicKeyHexToAddress(derivePublicKeyFromPrivateKey(privateKey), options.network ?? MAINNET);
+
+  const params = resolveKdfParams(options.kdf ?? 'desktop');
+  const salt = await getSecureRandomBytes(SALT_LENGTH, options.entropySource);
+  const nonce = await getSecureRandomBytes(NONCE_LENGTH, options.entropySource);
+
+  const creationHeight = options.creationHeight ?? 0;
+  if (!Number.isInteger(creationHeight) || creationHeight < 0) {
+    throw new KeystoreError('Creation height must be a non-negative integer');
+  }
+
+  const key = await deriveKey(password, salt, params, options.onProgress);
+  const aad = associatedData(KEYSTORE_VERSION, secretType, address, creationHeight);
+  const ciphertext = xchacha20poly1305(key, nonce, aad).encrypt(new TextEncoder().encode(value));
+  key.fill(0);
+
+  return {
+    version: KEYSTORE_VERSION,
+    type: KEYSTORE_TYPE,
+    address,
+    label: options.label ?? '',
+    creationHeight,
+    secretType,
+    crypto: {
+      kdf: 'scrypt',
+      kdfparams: {
+        ...params,
+        dklen: KEY_LENGTH,
+        salt: bytesToHex(salt),
+      },
+      cipher: 'xchacha20-poly1305',
+      cipherparams: {
+        nonce: bytesToHex(nonce),
+      },
+      ciphertext: bytesToHex(ciphertext),
+    },
+  };
+}
+
+/**
+ * Decrypt a keystore
+ * Throws InvalidPasswordError when the password is wrong or the file was tampered with
+ *
+ * @param network - Network the keystore was created for; its address is checked against it
+ */
+export async function unlockKeystore(
+  keystore: Keystore | string,
+  password: string,
+  onProgress?: (progress: number) => void,
+  network: NetworkParams = MAINNET
+): Promise<UnlockedKeystore> {
+  const parsed = parseKeystore(keystore);
+  const { kdfparams, cipherparams, ciphertext } = parsed.crypto;
+
+  const key = await deriveKey(password, hexToBytes(kdfparams.salt), kdfparams, onProgress);
+  const aad = associatedData(parsed.version, parsed.secretType, parsed.address, parsed.creationHeight);
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = xchacha20poly1305(key, hexToBytes(cipherparams.nonce), aad).decrypt(hexToBytes(ciphertext));
+  } catch (error) {
+    throw new InvalidPasswordError();
+  } finally {
+    key.fill(0);
+  }
+
+  const value = new TextDecoder().decode(plaintext);
+  plaintext.fill(0);
+
+  const { privateKey } = normalizeSecret(
+    parsed.secretType === 'mnemonic' ? { mnemonic: value } : { privateKey: value }
+  );
+  const publicKey = derivePublicKeyFromPrivateKey(privateKey);
+  const address = publicKeyHexToAddress(publicKey, network);
+
+  if (address !== parsed.address) {
+    throw new KeystoreError('Keystore secret does not match its address', { expected: parsed.address, actual: address });
+  }
+
+  return {
+    secretType: parsed.secretType,
+    mnemonic: parsed.secretType === 'mnemonic' ? value : null,
+    privateKey,
+    publicKey,
+    address,
+    label: parsed.label,
+    creationHeight: parsed.creationHeight,
+  };
+}
+
+/**
+ * Re-encrypt a keystore under a new password (and optionally new KDF parameters)
+ * Salt and nonce are always regenerated.
+ */
+export async function changeKeystorePassword(
+  keystore: Keystore | string,
+  oldPassword: string,
+  newPassword: string,
+  options: Pick<CreateKeystoreOptions, 'kdf' | 'entropySource' | 'network' | 'onProgress'> = {}
+): Promise<Keystore> {
+  const parsed = parseKeystore(keystore);
+  const unlocked = await unlockKeystore(parsed, oldPassword, undefined, options.network);
+  const { n, r, p } = parsed.crypto.kdfparams;
+
+  return createKeystore(
+    unlocked.mnemonic !== null ? { mnemonic: unlocked.mnemonic } : { privateKey: unlocked.privateKey },
+    newPassword,
+    {
+      label: parsed.label,
+      creationHeight: parsed.creationHeight,
+      kdf: options.kdf ?? { n, r, p },
+      entropySource: options.entropySource,
+      network: options.network,
+      onProgress: options.onProgress,
+    }
+  );
+}
+
+/**
+ * Parse and validate a keystore from JSON text or an object
+ */
+export function parseKeystore(input: Keystore | string): Keystore {
+  let data: unknown;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch (error) {
+      throw new KeystoreError('Keystore is not valid JSON');
+    }
+  } else {
+    data = input;
+  }
+
+  const keystore = asRecord(data);
+  if (!keystore || keystore.type !== KEYSTORE_TYPE) {
+    throw new KeystoreError('Not a Pastella keystore');
+  }
+
+  const { version, secretType, address, creationHeight, label } = keystore;
+  if (version !== KEYSTORE_VERSION) {
+    throw new KeystoreError(`Unsupported keystore version: ${version}`, { version });
+  }
+  if (secretType !== 'mnemonic' && secretType !== 'privateKey') {
+    throw new KeystoreError(`Unknown secret type: ${secretType}`);
+  }
+  if (typeof address !== 'string' || typeof creationHeight !== 'number' || !Number.isInteger(creationHeight) || creationHeight < 0) {
+    throw new KeystoreError('Keystore address or creation height is invalid');
+  }
+
+  const crypto = asRecord(keystore.crypto);
+  if (!crypto || crypto.kdf !== 'scrypt' || crypto.cipher !== 'xchacha20-poly1305') {
+    throw new KeystoreError('Unsupported keystore KDF or cipher');
+  }
+
+  const kdfparams = asRecord(crypto.kdfparams) ?? {};
+  validateScryptParams(kdfparams);
+  if (kdfparams.dklen !== KEY_LENGTH) {
+    throw new KeystoreError(`Unsupported derived key length: ${kdfparams.dklen}`);
+  }
+
+  const salt = kdfparams.salt;
+  const nonce = asRecord(crypto.cipherparams)?.nonce;
+  const ciphertext = crypto.ciphertext;
+  requireHex(salt, SALT_LENGTH, 'salt');
+  requireHex(nonce, NONCE_LENGTH, 'nonce');
+  requireHex(ciphertext, null, 'ciphertext');
+  if (ciphertext.length / 2 <= TAG_LENGTH) {
+    throw new KeystoreError('Keystore ciphertext is too short');
+  }
+
+  return {
+    version,
+    type: KEYSTORE_TYPE,
+    address,
+    label: typeof label === 'string' ? label : '',
+    creationHeight,
+    secretType,
+    crypto: {
+      kdf: 'scrypt',
+      kdfparams: {
+        n: kdfparams.n,
+        r: kdfparams.r,
+        p: kdfparams.p,
+        dklen: KEY_LENGTH,
+        salt: salt.toLowerCase(),
+      },
+      cipher: 'xchacha20-poly1305',
+      cipherparams: {
+        nonce: nonce.toLowerCase(),
+      },
+      ciphertext: ciphertext.toLowerCase(),
+    },
+  };
+}
+
+/**
+ * Serialize a keystore to JSON text
+ */
+export function serializeKeystore(keystore: Keystore): string {
+  return JSON.stringify(keystore, null, 2);
+}
+
+// ============================================================================
+// INTERNAL HELPERS
+// ============================================================================
+
+/**
+ * Check a secret and resolve its private key
+ */
+function normalizeSecret(secret: KeystoreSecret): {
+  secretType: KeystoreSecretType;
+  value: string;
+  privateKey: string;
+} {
+  if (secret.mnemonic && secret.privateKey) {
+    throw new KeystoreError('Provide either a mnemonic or a private key, not both');
+  }
+
+  if (secret.mnemonic) {
+    const mnemonic = secret.mnemonic.normalize('NFKC').trim().split(/\s+/).join(' ');
+    const diagnosis = diagnoseMnemonic(mnemonic);
+    if (!diagnosis.valid) {
+      throw new InvalidMnemonicError(diagnosis);
+    }
+    return { secretType: 'mnemonic', value: mnemonic, privateKey: derivePrivateKeyFromMnemonic(mnemonic) };
+  }
+
+  if (secret.privateKey) {
+    const privateKey = secret.privateKey.replace(/^0x/i, '').toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(privateKey)) {
+      throw new KeystoreError('Private key must be 64 hex characters');
+    }
+    return { secretType: 'privateKey', value: privateKey, privateKey };
+  }
+
+  throw new KeystoreError('A mnemonic or private key is required');
+}
+
+/**
+ * Resolve a preset name or explicit parameters
+ */
+function resolveKdfParams(kdf: KdfPreset | ScryptParams): ScryptParams {
+  if (typeof kdf === 'string') {
+    const preset = KDF_PRESETS[kdf];
+    if (!preset) {
+      throw new KeystoreError(`Unknown KDF preset: ${kdf}`);
+    }
+    return { ...preset };
+  }
+
+  validateScryptParams(kdf);
+  return { n: kdf.n, r: kdf.r, p: kdf.p };
+}
+
+/**
+ * Check scrypt parameters against the supported bounds
+ */
+function validateScryptParams(params: { n?: unknown; r?: unknown; p?: unknown }): asserts params is ScryptParams {
+  const { n, r, p } = params;
+  if (typeof n !== 'number' || !Number.isInteger(n) || n < 2 || n > 2 ** 30 || (n & (n - 1)) !== 0) {
+    throw new KeystoreError('scrypt N must be a power of two');
+  }
+  if (typeof r !== 'number' || !Number.isInteger(r) || r < 1) {
+    throw new KeystoreError('scrypt r must be a positive integer');
+  }
+  if (typeof p !== 'number' || !Number.isInteger(p) || p < 1 || p > MAX_SCRYPT_P) {
+    throw new KeystoreError(`scrypt p must be between 1 and ${MAX_SCRYPT_P}`);
+  }
+  if (scryptMemory({ n, r, p }) > MAX_SCRYPT_MEMORY) {
+    throw new KeystoreError(`scrypt parameters need more than ${MAX_SCRYPT_MEMORY} bytes of memory`);
+  }
+}
+
+/**
+ * Memory used by scrypt for the given parameters, in bytes
+ */
+function scryptMemory(params: ScryptParams): number {
+  return 128 * params.r * (params.n + params.p);
+}
+
+/**
+ * View a parsed JSON value as an object, or null if it is not one
+ */
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+/**
+ * Check that a field is a hex string (of a given byte length)
+ */
+function requireHex(value: unknown, byteLength: number | null, field: string): asserts value is string {
+  if (typeof value !== 'string' || !/^([0-9a-fA-F]{2})+$/.test(value)) {
+    throw new KeystoreError(`Keystore ${field} must be a hex string`);
+  }
+  if (byteLength !== null && value.length !== byteLength * 2) {
+    throw new KeystoreError(`Keystore ${field} must be ${byteLength} bytes`);
+  }
+}
+
+/**
+ * Derive the encryption key from the password
+ */
+async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  params: ScryptParams,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> {
+  const passwordBytes = new TextEncoder().encode(password.normalize('NFKC'));
+  return scryptAsync(passwordBytes, salt, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    dkLen: KEY_LENGTH,
+    maxmem: MAX_SCRYPT_MEMORY,
+    onProgress,
+  });
+}
+
+/**
+ * Metadata bound to the ciphertext
+ */
+function associatedData(
+  version: number,
+  secretType: KeystoreSecretType,
+  address: string,
+  creationHeight: number
+): Uint8Array {
+  return new TextEncoder().encode(`${KEYSTORE_TYPE}:${version}:${secretType}:${address}:${creationHeight}`);
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  createKeystore,
+  unlockKeystore,
+  changeKeystorePassword,
+  parseKeystore,
+  serializeKeystore,
+  KDF_PRESETS,
+  KEYSTORE_VERSION,
+};
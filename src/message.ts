@@ -0,0 +1,218 @@
+/**
+ * Pastella Message Signing
+ *
+ * Proves ownership of an address by signing arbitrary messages with the
+ * Schnorr scheme used for transaction inputs.
+ *
+ * The signed hash is domain-separated from transaction prefix hashes:
+ *   h = Keccak-256("Pastella Signed Message:\n" || varint(len(message)) || message)
+ * so a message signature can never be replayed as a transaction signature.
+ *
+ * Compact encoding (signature together with the address):
+ *   "PASSIG1" || base58(publicKey (32) || c || s (64) || checksum (4))
+ * where checksum is the first 4 bytes of Keccak-256 of the preceding bytes.
+ */
+
+import { keccak256 } from 'js-sha3';
+import { generateSchnorrSignature, verifySchnorrSignature, bytesToHex } from './crypto';
+import {
+  base58Encode,
+  base58Decode,
+  derivePublicKeyFromPrivateKey,
+  publicKeyHexToAddress,
+  addressToPublicKeyHex,
+} from './index';
+import { hexToBytes } from './utils';
+import { MAINNET, NetworkParams } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SignedMessage {
+  address: string;
+  signature: string;  // Hex, 64 bytes (c || s)
+  encoded: string;    // Compact signature + address, see encodeMessageSignature
+}
+
+export interface DecodedMessageSignature {
+  address: string;
+  publicKey: string;
+  signature: Uint8Array;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MESSAGE_SIGNATURE_PREFIX = 'PASSIG1';
+
+const MESSAGE_DOMAIN = 'Pastella Signed Message:\n';
+
+// ============================================================================
+// MESSAGE SIGNING
+// ============================================================================
+
+/**
+ * Domain-separated hash of a message
+ */
+export function hashMessage(message: string | Uint8Array): Uint8Array {
+  const messageBytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+  const domain = new TextEncoder().encode(MESSAGE_DOMAIN);
+  const length = encodeVarint(messageBytes.length);
+
+  const data = new Uint8Array(domain.length + length.length + messageBytes.length);
+  data.set(domain, 0);
+  data.set(length, domain.length);
+  data.set(messageBytes, domain.length + length.length);
+
+  return hexToBytes(keccak256(data));
+}
+
+/**
+ * Sign a message with a private key
+ *
+ * @param network - Network of the returned address (default: MAINNET)
+ */
+export function signMessage(
+  message: string | Uint8Array,
+  privateKey: string,
+  network: NetworkParams = MAINNET
+): SignedMessage {
+  const publicKey = derivePublicKeyFromPrivateKey(privateKey);
+  const address = publicKeyHexToAddress(publicKey, network);
+  const signature = generateSchnorrSignature(hashMessage(message), publicKey, privateKey.replace(/^0x/i, ''));
+
+  return {
+    address,
+    signature: bytesToHex(signature),
+    encoded: encodeMessageSignature(address, signature, network),
+  };
+}
+
+/**
+ * Verify a message signature against an address
+ *
+ * @param signature - Hex signature, raw 64 bytes, or the compact encoding
+ *                    (which must then carry the same address)
+ * @param network - Network the address belongs to (default: MAINNET)
+ */
+export function verifyMessage(
+  message: string | Uint8Array,
+  address: string,
+  signature: string | Uint8Array,
+  network: NetworkParams = MAINNET
+): boolean {
+  try {
+    const publicKey = addressToPublicKeyHex(address, network);
+    if (!publicKey) {
+      return false;
+    }
+
+    let signatureBytes: Uint8Array;
+    if (typeof signature !== 'string') {
+      signatureBytes = signature;
+    } else if (signature.startsWith(MESSAGE_SIGNATURE_PREFIX)) {
+      const decoded = decodeMessageSignature(signature, network);
+      if (decoded.address !== address) {
+        return false;
+      }
+      signatureBytes = decoded.signature;
+    } else if (/^[0-9a-fA-F]{128}$/.test(signature)) {
+      signatureBytes = hexToBytes(signature);
+    } else {
+      return false;
+    }
+
+    if (signatureBytes.length !== 64) {
+      return false;
+    }
+
+    return verifySchnorrSignature(hashMessage(message), publicKey, signatureBytes);
+  } catch (error) {
+    return false;
+  }
+}
+
+// ============================================================================
+// COMPACT ENCODING
+// ============================================================================
+
+/**
+ * Encode a signature together with the signing address
+ */
+export function encodeMessageSignature(address: string, signature: Uint8Array, network: NetworkParams = MAINNET): string {
+  const publicKey = addressToPublicKeyHex(address, network);
+  if (!publicKey) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+  if (signature.length !== 64) {
+    throw new Error(`Signature must be 64 bytes, got ${signature.length}`);
+  }
+
+  const payload = new Uint8Array(100);
+  payload.set(hexToBytes(publicKey), 0);
+  payload.set(signature, 32);
+  payload.set(hexToBytes(keccak256(payload.subarray(0, 96))).subarray(0, 4), 96);
+
+  return MESSAGE_SIGNATURE_PREFIX + base58Encode(payload);
+}
+
+/**
+ * Decode a compact signature back to address and signature bytes
+ * The encoding holds only the public key; `network` picks the address it is shown as.
+ */
+export function decodeMessageSignature(encoded: string, network: NetworkParams = MAINNET): DecodedMessageSignature {
+  const trimmed = encoded.trim();
+  if (!trimmed.startsWith(MESSAGE_SIGNATURE_PREFIX)) {
+    throw new Error(`Message signature must start with ${MESSAGE_SIGNATURE_PREFIX}`);
+  }
+
+  const payload = base58Decode(trimmed.slice(MESSAGE_SIGNATURE_PREFIX.length));
+  if (payload.length !== 100) {
+    throw new Error(`Invalid message signature length: ${payload.length}`);
+  }
+
+  const checksum = hexToBytes(keccak256(payload.subarray(0, 96)));
+  for (let i = 0; i < 4; i++) {
+    if (payload[96 + i] !== checksum[i]) {
+      throw new Error('Message signature checksum mismatch');
+    }
+  }
+
+  const publicKey = bytesToHex(payload.slice(0, 32));
+  return {
+    address: publicKeyHexToAddress(publicKey, network),
+    publicKey,
+    signature: payload.slice(32, 96),
+  };
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Encode a number as varint
+ */
+function encodeVarint(num: number): Uint8Array {
+  const bytes: number[] = [];
+  while (num >= 0x80) {
+    bytes.push((num & 0x7f) | 0x80);
+    num >>>= 7;
+  }
+  bytes.push(num);
+  return new Uint8Array(bytes);
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  hashMessage,
+  signMessage,
+  verifyMessage,
+  encodeMessageSignature,
+  decodeMessageSignature,
+};
@@ -0,0 +1,283 @@
+/**
+ * Pastella Payment URIs
+ *
+ * Payment requests as "pastella:" URIs, e.g.
+ *   pastella:PAS1...?amount=12.5&label=Coffee%20Shop&message=Order%2042&expires=1767225600
+ * The address may also be an integrated address (PAS2...).
+ *
+ * Parameters:
+ *   amount         Amount in coins, at most DECIMALS fractional digits
+ *   amount_atomic  Amount in atomic units (alternative to amount)
+ *   label          Name of the recipient
+ *   message        Description of the payment
+ *   expires        Unix timestamp (seconds) after which the request is void
+ * Unknown parameters are kept in `extra`; unknown parameters prefixed with
+ * "req-" make the URI invalid.
+ */
+
+import { DECIMALS, MAINNET, NetworkParams } from './config';
+import { isValidAddress } from './address';
+import { TransactionDestination } from './transaction';
+import { InvalidPaymentUriError } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PaymentRequest {
+  address: string;
+  amount?: number;         // Atomic units
+  label?: string;
+  message?: string;
+  expires?: number;        // Unix timestamp in seconds
+  extra?: Record<string, string>;
+}
+
+export interface EncodePaymentUriOptions {
+  amountUnit?: 'coins' | 'atomic';   // How the amount is written (default: coins)
+  network?: NetworkParams;           // Network the address must belong to (default: MAINNET)
+}
+
+export interface ParsedPaymentRequest extends PaymentRequest {
+  expired: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PAYMENT_URI_SCHEME = 'pastella';
+
+const KNOWN_PARAMS = new Set(['amount', 'amount_atomic', 'label', 'message', 'expires']);
+
+// Byte-mode capacity of a version 40 QR code at error correction level L
+const MAX_QR_BYTES = 2953;
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Encode a payment request as a pastella: URI
+ */
+export function encodePaymentUri(request: PaymentRequest, options: EncodePaymentUriOptions = {}): string {
+  if (!isValidAddress(request.address, options.network ?? MAINNET)) {
+    throw new InvalidPaymentUriError(`Invalid address: ${request.address}`, { address: request.address });
+  }
+
+  const params: string[] = [];
+
+  if (request.amount !== undefined) {
+    validateAtomicAmount(request.amount);
+    if (options.amountUnit === 'atomic') {
+      params.push(`amount_atomic=${request.amount}`);
+    } else {
+      params.push(`amount=${atomicToCoinString(request.amount)}`);
+    }
+  }
+  if (request.label) {
+    params.push(`label=${encodeURIComponent(request.label)}`);
+  }
+  if (request.message) {
+    params.push(`message=${encodeURIComponent(request.message)}`);
+  }
+  if (request.expires !== undefined) {
+    if (!Number.isInteger(request.expires) || request.expires <= 0) {
+      throw new InvalidPaymentUriError('Expiry must be a positive Unix timestamp in seconds');
+    }
+    params.push(`expires=${request.expires}`);
+  }
+  for (const [key, value] of Object.entries(request.extra ?? {})) {
+    if (KNOWN_PARAMS.has(key)) {
+      throw new InvalidPaymentUriError(`Extra parameter "${key}" clashes with a standard parameter`);
+    }
+    params.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
+  }
+
+  const query = params.length > 0 ? `?${params.join('&')}` : '';
+  return `${PAYMENT_URI_SCHEME}:${request.address}${query}`;
+}
+
+/**
+ * QR code payload for a payment request
+ * The URI is pure ASCII (everything else is percent-encoded), so it fits
+ * byte-mode QR codes; throws if it exceeds the largest QR code.
+ */
+export function encodePaymentQrPayload(request: PaymentRequest, options: EncodePaymentUriOptions = {}): string {
+  const uri = encodePaymentUri(request, options);
+  if (uri.length > MAX_QR_BYTES) {
+    throw new InvalidPaymentUriError(`Payment URI is too long for a QR code (${uri.length} > ${MAX_QR_BYTES} bytes)`);
+  }
+  return uri;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse and validate a pastella: URI
+ *
+ * @param now - Current Unix time in seconds, used for `expired` (default: Date.now())
+ * @param network - Network the address must belong to (default: MAINNET)
+ */
+export function parsePaymentUri(
+  uri: string,
+  now: number = Math.floor(Date.now() / 1000),
+  network: NetworkParams = MAINNET
+): ParsedPaymentRequest {
+  const trimmed = uri.trim();
+  const schemeEnd = trimmed.indexOf(':');
+  if (schemeEnd < 0 || trimmed.slice(0, schemeEnd).toLowerCase() !== PAYMENT_URI_SCHEME) {
+    throw new InvalidPaymentUriError(`Payment URI must start with "${PAYMENT_URI_SCHEME}:"`);
+  }
+
+  let rest = trimmed.slice(schemeEnd + 1);
+  if (rest.startsWith('//')) {
+    rest = rest.slice(2);
+  }
+
+  const queryStart = rest.indexOf('?');
+  const address = queryStart < 0 ? rest : rest.slice(0, queryStart);
+  const query = queryStart < 0 ? '' : rest.slice(queryStart + 1);
+
+  if (!isValidAddress(address, network)) {
+    throw new InvalidPaymentUriError(`Invalid address: ${address}`, { address });
+  }
+
+  const params = new Map<string, string>();
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const separator = pair.indexOf('=');
+    const key = decodeComponent(separator < 0 ? pair : pair.slice(0, separator));
+    const value = decodeComponent(separator < 0 ? '' : pair.slice(separator + 1));
+    if (params.has(key)) {
+      throw new InvalidPaymentUriError(`Duplicate parameter: ${key}`);
+    }
+    params.set(key, value);
+  }
+
+  const request: ParsedPaymentRequest = { address, expired: false };
+
+  if (params.has('amount') && params.has('amount_atomic')) {
+    throw new InvalidPaymentUriError('Use either amount or amount_atomic, not both');
+  }
+  if (params.has('amount')) {
+    request.amount = coinStringToAtomic(params.get('amount'));
+  }
+  if (params.has('amount_atomic')) {
+    const value = params.get('amount_atomic');
+    if (!/^\d+$/.test(value)) {
+      throw new InvalidPaymentUriError(`Invalid atomic amount: ${value}`);
+    }
+    request.amount = Number(value);
+    validateAtomicAmount(request.amount);
+  }
+  if (params.has('label')) {
+    request.label = params.get('label');
+  }
+  if (params.has('message')) {
+    request.message = params.get('message');
+  }
+  if (params.has('expires')) {
+    const value = params.get('expires');
+    if (!/^\d+$/.test(value)) {
+      throw new InvalidPaymentUriError(`Invalid expiry: ${value}`);
+    }
+    request.expires = Number(value);
+    request.expired = request.expires <= now;
+  }
+
+  for (const [key, value] of params) {
+    if (KNOWN_PARAMS.has(key)) continue;
+    if (key.startsWith('req-')) {
+      throw new InvalidPaymentUriError(`Unsupported required parameter: ${key}`, { parameter: key });
+    }
+    request.extra = { ...(request.extra ?? {}), [key]: value };
+  }
+
+  return request;
+}
+
+/**
+ * Turn a parsed request into a destination for Wallet.sendTransaction
+ * Throws if the request has no amount or has expired.
+ */
+export function paymentRequestToDestination(
+  request: PaymentRequest | ParsedPaymentRequest,
+  now: number = Math.floor(Date.now() / 1000)
+): TransactionDestination {
+  if (request.amount === undefined || request.amount <= 0) {
+    throw new InvalidPaymentUriError('Payment request has no amount');
+  }
+  if (request.expires !== undefined && request.expires <= now) {
+    throw new InvalidPaymentUriError('Payment request has expired', { expires: request.expires });
+  }
+
+  return {
+    address: request.address,
+    amount: request.amount,
+  };
+}
+
+// ============================================================================
+// AMOUNT CONVERSION
+// ============================================================================
+
+/**
+ * Atomic units to an exact coin string ("12.5", "0.00000001")
+ */
+function atomicToCoinString(amount: number): string {
+  const digits = amount.toString().padStart(DECIMALS + 1, '0');
+  const whole = digits.slice(0, digits.length - DECIMALS);
+  const fraction = digits.slice(digits.length - DECIMALS).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Exact coin string to atomic units, rejecting excess precision
+ */
+function coinStringToAtomic(value: string): number {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value);
+  if (!match) {
+    throw new InvalidPaymentUriError(`Invalid amount: ${value}`);
+  }
+
+  const fraction = match[2] ?? '';
+  if (fraction.length > DECIMALS) {
+    throw new InvalidPaymentUriError(
+      `Amount ${value} has more than ${DECIMALS} decimal places`,
+      { amount: value, decimals: DECIMALS }
+    );
+  }
+
+  const atomic = Number(match[1] + fraction.padEnd(DECIMALS, '0'));
+  validateAtomicAmount(atomic);
+  return atomic;
+}
+
+function validateAtomicAmount(amount: number): void {
+  if (!Number.isSafeInteger(amount) || amount < 0) {
+    throw new InvalidPaymentUriError(`Amount must be a non-negative integer number of atomic units: ${amount}`);
+  }
+}
+
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    throw new InvalidPaymentUriError(`Invalid percent-encoding: ${value}`);
+  }
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  encodePaymentUri,
+  encodePaymentQrPayload,
+  parsePaymentUri,
+  paymentRequestToDestination,
+  PAYMENT_URI_SCHEME,
+};
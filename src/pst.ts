@@ -0,0 +1,496 @@
+/**
+ * Pastella Partially Signed Transactions (PST)
+ *
+ * A PST is a built but not (fully) signed transaction in a versioned JSON
+ * container. It carries everything a co-signer needs to check what it signs,
+ * so inputs owned by different keys can be signed on different machines,
+ * including offline ones, and the copies merged afterwards.
+ *
+ * Workflow:
+ *   createPst(pickResult, changeKey)  -> unsigned PST
+ *   signPst(pst, signer)              -> signs every input the signer owns
+ *   combinePsts([a, b, ...])          -> merges signatures from several copies
+ *   finalizePst(pst)                  -> txHex once every input is signed
+ *
+ * Every input signs Keccak-256 of the serialized prefix. The prefix is
+ * rebuilt from the PST's inputs, outputs and extra data whenever a PST is
+ * parsed, signed, combined or finalized. The labels around it are not part of
+ * the prefix, so they are checked against it instead: destination addresses
+ * must name their output keys, and change outputs must pay the transaction
+ * public key. The metadata a co-signer inspects is therefore always exactly
+ * what it signs.
+ */
+
+import { keccak256 } from 'js-sha3';
+import {
+  TransactionSerializer,
+  TransactionPickResult,
+  TransactionDestination,
+  BuiltTransaction,
+  SerializedKeyInput,
+  SerializedKeyOutput,
+} from './transaction';
+import { resolveDestinationKey } from './address';
+import { verifySchnorrSignature } from './crypto';
+import { Signer, getSignerPublicKeys, signWith } from './signer';
+import { MAINNET, NetworkParams } from './config';
+import { hexToBytes, bytesToHex, InvalidPstError } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PstInput {
+  amount: number;
+  transactionHash: string;   // Transaction that created the UTXO
+  outputIndex: number;       // Index of the UTXO in that transaction
+  publicKey: string;         // Owner key; the signature must verify against it
+  signature: string | null;  // Hex, 64 bytes (c || s), once signed
+}
+
+export interface PstOutput {
+  key: string;               // Output public key
+  amount: number;
+  kind: 'destination' | 'change';   // Change always pays the transaction public key
+  address?: string;          // Destination address as requested
+}
+
+export interface PartiallySignedTransaction {
+  version: number;
+  type: 'pastella-pst';
+  network: string;           // Network name the destinations were decoded for
+  transactionPublicKey: string;
+  paymentId?: string;
+  unlockTime: number;
+  fee: number;
+  inputs: PstInput[];
+  outputs: PstOutput[];
+  prefix: string;            // Serialized transaction prefix (hex)
+  prefixHash: string;        // Keccak-256 of the prefix: the message every input signs
+}
+
+export interface PstSummary {
+  network: string;
+  totalInput: number;
+  totalOutput: number;
+  fee: number;
+  destinations: TransactionDestination[];
+  change: number;
+  paymentId?: string;
+  signedInputs: number;
+  missingInputs: number[];   // Indexes of unsigned inputs
+  missingKeys: string[];     // Distinct keys that still have to sign
+  complete: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PST_VERSION = 1;
+
+const PST_TYPE = 'pastella-pst';
+
+// ============================================================================
+// CREATION
+// ============================================================================
+
+/**
+ * Create an unsigned PST from picked inputs and destinations
+ *
+ * @param changePublicKey - Receives the change; also the transaction public key
+ * @param network - Network whose address prefixes destinations must use (default: MAINNET)
+ */
+export function createPst(
+  pickResult: TransactionPickResult,
+  changePublicKey: string,
+  network: NetworkParams = MAINNET
+): PartiallySignedTransaction {
+  const inputs: PstInput[] = pickResult.inputs.map(selected => ({
+    amount: selected.output.amount,
+    transactionHash: selected.transactionHash,
+    outputIndex: selected.outputIndex,
+    publicKey: selected.publicKey,
+    signature: null,
+  }));
+
+  // A transaction carries at most one payment ID
+  let paymentId: string | undefined;
+  const outputs: PstOutput[] = [];
+
+  for (const destination of pickResult.destinations) {
+    // Integrated address: pay the public key, payment ID goes into extra
+    const { publicKey: key, paymentId: destinationPaymentId } = resolveDestinationKey(destination.address, network);
+    if (destinationPaymentId !== undefined) {
+      if (paymentId !== undefined && paymentId !== destinationPaymentId) {
+        throw new Error('Cannot send to integrated addresses with different payment IDs in one transaction');
+      }
+      paymentId = destinationPaymentId;
+    }
+    outputs.push({ key, amount: destination.amount, kind: 'destination', address: destination.address });
+  }
+
+  if (pickResult.change > 0) {
+    outputs.push({ key: changePublicKey, amount: pickResult.change, kind: 'change' });
+  }
+
+  const pst: PartiallySignedTransaction = {
+    version: PST_VERSION,
+    type: PST_TYPE,
+    network: network.name,
+    transactionPublicKey: changePublicKey,
+    unlockTime: 0,
+    fee: pickResult.fee,
+    inputs,
+    outputs,
+    prefix: '',
+    prefixHash: '',
+  };
+  if (paymentId !== undefined) {
+    pst.paymentId = paymentId;
+  }
+
+  const prefix = serializePrefix(pst);
+  pst.prefix = bytesToHex(prefix);
+  pst.prefixHash = keccak256(prefix);
+  return pst;
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Sign every unsigned input whose key the signer holds
+ * Returns a new PST; inputs owned by other keys are left for their signers.
+ */
+export async function signPst(
+  pst: PartiallySignedTransaction,
+  signer: Signer,
+  network: NetworkParams = MAINNET
+): Promise<PartiallySignedTransaction> {
+  const checked = parsePst(pst, network);
+  const signerKeys = new Set(await getSignerPublicKeys(signer));
+  const prefixHash = hexToBytes(checked.prefixHash);
+
+  for (const input of checked.inputs) {
+    if (input.signature === null && signerKeys.has(input.publicKey)) {
+      input.signature = bytesToHex(await signWith(signer, prefixHash, input.publicKey));
+    }
+  }
+  return checked;
+}
+
+/**
+ * Add a signature produced elsewhere, e.g. on an offline machine
+ * Throws InvalidPstError if it does not verify for the input's key.
+ */
+export function addPstSignature(
+  pst: PartiallySignedTransaction,
+  inputIndex: number,
+  signature: string | Uint8Array,
+  network: NetworkParams = MAINNET
+): PartiallySignedTransaction {
+  const checked = parsePst(pst, network);
+  const input = checked.inputs[inputIndex];
+  if (!input) {
+    throw new InvalidPstError(`No input at index ${inputIndex}`, { inputIndex });
+  }
+
+  const signatureHex = typeof signature === 'string' ? signature.toLowerCase() : bytesToHex(signature);
+  if (!isValidInputSignature(checked.prefixHash, input.publicKey, signatureHex)) {
+    throw new InvalidPstError(`Signature does not verify for input ${inputIndex}`, { inputIndex });
+  }
+
+  input.signature = signatureHex;
+  return checked;
+}
+
+/**
+ * Merge the signatures of several copies of the same PST
+ * Throws InvalidPstError if the copies describe different transactions.
+ */
+export function combinePsts(
+  psts: PartiallySignedTransaction[],
+  network: NetworkParams = MAINNET
+): PartiallySignedTransaction {
+  if (psts.length === 0) {
+    throw new InvalidPstError('Nothing to combine');
+  }
+
+  const combined = parsePst(psts[0], network);
+  for (const other of psts.slice(1).map(pst => parsePst(pst, network))) {
+    if (other.prefix !== combined.prefix) {
+      throw new InvalidPstError('Cannot combine PSTs of different transactions');
+    }
+    other.inputs.forEach((input, index) => {
+      if (combined.inputs[index].signature === null && input.signature !== null) {
+        combined.inputs[index].signature = input.signature;
+      }
+    });
+  }
+  return combined;
+}
+
+// ============================================================================
+// INSPECTION AND FINALIZATION
+// ============================================================================
+
+/**
+ * Summarize what a PST spends and which signatures are still missing
+ */
+export function inspectPst(pst: PartiallySignedTransaction, network: NetworkParams = MAINNET): PstSummary {
+  const checked = parsePst(pst, network);
+
+  const missingInputs: number[] = [];
+  checked.inputs.forEach((input, index) => {
+    if (input.signature === null) {
+      missingInputs.push(index);
+    }
+  });
+
+  const summary: PstSummary = {
+    network: checked.network,
+    totalInput: checked.inputs.reduce((sum, input) => sum + input.amount, 0),
+    totalOutput: checked.outputs.reduce((sum, output) => sum + output.amount, 0),
+    fee: checked.fee,
+    destinations: checked.outputs
+      .filter(output => output.kind === 'destination')
+      .map(output => ({ address: output.address ?? output.key, amount: output.amount })),
+    change: checked.outputs
+      .filter(output => output.kind === 'change')
+      .reduce((sum, output) => sum + output.amount, 0),
+    signedInputs: checked.inputs.length - missingInputs.length,
+    missingInputs,
+    missingKeys: [...new Set(missingInputs.map(index => checked.inputs[index].publicKey))],
+    complete: missingInputs.length === 0,
+  };
+  if (checked.paymentId !== undefined) {
+    summary.paymentId = checked.paymentId;
+  }
+  return summary;
+}
+
+/**
+ * Assemble the signed transaction
+ * Throws InvalidPstError while any input is unsigned.
+ */
+export function finalizePst(pst: PartiallySignedTransaction, network: NetworkParams = MAINNET): BuiltTransaction {
+  const checked = parsePst(pst, network);
+
+  const missing = checked.inputs.filter(input => input.signature === null).length;
+  if (missing > 0) {
+    throw new InvalidPstError(`${missing} of ${checked.inputs.length} inputs are not signed yet`, { missing });
+  }
+
+  const txHex = checked.prefix + checked.inputs.map(input => input.signature).join('');
+  return {
+    txHex,
+    hash: keccak256(hexToBytes(txHex)),
+    inputs: toSerializedInputs(checked),
+    outputs: toSerializedOutputs(checked),
+    fee: checked.fee,
+  };
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Parse and validate a PST from JSON text or an object
+ *
+ * Checks the structure, rebuilds the prefix from the inputs, outputs and
+ * extra data, checks destination addresses against their output keys and
+ * verifies every signature present. Returns a fresh copy.
+ *
+ * @param network - Network the PST must be for (default: MAINNET)
+ */
+export function parsePst(
+  input: PartiallySignedTransaction | string,
+  network: NetworkParams = MAINNET
+): PartiallySignedTransaction {
+  let data: any;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch (error) {
+      throw new InvalidPstError('PST is not valid JSON');
+    }
+  } else {
+    data = input;
+  }
+
+  if (!data || typeof data !== 'object' || data.type !== PST_TYPE) {
+    throw new InvalidPstError('Not a Pastella PST');
+  }
+  if (data.version !== PST_VERSION) {
+    throw new InvalidPstError(`Unsupported PST version: ${data.version}`, { version: data.version });
+  }
+  if (!Array.isArray(data.inputs) || data.inputs.length === 0 || !Array.isArray(data.outputs)) {
+    throw new InvalidPstError('PST must have inputs and outputs');
+  }
+  if (data.network !== network.name) {
+    throw new InvalidPstError(`PST is for ${data.network}, expected ${network.name}`, { network: data.network });
+  }
+  if (!isAmount(data.fee) || !isAmount(data.unlockTime)) {
+    throw new InvalidPstError('PST fee or unlock time is invalid');
+  }
+  if (!isHex(data.transactionPublicKey, 32)) {
+    throw new InvalidPstError('PST transaction public key is invalid');
+  }
+  if (data.paymentId !== undefined && !isHex(data.paymentId, 32)) {
+    throw new InvalidPstError('PST payment ID is invalid');
+  }
+
+  const pst: PartiallySignedTransaction = {
+    version: PST_VERSION,
+    type: PST_TYPE,
+    network: data.network,
+    transactionPublicKey: data.transactionPublicKey.toLowerCase(),
+    unlockTime: data.unlockTime,
+    fee: data.fee,
+    inputs: data.inputs.map((input: any, index: number) => {
+      if (!input || !isAmount(input.amount) || !isHex(input.transactionHash, 32) ||
+          !isAmount(input.outputIndex) || !isHex(input.publicKey, 32) ||
+          (input.signature !== null && !isHex(input.signature, 64))) {
+        throw new InvalidPstError(`PST input ${index} is invalid`, { inputIndex: index });
+      }
+      return {
+        amount: input.amount,
+        transactionHash: input.transactionHash.toLowerCase(),
+        outputIndex: input.outputIndex,
+        publicKey: input.publicKey.toLowerCase(),
+        signature: input.signature === null ? null : input.signature.toLowerCase(),
+      };
+    }),
+    outputs: data.outputs.map((output: any, index: number) => {
+      if (!output || !isHex(output.key, 32) || !isAmount(output.amount) ||
+          (output.kind !== 'destination' && output.kind !== 'change') ||
+          (output.address !== undefined && typeof output.address !== 'string')) {
+        throw new InvalidPstError(`PST output ${index} is invalid`, { outputIndex: index });
+      }
+      const parsed: PstOutput = { key: output.key.toLowerCase(), amount: output.amount, kind: output.kind };
+      if (output.address !== undefined) {
+        parsed.address = output.address;
+      }
+      return parsed;
+    }),
+    prefix: '',
+    prefixHash: '',
+  };
+  if (data.paymentId !== undefined) {
+    pst.paymentId = data.paymentId.toLowerCase();
+  }
+
+  // Addresses and kinds are not part of the prefix; they must agree with the keys that are
+  pst.outputs.forEach((output, index) => {
+    if (output.address !== undefined && !addressMatchesOutput(output, pst.paymentId, network)) {
+      throw new InvalidPstError(`PST output ${index} address does not match its key`, { outputIndex: index });
+    }
+    if (output.kind === 'change' && output.key !== pst.transactionPublicKey) {
+      throw new InvalidPstError(`PST output ${index} is marked as change but does not pay the change key`, { outputIndex: index });
+    }
+  });
+
+  const totalInput = pst.inputs.reduce((sum, item) => sum + item.amount, 0);
+  const totalOutput = pst.outputs.reduce((sum, item) => sum + item.amount, 0);
+  if (totalInput !== totalOutput + pst.fee) {
+    throw new InvalidPstError('PST inputs do not equal outputs plus fee', { totalInput, totalOutput, fee: pst.fee });
+  }
+
+  const prefix = serializePrefix(pst);
+  pst.prefix = bytesToHex(prefix);
+  pst.prefixHash = keccak256(prefix);
+  if (String(data.prefix).toLowerCase() !== pst.prefix || String(data.prefixHash).toLowerCase() !== pst.prefixHash) {
+    throw new InvalidPstError('PST prefix does not match its inputs and outputs');
+  }
+
+  pst.inputs.forEach((item, index) => {
+    if (item.signature !== null && !isValidInputSignature(pst.prefixHash, item.publicKey, item.signature)) {
+      throw new InvalidPstError(`Signature does not verify for input ${index}`, { inputIndex: index });
+    }
+  });
+
+  return pst;
+}
+
+/**
+ * Serialize a PST to JSON text
+ */
+export function serializePst(pst: PartiallySignedTransaction, network: NetworkParams = MAINNET): string {
+  return JSON.stringify(parsePst(pst, network), null, 2);
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+function serializePrefix(pst: PartiallySignedTransaction): Uint8Array {
+  return TransactionSerializer.serializeTransactionPrefix(
+    toSerializedInputs(pst),
+    toSerializedOutputs(pst),
+    pst.transactionPublicKey,
+    pst.unlockTime,
+    1,  // version
+    pst.paymentId
+  );
+}
+
+function toSerializedInputs(pst: PartiallySignedTransaction): SerializedKeyInput[] {
+  return pst.inputs.map(input => ({
+    amount: input.amount,
+    outputIndexes: [input.outputIndex],
+    transactionHash: input.transactionHash,
+    outputIndex: input.outputIndex,
+    publicKey: input.publicKey,
+  }));
+}
+
+function toSerializedOutputs(pst: PartiallySignedTransaction): SerializedKeyOutput[] {
+  return pst.outputs.map(output => ({ key: output.key, amount: output.amount }));
+}
+
+function addressMatchesOutput(output: PstOutput, paymentId: string | undefined, network: NetworkParams): boolean {
+  try {
+    const resolved = resolveDestinationKey(output.address, network);
+    return resolved.publicKey === output.key &&
+      (resolved.paymentId === undefined || resolved.paymentId === paymentId);
+  } catch (error) {
+    return false;
+  }
+}
+
+function isValidInputSignature(prefixHash: string, publicKey: string, signature: string): boolean {
+  if (!isHex(signature, 64)) {
+    return false;
+  }
+  try {
+    return verifySchnorrSignature(hexToBytes(prefixHash), publicKey, hexToBytes(signature));
+  } catch (error) {
+    return false;
+  }
+}
+
+function isHex(value: any, byteLength: number): boolean {
+  return typeof value === 'string' && value.length === byteLength * 2 && /^[0-9a-fA-F]*$/.test(value);
+}
+
+function isAmount(value: any): boolean {
+  return Number.isSafeInteger(value) && value >= 0;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  createPst,
+  signPst,
+  addPstSignature,
+  combinePsts,
+  inspectPst,
+  finalizePst,
+  parsePst,
+  serializePst,
+};
@@ -0,0 +1,380 @@
+/**
+ * Pastella Shamir Secret Sharing
+ *
+ * Splits the 32 bytes behind a 25-word mnemonic into M-of-N shares and
+ * recombines them. Sharing is done byte-wise over GF(2^8) (polynomial 0x11b).
+ *
+ * Each share is 44 bytes, encoded as 33 words of the mnemonic wordlist
+ * (every 4 bytes become 3 words, as in the mnemonic itself):
+ *   [0]      version (high nibble) | threshold - 1 (low nibble)
+ *   [1]      share index (x coordinate, 1..255)
+ *   [2..3]   split identifier (random, shared by all shares of one split)
+ *   [4..7]   address tag: first 4 bytes of Keccak-256(public key)
+ *   [8..39]  share value
+ *   [40..43] checksum: first 4 bytes of Keccak-256(bytes 0..39)
+ */
+
+import { keccak256 } from 'js-sha3';
+import {
+  diagnoseMnemonic,
+  derivePrivateKeyFromMnemonic,
+  derivePublicKeyFromPrivateKey,
+  publicKeyHexToAddress,
+  privateKeyHexToMnemonic,
+} from './index';
+import { EntropySource, getSecureRandomBytes } from './entropy';
+import { WORDLIST_SIZE, DEFAULT_LANGUAGE, getWordlist, getSupportedLanguages } from './wordlists';
+import { hexToBytes, bytesToHex, InvalidMnemonicError, InvalidShareError } from './utils';
+import { MAINNET, NetworkParams } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MnemonicShareInfo {
+  version: number;
+  threshold: number;
+  index: number;
+  identifier: number;
+  addressTag: string;   // Hex, 4 bytes
+  value: Uint8Array;    // 32-byte share value
+  language: string;
+}
+
+export interface CreateSharesOptions {
+  language?: string;              // Wordlist for the shares (default: english)
+  entropySource?: EntropySource;  // Randomness for polynomial coefficients
+}
+
+export interface CombineSharesOptions {
+  language?: string;        // Language of the recovered mnemonic (default: language of the shares)
+  address?: string;         // Expected address; recombination fails if it differs
+  network?: NetworkParams;  // Network of the returned and expected address (default: MAINNET)
+}
+
+export interface CombinedShares {
+  mnemonic: string;
+  privateKey: string;
+  publicKey: string;
+  address: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SHARE_VERSION = 1;
+export const SHARE_WORD_COUNT = 33;
+export const MAX_SHARE_THRESHOLD = 16;
+export const MAX_SHARE_COUNT = 255;
+
+const SHARE_LENGTH = 44;
+const SECRET_LENGTH = 32;
+
+// ============================================================================
+// GF(256) ARITHMETIC
+// ============================================================================
+
+const GF_EXP = new Uint8Array(510);
+const GF_LOG = new Uint8Array(256);
+
+(() => {
+  // Generator 3 over the AES polynomial x^8 + x^4 + x^3 + x + 1
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x ^= (x << 1) ^ ((x & 0x80) ? 0x11b : 0);
+    x &= 0xff;
+  }
+  for (let i = 255; i < 510; i++) {
+    GF_EXP[i] = GF_EXP[i - 255];
+  }
+})();
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256)');
+  if (a === 0) return 0;
+  return GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]];
+}
+
+/**
+ * Evaluate a polynomial (coefficients lowest degree first) at x
+ */
+function gfEvaluate(coefficients: Uint8Array, x: number): number {
+  let result = 0;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    result = gfMul(result, x) ^ coefficients[i];
+  }
+  return result;
+}
+
+/**
+ * Lagrange interpolation at x = 0
+ */
+function gfInterpolateAtZero(xs: number[], ys: number[]): number {
+  let result = 0;
+  for (let i = 0; i < xs.length; i++) {
+    let basis = 1;
+    for (let j = 0; j < xs.length; j++) {
+      if (i === j) continue;
+      basis = gfMul(basis, gfDiv(xs[j], xs[j] ^ xs[i]));
+    }
+    result ^= gfMul(ys[i], basis);
+  }
+  return result;
+}
+
+// ============================================================================
+// SHARE API
+// ============================================================================
+
+/**
+ * Split a mnemonic into `shareCount` shares, any `threshold` of which recover it
+ */
+export async function createMnemonicShares(
+  mnemonic: string,
+  threshold: number,
+  shareCount: number,
+  options: CreateSharesOptions = {}
+): Promise<string[]> {
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > MAX_SHARE_THRESHOLD) {
+    throw new InvalidShareError(`Threshold must be between 1 and ${MAX_SHARE_THRESHOLD}`);
+  }
+  if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > MAX_SHARE_COUNT) {
+    throw new InvalidShareError(`Share count must be between the threshold and ${MAX_SHARE_COUNT}`);
+  }
+
+  const diagnosis = diagnoseMnemonic(mnemonic);
+  if (!diagnosis.valid) {
+    throw new InvalidMnemonicError(diagnosis);
+  }
+
+  const language = options.language ?? DEFAULT_LANGUAGE;
+  const privateKey = derivePrivateKeyFromMnemonic(mnemonic, diagnosis.language);
+  const secret = hexToBytes(privateKey);
+  const addressTag = addressTagFor(derivePublicKeyFromPrivateKey(privateKey));
+
+  const identifierBytes = await getSecureRandomBytes(2, options.entropySource);
+  const coefficients = await getSecureRandomBytes(SECRET_LENGTH * (threshold - 1), options.entropySource);
+
+  const shares: string[] = [];
+  for (let index = 1; index <= shareCount; index++) {
+    const share = new Uint8Array(SHARE_LENGTH);
+    share[0] = (SHARE_VERSION << 4) | (threshold - 1);
+    share[1] = index;
+    share.set(identifierBytes, 2);
+    share.set(addressTag, 4);
+
+    for (let b = 0; b < SECRET_LENGTH; b++) {
+      const polynomial = new Uint8Array(threshold);
+      polynomial[0] = secret[b];
+      for (let k = 1; k < threshold; k++) {
+        polynomial[k] = coefficients[b * (threshold - 1) + (k - 1)];
+      }
+      share[8 + b] = gfEvaluate(polynomial, index);
+    }
+
+    share.set(shareChecksum(share), 40);
+    shares.push(encodeShareWords(share, language));
+  }
+
+  coefficients.fill(0);
+  secret.fill(0);
+
+  return shares;
+}
+
+/**
+ * Decode and verify a single share (checksum and metadata)
+ */
+export function decodeMnemonicShare(share: string): MnemonicShareInfo {
+  const words = share.normalize('NFKC').trim().split(/\s+/);
+  if (words.length !== SHARE_WORD_COUNT) {
+    throw new InvalidShareError(`Share must have exactly ${SHARE_WORD_COUNT} words, got ${words.length}`);
+  }
+
+  const language = detectShareLanguage(words);
+  const bytes = decodeShareWords(words, language);
+
+  const checksum = shareChecksum(bytes);
+  for (let i = 0; i < 4; i++) {
+    if (bytes[40 + i] !== checksum[i]) {
+      throw new InvalidShareError('Share checksum mismatch');
+    }
+  }
+
+  const version = bytes[0] >> 4;
+  if (version !== SHARE_VERSION) {
+    throw new InvalidShareError(`Unsupported share version: ${version}`, { version });
+  }
+  if (bytes[1] === 0) {
+    throw new InvalidShareError('Share index must not be zero');
+  }
+
+  return {
+    version,
+    threshold: (bytes[0] & 0x0f) + 1,
+    index: bytes[1],
+    identifier: (bytes[2] << 8) | bytes[3],
+    addressTag: bytesToHex(bytes.slice(4, 8)),
+    value: bytes.slice(8, 40),
+    language,
+  };
+}
+
+/**
+ * Recombine shares into the original mnemonic
+ * The recovered key is checked against the address tag carried by the shares
+ */
+export function combineMnemonicShares(shares: string[], options: CombineSharesOptions = {}): CombinedShares {
+  if (shares.length === 0) {
+    throw new InvalidShareError('No shares given');
+  }
+
+  const decoded = shares.map((share, position) => {
+    try {
+      return decodeMnemonicShare(share);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new InvalidShareError(`Share ${position + 1}: ${message}`, { position });
+    }
+  });
+
+  const first = decoded[0];
+  const byIndex = new Map<number, MnemonicShareInfo>();
+
+  for (const share of decoded) {
+    if (share.identifier !== first.identifier || share.threshold !== first.threshold || share.addressTag !== first.addressTag) {
+      throw new InvalidShareError('Shares belong to different splits');
+    }
+
+    const existing = byIndex.get(share.index);
+    if (existing && bytesToHex(existing.value) !== bytesToHex(share.value)) {
+      throw new InvalidShareError(`Conflicting shares with index ${share.index}`, { index: share.index });
+    }
+    byIndex.set(share.index, share);
+  }
+
+  if (byIndex.size < first.threshold) {
+    throw new InvalidShareError(
+      `Need ${first.threshold} distinct shares, got ${byIndex.size}`,
+      { threshold: first.threshold, provided: byIndex.size }
+    );
+  }
+
+  const selected = Array.from(byIndex.values()).slice(0, first.threshold);
+  const xs = selected.map(share => share.index);
+  const secret = new Uint8Array(SECRET_LENGTH);
+  for (let b = 0; b < SECRET_LENGTH; b++) {
+    secret[b] = gfInterpolateAtZero(xs, selected.map(share => share.value[b]));
+  }
+
+  const privateKey = bytesToHex(secret);
+  secret.fill(0);
+
+  const publicKey = derivePublicKeyFromPrivateKey(privateKey);
+  if (bytesToHex(addressTagFor(publicKey)) !== first.addressTag) {
+    throw new InvalidShareError('Recovered key does not match the address tag of the shares');
+  }
+
+  const address = publicKeyHexToAddress(publicKey, options.network ?? MAINNET);
+  if (options.address && options.address !== address) {
+    throw new InvalidShareError('Recovered key does not match the expected address', { expected: options.address, actual: address });
+  }
+
+  return {
+    mnemonic: privateKeyHexToMnemonic(privateKey, options.language ?? first.language),
+    privateKey,
+    publicKey,
+    address,
+  };
+}
+
+// ============================================================================
+// ENCODING HELPERS
+// ============================================================================
+
+function addressTagFor(publicKey: string): Uint8Array {
+  return hexToBytes(keccak256(hexToBytes(publicKey))).slice(0, 4);
+}
+
+function shareChecksum(share: Uint8Array): Uint8Array {
+  return hexToBytes(keccak256(share.subarray(0, 40))).slice(0, 4);
+}
+
+/**
+ * Encode bytes as words: every 4-byte little-endian chunk becomes 3 words
+ */
+function encodeShareWords(bytes: Uint8Array, language: string): string {
+  const wordlist = getWordlist(language);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const n = WORDLIST_SIZE;
+  const words: string[] = [];
+
+  for (let i = 0; i < bytes.length; i += 4) {
+    const val = view.getUint32(i, true);
+    const w1 = val % n;
+    const w2 = (Math.floor(val / n) + w1) % n;
+    const w3 = (Math.floor(Math.floor(val / n) / n) + w2) % n;
+    words.push(wordlist.words[w1], wordlist.words[w2], wordlist.words[w3]);
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Decode share words back to bytes
+ */
+function decodeShareWords(words: string[], language: string): Uint8Array {
+  const wordlist = getWordlist(language);
+  const indexes = new Map(wordlist.words.map((word, i) => [word, i]));
+  const n = WORDLIST_SIZE;
+  const bytes = new Uint8Array(SHARE_LENGTH);
+  const view = new DataView(bytes.buffer);
+
+  for (let i = 0; i < words.length; i += 3) {
+    const [w1, w2, w3] = words.slice(i, i + 3).map(word => indexes.get(word));
+    const val = w1 + n * ((n - w1 + w2) % n) + n * n * ((n - w2 + w3) % n);
+
+    if (val > 0xffffffff) {
+      throw new InvalidShareError(`Invalid word combination at word ${i + 1}`);
+    }
+    view.setUint32((i / 3) * 4, val, true);
+  }
+
+  return bytes;
+}
+
+/**
+ * Find the wordlist containing every share word
+ */
+function detectShareLanguage(words: string[]): string {
+  for (const language of getSupportedLanguages()) {
+    const wordSet = new Set(getWordlist(language).words);
+    if (words.every(word => wordSet.has(word))) {
+      return language;
+    }
+  }
+
+  const english = new Set(getWordlist(DEFAULT_LANGUAGE).words);
+  const unknown = words.filter(word => !english.has(word));
+  throw new InvalidShareError(`Share contains unknown words: ${unknown.join(', ')}`, { unknown });
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  createMnemonicShares,
+  combineMnemonicShares,
+  decodeMnemonicShare,
+  SHARE_VERSION,
+  SHARE_WORD_COUNT,
+};
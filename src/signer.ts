@@ -0,0 +1,235 @@
+/**
+ * Pastella Signers
+ *
+ * A Signer produces the Schnorr signatures a transaction needs, so private
+ * keys never have to be handed to the transaction and staking builders. The
+ * builders only see public keys and ask the signer to sign each prefix hash.
+ *
+ * Implementations:
+ *   InMemorySigner  private keys held in this process (one key or a keyring)
+ *   MnemonicSigner  keys derived from a mnemonic, plus optional child keys
+ *   RemoteSigner    signatures requested from a signing service over HTTP,
+ *                   e.g. a daemon on localhost guarding an HSM or custody backend
+ *
+ * Remote signer protocol (JSON over HTTP):
+ *   GET  {url}/keys  -> { publicKey, publicKeys? }
+ *   POST {url}/sign  { publicKey, prefixHash } -> { signature }
+ * with all keys, hashes and signatures as lowercase hex. Returned signatures
+ * are verified locally before use.
+ */
+
+import { generateSchnorrSignature, verifySchnorrSignature, bytesToHex } from './crypto';
+import { deriveKeysFromMnemonic, derivePublicKeyFromPrivateKey } from './index';
+import { createChildKeyring } from './accounts';
+import { Keyring } from './transaction';
+import { SignerError } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Signer {
+  /** Primary public key: receives change and goes into the transaction extra */
+  getPublicKey(): Promise<string>;
+  /** Every public key whose outputs this signer can spend (default: the primary key) */
+  getPublicKeys?(): Promise<string[]>;
+  /** Sign a 32-byte prefix hash with the private key of `publicKey`; returns the 64-byte (c || s) signature */
+  signPrefixHash(prefixHash: Uint8Array, publicKey: string): Promise<Uint8Array>;
+}
+
+export interface RemoteSignerConfig {
+  url: string;                        // Base URL, e.g. http://127.0.0.1:7070
+  headers?: Record<string, string>;   // Extra request headers, e.g. Authorization
+  timeout?: number;                   // Request timeout in ms (default: 30000)
+}
+
+// ============================================================================
+// IN-MEMORY SIGNER
+// ============================================================================
+
+/**
+ * Signs with private keys held in memory
+ */
+export class InMemorySigner implements Signer {
+  private publicKey: string;
+  private keyring: Keyring;
+
+  /**
+   * @param privateKey - Primary private key (hex)
+   * @param keyring - Optional further keys (public key -> private key), e.g. from createChildKeyring
+   */
+  constructor(privateKey: string, keyring?: Keyring) {
+    this.publicKey = derivePublicKeyFromPrivateKey(privateKey);
+    this.keyring = new Map(keyring ?? []);
+    this.keyring.set(this.publicKey, privateKey);
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.publicKey;
+  }
+
+  async getPublicKeys(): Promise<string[]> {
+    return [...this.keyring.keys()];
+  }
+
+  async signPrefixHash(prefixHash: Uint8Array, publicKey: string): Promise<Uint8Array> {
+    const privateKey = this.keyring.get(publicKey);
+    if (!privateKey) {
+      throw new SignerError(`No private key for ${publicKey}`, { publicKey });
+    }
+    return generateSchnorrSignature(prefixHash, publicKey, privateKey);
+  }
+}
+
+// ============================================================================
+// MNEMONIC SIGNER
+// ============================================================================
+
+/**
+ * Signs with the key of a mnemonic and, optionally, its derived child keys
+ */
+export class MnemonicSigner extends InMemorySigner {
+  /**
+   * @param childIndexes - Child keys whose outputs may be spent (see deriveChildPrivateKey)
+   * @param language - Mnemonic language (auto-detected when not given)
+   */
+  constructor(mnemonic: string, childIndexes: number[] = [], language?: string) {
+    const { privateKey } = deriveKeysFromMnemonic(mnemonic, language);
+    super(privateKey, childIndexes.length > 0 ? createChildKeyring(privateKey, childIndexes) : undefined);
+  }
+}
+
+// ============================================================================
+// REMOTE SIGNER
+// ============================================================================
+
+/**
+ * Requests signatures from a signing service over HTTP
+ * The service keeps the private keys; this process only ever sees public keys.
+ */
+export class RemoteSigner implements Signer {
+  private url: string;
+  private headers: Record<string, string>;
+  private timeout: number;
+  private keys: Promise<{ publicKey: string; publicKeys: string[] }> | null = null;
+
+  constructor(config: RemoteSignerConfig) {
+    this.url = config.url.replace(/\/+$/, '');
+    this.headers = config.headers ?? {};
+    this.timeout = config.timeout ?? 30000;
+  }
+
+  async getPublicKey(): Promise<string> {
+    return (await this.fetchKeys()).publicKey;
+  }
+
+  async getPublicKeys(): Promise<string[]> {
+    return (await this.fetchKeys()).publicKeys;
+  }
+
+  async signPrefixHash(prefixHash: Uint8Array, publicKey: string): Promise<Uint8Array> {
+    const response = await this.request('/sign', {
+      method: 'POST',
+      body: JSON.stringify({ publicKey, prefixHash: bytesToHex(prefixHash) }),
+    });
+
+    if (typeof response.signature !== 'string' || !/^[0-9a-fA-F]{128}$/.test(response.signature)) {
+      throw new SignerError('Remote signer returned a malformed signature', { publicKey });
+    }
+    const signature = hexToSignature(response.signature);
+    if (!verifySchnorrSignature(prefixHash, publicKey, signature)) {
+      throw new SignerError('Remote signer returned an invalid signature', { publicKey });
+    }
+    return signature;
+  }
+
+  /**
+   * Fetch the signer's keys once; a failed fetch is retried on the next call
+   */
+  private fetchKeys(): Promise<{ publicKey: string; publicKeys: string[] }> {
+    if (!this.keys) {
+      this.keys = this.request('/keys', { method: 'GET' }).then(response => {
+        const publicKey = response.publicKey;
+        const publicKeys = Array.isArray(response.publicKeys) ? response.publicKeys : [publicKey];
+        if (![publicKey, ...publicKeys].every(key => typeof key === 'string' && /^[0-9a-fA-F]{64}$/.test(key))) {
+          throw new SignerError('Remote signer returned malformed public keys');
+        }
+        return {
+          publicKey: publicKey.toLowerCase(),
+          publicKeys: publicKeys.map((key: string) => key.toLowerCase()),
+        };
+      });
+      this.keys.catch(() => {
+        this.keys = null;
+      });
+    }
+    return this.keys;
+  }
+
+  private async request(endpoint: string, init: { method: string; body?: string }): Promise<any> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.url}${endpoint}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new SignerError(`Remote signer HTTP error! status: ${response.status}`, { endpoint });
+      }
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new SignerError(`Remote signer timeout after ${this.timeout}ms`, { endpoint });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Every public key a signer can spend from
+ */
+export async function getSignerPublicKeys(signer: Signer): Promise<string[]> {
+  return signer.getPublicKeys ? await signer.getPublicKeys() : [await signer.getPublicKey()];
+}
+
+/**
+ * Ask a signer for one input signature and check its size
+ */
+export async function signWith(signer: Signer, prefixHash: Uint8Array, publicKey: string): Promise<Uint8Array> {
+  const signature = await signer.signPrefixHash(prefixHash, publicKey);
+  if (!(signature instanceof Uint8Array) || signature.length !== 64) {
+    throw new SignerError('Signer must return a 64-byte signature', { publicKey });
+  }
+  return signature;
+}
+
+function hexToSignature(hex: string): Uint8Array {
+  const bytes = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  InMemorySigner,
+  MnemonicSigner,
+  RemoteSigner,
+  getSignerPublicKeys,
+  signWith,
+};
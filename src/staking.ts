@@ -14,18 +14,19 @@ import {
 import {
   sendTransaction as sendTx,
   SelectedInput,
-  SerializedKeyInput,
-  SerializedKeyOutput,
+  TransactionBuilder,
 } from './transaction';
 import { DaemonApi } from './api';
 import { keccak256 } from 'js-sha3';
-import { generateSchnorrSignature } from './crypto';
+import { verifySchnorrSignature } from './crypto';
+import { Signer, signWith } from './signer';
 import {
   MATURITY_BLOCKS,
-  BLOCK_TIME_SECONDS,
   STAKING_TX_TYPE,
   TX_EXTRA_STAKING,
   MIN_FEE,
+  MAINNET,
+  NetworkParams,
 } from './config';
 
 // ============================================================================
@@ -34,14 +35,27 @@ import {
 
 /**
  * Calculate unlock time (block height) from lock duration and current height
- * Formula: unlockTime = currentHeight + (lockDurationDays * 86400) / 30
- * (30 seconds per block)
+ * Formula: unlockTime = currentHeight + (lockDurationDays * 86400) / blockTimeSeconds
+ * (30 seconds per block on mainnet)
  */
-export function calculateUnlockTime(lockDurationDays: number, currentHeight: number): number {
-  const lockPeriodBlocks = (lockDurationDays * 86400) / BLOCK_TIME_SECONDS;
+export function calculateUnlockTime(
+  lockDurationDays: number,
+  currentHeight: number,
+  network: NetworkParams = MAINNET
+): number {
+  const lockPeriodBlocks = (lockDurationDays * 86400) / network.blockTimeSeconds;
   return currentHeight + Math.floor(lockPeriodBlocks);
 }
 
+/**
+ * Annual reward rate (percentage) for a lock period, or null if the network
+ * does not offer that period
+ */
+export function getAnnualRewardRate(lockDurationDays: number, network: NetworkParams = MAINNET): number | null {
+  const index = network.lockPeriodsDays.indexOf(lockDurationDays);
+  return index >= 0 ? network.annualRewardRates[index] : null;
+}
+
 /**
  * Get staking denominations for a given amount
  * For staking, we want a SINGLE output (exact amount)
@@ -148,7 +162,6 @@ export function pickStakingInputs(
   outputs: WalletOutput[],
   currentHeight: number,
   publicKey: string,
-  privateKey: string,
   currentFee: number = MIN_FEE,  // Use dynamic fee
   maturityBlocks: number = MATURITY_BLOCKS,
   preparationTxHash?: string  // NEW: Only use outputs from preparation transaction
@@ -211,14 +224,12 @@ export function pickStakingInputs(
       transactionHash: amountInput.transactionHash,
       outputIndex: amountOutputIndex,
       publicKey,
-      privateKey,
     },
     {
       output: feeInput,
       transactionHash: feeInput.transactionHash,
       outputIndex: feeOutputIndex,
       publicKey,
-      privateKey,
     },
   ];
 
@@ -252,22 +263,30 @@ export function createStakingExtra(
   lockDurationDays: number,
   signature: string
 ): Uint8Array {
-  const parts: number[] = [];
+  const data = serializeStakingData(amount, unlockTime, lockDurationDays, signature);
 
-  // TX_EXTRA_STAKING tag (0x65 = 101)
-  parts.push(TX_EXTRA_STAKING);
+  // TX_EXTRA_STAKING tag, then the staking data
+  const extra = new Uint8Array(1 + data.length);
+  extra[0] = TX_EXTRA_STAKING;
+  extra.set(data, 1);
+  return extra;
+}
 
-  // Serialize staking data manually to match C++ format
-  // stakingType (varint)
-  parts.push(...writeVarint(STAKING_TX_TYPE));
+/**
+ * Serialize staking data without its tag, e.g. for TransactionBuilder.addExtraField
+ * BinaryOutputStreamSerializer format: varints, no field names, raw signature
+ */
+export function serializeStakingData(
+  amount: number,
+  unlockTime: number,
+  lockDurationDays: number,
+  signature: string
+): Uint8Array {
+  const parts: number[] = [];
 
-  // amount (varint)
+  parts.push(...writeVarint(STAKING_TX_TYPE));   // stakingType
   parts.push(...writeVarint(amount));
-
-  // unlockTime (varint)
   parts.push(...writeVarint(unlockTime));
-
-  // lockDurationDays (varint)
   parts.push(...writeVarint(lockDurationDays));
 
   // signature (64 bytes)
@@ -282,15 +301,15 @@ export function createStakingExtra(
 
 /**
  * Generate staking signature
- * Signs the message (amount + lockDurationDays + unlockTime) with the input's private key
+ * Has the signer sign the message (amount + lockDurationDays + unlockTime) with the input's key
  */
-export function generateStakingSignature(
+export async function generateStakingSignature(
   amount: number,
   lockDurationDays: number,
   unlockTime: number,
   publicKey: string,
-  privateKey: string
-): string {
+  signer: Signer
+): Promise<string> {
   // Create message: amount + lockDurationDays + unlockTime
   const message = new Uint8Array(8 + 4 + 8); // uint64 + uint32 + uint64
   const messageView = new DataView(message.buffer);
@@ -309,14 +328,9 @@ export function generateStakingSignature(
   const messageHashBytes = hexToBytes(messageHash);
 
   // Generate Schnorr signature
-  const signature = generateSchnorrSignature(
-    messageHashBytes,
-    publicKey,
-    privateKey
-  );
+  const signature = await signWith(signer, messageHashBytes, publicKey);
 
   // Verify the signature locally before returning
-  const { verifySchnorrSignature } = require('./crypto');
   const isValid = verifySchnorrSignature(messageHashBytes, publicKey, signature);
 
   if (!isValid) {
@@ -334,24 +348,26 @@ export function generateStakingSignature(
  * Prepare staking outputs by sending a transaction to self
  * Creates exact outputs needed for staking: [amount, currentFee]
  *
- * This manually builds a transaction to ensure we get exactly 2 outputs.
+ * Built with TransactionBuilder so the outputs come out exactly as
+ * [amount, currentFee, change], which the staking transaction then spends.
  */
 export async function prepareStakingOutputs(
   amount: number,
   address: string,
   outputs: WalletOutput[],
-  publicKey: string,
-  privateKey: string,
+  signer: Signer,
   currentHeight: number,
   node: NodeConfig,
-  maturityBlocks: number = MATURITY_BLOCKS
+  maturityBlocks?: number,
+  network: NetworkParams = MAINNET
 ): Promise<StakingResult> {
   try {
-    // Use MIN_FEE constant
-    const currentFee = MIN_FEE;
+    // Use the network's minimum fee
+    const currentFee = network.minFee;
+    const publicKey = await signer.getPublicKey();
 
     // Get spendable outputs
-    const matureHeight = currentHeight - maturityBlocks;
+    const matureHeight = currentHeight - (maturityBlocks ?? network.maturityBlocks);
     const spendable = outputs.filter(o => {
       const isUnspent = !o.spentHeight;
       const isMature = o.blockHeight <= matureHeight;
@@ -387,44 +403,21 @@ export async function prepareStakingOutputs(
       };
     }
 
-    // Build the preparation transaction manually
-    // Convert to SelectedInput format
-    const inputs: SelectedInput[] = selectedInputs.map(output => ({
-      output,
-      transactionHash: output.transactionHash,
-      outputIndex: output.outputIndex ?? 0,
-      publicKey,
-      privateKey,
-    }));
-
-    // Get the output key (public key) from address
-    let outputKey: string;
-    if (address.length === 64 && /^[0-9a-fA-F]{64}$/.test(address)) {
-      outputKey = address;
-    } else {
-      const { addressToPublicKey } = await import('./transaction');
-      outputKey = addressToPublicKey(address);
+    // Every input is signed with the signer's primary key
+    const builder = new TransactionBuilder(network);
+    for (const output of selectedInputs) {
+      builder.addInput({ ...output, key: publicKey }, signer);
     }
 
-    // Build the transaction manually
-    const txHex = await buildPreparationTransactionHex(
-      amount,
-      currentFee,  // Pass currentFee
-      inputs,
-      outputKey,
-      publicKey,
-      privateKey
-    );
-
-    if (!txHex) {
-      return {
-        success: false,
-        error: 'Failed to build preparation transaction',
-      };
-    }
+    const built = await builder
+      .addOutput(address, amount)                      // Staking amount
+      .addOutput(address, currentFee)                  // Fee for the staking transaction
+      .addOutput(address, totalInput - totalNeeded)    // Change
+      .setFee(txFee)
+      .build();
 
     // Send transaction
-    const result = await sendTx(txHex, node);
+    const result = await sendTx(built.txHex, node);
 
     return {
       success: true,
@@ -453,16 +446,31 @@ export async function createStakingTransaction(
   lockDurationDays: number,
   address: string,
   outputs: WalletOutput[],
-  publicKey: string,
-  privateKey: string,
+  signer: Signer,
   currentHeight: number,
   node: NodeConfig,
-  maturityBlocks: number = MATURITY_BLOCKS,
-  preparationTxHash?: string  // NEW: Use outputs from this specific transaction
+  maturityBlocks?: number,
+  preparationTxHash?: string,  // NEW: Use outputs from this specific transaction
+  network: NetworkParams = MAINNET
 ): Promise<StakingResult> {
   try {
-    // Use MIN_FEE constant
-    const currentFee = MIN_FEE;
+    // Use the network's minimum fee
+    const currentFee = network.minFee;
+    const publicKey = await signer.getPublicKey();
+    maturityBlocks = maturityBlocks ?? network.maturityBlocks;
+
+    if (currentHeight < network.stakingEnableHeight) {
+      return {
+        success: false,
+        error: `Staking is enabled from block ${network.stakingEnableHeight} on ${network.name}`,
+      };
+    }
+    if (getAnnualRewardRate(lockDurationDays, network) === null) {
+      return {
+        success: false,
+        error: `Lock period must be one of ${network.lockPeriodsDays.join(', ')} days`,
+      };
+    }
 
     // Check if precise outputs exist (using the current fee)
     if (!hasPreciseStakingOutputs(amount, outputs, currentHeight, currentFee, maturityBlocks)) {
@@ -473,7 +481,7 @@ export async function createStakingTransaction(
     }
 
     // Pick exact inputs (passing preparationTxHash if provided)
-    const picked = pickStakingInputs(amount, outputs, currentHeight, publicKey, privateKey, currentFee, maturityBlocks, preparationTxHash);
+    const picked = pickStakingInputs(amount, outputs, currentHeight, publicKey, currentFee, maturityBlocks, preparationTxHash);
     if (!picked) {
       return {
         success: false,
@@ -482,48 +490,39 @@ export async function createStakingTransaction(
     }
 
     // Calculate unlock time
-    const unlockTime = calculateUnlockTime(lockDurationDays, currentHeight);
+    const unlockTime = calculateUnlockTime(lockDurationDays, currentHeight, network);
 
     // Generate staking signature
     // Must use the same public key that's in the UTXO output being spent
     // The daemon will extract this key from the preparation transaction output
-    const signature = generateStakingSignature(
-      amount,
-      lockDurationDays,
-      unlockTime,
-      publicKey,
-      privateKey
-    );
-
-    // Build transaction manually with staking extra
-    const txHex = await buildStakingTransactionHex(
+    const signature = await generateStakingSignature(
       amount,
       lockDurationDays,
       unlockTime,
-      signature,
-      address,
-      picked.inputs,
       publicKey,
-      privateKey
+      signer
     );
 
-    if (!txHex) {
-      return {
-        success: false,
-        error: 'Failed to build staking transaction',
-      };
+    // Single output with the staking amount, locked until the stake ends,
+    // and the staking data after the public key in the extra field
+    const builder = new TransactionBuilder(network);
+    for (const input of picked.inputs) {
+      builder.addInput({ ...input.output, key: input.publicKey }, signer);
     }
 
-    // Calculate proper transaction hash using Keccak-256 of full transaction bytes
-    const txBytes = hexToBytes(txHex);
-    const txHash = keccak256(txBytes);
+    const built = await builder
+      .addOutput(address, amount)
+      .setUnlockTime(unlockTime)
+      .addExtraField(TX_EXTRA_STAKING, serializeStakingData(amount, unlockTime, lockDurationDays, signature))
+      .setFee(currentFee)
+      .build();
 
     // Send transaction
-    const result = await sendTx(txHex, node);
+    await sendTx(built.txHex, node);
 
     return {
       success: true,
-      txHash: txHash,  // Use proper Keccak-256 hash
+      txHash: built.hash,  // Keccak-256 of the full transaction
     };
   } catch (error) {
     return {
@@ -533,420 +532,6 @@ export async function createStakingTransaction(
   }
 }
 
-/**
- * Build preparation transaction hex
- * Creates a transaction that sends [amount, currentFee] to self
- * This creates the exact outputs needed for the staking transaction
- */
-async function buildPreparationTransactionHex(
-  amount: number,
-  currentFee: number,
-  inputs: SelectedInput[],
-  outputKey: string,
-  publicKey: string,
-  privateKey: string
-): Promise<string> {
-  const { keccak256 } = await import('js-sha3');
-  const { generateSchnorrSignature } = await import('./crypto');
-
-  // Convert SelectedInput[] to SerializedKeyInput[]
-  const serializedInputs = inputs.map(input => ({
-    amount: input.output.amount,
-    outputIndexes: [input.outputIndex ?? 0],
-    transactionHash: input.transactionHash,
-    outputIndex: input.outputIndex ?? 0,
-    publicKey: input.publicKey,
-    privateKey: input.privateKey,
-  }));
-
-  // Calculate total input
-  const totalInput = inputs.reduce((sum, input) => sum + input.output.amount, 0);
-
-  // Create 3 outputs: [staking amount, staking tx fee, change]
-  const outputAmount1 = amount;  // Staking amount
-  const outputAmount2 = currentFee;  // Fee for staking transaction
-  const preparationTxFee = MIN_FEE;  // Fee for this preparation transaction
-  const change = totalInput - outputAmount1 - outputAmount2 - preparationTxFee;
-
-  if (change < 0) {
-    return '';
-  }
-
-  const totalOutput = outputAmount1 + outputAmount2 + change;
-
-  // Build outputs: [staking amount, staking tx fee, change]
-  const serializedOutputs: SerializedKeyOutput[] = [
-    { key: outputKey, amount: outputAmount1 },
-    { key: outputKey, amount: outputAmount2 },
-    { key: outputKey, amount: change },
-  ];
-
-  // Build extra field with only transaction public key (normal extra field)
-  const extraData = buildNormalExtra(publicKey);
-
-  // Build transaction prefix
-  const prefixBytes = serializeTransactionPrefixWithCustomExtra(
-    serializedInputs,
-    serializedOutputs,
-    extraData,
-    0,  // unlockTime = 0 (normal transaction)
-    1   // version = 1
-  );
-
-  // Compute hash of the prefix for signing
-  const prefixHash = keccak256(prefixBytes);
-  const prefixHashBytes = hexToBytes(prefixHash);
-
-  // Generate signatures for each input
-  const signatures: Uint8Array[] = [];
-  for (const input of inputs) {
-    const sig = generateSchnorrSignature(
-      prefixHashBytes,
-      input.publicKey,
-      input.privateKey
-    );
-    signatures.push(sig);
-  }
-
-  // Concatenate prefix + signatures
-  const txParts: Uint8Array[] = [prefixBytes, ...signatures];
-  const txBytes = concatBytes(...txParts);
-
-  // Convert to hex
-  return bytesToHex(txBytes);
-}
-
-/**
- * Build normal extra field (only public key, no staking data)
- */
-function buildNormalExtra(publicKey: string): Uint8Array {
-  const extra: number[] = [];
-
-  // TX_EXTRA_TAG_PUBKEY (0x01)
-  extra.push(0x01);
-  const pubKeyBytes = hexToBytes(publicKey);
-  extra.push(...Array.from(pubKeyBytes));
-
-  return new Uint8Array(extra);
-}
-
-/**
- * Build staking transaction hex with staking extra field
- * Uses TransactionSerializer from transaction.ts for proper serialization
- */
-async function buildStakingTransactionHex(
-  amount: number,
-  lockDurationDays: number,
-  unlockTime: number,
-  signature: string,
-  address: string,
-  inputs: SelectedInput[],
-  publicKey: string,
-  privateKey: string
-): Promise<string> {
-  // Import TransactionSerializer and utilities from transaction.ts
-  const { TransactionSerializer, addressToPublicKey } = await import('./transaction');
-  const { keccak256 } = await import('js-sha3');
-  const { generateSchnorrSignature } = await import('./crypto');
-
-  // Convert SelectedInput[] to SerializedKeyInput[]
-  const serializedInputs = inputs.map(input => ({
-    amount: input.output.amount,
-    outputIndexes: [input.outputIndex ?? 0],
-    transactionHash: input.transactionHash,
-    outputIndex: input.outputIndex ?? 0,
-    publicKey: input.publicKey,
-    privateKey: input.privateKey,
-  }));
-
-  // Build output - single output with the staking amount
-  let outputKey: string;
-  if (address.length === 64 && /^[0-9a-fA-F]{64}$/.test(address)) {
-    // Already a hex public key
-    outputKey = address;
-  } else {
-    // Need to extract from address
-    outputKey = addressToPublicKey(address);
-  }
-
-  const serializedOutputs = [{
-    key: outputKey,
-    amount: amount,
-  }];
-
-  // Build extra field with both public key AND staking data
-  const extraData = buildExtraWithStaking(publicKey, amount, unlockTime, lockDurationDays, signature);
-
-  // Build transaction prefix manually (to include custom extra field)
-  const prefixBytes = serializeTransactionPrefixWithCustomExtra(
-    serializedInputs,
-    serializedOutputs,
-    extraData,
-    unlockTime,
-    1  // version
-  );
-
-  // Compute hash of the prefix for signing
-  const prefixHash = keccak256(prefixBytes);
-  const prefixHashBytes = hexToBytes(prefixHash);
-
-  // Generate signatures for each input
-  const signatures: Uint8Array[] = [];
-  for (const input of inputs) {
-    const sig = generateSchnorrSignature(
-      prefixHashBytes,
-      input.publicKey,
-      input.privateKey
-    );
-    signatures.push(sig);
-  }
-
-  // Concatenate prefix + signatures
-  const txParts: Uint8Array[] = [prefixBytes, ...signatures];
-  const txBytes = concatBytes(...txParts);
-
-  // Convert to hex
-  return bytesToHex(txBytes);
-}
-
-/**
- * Build extra field with both transaction public key and staking data
- */
-function buildExtraWithStaking(
-  publicKey: string,
-  amount: number,
-  unlockTime: number,
-  lockDurationDays: number,
-  signature: string
-): Uint8Array {
-  const extra: number[] = [];
-
-  // TX_EXTRA_TAG_PUBKEY (0x01)
-  extra.push(0x01);
-  const pubKeyBytes = hexToBytes(publicKey);
-  extra.push(...Array.from(pubKeyBytes));
-
-  // TX_EXTRA_STAKING (0x04)
-  extra.push(TX_EXTRA_STAKING);
-
-  // Staking data - using BinaryOutputStreamSerializer format (varints, no field names)
-  extra.push(...writeVarintLocal(STAKING_TX_TYPE)); // stakingType (varint)
-  extra.push(...writeVarintLocal(amount)); // amount (varint)
-  extra.push(...writeVarintLocal(unlockTime)); // unlockTime (varint)
-  extra.push(...writeVarintLocal(lockDurationDays)); // lockDurationDays (varint)
-
-  // Signature (64 bytes, raw)
-  const sigBytes = hexToBytes(signature);
-  if (sigBytes.length !== 64) {
-    throw new Error('Signature must be 64 bytes');
-  }
-  extra.push(...Array.from(sigBytes));
-
-  return new Uint8Array(extra);
-}
-
-/**
- * Concatenate multiple byte arrays
- * Used to build the full transaction from prefix + signatures
- */
-function concatBytes(...arrays: Uint8Array[]): Uint8Array {
-  const totalLength = arrays.reduce((sum, arr) => sum + arr.length, 0);
-  const result = new Uint8Array(totalLength);
-  let offset = 0;
-  for (const arr of arrays) {
-    result.set(arr, offset);
-    offset += arr.length;
-  }
-  return result;
-}
-
-/**
- * Serialize transaction prefix with custom extra field
- * Matches TransactionSerializer.serializeTransactionPrefix but allows custom extra data
- */
-function serializeTransactionPrefixWithCustomExtra(
-  inputs: SerializedKeyInput[],
-  outputs: SerializedKeyOutput[],
-  extraData: Uint8Array,
-  unlockTime: number = 0,
-  version: number = 1
-): Uint8Array {
-  const parts: Uint8Array[] = [];
-
-  // Import helper functions
-  const { writeVarint } = createSerializationHelpers();
-
-  // version (varint)
-  parts.push(writeVarint(version));
-
-  // unlockTime (varint encoded uint64_t)
-  parts.push(writeVarint(unlockTime));
-
-  // inputs (varint count + inputs)
-  parts.push(writeVarint(inputs.length));
-
-  for (const input of inputs) {
-    // Write variant tag (TAG_KEY_INPUT = 0x02)
-    parts.push(new Uint8Array([0x02]));
-    parts.push(serializeKeyInput(input));
-  }
-
-  // outputs (varint count + outputs)
-  parts.push(writeVarint(outputs.length));
-
-  for (const output of outputs) {
-    // serializeTransactionOutput already writes TAG_KEY_OUTPUT internally
-    parts.push(serializeTransactionOutput(output));
-  }
-
-  // extra (custom data)
-  parts.push(writeVarint(extraData.length));
-  parts.push(extraData);
-
-  return concatBytes(...parts);
-}
-
-/**
- * Create serialization helpers (closures to avoid circular dependencies)
- */
-function createSerializationHelpers() {
-  // Write varint to byte array
-  // Standard varint encoding: value is split into 7-bit chunks,
-  // each chunk has a continuation bit (0x80) set except the last one
-  const writeVarint = (value: number): Uint8Array => {
-    const bytes: number[] = [];
-    const bigValue = BigInt(value);
-
-    let n = bigValue;
-
-    while (true) {
-      // Extract lowest 7 bits
-      const lowest7Bits = n & 0x7Fn;
-
-      // Check if this is the last byte (no more bits beyond the 7 we just extracted)
-      const isLastByte = (n >> 7n) === 0n;
-
-      if (isLastByte) {
-        // Last byte: no continuation bit
-        bytes.push(Number(lowest7Bits));
-        break;
-      } else {
-        // Not the last byte: set continuation bit (0x80)
-        const byteWithContinuation = lowest7Bits | 0x80n;
-        bytes.push(Number(byteWithContinuation));
-        // Shift right by 7 bits for next iteration
-        n >>= 7n;
-      }
-    }
-
-    return new Uint8Array(bytes);
-  };
-
-  // Read varint from byte array
-  const readVarint = (bytes: Uint8Array, offset: number): { value: number; bytesRead: number } => {
-    let value = 0n;
-    let shift = 0n;
-    let bytesRead = 0;
-
-    for (let i = offset; i < bytes.length; i++) {
-      const byte = BigInt(bytes[i]);
-      value |= (byte & 0x7fn) << shift;
-      bytesRead++;
-      if ((byte & 0x80n) === 0n) {
-        break;
-      }
-      shift += 7n;
-    }
-
-    return { value: Number(value), bytesRead };
-  };
-
-  return { writeVarint, readVarint };
-}
-
-/**
- * Serialize a KeyInput to binary format
- *
- * KeyInput structure (from CryptoNote - matches normal transaction format):
- * - amount: varint uint64_t
- * - outputIndexes: varint count + varint[] array
- * - transactionHash: 32 bytes
- * - outputIndex: varint uint32_t
- *
- * NOTE: keyImage is NOT part of serialized KeyInput - it's derived by daemon during validation
- */
-function serializeKeyInput(input: SerializedKeyInput): Uint8Array {
-  const parts: Uint8Array[] = [];
-  const { writeVarint } = createSerializationHelpers();
-
-  // amount (varint encoded uint64_t)
-  parts.push(writeVarint(input.amount));
-
-  // outputIndexes count (varint)
-  parts.push(writeVarint(input.outputIndexes.length));
-
-  // outputIndexes (varint encoded uint32_t)
-  for (const index of input.outputIndexes) {
-    parts.push(writeVarint(index));
-  }
-
-  // transactionHash (32 bytes, raw binary)
-  const hashBytes = hexToBytes(input.transactionHash);
-  if (hashBytes.length !== 32) {
-    throw new Error(`transactionHash must be 32 bytes, got ${hashBytes.length}`);
-  }
-  parts.push(hashBytes);
-
-  // outputIndex (varint encoded uint32_t)
-  parts.push(writeVarint(input.outputIndex));
-
-  return concatBytes(...parts);
-}
-
-/**
- * Serialize a transaction output (amount + KeyOutput)
- */
-function serializeTransactionOutput(output: SerializedKeyOutput): Uint8Array {
-  const parts: Uint8Array[] = [];
-  const { writeVarint } = createSerializationHelpers();
-
-  // amount (varint encoded uint64_t)
-  parts.push(writeVarint(output.amount));
-
-  // target (KeyOutput variant) - write variant tag BEFORE KeyOutput data
-  parts.push(new Uint8Array([0x02])); // TAG_KEY_OUTPUT
-
-  // key (32 bytes, raw binary)
-  const keyBytes = hexToBytes(output.key);
-  if (keyBytes.length !== 32) {
-    throw new Error(`Output key must be 32 bytes, got ${keyBytes.length}`);
-  }
-  parts.push(keyBytes);
-
-  return concatBytes(...parts);
-}
-
-/**
- * Write varint locally (inline implementation)
- */
-function writeVarintLocal(value: number): number[] {
-  const bytes: number[] = [];
-  const bigValue = BigInt(value);
-  const mask = 0x7fn;
-  const continuation = 0x80n;
-
-  let remaining = bigValue;
-  do {
-    const byte = Number((remaining & mask) | continuation);
-    bytes.push(byte);
-    remaining >>= 7n;
-  } while (remaining > 0n);
-
-  bytes[bytes.length - 1] &= 0x7f; // Clear continuation bit on last byte
-
-  return bytes;
-}
-
 // ============================================================================
 // PENDING STAKE MANAGEMENT
 // ============================================================================
@@ -1005,14 +590,13 @@ function writeVarint(value: number): number[] {
   const bigValue = BigInt(value);
   const mask = 0x7fn;
   const continuation = 0x80n;
-  const threshold = 0x80n;
 
   let remaining = bigValue;
   do {
     const byte = Number((remaining & mask) | continuation);
     bytes.push(byte);
     remaining >>= 7n;
-  } while (remaining >= threshold);
+  } while (remaining > 0n);
 
   bytes[bytes.length - 1] &= 0x7f; // Clear continuation bit on last byte
 
@@ -1080,6 +664,7 @@ export default {
 
   // Extra field
   createStakingExtra,
+  serializeStakingData,
   generateStakingSignature,
 
   // Transactions
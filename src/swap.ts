@@ -0,0 +1,609 @@
+/**
+ * Pastella Atomic Swaps
+ *
+ * Two-party swap of PAS against coins on another chain, with no trusted
+ * party. The seller gives PAS; the buyer gives the other chain's coins.
+ *
+ * Pastella has no scripts, so the PAS are locked to a 2-of-2 FROST key Y
+ * shared by both parties, with two pre-signed ways out of it:
+ *   claim   Y -> buyer,  pre-signed under A = a*G (the seller's redeem secret)
+ *   refund  Y -> seller, pre-signed under B = b*G (the buyer's refund secret)
+ * A pre-signature becomes a valid signature only with its secret (see
+ * generateAdaptorSignature), so whoever learns the secret can finish that
+ * transaction alone.
+ *
+ * The other chain's tooling must lock the buyer's coins so that the seller
+ * redeeming them reveals a, and the buyer refunding them, possible only after
+ * that chain's timelock, reveals b. Adaptor signatures on A and B do this on
+ * Ed25519 chains; other curves need a cross-group proof of the same secret.
+ *
+ * The Pastella refund cannot be a transaction timelocked with unlockTime:
+ * unlockTime only locks a transaction's outputs and does not stop the
+ * transaction from being mined, so a pre-signed refund would let the seller
+ * take the PAS back even after redeeming. Gating the refund on b puts the
+ * timelock on the chain that can enforce it.
+ *
+ * Flow:
+ *   1. both    start()             -> SwapKeyMessage        DKG round 1 and A or B
+ *   2. both    receiveKeys(peer)   -> SwapShareMessage      DKG round 2
+ *   3. both    receiveShare(peer)  -> lock address of Y
+ *   4. seller  prepareLock(...)    -> SwapLockMessage       signed, not broadcast
+ *      buyer   receiveLock(message)
+ *   5. both    presignCommit()     -> SwapNonceMessage
+ *   6. both    presignShares(peer) -> SwapSignatureMessage
+ *   7. both    presignFinish(peer)                          pre-signatures verified
+ *   8. the buyer locks the other coins; once the seller has checked them:
+ *      seller  broadcastLock()     -> lock PST for the buyer
+ *      buyer   verifyLock(pst)                              true once in a block;
+ *              only then may the buyer let the seller redeem on the other chain
+ *   9. the seller redeems the other coins, revealing getSecret(); buyer claim(a)
+ *      or, after the other chain's timelock, the buyer refunds there; seller refund(b)
+ */
+
+import { DaemonApi } from './api';
+import { WalletOutput } from './types';
+import { TransactionPicker, SendTransactionResult } from './transaction';
+import {
+  PartiallySignedTransaction,
+  createPst,
+  signPst,
+  addPstSignature,
+  finalizePst,
+  parsePst,
+} from './pst';
+import {
+  FrostDkgRound1Package,
+  FrostDkgRound1Secret,
+  FrostDkgRound2Package,
+  FrostDkgRound2Secret,
+  FrostKeyShare,
+  FrostCommitment,
+  FrostSigningNonces,
+  FrostSignatureShare,
+  frostDkgRound1,
+  frostDkgRound2,
+  frostDkgFinalize,
+  frostCommit,
+  frostSign,
+  frostAggregate,
+} from './frost';
+import { randomScalar, completeAdaptorSignature, verifySchnorrSignature } from './crypto';
+import { Signer, getSignerPublicKeys } from './signer';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from './index';
+import { decodeAddressOrThrow } from './address';
+import { MATURITY_BLOCKS, MAINNET, NetworkParams } from './config';
+import { hexToBytes, bytesToHex, SwapError, TransactionFailedError } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SwapRole = 'seller' | 'buyer';
+
+export type SwapState =
+  | 'created'
+  | 'key-round-1'       // DKG round 1 sent
+  | 'key-round-2'       // DKG round 2 share sent
+  | 'keys-ready'        // Shared key known, lock transaction not yet known
+  | 'lock-prepared'     // Lock transaction signed (seller) or announced (buyer)
+  | 'presign-round-1'   // Nonce commitments sent
+  | 'presign-round-2'   // Signature shares sent
+  | 'presigned'         // Claim and refund pre-signatures verified
+  | 'locked'            // Lock broadcast (seller) or confirmed (buyer)
+  | 'claimed'           // Buyer broadcast the claim
+  | 'refunded';         // Seller broadcast the refund
+
+export interface SwapTerms {
+  amount: number;          // PAS locked by the seller, in atomic units
+  fee: number;             // Fee of the lock, claim and refund transactions
+  sellerAddress: string;   // Receives the refund
+  buyerAddress: string;    // Receives the claim
+}
+
+/**
+ * Daemon calls the swap needs; a DaemonApi works, and so does a mock
+ */
+export type SwapDaemon = Pick<DaemonApi, 'sendRawTransaction' | 'getTransactionsStatus'>;
+
+export interface AtomicSwapConfig extends SwapTerms {
+  role: SwapRole;
+  daemon: SwapDaemon;
+  network?: NetworkParams;   // Default: MAINNET
+}
+
+export interface SwapKeyMessage {
+  terms: SwapTerms;
+  dkg: FrostDkgRound1Package;
+  secretPoint: string;       // A from the seller, B from the buyer
+}
+
+export interface SwapShareMessage {
+  dkg: FrostDkgRound2Package;   // Send privately
+}
+
+export interface SwapLockMessage {
+  transactionHash: string;
+  outputIndex: number;
+}
+
+export interface SwapNonceMessage {
+  claim: FrostCommitment;
+  refund: FrostCommitment;
+}
+
+export interface SwapSignatureMessage {
+  claim: FrostSignatureShare;
+  refund: FrostSignatureShare;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SELLER_IDENTIFIER = 1;
+const BUYER_IDENTIFIER = 2;
+const HASH_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+// ============================================================================
+// ATOMIC SWAP
+// ============================================================================
+
+/**
+ * One party's side of an atomic swap
+ * Methods must be called in flow order; each checks the current state.
+ */
+export class AtomicSwap {
+  private role: SwapRole;
+  private terms: SwapTerms;
+  private daemon: SwapDaemon;
+  private network: NetworkParams;
+  private state: SwapState = 'created';
+
+  private secret: string;
+  private secretPoint: string;
+  private peerSecretPoint: string;
+
+  private dkgRound1: FrostDkgRound1Secret;
+  private dkgRound2: FrostDkgRound2Secret;
+  private keyShare: FrostKeyShare;
+
+  private lock: SwapLockMessage;
+  private lockPst: PartiallySignedTransaction;
+  private claimPst: PartiallySignedTransaction;
+  private refundPst: PartiallySignedTransaction;
+
+  private claimNonces: FrostSigningNonces;
+  private refundNonces: FrostSigningNonces;
+  private claimCommitments: FrostCommitment[];
+  private refundCommitments: FrostCommitment[];
+  private ownShares: SwapSignatureMessage;
+
+  private claimPreSignature: Uint8Array;
+  private refundPreSignature: Uint8Array;
+
+  constructor(config: AtomicSwapConfig) {
+    if (config.role !== 'seller' && config.role !== 'buyer') {
+      throw new SwapError(`Unknown swap role: ${config.role}`);
+    }
+    if (!Number.isInteger(config.fee) || config.fee < 0 || !Number.isInteger(config.amount) || config.amount <= config.fee) {
+      throw new SwapError('Swap amount must be an integer above the fee', { amount: config.amount, fee: config.fee });
+    }
+
+    this.role = config.role;
+    this.daemon = config.daemon;
+    this.network = config.network ?? MAINNET;
+    decodeAddressOrThrow(config.sellerAddress, this.network);
+    decodeAddressOrThrow(config.buyerAddress, this.network);
+    this.terms = {
+      amount: config.amount,
+      fee: config.fee,
+      sellerAddress: config.sellerAddress,
+      buyerAddress: config.buyerAddress,
+    };
+  }
+
+  getState(): SwapState {
+    return this.state;
+  }
+
+  /**
+   * Address of the shared key the seller locks the PAS to
+   */
+  getLockAddress(): string {
+    if (!this.keyShare) {
+      throw new SwapError('Shared key is not known yet');
+    }
+    return publicKeyHexToAddress(this.keyShare.groupPublicKey, this.network);
+  }
+
+  /**
+   * This party's secret (a for the seller, b for the buyer)
+   * Hand it only to the other chain's tooling, which reveals it when redeeming
+   * (seller) or refunding (buyer) there.
+   */
+  getSecret(): string {
+    if (!this.secret) {
+      throw new SwapError('Swap has not started');
+    }
+    return this.secret;
+  }
+
+  // --------------------------------------------------------------------------
+  // Key exchange
+  // --------------------------------------------------------------------------
+
+  /**
+   * Step 1: DKG round 1 and this party's secret point
+   */
+  async start(): Promise<SwapKeyMessage> {
+    this.expectState('created');
+
+    this.secret = bytesToHex(randomScalar());
+    this.secretPoint = derivePublicKeyFromPrivateKey(this.secret);
+
+    const { secret, broadcast } = await frostDkgRound1(this.identifier(), 2, 2, this.context());
+    this.dkgRound1 = secret;
+    this.state = 'key-round-1';
+
+    return { terms: { ...this.terms }, dkg: broadcast, secretPoint: this.secretPoint };
+  }
+
+  /**
+   * Step 2: check the peer's terms and round 1, and compute its key share
+   */
+  receiveKeys(peer: SwapKeyMessage): SwapShareMessage {
+    this.expectState('key-round-1');
+
+    const fields: (keyof SwapTerms)[] = ['amount', 'fee', 'sellerAddress', 'buyerAddress'];
+    const mismatched = fields.filter(field => peer.terms?.[field] !== this.terms[field]);
+    if (mismatched.length > 0) {
+      throw new SwapError(`Peer disagrees on the swap terms: ${mismatched.join(', ')}`, { mismatched });
+    }
+    if (peer.dkg?.identifier !== this.peerIdentifier()) {
+      throw new SwapError('Peer key message comes from the wrong role');
+    }
+    if (typeof peer.secretPoint !== 'string' || !HASH_PATTERN.test(peer.secretPoint) ||
+        peer.secretPoint.toLowerCase() === this.secretPoint) {
+      throw new SwapError('Peer secret point is invalid');
+    }
+
+    const { secret, shares } = frostDkgRound2(this.dkgRound1, [peer.dkg]);
+    this.dkgRound2 = secret;
+    this.dkgRound1 = null;
+    this.peerSecretPoint = peer.secretPoint.toLowerCase();
+    this.state = 'key-round-2';
+
+    return { dkg: shares[0] };
+  }
+
+  /**
+   * Step 3: derive the shared key from the peer's share
+   *
+   * @returns Address the seller locks the PAS to
+   */
+  receiveShare(peer: SwapShareMessage): string {
+    this.expectState('key-round-2');
+
+    this.keyShare = frostDkgFinalize(this.dkgRound2, [peer.dkg]);
+    this.dkgRound2 = null;
+    this.state = 'keys-ready';
+
+    return this.getLockAddress();
+  }
+
+  // --------------------------------------------------------------------------
+  // Lock transaction
+  // --------------------------------------------------------------------------
+
+  /**
+   * Step 4 (seller): build and sign the lock transaction without broadcasting it
+   * Claim and refund spend its output, so they are pre-signed against its hash.
+   *
+   * @param outputs - Seller's wallet outputs
+   * @param signer - Signs the seller's inputs
+   */
+  async prepareLock(
+    outputs: WalletOutput[],
+    currentHeight: number,
+    signer: Signer,
+    maturityBlocks: number = MATURITY_BLOCKS
+  ): Promise<SwapLockMessage> {
+    this.expectRole('seller');
+    this.expectState('keys-ready');
+
+    const publicKey = await signer.getPublicKey();
+    const picker = new TransactionPicker(outputs, currentHeight, maturityBlocks, publicKey, await getSignerPublicKeys(signer));
+    const pickResult = picker.pickInputsForDestinations(
+      [{ address: this.getLockAddress(), amount: this.terms.amount }],
+      this.terms.fee
+    );
+    if (!pickResult) {
+      throw new SwapError('Not enough spendable outputs to lock the swap amount', { amount: this.terms.amount });
+    }
+
+    const lockPst = await signPst(createPst(pickResult, publicKey, this.network), signer, this.network);
+    const built = finalizePst(lockPst, this.network);
+
+    this.lockPst = lockPst;
+    this.setLock({
+      transactionHash: built.hash,
+      outputIndex: lockPst.outputs.findIndex(output => output.key === this.keyShare.groupPublicKey),
+    });
+
+    return { ...this.lock };
+  }
+
+  /**
+   * Step 4 (buyer): take the hash and output index of the seller's lock transaction
+   * The lock itself is checked by verifyLock once it is broadcast.
+   */
+  receiveLock(message: SwapLockMessage): void {
+    this.expectRole('buyer');
+    this.expectState('keys-ready');
+
+    if (!HASH_PATTERN.test(message.transactionHash) || !Number.isInteger(message.outputIndex) || message.outputIndex < 0) {
+      throw new SwapError('Lock message is malformed');
+    }
+    this.setLock({ transactionHash: message.transactionHash.toLowerCase(), outputIndex: message.outputIndex });
+  }
+
+  // --------------------------------------------------------------------------
+  // Pre-signing
+  // --------------------------------------------------------------------------
+
+  /**
+   * Step 5: nonce commitments for the claim and refund signatures
+   */
+  async presignCommit(): Promise<SwapNonceMessage> {
+    this.expectState('lock-prepared');
+
+    this.claimNonces = await frostCommit(this.keyShare);
+    this.refundNonces = await frostCommit(this.keyShare);
+    this.state = 'presign-round-1';
+
+    return { claim: this.claimNonces.commitment, refund: this.refundNonces.commitment };
+  }
+
+  /**
+   * Step 6: signature shares for the claim (under A) and the refund (under B)
+   */
+  presignShares(peer: SwapNonceMessage): SwapSignatureMessage {
+    this.expectState('presign-round-1');
+
+    if (peer.claim?.identifier !== this.peerIdentifier() || peer.refund?.identifier !== this.peerIdentifier()) {
+      throw new SwapError('Peer nonce commitments come from the wrong role');
+    }
+    this.claimCommitments = [this.claimNonces.commitment, peer.claim];
+    this.refundCommitments = [this.refundNonces.commitment, peer.refund];
+
+    this.ownShares = {
+      claim: frostSign(this.prefixHash(this.claimPst), this.keyShare, this.claimNonces, this.claimCommitments, this.sellerPoint()),
+      refund: frostSign(this.prefixHash(this.refundPst), this.keyShare, this.refundNonces, this.refundCommitments, this.buyerPoint()),
+    };
+    this.state = 'presign-round-2';
+
+    return { ...this.ownShares };
+  }
+
+  /**
+   * Step 7: combine and verify both pre-signatures
+   */
+  presignFinish(peer: SwapSignatureMessage): void {
+    this.expectState('presign-round-2');
+
+    this.claimPreSignature = frostAggregate(
+      this.prefixHash(this.claimPst),
+      this.keyShare,
+      this.claimCommitments,
+      [this.ownShares.claim, peer.claim],
+      this.sellerPoint()
+    );
+    this.refundPreSignature = frostAggregate(
+      this.prefixHash(this.refundPst),
+      this.keyShare,
+      this.refundCommitments,
+      [this.ownShares.refund, peer.refund],
+      this.buyerPoint()
+    );
+    this.state = 'presigned';
+  }
+
+  // --------------------------------------------------------------------------
+  // Settlement
+  // --------------------------------------------------------------------------
+
+  /**
+   * Step 8 (seller): broadcast the lock, after checking the buyer's coins are locked
+   *
+   * @returns The signed lock PST, for the buyer's verifyLock
+   */
+  async broadcastLock(): Promise<PartiallySignedTransaction> {
+    this.expectRole('seller');
+    this.expectState('presigned');
+
+    await this.broadcast(this.lockPst);
+    this.state = 'locked';
+    return this.lockPst;
+  }
+
+  /**
+   * Step 8 (buyer): check the seller's lock transaction and whether it is in a block
+   *
+   * @returns true once the lock is confirmed; false while it is still pending
+   */
+  async verifyLock(lockPst: PartiallySignedTransaction): Promise<boolean> {
+    this.expectRole('buyer');
+    this.expectState('presigned');
+
+    const checked = parsePst(lockPst, this.network);
+    const built = finalizePst(checked, this.network);
+    const output = checked.outputs[this.lock.outputIndex];
+    if (built.hash !== this.lock.transactionHash) {
+      throw new SwapError('Lock transaction does not match the announced hash');
+    }
+    if (!output || output.key !== this.keyShare.groupPublicKey || output.amount !== this.terms.amount || checked.unlockTime !== 0) {
+      throw new SwapError('Lock transaction does not pay the swap amount to the shared key');
+    }
+
+    const status = await this.daemon.getTransactionsStatus({ transactionHashes: [built.hash] });
+    if (!(status.transactionsInBlock ?? []).some(tx => tx.hash === built.hash)) {
+      return false;
+    }
+    this.state = 'locked';
+    return true;
+  }
+
+  /**
+   * Step 9 (buyer): claim the PAS with the secret the seller revealed on the other chain
+   */
+  async claim(sellerSecret: string): Promise<SendTransactionResult> {
+    this.expectRole('buyer');
+    this.expectState('locked');
+
+    const result = await this.complete(this.claimPst, this.claimPreSignature, sellerSecret, this.sellerPoint());
+    this.state = 'claimed';
+    return result;
+  }
+
+  /**
+   * Step 9 (seller): take the PAS back with the secret the buyer's refund revealed on the other chain
+   */
+  async refund(buyerSecret: string): Promise<SendTransactionResult> {
+    this.expectRole('seller');
+    this.expectState('locked');
+
+    const result = await this.complete(this.refundPst, this.refundPreSignature, buyerSecret, this.buyerPoint());
+    this.state = 'refunded';
+    return result;
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  private setLock(lock: SwapLockMessage): void {
+    this.lock = lock;
+    this.claimPst = this.spendPst(this.terms.buyerAddress);
+    this.refundPst = this.spendPst(this.terms.sellerAddress);
+    this.state = 'lock-prepared';
+  }
+
+  /**
+   * Unsigned transaction moving the locked output to `address`, minus the fee
+   * Both parties build it from the same data, so they sign the same prefix.
+   */
+  private spendPst(address: string): PartiallySignedTransaction {
+    const groupKey = this.keyShare.groupPublicKey;
+    const output: WalletOutput = {
+      key: groupKey,
+      amount: this.terms.amount,
+      blockHeight: 0,
+      timestamp: 0,
+      transactionHash: this.lock.transactionHash,
+      transactionIndex: 0,
+      outputIndex: this.lock.outputIndex,
+      unlockTime: 0,
+      transactionPublicKey: '',
+      isSpendable: true,
+    };
+
+    return createPst({
+      inputs: [{ output, transactionHash: this.lock.transactionHash, outputIndex: this.lock.outputIndex, publicKey: groupKey }],
+      totalInput: this.terms.amount,
+      fee: this.terms.fee,
+      change: 0,
+      destinations: [{ address, amount: this.terms.amount - this.terms.fee }],
+    }, groupKey, this.network);
+  }
+
+  /**
+   * Finish a pre-signed spend with its secret and broadcast it
+   */
+  private async complete(
+    pst: PartiallySignedTransaction,
+    preSignature: Uint8Array,
+    secret: string,
+    secretPoint: string
+  ): Promise<SendTransactionResult> {
+    if (!secretMatchesPoint(secret, secretPoint)) {
+      throw new SwapError('Secret does not match its secret point');
+    }
+
+    const signature = completeAdaptorSignature(preSignature, secret);
+    if (!verifySchnorrSignature(this.prefixHash(pst), this.keyShare.groupPublicKey, signature)) {
+      throw new SwapError('Completed signature does not verify');
+    }
+
+    const signed = addPstSignature(pst, 0, signature, this.network);
+    return { hash: await this.broadcast(signed), fee: this.terms.fee };
+  }
+
+  private async broadcast(pst: PartiallySignedTransaction): Promise<string> {
+    const built = finalizePst(pst, this.network);
+    const response = await this.daemon.sendRawTransaction(built.txHex);
+    if (response.status !== 'OK') {
+      throw new TransactionFailedError(response.error || response.status);
+    }
+    return built.hash;
+  }
+
+  private prefixHash(pst: PartiallySignedTransaction): Uint8Array {
+    return hexToBytes(pst.prefixHash);
+  }
+
+  private sellerPoint(): string {
+    return this.role === 'seller' ? this.secretPoint : this.peerSecretPoint;
+  }
+
+  private buyerPoint(): string {
+    return this.role === 'buyer' ? this.secretPoint : this.peerSecretPoint;
+  }
+
+  private identifier(): number {
+    return this.role === 'seller' ? SELLER_IDENTIFIER : BUYER_IDENTIFIER;
+  }
+
+  private peerIdentifier(): number {
+    return this.role === 'seller' ? BUYER_IDENTIFIER : SELLER_IDENTIFIER;
+  }
+
+  /**
+   * DKG context: binds the key exchange to these terms
+   */
+  private context(): string {
+    const { amount, fee, sellerAddress, buyerAddress } = this.terms;
+    return `swap:${this.network.name}:${amount}:${fee}:${sellerAddress}:${buyerAddress}`;
+  }
+
+  private expectState(expected: SwapState): void {
+    if (this.state !== expected) {
+      throw new SwapError(`Swap is in state ${this.state}, expected ${expected}`, { state: this.state, expected });
+    }
+  }
+
+  private expectRole(expected: SwapRole): void {
+    if (this.role !== expected) {
+      throw new SwapError(`Only the ${expected} can do this`, { role: this.role });
+    }
+  }
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+function secretMatchesPoint(secret: string, secretPoint: string): boolean {
+  try {
+    return HASH_PATTERN.test(secret) && derivePublicKeyFromPrivateKey(secret) === secretPoint;
+  } catch (error) {
+    return false;   // Zero or out-of-range scalar
+  }
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  AtomicSwap,
+};
@@ -11,8 +11,24 @@ import {
 import { DaemonApi } from './api';
 import { keccak256 } from 'js-sha3';
 import { generateSchnorrSignature } from './crypto';
-import { MATURITY_BLOCKS, UNLOCK_TIME_TIMESTAMP_THRESHOLD, WALLET_ADDRESS_PREFIX, WALLET_ADDRESS_PREFIX_STRING } from './config';
-import { deriveKeysFromMnemonic } from './index';
+import {
+  MATURITY_BLOCKS,
+  UNLOCK_TIME_TIMESTAMP_THRESHOLD,
+  TX_EXTRA_STAKING,
+  TX_EXTRA_NONCE,
+  TX_EXTRA_NONCE_PAYMENT_ID,
+  PAYMENT_ID_SIZE,
+  MAINNET,
+  NetworkParams,
+} from './config';
+import { serializePaymentIdNonce } from './integratedAddress';
+import { TransactionExtraStaking } from './staking';
+import { InvalidTransactionError } from './utils';
+import { decodeAddressOrThrow, resolveDestinationKey } from './address';
+import { Signer, MnemonicSigner, getSignerPublicKeys, signWith } from './signer';
+import { createPst, signPst, finalizePst } from './pst';
+import { FeeSetting, pickInputsWithFee } from './fees';
+import { CoinSelectionStrategy, CoinSelectionReport, selectCoins } from './coinSelection';
 
 // ============================================================================
 // TYPES
@@ -22,10 +38,15 @@ export interface SelectedInput {
   output: WalletOutput;
   transactionHash: string;  // Hash of transaction that created the UTXO
   outputIndex: number;      // Index of the output in that transaction
-  publicKey: string;        // Public key of the UTXO owner (for signing)
-  privateKey: string;       // Private key of the UTXO owner (for signing)
+  publicKey: string;        // Public key of the UTXO owner (the signer signs this input with it)
 }
 
+/**
+ * Signing keys by public key (hex public key -> hex private key)
+ * Lets one transaction spend outputs owned by several keys, e.g. derived child keys
+ */
+export type Keyring = Map<string, string>;
+
 export interface TransactionDestination {
   address: string;  // Public key as hex string (64 chars)
   amount: number;   // Amount in atomic units
@@ -37,6 +58,7 @@ export interface TransactionPickResult {
   fee: number;
   change: number;
   destinations: TransactionDestination[];
+  selection?: CoinSelectionReport;   // Why each input was chosen
 }
 
 export interface BuiltTransaction {
@@ -45,6 +67,7 @@ export interface BuiltTransaction {
   inputs: SerializedKeyInput[];
   outputs: SerializedKeyOutput[];
   fee: number;
+  selection?: CoinSelectionReport;   // Set by createTransaction
 }
 
 export interface SerializedKeyInput {
@@ -52,8 +75,7 @@ export interface SerializedKeyInput {
   outputIndexes: number[];  // Single index for transparent system
   transactionHash: string;  // 32 bytes hex
   outputIndex: number;      // Index in the transaction
-  publicKey: string;        // Public key of the UTXO owner (for signing)
-  privateKey: string;       // Private key of the UTXO owner (for signing)
+  publicKey: string;        // Public key of the UTXO owner (the signer signs this input with it)
 }
 
 export interface SerializedKeyOutput {
@@ -61,11 +83,59 @@ export interface SerializedKeyOutput {
   amount: number;
 }
 
+/**
+ * An output to spend with TransactionBuilder.addInput (a WalletOutput fits)
+ */
+export interface TransactionOutputRef {
+  transactionHash: string;
+  outputIndex?: number;     // Index in that transaction (default: 0)
+  amount: number;
+  key: string;              // Public key the output was sent to; the input is signed with it
+}
+
 export interface SendTransactionResult {
   hash: string;
   fee: number;
 }
 
+export interface ParsedKeyInput {
+  type: 'key';
+  amount: number;
+  outputIndexes: number[];
+  transactionHash: string;
+  outputIndex: number;
+}
+
+export interface ParsedBaseInput {
+  type: 'base';             // Coinbase input
+  blockIndex: number;
+}
+
+export type ParsedTransactionInput = ParsedKeyInput | ParsedBaseInput;
+
+export type ParsedExtraField =
+  | { tag: number; type: 'publicKey'; publicKey: string }
+  | { tag: number; type: 'nonce'; data: string; paymentId?: string }
+  | { tag: number; type: 'staking'; staking: TransactionExtraStaking }
+  | { tag: number; type: 'padding'; length: number }
+  | { tag: number; type: 'unknown'; data: string };   // Tag and everything after it, raw
+
+export interface ParsedTransaction {
+  version: number;
+  unlockTime: number;
+  inputs: ParsedTransactionInput[];
+  outputs: SerializedKeyOutput[];
+  extra: string;                     // Raw extra field (hex)
+  extraFields: ParsedExtraField[];
+  publicKey?: string;                // Transaction public key (extra tag 0x01)
+  paymentId?: string;
+  staking?: TransactionExtraStaking;
+  signatures: string[];              // One 64-byte signature (c || s) per key input, hex
+  fee: number;                       // Inputs minus outputs (0 for a coinbase transaction)
+  prefixHash: string;                // Keccak-256 of the prefix: what the inputs sign
+  hash: string;                      // Keccak-256 of the whole transaction
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -77,6 +147,10 @@ const TAG_KEY_INPUT = 0x02;     // KeyInput variant tag
 const TAG_KEY_OUTPUT = 0x02;    // KeyOutput variant tag
 const TAG_BASE_INPUT = 0xff;    // BaseInput variant tag (coinbase)
 
+// Extra field tags without a config constant
+const TX_EXTRA_PADDING = 0x00;
+const TX_EXTRA_PUBKEY = 0x01;
+
 // ============================================================================
 // BINARY SERIALIZATION UTILITIES
 // ============================================================================
@@ -178,199 +252,15 @@ function hexToBytes(hex: string): Uint8Array {
 }
 
 // ============================================================================
-// BASE58 ENCODING/DECODING
+// ADDRESS DECODING
 // ============================================================================
 
-const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-const BASE58_MAP: {[key: string]: number} = {};
-for (let i = 0; i < BASE58_ALPHABET.length; i++) {
-  BASE58_MAP[BASE58_ALPHABET[i]] = i;
-}
-
-/**
- * Decode a Base58 string to bytes
- */
-function base58Decode(input: string): Uint8Array {
-  const ENCODED_BLOCK_SIZES = [0, 2, 3, 5, 6, 7, 9, 10, 11];
-  const FULL_BLOCK_SIZE = 8;
-  const FULL_ENCODED_BLOCK_SIZE = 11;
-
-  // Build decoded_block_sizes lookup: maps encoded size → decoded size
-  const DECODED_BLOCK_SIZES: Record<number, number> = {};
-  for (let i = 0; i <= FULL_BLOCK_SIZE; i++) {
-    DECODED_BLOCK_SIZES[ENCODED_BLOCK_SIZES[i]] = i;
-  }
-
-  if (input.length === 0) {
-    return new Uint8Array(0);
-  }
-
-  const fullBlockCount = Math.floor(input.length / FULL_ENCODED_BLOCK_SIZE);
-  const lastBlockSize = input.length % FULL_ENCODED_BLOCK_SIZE;
-
-  // Calculate total decoded size
-  let totalDecodedSize = fullBlockCount * FULL_BLOCK_SIZE;
-  if (lastBlockSize > 0) {
-    const lastDecodedSize = DECODED_BLOCK_SIZES[lastBlockSize];
-    if (lastDecodedSize === undefined) {
-      throw new Error(`Invalid Base58 input length (partial block size ${lastBlockSize} not valid)`);
-    }
-    totalDecodedSize += lastDecodedSize;
-  }
-
-  const result = new Uint8Array(totalDecodedSize);
-  let offset = 0;
-
-  // Decode full blocks (11 chars → 8 bytes)
-  for (let i = 0; i < fullBlockCount; i++) {
-    const blockStart = i * FULL_ENCODED_BLOCK_SIZE;
-    const block = input.slice(blockStart, blockStart + FULL_ENCODED_BLOCK_SIZE);
-
-    // Convert block from Base58 (process right to left like C++ implementation)
-    let num = 0n;
-    let order = 1n;
-    for (let j = block.length - 1; j >= 0; j--) {
-      const digit = BigInt(BASE58_MAP[block[j]]);
-      num = num + (order * digit);
-      order = order * 58n;
-    }
-
-    // Convert to bytes (big-endian)
-    for (let j = FULL_BLOCK_SIZE - 1; j >= 0; j--) {
-      result[offset + j] = Number(num & 0xffn);
-      num = num >> 8n;
-    }
-
-    offset += FULL_BLOCK_SIZE;
-  }
-
-  // Decode last partial block
-  if (lastBlockSize > 0) {
-    const blockStart = fullBlockCount * FULL_ENCODED_BLOCK_SIZE;
-    const block = input.slice(blockStart);
-    const decodedSize = DECODED_BLOCK_SIZES[lastBlockSize];
-
-    // Convert block from Base58 (process right to left)
-    let num = 0n;
-    let order = 1n;
-    for (let j = block.length - 1; j >= 0; j--) {
-      const digit = BigInt(BASE58_MAP[block[j]]);
-      num = num + (order * digit);
-      order = order * 58n;
-    }
-
-    // Convert to bytes (big-endian)
-    for (let j = decodedSize - 1; j >= 0; j--) {
-      result[offset + j] = Number(num & 0xffn);
-      num = num >> 8n;
-    }
-  }
-
-  return result;
-}
-
 /**
- * Encode bytes to Base58 string
- */
-function base58Encode(buffer: Uint8Array): string {
-  const ENCODED_BLOCK_SIZES = [0, 2, 3, 5, 6, 7, 9, 10, 11];
-  const FULL_BLOCK_SIZE = 8;
-  const FULL_ENCODED_BLOCK_SIZE = 11;
-
-  if (buffer.length === 0) {
-    return '';
-  }
-
-  const fullBlockCount = Math.floor(buffer.length / FULL_BLOCK_SIZE);
-  const lastBlockSize = buffer.length % FULL_BLOCK_SIZE;
-
-  const resultSize = fullBlockCount * FULL_ENCODED_BLOCK_SIZE + ENCODED_BLOCK_SIZES[lastBlockSize];
-  let result = new Array(resultSize).fill(BASE58_ALPHABET[0]);
-
-  for (let i = 0; i < fullBlockCount; i++) {
-    const blockStart = i * FULL_BLOCK_SIZE;
-    const resultStart = i * FULL_ENCODED_BLOCK_SIZE;
-
-    // Read 8 bytes as big-endian number
-    let num = 0n;
-    for (let j = 0; j < FULL_BLOCK_SIZE; j++) {
-      num = (num << 8n) | BigInt(buffer[blockStart + j]);
-    }
-
-    // Encode to Base58
-    let k = FULL_ENCODED_BLOCK_SIZE - 1;
-    while (num > 0n) {
-      const remainder = num % 58n;
-      num = num / 58n;
-      result[resultStart + k] = BASE58_ALPHABET[Number(remainder)];
-      k--;
-    }
-  }
-
-  if (lastBlockSize > 0) {
-    const blockStart = fullBlockCount * FULL_BLOCK_SIZE;
-    const resultStart = fullBlockCount * FULL_ENCODED_BLOCK_SIZE;
-
-    // Read last block as big-endian number
-    let num = 0n;
-    for (let j = 0; j < lastBlockSize; j++) {
-      num = (num << 8n) | BigInt(buffer[blockStart + j]);
-    }
-
-    // Encode to Base58
-    let k = ENCODED_BLOCK_SIZES[lastBlockSize] - 1;
-    while (num > 0n) {
-      const remainder = num % 58n;
-      num = num / 58n;
-      result[resultStart + k] = BASE58_ALPHABET[Number(remainder)];
-      k--;
-    }
-  }
-
-  return result.join('');
-}
-
-/**
- * Decode a varint from bytes
- */
-function decodeVarint(bytes: Uint8Array, offset: number = 0): {value: number, bytesRead: number} {
-  let value = 0;
-  let shift = 0;
-  let bytesRead = 0;
-
-  for (let i = offset; i < bytes.length; i++) {
-    const byte = bytes[i];
-    value |= (byte & 0x7f) << shift;
-    bytesRead++;
-    if ((byte & 0x80) === 0) {
-      break;
-    }
-    shift += 7;
-  }
-
-  return { value, bytesRead };
-}
-
-/**
- * Extract public key from a readable address
- * Address format: [prefix varint] + [publicKey 32 bytes] + [checksum 4 bytes]
- * All Base58 encoded
+ * Extract the output key from a standard or integrated address
+ * Throws InvalidAddressError if the prefix, length or checksum is wrong
  */
 function addressToPublicKey(address: string): string {
-  // Decode Base58 address
-  const decoded = base58Decode(address);
-
-  // The last 4 bytes are the checksum, which we can skip for extraction
-  // We need to decode the varint prefix first
-  const { value: prefixValue, bytesRead: prefixLength } = decodeVarint(decoded);
-
-  // Skip prefix and checksum, extract public key
-  // Format: [prefix varint] + [publicKey 32 bytes] + [checksum 4 bytes]
-  const publicKeyBytes = decoded.slice(prefixLength, prefixLength + 32);
-
-  const publicKeyHex = bytesToHex(publicKeyBytes);
-
-  return publicKeyHex;
+  return decodeAddressOrThrow(address).publicKey;
 }
 
 // ============================================================================
@@ -378,28 +268,37 @@ function addressToPublicKey(address: string): string {
 // ============================================================================
 
 /**
- * Transaction Picker - Selects inputs using minimal number of UTXOs
- * Priority: Use as few inputs as possible to minimize transaction size and fees
+ * Transaction Picker - Selects inputs with a coin selection strategy
+ * Default: largest outputs first, to use as few inputs as possible and keep size and fees down
  */
 export class TransactionPicker {
   private outputs: WalletOutput[];
   private currentHeight: number;
   private maturityBlocks: number;
   private walletPublicKey: string;
-  private walletPrivateKey: string;
+  private spendableKeys?: Set<string>;
+  private strategy: CoinSelectionStrategy;
 
+  /**
+   * @param spendableKeys - Optional public keys the signer can sign for (see getSignerPublicKeys).
+   *                        When given, only outputs sent to one of them are picked,
+   *                        each signed by its own key.
+   * @param strategy - Coin selection strategy or custom selector (default: 'largest-first')
+   */
   constructor(
     outputs: WalletOutput[],
     currentHeight: number,
     maturityBlocks: number = MATURITY_BLOCKS,
     walletPublicKey: string = '',
-    walletPrivateKey: string = ''
+    spendableKeys?: Iterable<string>,
+    strategy: CoinSelectionStrategy = 'largest-first'
   ) {
     this.outputs = outputs;
     this.currentHeight = currentHeight;
     this.maturityBlocks = maturityBlocks;
     this.walletPublicKey = walletPublicKey;
-    this.walletPrivateKey = walletPrivateKey;
+    this.spendableKeys = spendableKeys ? new Set(spendableKeys) : undefined;
+    this.strategy = strategy;
   }
 
   /**
@@ -430,7 +329,8 @@ export class TransactionPicker {
       const isUnspent = !o.spentHeight;
       const isMature = o.blockHeight <= matureHeight;
       const unlockTimeMet = this.isUnlockTimeMet(o.unlockTime);
-      const result = isUnspent && isMature && unlockTimeMet;
+      const canSign = !this.spendableKeys || this.spendableKeys.has(o.key);
+      const result = isUnspent && isMature && unlockTimeMet && canSign;
       return result;
     });
 
@@ -438,8 +338,8 @@ export class TransactionPicker {
   }
 
   /**
-   * Pick inputs using greedy algorithm with minimal count
-   * Sorts outputs by amount descending and picks largest first
+   * Pick inputs covering the target amount plus fee with the picker's strategy
+   * The result's selection report says why each input was chosen.
    */
   pickInputs(targetAmount: number, fee: number = DEFAULT_FEE): TransactionPickResult | null {
     const spendable = this.getSpendableOutputs();
@@ -448,33 +348,37 @@ export class TransactionPicker {
       return null;
     }
 
-    // Sort by amount descending (pick largest outputs first for minimal count)
-    const sorted = [...spendable].sort((a, b) => b.amount - a.amount);
+    const needed = targetAmount + fee;
+    const coins = selectCoins(spendable, needed, this.strategy);
+    if (!coins) {
+      return null;  // Insufficient funds
+    }
+
+    // A custom selector may only pick spendable outputs, each once
+    const candidates = new Set(spendable);
+    const picked = new Set<WalletOutput>();
+    for (const { output } of coins) {
+      if (!candidates.has(output) || picked.has(output)) {
+        throw new Error('Coin selector returned an output that is not spendable or was already selected');
+      }
+      picked.add(output);
+    }
 
     const selected: SelectedInput[] = [];
     let totalInput = 0;
-
-    // Greedy pick: select largest outputs until we have enough
-    for (const output of sorted) {
+    for (const { output } of coins) {
       // Ensure outputIndex is available
       const outputIndex = output.outputIndex ?? 0;
       selected.push({
         output,
         transactionHash: output.transactionHash,
         outputIndex: outputIndex,
-        publicKey: this.walletPublicKey,      // Add wallet public key
-        privateKey: this.walletPrivateKey,    // Add wallet private key
+        publicKey: this.spendableKeys ? output.key : this.walletPublicKey,  // Owner of this output
       });
       totalInput += output.amount;
-
-      // Check if we have enough (target + fee)
-      if (totalInput >= targetAmount + fee) {
-        break;
-      }
     }
 
     // Check if we have enough total input
-    const needed = targetAmount + fee;
     if (totalInput < needed) {
       return null;  // Insufficient funds
     }
@@ -487,7 +391,21 @@ export class TransactionPicker {
       totalInput,
       fee,
       change,
-      destinations: []  // Will be filled by caller
+      destinations: [],  // Will be filled by caller
+      selection: {
+        strategy: typeof this.strategy === 'string' ? this.strategy : 'custom',
+        target: needed,
+        candidates: spendable.length,
+        inputs: coins.map(({ output, reason }) => ({
+          transactionHash: output.transactionHash,
+          outputIndex: output.outputIndex ?? 0,
+          amount: output.amount,
+          blockHeight: output.blockHeight,
+          reason,
+        })),
+        totalSelected: totalInput,
+        change,
+      },
     };
     return result;
   }
@@ -609,13 +527,15 @@ export class TransactionSerializer {
   /**
    * Serialize transaction extra field
    *
-   * The extra field contains only the transaction public key (tag 0x01)
+   * The extra field contains the transaction public key (tag 0x01), followed
+   * by the payment ID nonce (tag 0x02) when sending to an integrated address
    *
-   * Format: [0x01][32 bytes publicKey]
+   * Format: [0x01][32 bytes publicKey] ([0x02][0x21][0x00][32 bytes paymentId])
    *
    * @param publicKey - Transaction public key as hex string
+   * @param paymentId - Optional payment ID as hex string
    */
-  static serializeExtra(publicKey: string): Uint8Array {
+  static serializeExtra(publicKey: string, paymentId?: string): Uint8Array {
     const parts: Uint8Array[] = [];
 
     // TX_EXTRA_TAG_PUBKEY (0x01) + publicKey
@@ -626,6 +546,10 @@ export class TransactionSerializer {
     }
     parts.push(keyBytes);
 
+    if (paymentId) {
+      parts.push(serializePaymentIdNonce(paymentId));
+    }
+
     const result = concatBytes(...parts);
     return result;
   }
@@ -639,6 +563,23 @@ export class TransactionSerializer {
     outputs: SerializedKeyOutput[],
     publicKey: string,
     unlockTime: number = 0,
+    version: number = 1,
+    paymentId?: string
+  ): Uint8Array {
+    // extra (transaction public key and optional payment ID)
+    const extraData = this.serializeExtra(publicKey, paymentId);
+    return this.serializeTransactionPrefixWithExtra(inputs, outputs, extraData, unlockTime, version);
+  }
+
+  /**
+   * Serialize a transaction prefix around an already serialized extra field
+   * Used for transactions that carry more than the public key and payment ID, e.g. staking data
+   */
+  static serializeTransactionPrefixWithExtra(
+    inputs: SerializedKeyInput[],
+    outputs: SerializedKeyOutput[],
+    extraData: Uint8Array,
+    unlockTime: number = 0,
     version: number = 1
   ): Uint8Array {
     const parts: Uint8Array[] = [];
@@ -670,8 +611,7 @@ export class TransactionSerializer {
       parts.push(this.serializeTransactionOutput(outputs[i]));
     }
 
-    // extra (only transaction public key)
-    const extraData = this.serializeExtra(publicKey);
+    // extra (varint length + raw fields)
     const extraLenVarint = writeVarint(extraData.length);
     parts.push(extraLenVarint);  // Extra field length (varint) - REQUIRED!
     parts.push(extraData);
@@ -726,16 +666,19 @@ export class TransactionSerializer {
 
   /**
    * Serialize a complete transaction to binary format
+   * Each input is signed by the signer with the input's public key.
    */
-  static serializeTransaction(
+  static async serializeTransaction(
     inputs: SerializedKeyInput[],
     outputs: SerializedKeyOutput[],
     publicKey: string,
+    signer: Signer,
     unlockTime: number = 0,
-    version: number = 1
-  ): Uint8Array {
+    version: number = 1,
+    paymentId?: string
+  ): Promise<Uint8Array> {
     // Serialize the transaction prefix (without signatures)
-    const prefixBytes = this.serializeTransactionPrefix(inputs, outputs, publicKey, unlockTime, version);
+    const prefixBytes = this.serializeTransactionPrefix(inputs, outputs, publicKey, unlockTime, version, paymentId);
 
     // Compute hash of the prefix for signing
     const prefixHash = this.computeHash(prefixBytes);
@@ -745,8 +688,8 @@ export class TransactionSerializer {
 
     // Generate signatures (one 64-byte signature per input for transparent system)
     for (let i = 0; i < inputs.length; i++) {
-      // Use the specific private key for this input (UTXO owner's key)
-      const signature = this.generateSignature(prefixHash, inputs[i].publicKey, inputs[i].privateKey);
+      // Signed with the key of this input's UTXO owner
+      const signature = await signWith(signer, prefixHash, inputs[i].publicKey);
       parts.push(signature);
     }
 
@@ -755,100 +698,394 @@ export class TransactionSerializer {
   }
 }
 
+// ============================================================================
+// TRANSACTION PARSER
+// ============================================================================
+
+/**
+ * Parse a serialized transaction (the inverse of TransactionSerializer)
+ *
+ * Decodes the prefix, the extra fields it knows (public key, nonce and payment
+ * ID, staking data, padding) and the signatures, and computes the prefix hash
+ * and transaction hash locally. An unknown extra tag ends extra parsing, since
+ * its length cannot be known; it is returned raw with the rest of the field.
+ *
+ * @param tx - Transaction as hex or bytes
+ */
+export function parseTransaction(tx: string | Uint8Array): ParsedTransaction {
+  if (typeof tx === 'string' && !/^([0-9a-fA-F]{2})+$/.test(tx)) {
+    throw new InvalidTransactionError('Transaction hex is empty or malformed');
+  }
+  const bytes = typeof tx === 'string' ? hexToBytes(tx) : tx;
+  const reader = new ByteReader(bytes);
+
+  const version = reader.varint('version');
+  const unlockTime = reader.varint('unlock time');
+
+  const inputCount = reader.varint('input count');
+  const inputs: ParsedTransactionInput[] = [];
+  for (let i = 0; i < inputCount; i++) {
+    const tag = reader.byte(`input ${i} tag`);
+    if (tag === TAG_BASE_INPUT) {
+      inputs.push({ type: 'base', blockIndex: reader.varint(`input ${i} block index`) });
+    } else if (tag === TAG_KEY_INPUT) {
+      const amount = reader.varint(`input ${i} amount`);
+      const outputIndexes: number[] = [];
+      const indexCount = reader.varint(`input ${i} key offset count`);
+      for (let j = 0; j < indexCount; j++) {
+        outputIndexes.push(reader.varint(`input ${i} key offset`));
+      }
+      const transactionHash = reader.hex(32, `input ${i} transaction hash`);
+      inputs.push({ type: 'key', amount, outputIndexes, transactionHash, outputIndex: reader.varint(`input ${i} output index`) });
+    } else {
+      throw new InvalidTransactionError(`Unknown input tag 0x${tag.toString(16)} at input ${i}`, { input: i, tag });
+    }
+  }
+
+  const outputCount = reader.varint('output count');
+  const outputs: SerializedKeyOutput[] = [];
+  for (let i = 0; i < outputCount; i++) {
+    const amount = reader.varint(`output ${i} amount`);
+    const tag = reader.byte(`output ${i} tag`);
+    if (tag !== TAG_KEY_OUTPUT) {
+      throw new InvalidTransactionError(`Unknown output tag 0x${tag.toString(16)} at output ${i}`, { output: i, tag });
+    }
+    outputs.push({ amount, key: reader.hex(32, `output ${i} key`) });
+  }
+
+  const extraBytes = reader.bytes(reader.varint('extra length'), 'extra');
+  const prefixBytes = bytes.subarray(0, reader.offset);
+
+  // Transparent inputs carry one signature each; coinbase inputs none
+  const signatures: string[] = [];
+  for (const input of inputs) {
+    if (input.type === 'key') {
+      signatures.push(reader.hex(64, `signature ${signatures.length}`));
+    }
+  }
+  if (reader.remaining() !== 0) {
+    throw new InvalidTransactionError(`${reader.remaining()} unexpected bytes after the signatures`);
+  }
+
+  // Coinbase inputs carry no amount; such a transaction pays no fee
+  const isCoinbase = inputs.some(input => input.type === 'base');
+  const totalInput = inputs.reduce((sum, input) => sum + (input.type === 'key' ? input.amount : 0), 0);
+  const totalOutput = outputs.reduce((sum, output) => sum + output.amount, 0);
+
+  const extraFields = parseExtraFields(extraBytes);
+  const parsed: ParsedTransaction = {
+    version,
+    unlockTime,
+    inputs,
+    outputs,
+    extra: bytesToHex(extraBytes),
+    extraFields,
+    signatures,
+    fee: isCoinbase ? 0 : totalInput - totalOutput,
+    prefixHash: keccak256(prefixBytes),
+    hash: keccak256(bytes),
+  };
+
+  for (const field of extraFields) {
+    if (field.type === 'publicKey' && parsed.publicKey === undefined) {
+      parsed.publicKey = field.publicKey;
+    } else if (field.type === 'nonce' && field.paymentId !== undefined && parsed.paymentId === undefined) {
+      parsed.paymentId = field.paymentId;
+    } else if (field.type === 'staking' && parsed.staking === undefined) {
+      parsed.staking = field.staking;
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Split a transaction extra field into its tagged fields
+ * Throws InvalidTransactionError if a known field is truncated.
+ */
+export function parseExtraFields(extra: Uint8Array): ParsedExtraField[] {
+  const reader = new ByteReader(extra);
+  const fields: ParsedExtraField[] = [];
+
+  while (reader.remaining() > 0) {
+    const start = reader.offset;
+    const tag = reader.byte('extra tag');
+
+    if (tag === TX_EXTRA_PADDING) {
+      // Padding runs to the end of the field
+      fields.push({ tag, type: 'padding', length: extra.length - start });
+      break;
+    } else if (tag === TX_EXTRA_PUBKEY) {
+      fields.push({ tag, type: 'publicKey', publicKey: reader.hex(32, 'extra public key') });
+    } else if (tag === TX_EXTRA_NONCE) {
+      const data = reader.bytes(reader.varint('extra nonce length'), 'extra nonce');
+      const field: ParsedExtraField = { tag, type: 'nonce', data: bytesToHex(data) };
+      if (data.length === 1 + PAYMENT_ID_SIZE && data[0] === TX_EXTRA_NONCE_PAYMENT_ID) {
+        field.paymentId = bytesToHex(data.subarray(1));
+      }
+      fields.push(field);
+    } else if (tag === TX_EXTRA_STAKING) {
+      // Same layout as createStakingExtra
+      fields.push({
+        tag,
+        type: 'staking',
+        staking: {
+          stakingType: reader.varint('staking type'),
+          amount: reader.varint('staking amount'),
+          unlockTime: reader.varint('staking unlock time'),
+          lockDurationDays: reader.varint('staking lock duration'),
+          signature: reader.hex(64, 'staking signature'),
+        },
+      });
+    } else {
+      fields.push({ tag, type: 'unknown', data: bytesToHex(extra.subarray(start)) });
+      break;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Sequential reader over serialized transaction bytes
+ * Every read names what it reads, so truncated data gives a useful error.
+ */
+class ByteReader {
+  offset = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  byte(what: string): number {
+    return this.bytes(1, what)[0];
+  }
+
+  bytes(length: number, what: string): Uint8Array {
+    if (length > this.remaining()) {
+      throw new InvalidTransactionError(`Transaction ends inside the ${what}`, { offset: this.offset });
+    }
+    const result = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return result;
+  }
+
+  hex(length: number, what: string): string {
+    return bytesToHex(this.bytes(length, what));
+  }
+
+  /**
+   * Varint as a number; values beyond 2^53 cannot be represented exactly and are rejected
+   */
+  varint(what: string): number {
+    let value = 0n;
+    let shift = 0n;
+    for (;;) {
+      const b = this.byte(what);
+      value |= BigInt(b & 0x7f) << shift;
+      if ((b & 0x80) === 0) {
+        break;
+      }
+      shift += 7n;
+      if (shift > 63n) {
+        throw new InvalidTransactionError(`Varint too long in the ${what}`, { offset: this.offset });
+      }
+    }
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new InvalidTransactionError(`The ${what} exceeds the safe integer range`, { offset: this.offset });
+    }
+    return Number(value);
+  }
+}
+
 // ============================================================================
 // TRANSACTION BUILDER
 // ============================================================================
 
 export class TransactionBuilder {
+  private network: NetworkParams;
+  private inputs: { input: SerializedKeyInput; signer: Signer }[] = [];
+  private outputs: SerializedKeyOutput[] = [];
+  private extraFields: Uint8Array[] = [];
+  private unlockTime = 0;
+  private transactionPublicKey?: string;
+  private paymentId?: string;
+  private expectedFee?: number;
+
   /**
-   * Build a transaction from selected inputs and destinations
+   * The fluent methods (addInput, addOutput, ..., build) assemble a custom
+   * transaction input by input; buildTransaction builds from a pick result.
+   *
+   * @param network - Network whose address prefixes and minimum fee apply (default: MAINNET)
    */
-  buildTransaction(
-    pickResult: TransactionPickResult,
-    publicKey: string
-  ): BuiltTransaction {
-    // Build KeyInput array from selected inputs
-    const inputs: SerializedKeyInput[] = pickResult.inputs.map((selected) => {
-      const input: SerializedKeyInput = {
-        amount: selected.output.amount,
-        outputIndexes: [selected.outputIndex],  // Use actual output index from UTXO
-        transactionHash: selected.transactionHash,
-        outputIndex: selected.outputIndex,  // The actual output index being spent
-        publicKey: selected.publicKey,    // Add the public key
-        privateKey: selected.privateKey,  // Add the private key
-      };
-
-      return input;
-    });
+  constructor(network: NetworkParams = MAINNET) {
+    this.network = network;
+  }
 
-    // Build KeyOutput array
-    const outputs: SerializedKeyOutput[] = [];
+  /**
+   * Spend an output; the signer signs this input with the output's key
+   */
+  addInput(outputRef: TransactionOutputRef, signer: Signer): this {
+    const outputIndex = outputRef.outputIndex ?? 0;
+    const duplicate = this.inputs.some(({ input }) =>
+      input.transactionHash === outputRef.transactionHash && input.outputIndex === outputIndex
+    );
+    if (duplicate) {
+      throw new InvalidTransactionError(`Output ${outputRef.transactionHash}:${outputIndex} is already an input`);
+    }
+
+    this.inputs.push({
+      input: {
+        amount: outputRef.amount,
+        outputIndexes: [outputIndex],
+        transactionHash: outputRef.transactionHash,
+        outputIndex,
+        publicKey: outputRef.key,
+      },
+      signer,
+    });
+    return this;
+  }
 
-    // Add destination outputs
-    for (let i = 0; i < pickResult.destinations.length; i++) {
-      const dest = pickResult.destinations[i];
+  /**
+   * Pay an amount to a hex public key or an address
+   * An integrated address also puts its payment ID in the extra field.
+   */
+  addOutput(destination: string, amount: number): this {
+    if (!Number.isSafeInteger(amount) || amount < 0) {
+      throw new InvalidTransactionError(`Output amount must be a non-negative integer, got ${amount}`);
+    }
 
-      // Convert address to hex public key for serialization
-      let key: string;
-      // Check if address starts with the wallet prefix string (e.g., "PAS1")
-      if (dest.address.startsWith(WALLET_ADDRESS_PREFIX_STRING)) {
-        key = addressToPublicKey(dest.address);
-      } else {
-        key = dest.address;
+    const { publicKey, paymentId } = resolveDestinationKey(destination, this.network);
+    if (paymentId !== undefined) {
+      if (this.paymentId !== undefined && this.paymentId !== paymentId) {
+        throw new InvalidTransactionError('Outputs to integrated addresses with different payment IDs', {
+          paymentIds: [this.paymentId, paymentId],
+        });
       }
+      this.paymentId = paymentId;
+    }
 
-      outputs.push({
-        key: key,
-        amount: dest.amount,
-      });
+    this.outputs.push({ key: publicKey, amount });
+    return this;
+  }
+
+  /**
+   * Lock the outputs until a block height or Unix timestamp (see UNLOCK_TIME_TIMESTAMP_THRESHOLD)
+   */
+  setUnlockTime(unlockTime: number): this {
+    this.unlockTime = unlockTime;
+    return this;
+  }
+
+  /**
+   * Transaction public key for the extra field (default: the first input signer's primary key)
+   */
+  setTransactionPublicKey(publicKey: string): this {
+    if (!/^[0-9a-fA-F]{64}$/.test(publicKey)) {
+      throw new InvalidTransactionError('Transaction public key must be 64 hex characters');
     }
+    this.transactionPublicKey = publicKey.toLowerCase();
+    return this;
+  }
 
-    // Add change output if needed
-    if (pickResult.change > 0) {
-      // Change goes back to sender (use publicKey)
-      outputs.push({
-        key: publicKey,
-        amount: pickResult.change,
+  /**
+   * Append a field to the extra, after the public key and payment ID
+   * The data is written as given after the tag, so it must carry its own length if the tag needs one.
+   */
+  addExtraField(tag: number, data: Uint8Array): this {
+    if (!Number.isInteger(tag) || tag < 0 || tag > 0xff) {
+      throw new InvalidTransactionError(`Extra tag must be a single byte, got ${tag}`);
+    }
+    this.extraFields.push(concatBytes(writeByte(tag), data));
+    return this;
+  }
+
+  /**
+   * Require the fee (inputs minus outputs) to be exactly this amount when building
+   */
+  setFee(fee: number): this {
+    this.expectedFee = fee;
+    return this;
+  }
+
+  /**
+   * Fee as the inputs stand now: inputs minus outputs
+   */
+  getFee(): number {
+    const totalInput = this.inputs.reduce((sum, { input }) => sum + input.amount, 0);
+    const totalOutput = this.outputs.reduce((sum, output) => sum + output.amount, 0);
+    return totalInput - totalOutput;
+  }
+
+  /**
+   * Check the fee, serialize the transaction and have each input's signer sign it
+   */
+  async build(): Promise<BuiltTransaction> {
+    if (this.inputs.length === 0 || this.outputs.length === 0) {
+      throw new InvalidTransactionError('A transaction needs at least one input and one output');
+    }
+
+    const fee = this.getFee();
+    if (this.expectedFee !== undefined && fee !== this.expectedFee) {
+      throw new InvalidTransactionError(`Inputs minus outputs is ${fee}, expected a fee of ${this.expectedFee}`, {
+        fee,
+        expectedFee: this.expectedFee,
+      });
+    }
+    if (fee < this.network.minFee) {
+      throw new InvalidTransactionError(`Fee ${fee} is below the ${this.network.name} minimum of ${this.network.minFee}`, {
+        fee,
+        minFee: this.network.minFee,
       });
     }
 
-    // Serialize transaction to binary (no recipient addresses in extra field)
-    const txBytes = TransactionSerializer.serializeTransaction(
-      inputs,
-      outputs,
-      publicKey,
-      0,  // unlockTime
-      1   // version
+    const publicKey = this.transactionPublicKey ?? await this.inputs[0].signer.getPublicKey();
+    const extraData = concatBytes(
+      TransactionSerializer.serializeExtra(publicKey, this.paymentId),
+      ...this.extraFields
     );
 
-    // Convert to hex string
-    const txHex = bytesToHex(txBytes);
+    const inputs = this.inputs.map(({ input }) => input);
+    const prefixBytes = TransactionSerializer.serializeTransactionPrefixWithExtra(
+      inputs,
+      this.outputs,
+      extraData,
+      this.unlockTime
+    );
+    const prefixHash = TransactionSerializer.computeHash(prefixBytes);
 
-    // Calculate transaction hash (simplified - should use proper hash in production)
-    const hash = this.calculateHash(txHex);
+    const parts: Uint8Array[] = [prefixBytes];
+    for (const { input, signer } of this.inputs) {
+      parts.push(await signWith(signer, prefixHash, input.publicKey));
+    }
+    const txBytes = concatBytes(...parts);
 
     return {
-      txHex,
-      hash,
+      txHex: bytesToHex(txBytes),
+      hash: keccak256(txBytes),
       inputs,
-      outputs,
-      fee: pickResult.fee,
+      outputs: [...this.outputs],
+      fee,
     };
   }
 
   /**
-   * Calculate transaction hash (placeholder)
-   * In production, this should use Keccak-256 or similar
+   * Build a transaction from selected inputs and destinations
+   * Creates a PST (see createPst), has the signer sign every input and finalizes it.
+   *
+   * @param signer - Signs the inputs; its primary public key receives the change
+   * @param network - Network whose address prefixes destinations must use (default: MAINNET)
    */
-  private calculateHash(data: string): string {
-    // Simplified hash function
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16).padStart(64, '0');
+  async buildTransaction(
+    pickResult: TransactionPickResult,
+    signer: Signer,
+    network: NetworkParams = MAINNET
+  ): Promise<BuiltTransaction> {
+    const publicKey = await signer.getPublicKey();
+    const pst = await signPst(createPst(pickResult, publicKey, network), signer, network);
+    return finalizePst(pst, network);
   }
 }
 
@@ -878,9 +1115,10 @@ export class TransactionSender {
       throw new Error('API response missing transactionHash');
     }
 
+    // Report the fee the transaction actually pays
     const result = {
       hash: response.transactionHash,
-      fee: DEFAULT_FEE,
+      fee: parseTransaction(txHex).fee,
     };
     return result;
   }
@@ -892,28 +1130,41 @@ export class TransactionSender {
 
 /**
  * Pick inputs and build transaction in one step
+ * Only outputs sent to a key the signer can sign for are picked.
+ *
+ * @param fee - Flat fee, or a priority tier sized to the transaction (see pickInputsWithFee)
+ * @param coinSelection - Coin selection strategy; the built transaction carries its report
  */
-export function createTransaction(
+export async function createTransaction(
   outputs: WalletOutput[],
   destinations: TransactionDestination[],
-  publicKey: string,
-  privateKey: string,
+  signer: Signer,
   currentHeight: number,
   node: NodeConfig,
   maturityBlocks: number = MATURITY_BLOCKS,
-  fee: number = DEFAULT_FEE
-): BuiltTransaction | null {
-  // Use transaction picker to select inputs (with wallet keys)
-  const picker = new TransactionPicker(outputs, currentHeight, maturityBlocks, publicKey, privateKey);
-  const pickResult = picker.pickInputsForDestinations(destinations, fee);
+  fee: FeeSetting = 'normal',
+  network: NetworkParams = MAINNET,
+  coinSelection: CoinSelectionStrategy = 'largest-first'
+): Promise<BuiltTransaction | null> {
+  // Reject mistyped or foreign-network addresses before selecting inputs
+  for (const destination of destinations) {
+    resolveDestinationKey(destination.address, network);
+  }
+
+  // Use transaction picker to select inputs the signer can spend
+  const publicKey = await signer.getPublicKey();
+  const spendableKeys = await getSignerPublicKeys(signer);
+  const picker = new TransactionPicker(outputs, currentHeight, maturityBlocks, publicKey, spendableKeys, coinSelection);
+  const picked = pickInputsWithFee(picker, destinations, publicKey, fee, network);
 
-  if (!pickResult) {
+  if (!picked) {
     return null;
   }
 
   // Build the transaction
   const builder = new TransactionBuilder();
-  const builtTx = builder.buildTransaction(pickResult, publicKey);
+  const builtTx = await builder.buildTransaction(picked.pickResult, signer, network);
+  builtTx.selection = picked.pickResult.selection;
   return builtTx;
 }
 
@@ -937,8 +1188,10 @@ export interface SimpleSendRequest {
   outputs: WalletOutput[];
   currentHeight: number;
   node: NodeConfig;
-  fee?: number;
+  fee?: FeeSetting;          // Default: 'normal' priority
   maturityBlocks?: number;
+  network?: NetworkParams;   // Default: MAINNET
+  coinSelection?: CoinSelectionStrategy;   // Default: 'largest-first'
 }
 
 /**
@@ -950,6 +1203,7 @@ export interface SimpleSendResult {
   inputsUsed: number;
   change: number;
   txHex: string;
+  selection?: CoinSelectionReport;
 }
 
 /**
@@ -957,19 +1211,21 @@ export interface SimpleSendResult {
  * Handles key derivation, transaction creation, and sending internally
  */
 export async function sendFromMnemonic(request: SimpleSendRequest): Promise<SimpleSendResult> {
-  // Derive keys from mnemonic
-  const { publicKey, privateKey } = deriveKeysFromMnemonic(request.mnemonic);
+  // Sign with the mnemonic's key
+  const signer = new MnemonicSigner(request.mnemonic);
+  const network = request.network ?? MAINNET;
 
   // Create transaction
-  const builtTx = createTransaction(
+  const builtTx = await createTransaction(
     request.outputs,
     request.destinations,
-    publicKey,
-    privateKey,
+    signer,
     request.currentHeight,
     request.node,
-    request.maturityBlocks ?? MATURITY_BLOCKS,
-    request.fee ?? DEFAULT_FEE
+    request.maturityBlocks ?? network.maturityBlocks,
+    request.fee ?? 'normal',
+    network,
+    request.coinSelection
   );
 
   if (!builtTx) {
@@ -981,15 +1237,15 @@ export async function sendFromMnemonic(request: SimpleSendRequest): Promise<Simp
 
   return {
     hash: result.hash,
-    fee: result.fee,
+    fee: builtTx.fee,
     inputsUsed: builtTx.inputs.length,
-    change: builtTx.outputs[builtTx.outputs.length - 1].amount,
+    change: builtTx.selection.change,
     txHex: builtTx.txHex,
+    selection: builtTx.selection,
   };
 }
 
-// Export Base58 decode function and addressToPublicKey for testing
-export { base58Decode, addressToPublicKey };
+export { addressToPublicKey };
 
 export default {
   TransactionPicker,
@@ -998,4 +1254,5 @@ export default {
   TransactionSerializer,
   createTransaction,
   sendTransaction,
+  parseTransaction,
 };
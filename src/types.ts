@@ -197,6 +197,7 @@ export interface RawCoinbaseTransaction {
 
 export interface RawTransaction extends RawCoinbaseTransaction {
   extra: ArrayBuffer;
+  paymentID?: string; // Payment ID from the extra nonce, if the daemon provides it
   inputs: KeyInput[]; // Daemon uses 'inputs' not 'keyInputs'
 
   // Alias for backwards compatibility
@@ -318,8 +319,18 @@ export interface WalletOutput {
   outputIndex?: number;
   compositeKey?: string; // Internal composite key (transactionHash:outputIndex) for spend linking
   isStaking?: boolean; // True if this output is from a staking transaction (from stakingTX API field)
+  paymentId?: string; // Payment ID of the transaction, if it was sent to an integrated address
 }
 
+/**
+ * How a spending input was linked to one of the wallet's outputs
+ *   exact-utxo    the input names the output's transaction hash and index
+ *   global-index  the input's last key offset is the output's global index
+ *   key-image     the input's key image belongs to the output's key (same amount, oldest first)
+ *   amount-fifo   oldest unspent output of the same amount; a guess
+ */
+export type SpendMatchMethod = 'exact-utxo' | 'global-index' | 'key-image' | 'amount-fifo';
+
 export interface WalletSpend {
   amount: number;
   parentTransactionHash: string;
@@ -329,6 +340,7 @@ export interface WalletSpend {
   keyImage?: string;
   outputKey: string; // Key of the output that was spent
   spendingTxHash?: string; // Hash of the transaction that spent this output
+  matchMethod?: SpendMatchMethod; // How the input was linked to the output
 }
 
 /**
@@ -352,6 +364,7 @@ export interface WalletDisplayTransaction {
   confirmations: number; // Number of confirmations (currentHeight - blockHeight)
   from?: AddressInfo[]; // Source address(es) - empty for coinbase
   to?: AddressInfo[]; // Destination address(es)
+  paymentId?: string; // Payment ID of incoming transactions sent to an integrated address
 }
 
 // ============================================================================
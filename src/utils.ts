@@ -4,6 +4,8 @@
  * Helper functions for wallet operations
  */
 
+import type { MnemonicDiagnosis } from './index';
+
 // ============================================================================
 // CRYPTO UTILITIES
 // ============================================================================
@@ -79,64 +81,10 @@ export function formatAmount(amount: number, decimals: number = 2): string {
   return atomicToFloat(amount, decimals).toFixed(decimals);
 }
 
-// ============================================================================
-// ADDRESS UTILITIES
-// ============================================================================
-
-/**
- * Validate Pastella address format
- */
-export function validateAddress(address: string): boolean {
-  // Pastella addresses start with 'N' or 'P' and are Base58 encoded
-  // Typical length is 98-99 characters for standard addresses
-  if (!address) return false;
-
-  // Check prefix
-  if (!address.match(/^[NP]/)) {
-    return false;
-  }
-
-  // Check length (approximately 98-99 characters for Base58)
-  if (address.length < 90 || address.length > 110) {
-    return false;
-  }
-
-  // Check for valid Base58 characters
-  if (!address.match(/^[1-9A-HJ-NP-Za-km-z]+$/)) {
-    return false;
-  }
-
-  return true;
-}
-
-/**
- * Extract payment ID from integrated address
- */
-export function extractPaymentId(integratedAddress: string): string | null {
-  // Integrated addresses contain payment ID
-  // Implementation depends on address format
-  return null;
-}
-
 // ============================================================================
 // MNEMONIC UTILITIES
 // ============================================================================
 
-/**
- * Validate mnemonic phrase
- */
-export function validateMnemonic(mnemonic: string): boolean {
-  const words = mnemonic.trim().split(/\s+/);
-
-  // Pastella uses 25-word mnemonics (24 words + checksum)
-  if (words.length !== 25) {
-    return false;
-  }
-
-  // Check if all words are valid (would need wordlist)
-  return true;
-}
-
 /**
  * Split mnemonic into array
  */
@@ -321,11 +269,14 @@ export class InsufficientBalanceError extends WalletError {
 }
 
 export class InvalidAddressError extends WalletError {
-  constructor(address: string) {
+  /**
+   * @param reason - Which check failed (see AddressDecodeFailure), when known
+   */
+  constructor(address: string, reason?: string) {
     super(
-      `Invalid address: ${address}`,
+      reason ? `Invalid address (${reason}): ${address}` : `Invalid address: ${address}`,
       'INVALID_ADDRESS',
-      { address }
+      { address, reason }
     );
     this.name = 'InvalidAddressError';
   }
@@ -342,6 +293,91 @@ export class TransactionFailedError extends WalletError {
   }
 }
 
+export class InvalidTransactionError extends WalletError {
+  constructor(message: string, details?: any) {
+    super(message, 'INVALID_TRANSACTION', details);
+    this.name = 'InvalidTransactionError';
+  }
+}
+
+export class InvalidMnemonicError extends WalletError {
+  constructor(diagnosis: MnemonicDiagnosis) {
+    super(
+      `Invalid mnemonic: ${diagnosis.errors.join('; ') || 'checksum mismatch'}`,
+      'INVALID_MNEMONIC',
+      diagnosis
+    );
+    this.name = 'InvalidMnemonicError';
+  }
+}
+
+export class KeystoreError extends WalletError {
+  constructor(message: string, details?: any) {
+    super(message, 'KEYSTORE_ERROR', details);
+    this.name = 'KeystoreError';
+  }
+}
+
+export class InvalidPasswordError extends WalletError {
+  constructor() {
+    super('Invalid keystore password', 'INVALID_PASSWORD');
+    this.name = 'InvalidPasswordError';
+  }
+}
+
+export class InvalidShareError extends WalletError {
+  constructor(message: string, details?: any) {
+    super(message, 'INVALID_SHARE', details);
+    this.name = 'InvalidShareError';
+  }
+}
+
+export class InvalidPaymentUriError extends WalletError {
+  constructor(message: string, details?: any) {
+    super(message, 'INVALID_PAYMENT_URI', details);
+    this.name = 'InvalidPaymentUriError';
+  }
+}
+
+export class InvalidPaymentIdError extends WalletError {
+  constructor(paymentId: string) {
+    super(
+      `Invalid payment ID: ${paymentId}`,
+      'INVALID_PAYMENT_ID',
+      { paymentId }
+    );
+    this.name = 'InvalidPaymentIdError';
+  }
+}
+
+export class InvalidPstError extends WalletError {
+  constructor(message: string, details?: any) {
+    super(message, 'INVALID_PST', details);
+    this.name = 'InvalidPstError';
+  }
+}
+
+export class FrostError extends WalletError {
+  constructor(message: string, details?: any) {
+    super(message, 'FROST_ERROR', details);
+    this.name = 'FrostError';
+  }
+}
+
+export class SwapError extends WalletError {
+  constructor(message: string, details?: any) {
+    super(message, 'SWAP_ERROR', details);
+    this.name = 'SwapError';
+  }
+}
+
+export class SignerError extends WalletError {
+  constructor(message: string, details?: any) {
+    super(message, 'SIGNER_ERROR', details);
+    this.name = 'SignerError';
+  }
+}
+
 export class SyncError extends WalletError {
   constructor(message: string, details?: any) {
     super(message, 'SYNC_ERROR', details);
@@ -359,8 +395,6 @@ export default {
   atomicToFloat,
   floatToAtomic,
   formatAmount,
-  validateAddress,
-  validateMnemonic,
   splitMnemonic,
   joinMnemonic,
   getTransactionId,
@@ -377,5 +411,16 @@ export default {
   InsufficientBalanceError,
   InvalidAddressError,
   TransactionFailedError,
+  InvalidTransactionError,
+  InvalidMnemonicError,
+  KeystoreError,
+  InvalidPasswordError,
+  InvalidShareError,
+  InvalidPaymentUriError,
+  InvalidPaymentIdError,
+  InvalidPstError,
+  FrostError,
+  SwapError,
+  SignerError,
   SyncError,
 };
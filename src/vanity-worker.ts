@@ -0,0 +1,50 @@
+/**
+ * Pastella Vanity Search Worker
+ *
+ * Runs in a worker thread started by VanitySearch. Generates random keys,
+ * posts progress in batches and reports matching private keys. The worker
+ * keeps searching until it is terminated by the parent.
+ *
+ * `npm run build` bundles this file with its imports (scripts/build-worker.mjs).
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { randomScalar, bytesToHex } from './crypto';
+import { generateEd25519Keypair, publicKeyToAddress } from './index';
+import { matchesVanityPattern, VanityMatchMode } from './vanity';
+import { NetworkParams } from './config';
+
+interface VanityWorkerData {
+  pattern: string;
+  mode: VanityMatchMode;
+  caseSensitive: boolean;
+  network: NetworkParams;
+}
+
+const BATCH_SIZE = 256;
+
+const { pattern, mode, caseSensitive, network } = workerData as VanityWorkerData;
+
+function search(): void {
+  let attempts = 0;
+
+  for (let i = 0; i < BATCH_SIZE; i++) {
+    // Random scalar below the curve order, so the key is also a valid mnemonic
+    const privateKey = randomScalar();
+    const { publicKey } = generateEd25519Keypair(privateKey);
+    const address = publicKeyToAddress(publicKey, network);
+    attempts++;
+
+    if (matchesVanityPattern(address, pattern, { mode, caseSensitive, network })) {
+      parentPort?.postMessage({ type: 'found', privateKey: bytesToHex(privateKey), attempts });
+      attempts = 0;
+    }
+  }
+
+  parentPort?.postMessage({ type: 'progress', attempts });
+
+  // Yield so termination and messages are processed between batches
+  setImmediate(search);
+}
+
+search();
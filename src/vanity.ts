@@ -0,0 +1,455 @@
+/**
+ * Pastella Vanity Addresses
+ *
+ * Searches for addresses whose Base58 form after the "PAS" prefix contains,
+ * starts with or ends with a chosen pattern. The search runs in Node worker
+ * threads (see vanity-worker.ts) and can be cancelled at any time. The build
+ * bundles the worker into one file, as Node loads it outside any bundler.
+ *
+ * Keys are random scalars below the curve order, so the private key of a
+ * result is also a valid 25-word mnemonic and imports with importFromPrivateKey.
+ */
+
+import { MAINNET, NetworkParams } from './config';
+import { generateEd25519Keypair, publicKeyToAddress, privateKeyHexToMnemonic } from './index';
+import { bytesToHex, hexToBytes } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VanityMatchMode = 'contains' | 'prefix' | 'suffix';
+
+export interface VanityPatternOptions {
+  mode?: VanityMatchMode;    // Default: 'contains'
+  caseSensitive?: boolean;   // Default: false
+  network?: NetworkParams;   // Address network (default: MAINNET)
+}
+
+export interface VanityDifficulty {
+  probability: number;       // Chance that a single key matches
+  expectedAttempts: number;  // Mean number of keys to try
+  attemptsFor50: number;     // Keys to try for a 50% chance
+  attemptsFor90: number;     // Keys to try for a 90% chance
+}
+
+export interface VanityProgress {
+  attempts: number;
+  elapsedMs: number;
+  rate: number;              // Keys per second
+  chanceFound: number;       // Chance a match would have been found by now (0..1)
+  etaSeconds: number;        // Time to a 50% chance from now (0 when already past it)
+  difficulty: VanityDifficulty;
+}
+
+export interface VanitySearchConfig extends VanityPatternOptions {
+  pattern: string;
+  workers?: number;               // Worker threads (default: CPU cores - 1, at least 1)
+  progressInterval?: number;      // Minimum ms between onProgress calls (default: 1000)
+  onProgress?: (progress: VanityProgress) => void;
+  workerUrl?: string | URL;       // Worker script (default: vanity-worker.js next to this module)
+}
+
+export interface VanityResult {
+  address: string;
+  publicKey: string;
+  privateKey: string;        // Hex, import with importFromPrivateKey
+  mnemonic: string;          // Same key as a 25-word mnemonic
+  attempts: number;
+  elapsedMs: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const FULL_BLOCK_CHARS = 11;        // 8 bytes -> 11 Base58 characters
+const ADDRESS_LENGTH = 54;          // varint prefix (3) + key (32) + checksum (4) bytes
+const FIRST_BLOCK_KEY_BYTES = 5;    // Key bytes in the first 8-byte block after the 3 prefix bytes
+const DEFAULT_PROGRESS_INTERVAL = 1000;
+
+// ============================================================================
+// PATTERN MATCHING AND DIFFICULTY
+// ============================================================================
+
+/**
+ * Check whether an address matches a vanity pattern
+ * The pattern is matched against the part after the "PAS" prefix.
+ */
+export function matchesVanityPattern(address: string, pattern: string, options: VanityPatternOptions = {}): boolean {
+  const caseSensitive = options.caseSensitive ?? false;
+  let region = address.slice((options.network ?? MAINNET).addressPrefixString.length);
+  let target = pattern;
+
+  if (!caseSensitive) {
+    region = region.toLowerCase();
+    target = target.toLowerCase();
+  }
+
+  switch (options.mode ?? 'contains') {
+    case 'prefix':
+      return region.startsWith(target);
+    case 'suffix':
+      return region.endsWith(target);
+    default:
+      return region.includes(target);
+  }
+}
+
+/**
+ * Estimate how many keys a search needs
+ *
+ * Prefix patterns are computed exactly from the first Base58 block, whose
+ * leading characters are fixed by the address prefix ("PAS1..." on mainnet). Suffix and
+ * contains patterns assume uniformly distributed characters.
+ * Throws if the pattern can never match.
+ */
+export function estimateVanityDifficulty(pattern: string, options: VanityPatternOptions = {}): VanityDifficulty {
+  validateVanityPattern(pattern, options);
+
+  const mode = options.mode ?? 'contains';
+  const caseSensitive = options.caseSensitive ?? false;
+  const network = options.network ?? MAINNET;
+  const regionLength = ADDRESS_LENGTH - network.addressPrefixString.length;
+
+  let probability: number;
+  if (mode === 'prefix') {
+    probability = prefixProbability(pattern, caseSensitive, network);
+  } else {
+    const single = Array.from(pattern).reduce((p, char) => p * charProbability(char, caseSensitive), 1);
+    const positions = mode === 'suffix' ? 1 : regionLength - pattern.length + 1;
+    probability = -Math.expm1(positions * Math.log1p(-single));
+  }
+
+  if (probability <= 0) {
+    throw new Error(`Pattern "${pattern}" can never appear at the start of a ${network.addressPrefixString} address`);
+  }
+
+  return {
+    probability,
+    expectedAttempts: 1 / probability,
+    attemptsFor50: attemptsForChance(probability, 0.5),
+    attemptsFor90: attemptsForChance(probability, 0.9),
+  };
+}
+
+/**
+ * Check a pattern for characters that cannot appear in an address
+ */
+export function validateVanityPattern(pattern: string, options: VanityPatternOptions = {}): void {
+  if (!pattern) {
+    throw new Error('Vanity pattern must not be empty');
+  }
+  if (pattern.length > ADDRESS_LENGTH - (options.network ?? MAINNET).addressPrefixString.length) {
+    throw new Error('Vanity pattern is longer than an address');
+  }
+
+  for (const char of pattern) {
+    if (charProbability(char, options.caseSensitive ?? false) === 0) {
+      throw new Error(`Character "${char}" does not occur in Base58 addresses (excluded: 0, O, I, l)`);
+    }
+  }
+}
+
+// ============================================================================
+// VANITY SEARCH
+// ============================================================================
+
+/**
+ * Multi-threaded vanity address search (Node.js only)
+ *
+ * ```ts
+ * const search = new VanitySearch({ pattern: 'cafe', onProgress: p => console.log(p.rate) });
+ * const result = await search.start();  // search.cancel() rejects the promise
+ * ```
+ */
+export class VanitySearch {
+  private config: VanitySearchConfig;
+  private difficulty: VanityDifficulty;
+  private workers: import('worker_threads').Worker[] = [];
+  private attempts: number = 0;
+  private startTime: number = 0;
+  private lastProgressTime: number = 0;
+  private running: boolean = false;
+  private rejectSearch?: (error: Error) => void;
+
+  constructor(config: VanitySearchConfig) {
+    this.config = config;
+    this.difficulty = estimateVanityDifficulty(config.pattern, config);
+  }
+
+  /**
+   * Difficulty of the configured pattern
+   */
+  getDifficulty(): VanityDifficulty {
+    return this.difficulty;
+  }
+
+  /**
+   * Current progress
+   */
+  getProgress(): VanityProgress {
+    const elapsedMs = this.startTime ? Date.now() - this.startTime : 0;
+    const rate = elapsedMs > 0 ? (this.attempts * 1000) / elapsedMs : 0;
+    const remaining = Math.max(0, this.difficulty.attemptsFor50 - this.attempts);
+
+    return {
+      attempts: this.attempts,
+      elapsedMs,
+      rate,
+      chanceFound: -Math.expm1(this.attempts * Math.log1p(-this.difficulty.probability)),
+      etaSeconds: rate > 0 ? remaining / rate : Infinity,
+      difficulty: this.difficulty,
+    };
+  }
+
+  /**
+   * Check if a search is running
+   */
+  isActive(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start searching; resolves with the first match
+   */
+  async start(): Promise<VanityResult> {
+    if (this.running) {
+      throw new Error('Vanity search is already running');
+    }
+
+    // Claim the search before the first await so a second start() is refused
+    this.running = true;
+    this.attempts = 0;
+    this.startTime = Date.now();
+    this.lastProgressTime = this.startTime;
+
+    let Worker: typeof import('worker_threads').Worker;
+    let workerCount: number;
+    try {
+      ({ Worker } = await import('worker_threads'));
+      const os = await import('os');
+      workerCount = Math.max(1, this.config.workers ?? os.cpus().length - 1);
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+
+    if (!this.running) {
+      throw new Error('Vanity search cancelled');
+    }
+
+    return new Promise<VanityResult>((resolve, reject) => {
+      this.rejectSearch = reject;
+
+      const workerData = {
+        pattern: this.config.pattern,
+        mode: this.config.mode ?? 'contains',
+        caseSensitive: this.config.caseSensitive ?? false,
+        network: this.config.network ?? MAINNET,
+      };
+      const workerUrl = this.config.workerUrl ?? new URL('./vanity-worker.js', import.meta.url);
+
+      for (let i = 0; i < workerCount; i++) {
+        const worker = new Worker(workerUrl, { workerData });
+
+        worker.on('message', (message: any) => {
+          if (!this.running) return;
+
+          if (message.type === 'progress') {
+            this.attempts += message.attempts;
+            this.reportProgress();
+          } else if (message.type === 'found') {
+            this.attempts += message.attempts;
+            const result = this.verifyResult(message.privateKey);
+            if (result) {
+              this.finish();
+              resolve(result);
+            }
+          }
+        });
+
+        worker.on('error', (error: Error) => {
+          if (!this.running) return;
+          this.finish();
+          reject(error);
+        });
+
+        this.workers.push(worker);
+      }
+    });
+  }
+
+  /**
+   * Cancel a running search; the pending start() promise rejects
+   */
+  cancel(): void {
+    if (!this.running) {
+      return;
+    }
+
+    const reject = this.rejectSearch;
+    this.finish();
+    reject?.(new Error('Vanity search cancelled'));
+  }
+
+  /**
+   * Re-derive a worker's key on this thread before accepting it
+   */
+  private verifyResult(privateKey: string): VanityResult | null {
+    const keypair = generateEd25519Keypair(hexToBytes(privateKey));
+    const address = publicKeyToAddress(keypair.publicKey, this.config.network ?? MAINNET);
+
+    if (!matchesVanityPattern(address, this.config.pattern, this.config)) {
+      return null;
+    }
+
+    return {
+      address,
+      publicKey: bytesToHex(keypair.publicKey),
+      privateKey,
+      mnemonic: privateKeyHexToMnemonic(privateKey),
+      attempts: this.attempts,
+      elapsedMs: Date.now() - this.startTime,
+    };
+  }
+
+  private reportProgress(): void {
+    if (!this.config.onProgress) return;
+
+    const now = Date.now();
+    if (now - this.lastProgressTime < (this.config.progressInterval ?? DEFAULT_PROGRESS_INTERVAL)) {
+      return;
+    }
+    this.lastProgressTime = now;
+    this.config.onProgress(this.getProgress());
+  }
+
+  private finish(): void {
+    this.running = false;
+    this.rejectSearch = undefined;
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    this.workers = [];
+  }
+}
+
+/**
+ * Search for a vanity address with default settings
+ */
+export async function generateVanityAddress(config: VanitySearchConfig): Promise<VanityResult> {
+  return new VanitySearch(config).start();
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Chance that a uniformly random Base58 character matches `char`
+ */
+function charProbability(char: string, caseSensitive: boolean): number {
+  return caseVariants(char, caseSensitive).length / BASE58_ALPHABET.length;
+}
+
+/**
+ * Base58 characters matching `char`
+ */
+function caseVariants(char: string, caseSensitive: boolean): string[] {
+  const variants = caseSensitive ? [char] : Array.from(new Set([char.toLowerCase(), char.toUpperCase()]));
+  return variants.filter(variant => BASE58_ALPHABET.includes(variant));
+}
+
+/**
+ * Exact probability for prefix mode
+ *
+ * The first block encodes the 3 varint prefix bytes and 5 key bytes as a
+ * fixed-width 11-character big-endian number, so the addresses starting with
+ * a string form one interval of that number.
+ */
+function prefixProbability(pattern: string, caseSensitive: boolean, network: NetworkParams): number {
+  const prefixString = network.addressPrefixString;
+  const prefixBytes = encodeVarint(network.addressPrefix);
+  const blockFixedBytes = 8 - FIRST_BLOCK_KEY_BYTES;
+  if (prefixBytes.length !== blockFixedBytes) {
+    // Different prefix size: fall back to the uniform estimate
+    return Array.from(pattern).reduce((p, char) => p * charProbability(char, caseSensitive), 1);
+  }
+
+  let low = 0n;
+  for (const byte of prefixBytes) {
+    low = (low << 8n) | BigInt(byte);
+  }
+  low <<= BigInt(FIRST_BLOCK_KEY_BYTES * 8);
+  const span = 1n << BigInt(FIRST_BLOCK_KEY_BYTES * 8);
+  const high = low + span; // exclusive
+
+  const inBlock = Math.min(pattern.length, FULL_BLOCK_CHARS - prefixString.length);
+  const blockPattern = Array.from(pattern.slice(0, inBlock));
+  const rest = pattern.slice(inBlock);
+
+  // Enumerate case variants of the part inside the first block
+  let candidates = [prefixString];
+  for (const char of blockPattern) {
+    const next: string[] = [];
+    for (const candidate of candidates) {
+      for (const variant of caseVariants(char, caseSensitive)) {
+        next.push(candidate + variant);
+      }
+    }
+    candidates = next;
+  }
+
+  let matching = 0n;
+  for (const candidate of candidates) {
+    let value = 0n;
+    for (const char of candidate) {
+      value = value * 58n + BigInt(BASE58_ALPHABET.indexOf(char));
+    }
+    const scale = 58n ** BigInt(FULL_BLOCK_CHARS - candidate.length);
+    const from = value * scale;
+    const to = (value + 1n) * scale;
+    const overlap = (to < high ? to : high) - (from > low ? from : low);
+    if (overlap > 0n) {
+      matching += overlap;
+    }
+  }
+
+  const blockProbability = Number(matching) / Number(span);
+  return Array.from(rest).reduce((p, char) => p * charProbability(char, caseSensitive), blockProbability);
+}
+
+/**
+ * Attempts needed for a given chance of at least one match
+ */
+function attemptsForChance(probability: number, chance: number): number {
+  if (probability >= 1) return 1;
+  return Math.ceil(Math.log1p(-chance) / Math.log1p(-probability));
+}
+
+/**
+ * Encode a number as varint
+ */
+function encodeVarint(num: number): Uint8Array {
+  const bytes: number[] = [];
+  while (num >= 0x80) {
+    bytes.push((num & 0x7f) | 0x80);
+    num >>>= 7;
+  }
+  bytes.push(num);
+  return new Uint8Array(bytes);
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default {
+  VanitySearch,
+  generateVanityAddress,
+  estimateVanityDifficulty,
+  matchesVanityPattern,
+  validateVanityPattern,
+};
@@ -12,6 +12,7 @@ export interface BalanceContext {
   outputs: Map<string, WalletOutput>;
   stakingTxHashes: Set<string>;
   currentHeight: number;
+  maturityBlocks: number;
 }
 
 /**
@@ -53,7 +54,8 @@ export function recalculateBalances(ctx: BalanceContext): { available: number; l
       output.blockHeight,
       output.unlockTime,
       0, // blockTimestamp not stored
-      currentHeight
+      currentHeight,
+      ctx.maturityBlocks
     );
 
     if (unlockMet) {
@@ -91,7 +93,8 @@ export function getStakingLockedBalance(ctx: BalanceContext): number {
         output.blockHeight,
         output.unlockTime,
         0, // blockTimestamp not stored
-        currentHeight
+        currentHeight,
+        ctx.maturityBlocks
       );
       if (!unlockMet) {
         stakingLocked += output.amount;
@@ -117,7 +120,8 @@ export function getUnspentOutputs(allOutputs: WalletOutput[]): WalletOutput[] {
 export function getAvailableOutputs(
   allOutputs: WalletOutput[],
   stakingTxHashes: Set<string>,
-  currentHeight: number
+  currentHeight: number,
+  maturityBlocks: number = MATURITY_BLOCKS
 ): WalletOutput[] {
   return getUnspentOutputs(allOutputs).filter(o => {
     // Exclude staking outputs (they're tracked separately in stakingLocked)
@@ -129,7 +133,8 @@ export function getAvailableOutputs(
       o.blockHeight,
       o.unlockTime,
       0, // blockTimestamp not stored
-      currentHeight
+      currentHeight,
+      maturityBlocks
     );
   });
 }
@@ -141,7 +146,8 @@ export function getAvailableOutputs(
 export function getLockedOutputs(
   allOutputs: WalletOutput[],
   stakingTxHashes: Set<string>,
-  currentHeight: number
+  currentHeight: number,
+  maturityBlocks: number = MATURITY_BLOCKS
 ): WalletOutput[] {
   const locked = getUnspentOutputs(allOutputs).filter(o => {
     // Exclude staking outputs (they're counted in stakingLocked)
@@ -154,7 +160,8 @@ export function getLockedOutputs(
       o.blockHeight,
       o.unlockTime,
       0, // blockTimestamp not stored
-      currentHeight
+      currentHeight,
+      maturityBlocks
     );
     return !spendable;
   });
@@ -4,14 +4,19 @@
  * Handles block, output, and spend processing
  */
 
-import { WalletBlockInfo, WalletOutput, WalletSpend, SyncedBlockInfo, KeyOutput } from './types';
+import { WalletBlockInfo, WalletOutput, WalletSpend, SpendMatchMethod, SyncedBlockInfo, KeyOutput, RawTransaction } from './types';
 import { isOutputSpendable } from './walletSync-utils';
 import { classifyTransaction } from './walletSync-transactions';
 import { PRUNE_INTERVAL } from './walletSync-sync';
+import { getPaymentIdFromExtra } from './integratedAddress';
+import { NetworkParams } from './config';
 
 export interface ProcessingContext {
   publicKeys: Set<string>;
+  keyImages: Map<string, string>; // Key image -> public key it belongs to
   currentHeight: number;
+  maturityBlocks: number;
+  network: NetworkParams;
   outputs: Map<string, WalletOutput>;
   spends: Map<string, WalletSpend>;
   rawTransactionOutputs: Map<string, KeyOutput[]>;
@@ -157,7 +162,8 @@ export function processOutputs(block: WalletBlockInfo, ctx: ProcessingContext):
             block.blockHeight,
             coinbase.unlockTime,
             block.blockTimestamp,
-            currentHeight
+            currentHeight,
+            ctx.maturityBlocks
           ),
           globalOutputIndex: output.globalOutputIndex,
           outputIndex,
@@ -176,6 +182,7 @@ export function processOutputs(block: WalletBlockInfo, ctx: ProcessingContext):
   let txIndex = 1;
   for (const tx of block.transactions) {
     const txOutputs = tx.outputs || tx.keyOutputs || [];
+    let paymentId: string | undefined;
 
     for (let outputIndex = 0; outputIndex < txOutputs.length; outputIndex++) {
       const output = txOutputs[outputIndex];
@@ -193,12 +200,19 @@ export function processOutputs(block: WalletBlockInfo, ctx: ProcessingContext):
             block.blockHeight,
             tx.unlockTime,
             block.blockTimestamp,
-            currentHeight
+            currentHeight,
+            ctx.maturityBlocks
           ),
           globalOutputIndex: output.globalOutputIndex,
           outputIndex,
           compositeKey: `${tx.hash}:${outputIndex}`,
         };
+        if (paymentId === undefined) {
+          paymentId = getTransactionPaymentId(tx) ?? '';
+        }
+        if (paymentId) {
+          walletOutput.paymentId = paymentId;
+        }
         const uniqueKey = `${tx.hash}:${outputIndex}`;
         if (!outputs.has(uniqueKey)) {
           outputs.set(uniqueKey, walletOutput);
@@ -229,7 +243,8 @@ export function processOutputs(block: WalletBlockInfo, ctx: ProcessingContext):
               block.blockHeight,
               stakingTx.unlockTime,
               block.blockTimestamp,
-              currentHeight
+              currentHeight,
+              ctx.maturityBlocks
             ),
             globalOutputIndex: output.globalOutputIndex,
             outputIndex,
@@ -281,13 +296,26 @@ function processTransactionSpends(
       processedInputs.add(inputId);
 
       let matchedOutput: { key: string; output: WalletOutput } | null = null;
-      let matchMethod: string = 'none';
+      let matchMethod: SpendMatchMethod | null = null;
+
+      // Key image matching: spending one of our outputs requires the key image of its key
+      // (see generateKeyImage). When our key images are known and the input carries one,
+      // inputs with any other image are not ours and candidates are limited to that key.
+      // Inputs without a key image (such as those TransactionBuilder serializes) fall
+      // through to the reference, index and amount matching below.
+      let keyImageOwner: string | null = null;
+      if (ctx.keyImages.size > 0 && typeof input.keyImage === 'string') {
+        keyImageOwner = ctx.keyImages.get(input.keyImage.toLowerCase()) ?? null;
+        if (!keyImageOwner) continue;
+      }
+      const isCandidate = (output: WalletOutput): boolean =>
+        !output.spentHeight && (keyImageOwner === null || output.key === keyImageOwner);
 
       // In transparent system, KeyInput explicitly identifies which UTXO is being spent
       // This is the most accurate method - matches by transactionHash AND outputIndex
       if (input.transactionHash && input.outputIndex !== undefined) {
         for (const [key, output] of outputs) {
-          if (output.spentHeight) continue;
+          if (!isCandidate(output)) continue;
           /* Compare output.outputIndex (not transactionIndex) with input.outputIndex
            * transactionIndex = transaction's position in the block (1, 2, 3...)
            * outputIndex = output's position in the transaction (0, 1, 2...)
@@ -309,7 +337,7 @@ function processTransactionSpends(
           const spentGlobalIndex = keyOffsets[keyOffsets.length - 1];
 
           for (const [key, output] of outputs) {
-            if (output.spentHeight) continue;
+            if (!isCandidate(output)) continue;
             if (output.globalOutputIndex !== undefined && output.globalOutputIndex === spentGlobalIndex) {
               matchedOutput = { key, output };
               matchMethod = 'global-index';
@@ -326,7 +354,7 @@ function processTransactionSpends(
         const matchingOutputs: Array<{key: string, output: WalletOutput}> = [];
 
         for (const [key, output] of outputs) {
-          if (output.spentHeight) continue;
+          if (!isCandidate(output)) continue;
           if (output.amount === inputAmount) {
             matchingOutputs.push({ key, output });
           }
@@ -342,7 +370,7 @@ function processTransactionSpends(
 
         if (matchingOutputs.length > 0) {
           matchedOutput = matchingOutputs[0];
-          matchMethod = 'amount-fifo';
+          matchMethod = keyImageOwner ? 'key-image' : 'amount-fifo';
         }
       }
 
@@ -360,6 +388,7 @@ function processTransactionSpends(
           keyImage: input.keyImage,
           outputKey: matchedOutput.key,
           spendingTxHash: tx.hash,
+          matchMethod,
         };
 
         // Track spend
@@ -480,6 +509,20 @@ export function pruneSyncedBlocks(syncedBlocks: Map<number, SyncedBlockInfo>): v
   }
 }
 
+/**
+ * Payment ID of a regular transaction
+ * Uses the daemon's paymentID field, falling back to parsing the extra field
+ */
+function getTransactionPaymentId(tx: RawTransaction): string | null {
+  if (tx.paymentID && /^[0-9a-fA-F]{64}$/.test(tx.paymentID)) {
+    return tx.paymentID.toLowerCase();
+  }
+  if (!tx.extra) {
+    return null;
+  }
+  return getPaymentIdFromExtra(tx.extra as string | Uint8Array | ArrayBuffer);
+}
+
 /**
  * Track pending transactions for real-time classification
  */
@@ -528,6 +571,8 @@ function trackPendingTransactions(
     const transactionCtx = {
       publicKeys,
       currentHeight,
+      maturityBlocks: ctx.maturityBlocks,
+      network: ctx.network,
       rawTransactionOutputs,
       stakingTxHashes,
     };
@@ -543,6 +588,8 @@ function trackPendingTransactions(
       const transactionCtx = {
         publicKeys,
         currentHeight,
+        maturityBlocks: ctx.maturityBlocks,
+        network: ctx.network,
         rawTransactionOutputs,
         stakingTxHashes,
       };
@@ -4,13 +4,15 @@
  * Handles transaction classification and address extraction
  */
 
-import { MATURITY_BLOCKS } from './config';
+import { MATURITY_BLOCKS, MAINNET, NetworkParams } from './config';
 import { publicKeyHexToAddress } from './index';
 import { WalletOutput, WalletSpend, WalletDisplayTransaction, AddressInfo, KeyOutput } from './types';
 
 export interface TransactionContext {
   publicKeys: Set<string>;
   currentHeight: number;
+  maturityBlocks: number;
+  network: NetworkParams;
   rawTransactionOutputs: Map<string, KeyOutput[]>;
   stakingTxHashes: Set<string>;
 }
@@ -88,12 +90,12 @@ export function classifyTransaction(
 
   // Determine confirmation status based on block depth
   const confirmations = Math.max(0, currentHeight - data.blockHeight);
-  const status: 'confirmed' | 'pending' = confirmations >= MATURITY_BLOCKS ? 'confirmed' : 'pending';
+  const status: 'confirmed' | 'pending' = confirmations >= ctx.maturityBlocks ? 'confirmed' : 'pending';
 
   // Extract from/to addresses
   const { from, to } = extractFromToAddresses(txHash, type, data.outputs, ctx);
 
-  return {
+  const display: WalletDisplayTransaction = {
     hash: txHash,
     type,
     amount,
@@ -104,6 +106,7 @@ export function classifyTransaction(
     from,
     to,
   };
+  return withPaymentId(display, data.outputs);
 }
 
 /**
@@ -115,7 +118,7 @@ export function extractFromToAddresses(
   walletOutputs: WalletOutput[],
   ctx: TransactionContext
 ): { from?: AddressInfo[]; to?: AddressInfo[] } {
-  const { publicKeys, rawTransactionOutputs } = ctx;
+  const { publicKeys, rawTransactionOutputs, network } = ctx;
 
   // Helper to deduplicate addresses
   const deduplicateAddresses = (addresses: AddressInfo[]): AddressInfo[] => {
@@ -134,7 +137,7 @@ export function extractFromToAddresses(
   const getWalletAddresses = (): string[] => {
     const addresses = new Set<string>();
     for (const key of publicKeys) {
-      addresses.add(publicKeyHexToAddress(key));
+      addresses.add(publicKeyHexToAddress(key, network));
     }
     return Array.from(addresses);
   };
@@ -144,7 +147,7 @@ export function extractFromToAddresses(
     // Coinbase has no "from" - it's mined
     const to = deduplicateAddresses(
       walletOutputs.map(o => ({
-        address: publicKeyHexToAddress(o.key)
+        address: publicKeyHexToAddress(o.key, network)
       }))
     );
     return { from: [], to };
@@ -154,7 +157,7 @@ export function extractFromToAddresses(
     // For incoming: from = unknown (UTXO system doesn't reveal sender), to = our addresses
     const to = deduplicateAddresses(
       walletOutputs.map(o => ({
-        address: publicKeyHexToAddress(o.key)
+        address: publicKeyHexToAddress(o.key, network)
       }))
     );
     return { from: undefined, to };
@@ -164,7 +167,7 @@ export function extractFromToAddresses(
   if (type === 'staking') {
     const to = deduplicateAddresses(
       walletOutputs.map(o => ({
-        address: publicKeyHexToAddress(o.key)
+        address: publicKeyHexToAddress(o.key, network)
       }))
     );
     return { from: undefined, to };
@@ -186,7 +189,7 @@ export function extractFromToAddresses(
   // Find external outputs by checking if the address belongs to our wallet
   const externalAddresses = new Set<string>();
   for (const output of rawOutputs) {
-    const address = publicKeyHexToAddress(output.key);
+    const address = publicKeyHexToAddress(output.key, network);
     if (!walletAddressesSet.has(address)) {
       externalAddresses.add(address);
     }
@@ -219,12 +222,12 @@ export function createDisplayTransaction(
 ): WalletDisplayTransaction {
   // Use max(0) to avoid negative confirmations during real-time processing
   const confirmations = Math.max(0, currentHeight - blockHeight);
-  const status: 'confirmed' | 'pending' = confirmations >= MATURITY_BLOCKS ? 'confirmed' : 'pending';
+  const status: 'confirmed' | 'pending' = confirmations >= ctx.maturityBlocks ? 'confirmed' : 'pending';
 
   // Extract from/to addresses
   const { from, to } = extractFromToAddresses(hash, type, walletOutputs, ctx);
 
-  return {
+  const display: WalletDisplayTransaction = {
     hash,
     type,
     amount,
@@ -235,6 +238,22 @@ export function createDisplayTransaction(
     from,
     to,
   };
+  return withPaymentId(display, walletOutputs);
+}
+
+/**
+ * Attach the payment ID of an incoming transaction, so deposits to
+ * integrated addresses can be attributed
+ */
+function withPaymentId(
+  display: WalletDisplayTransaction,
+  walletOutputs: WalletOutput[]
+): WalletDisplayTransaction {
+  if (display.type !== 'incoming') {
+    return display;
+  }
+  const paymentId = walletOutputs.find(o => o.paymentId)?.paymentId;
+  return paymentId ? { ...display, paymentId } : display;
 }
 
 /**
@@ -248,11 +267,15 @@ export function getTransactions(
   publicKeys: Set<string>,
   currentHeight: number,
   rawTransactionOutputs: Map<string, KeyOutput[]>,
-  limit: number = Number.MAX_SAFE_INTEGER
+  limit: number = Number.MAX_SAFE_INTEGER,
+  maturityBlocks: number = MATURITY_BLOCKS,
+  network: NetworkParams = MAINNET
 ): WalletDisplayTransaction[] {
   const ctx: TransactionContext = {
     publicKeys,
     currentHeight,
+    maturityBlocks,
+    network,
     rawTransactionOutputs,
     stakingTxHashes,
   };
@@ -19,16 +19,18 @@ export const RETRY_DELAY = 2000; // 2 seconds between retries
  * @param unlockTime - Explicit unlock time (block height or timestamp)
  * @param blockTimestamp - Timestamp of the block
  * @param currentHeight - Current blockchain height
+ * @param maturityBlocks - Confirmations required by the network (default: mainnet)
  * @returns true if the output is spendable
  */
 export function isOutputSpendable(
   blockHeight: number,
   unlockTime: number,
   blockTimestamp: number,
-  currentHeight: number
+  currentHeight: number,
+  maturityBlocks: number = MATURITY_BLOCKS
 ): boolean {
-  // Check block maturity: output must be at least MATURITY_BLOCKS old
-  const matureHeight = currentHeight - MATURITY_BLOCKS;
+  // Check block maturity: output must be at least maturityBlocks old
+  const matureHeight = currentHeight - maturityBlocks;
   const maturityMet = blockHeight <= matureHeight;
 
   if (!maturityMet) {
@@ -54,6 +54,7 @@ import {
   pruneSyncedBlocks,
   ProcessingContext,
 } from './walletSync-processing';
+import { MAINNET, NetworkParams } from './config';
 
 // Re-export event types
 export type {
@@ -76,6 +77,8 @@ export {
 export interface WalletSyncConfig {
   node: NodeConfig;
   publicKeys: string[]; // Wallet's public spend keys (transparent system)
+  keyImages?: Record<string, string>; // Public key -> its key image (see generateKeyImage), for key-image spend matching
+  network?: NetworkParams; // Default: MAINNET
   startHeight?: number;
   startTimestamp?: number;
   pollInterval?: number; // Interval in ms to check for new blocks after initial sync (default: 5000)
@@ -96,6 +99,8 @@ export interface WalletSyncConfig {
 export class WalletSync {
   private api: DaemonApi;
   private publicKeys: Set<string>;
+  private keyImages: Map<string, string>;
+  private network: NetworkParams;
   private startHeight: number;
   private startTimestamp: number;
   private pollInterval: number;
@@ -138,6 +143,11 @@ export class WalletSync {
   constructor(config: WalletSyncConfig) {
     this.api = new DaemonApi(config.node);
     this.publicKeys = new Set(config.publicKeys);
+    this.keyImages = new Map();
+    for (const [publicKey, keyImage] of Object.entries(config.keyImages ?? {})) {
+      this.keyImages.set(keyImage.toLowerCase(), publicKey);
+    }
+    this.network = config.network ?? MAINNET;
     this.startHeight = config.startHeight || 0;
     this.startTimestamp = config.startTimestamp || 0;
     this.pollInterval = config.pollInterval || 5000;
@@ -267,6 +277,7 @@ export class WalletSync {
       outputs: this.outputs,
       stakingTxHashes: this.stakingTxHashes,
       currentHeight: this.state.currentHeight,
+      maturityBlocks: this.network.maturityBlocks,
     });
 
     this.state.availableBalance = available;
@@ -299,7 +310,10 @@ export class WalletSync {
   private async processBlock(block: WalletBlockInfo): Promise<{ newOutputs: WalletOutput[]; newSpends: WalletSpend[] }> {
     const ctx: ProcessingContext = {
       publicKeys: this.publicKeys,
+      keyImages: this.keyImages,
       currentHeight: this.state.currentHeight,
+      maturityBlocks: this.network.maturityBlocks,
+      network: this.network,
       outputs: this.outputs,
       spends: this.spends,
       rawTransactionOutputs: this.rawTransactionOutputs,
@@ -368,6 +382,7 @@ export class WalletSync {
    */
   stop(): void {
     this.shouldStop = true;
+    this.shouldStopRef.value = true;
 
     if (this.pollTimer) {
       clearTimeout(this.pollTimer);
@@ -393,6 +408,13 @@ export class WalletSync {
     this.api.setNode(node);
   }
 
+  /**
+   * Get the network this sync follows
+   */
+  getNetwork(): NetworkParams {
+    return this.network;
+  }
+
   /**
    * Get current sync state
    */
@@ -456,6 +478,7 @@ export class WalletSync {
       outputs: this.outputs,
       stakingTxHashes: this.stakingTxHashes,
       currentHeight: this.state.currentHeight,
+      maturityBlocks: this.network.maturityBlocks,
     });
   }
 
@@ -466,7 +489,8 @@ export class WalletSync {
     return getAvailableOutputs(
       this.getOutputs(),
       this.stakingTxHashes,
-      this.state.currentHeight
+      this.state.currentHeight,
+      this.network.maturityBlocks
     );
   }
 
@@ -477,7 +501,8 @@ export class WalletSync {
     return getLockedOutputs(
       this.getOutputs(),
       this.stakingTxHashes,
-      this.state.currentHeight
+      this.state.currentHeight,
+      this.network.maturityBlocks
     );
   }
 
@@ -499,7 +524,9 @@ export class WalletSync {
       this.publicKeys,
       this.state.currentHeight,
       this.rawTransactionOutputs,
-      limit
+      limit,
+      this.network.maturityBlocks,
+      this.network
     );
   }
 }
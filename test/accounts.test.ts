@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  deriveAccount,
+  deriveAccounts,
+  deriveAccountPrivateKey,
+  deriveChildAddress,
+  deriveChildPublicKey,
+  discoverAccounts,
+} from '../src/accounts';
+import { PastellaWallet, derivePrivateKeyFromMnemonic, derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { NetworkParams, TESTNET } from '../src/config';
+import { hexToBytes } from '../src/utils';
+import { WalletOutput } from '../src/types';
+
+/**
+ * WalletSync stand-in: each scan reports the outputs the test placed on the
+ * scanned keys and records which keys it was asked for
+ */
+const chain = vi.hoisted(() => ({
+  outputs: [] as { key: string; amount: number; spentHeight?: number }[],
+  scans: [] as string[][],
+  networks: [] as (NetworkParams | undefined)[],
+}));
+
+vi.mock('../src/walletSync', () => ({
+  WalletSync: class {
+    private publicKeys: string[];
+    constructor(config: { publicKeys: string[]; network?: NetworkParams }) {
+      this.publicKeys = config.publicKeys;
+      chain.scans.push(config.publicKeys);
+      chain.networks.push(config.network);
+    }
+    async start() {}
+    stop() {}
+    getState() {
+      return { syncErrors: [], currentHeight: 100 };
+    }
+    getOutputs() {
+      return chain.outputs.filter(output => this.publicKeys.includes(output.key)) as WalletOutput[];
+    }
+  },
+}));
+
+const ENTROPY = hexToBytes('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef');
+const { mnemonic: MNEMONIC, address: ADDRESS } = PastellaWallet.generateWalletFromEntropy(ENTROPY);
+const NODE = { ip: '127.0.0.1', port: 21001, ssl: false };
+
+describe('deriveAccount', () => {
+  it('keeps the mnemonic wallet as account 0', () => {
+    const account = deriveAccount(MNEMONIC, 0);
+    expect(account.address).toBe(ADDRESS);
+    expect(account.privateKey).toBe(derivePrivateKeyFromMnemonic(MNEMONIC));
+  });
+
+  it('derives distinct, reproducible keypairs', () => {
+    const accounts = deriveAccounts(MNEMONIC, 4);
+    expect(accounts.map(account => account.index)).toEqual([0, 1, 2, 3]);
+    expect(new Set(accounts.map(account => account.publicKey)).size).toBe(4);
+
+    for (const account of accounts) {
+      expect(derivePublicKeyFromPrivateKey(account.privateKey)).toBe(account.publicKey);
+      expect(deriveAccount(MNEMONIC, account.index)).toEqual(account);
+    }
+    expect(deriveAccounts(MNEMONIC, 2, 2)).toEqual(accounts.slice(2));
+  });
+
+  it('renders addresses on the given network', () => {
+    const account = deriveAccount(MNEMONIC, 1, undefined, TESTNET);
+    expect(account.address).toBe(publicKeyHexToAddress(account.publicKey, TESTNET));
+    expect(deriveAccounts(MNEMONIC, 2, 0, undefined, TESTNET)[1]).toEqual(account);
+
+    const master = deriveAccount(MNEMONIC, 0);
+    expect(deriveChildAddress(master.publicKey, 3, TESTNET)).toBe(publicKeyHexToAddress(deriveChildPublicKey(master.publicKey, 3), TESTNET));
+  });
+
+  it('rejects indexes outside uint32', () => {
+    const master = derivePrivateKeyFromMnemonic(MNEMONIC);
+    expect(deriveAccountPrivateKey(master, 0xffffffff)).toHaveLength(64);
+    for (const index of [-1, 1.5, 0x100000000]) {
+      expect(() => deriveAccountPrivateKey(master, index)).toThrow('Derivation index must be an integer');
+    }
+  });
+});
+
+describe('discoverAccounts', () => {
+  const accounts = deriveAccounts(MNEMONIC, 12);
+
+  beforeEach(() => {
+    chain.outputs = [];
+    chain.scans = [];
+    chain.networks = [];
+  });
+
+  it('finds nothing on a fresh mnemonic after one window', async () => {
+    const result = await discoverAccounts(MNEMONIC, NODE, { gapLimit: 3 });
+    expect(result).toEqual({ accounts: [], nextIndex: 0, scannedHeight: 100 });
+    expect(chain.scans).toEqual([accounts.slice(0, 3).map(account => account.publicKey)]);
+  });
+
+  it('extends the window past each used account and sums unspent outputs', async () => {
+    chain.outputs = [
+      { key: accounts[0].publicKey, amount: 10 },
+      { key: accounts[2].publicKey, amount: 20 },
+      { key: accounts[2].publicKey, amount: 5, spentHeight: 50 },
+      { key: accounts[4].publicKey, amount: 30 },   // Only reachable once account 2 is seen
+    ];
+
+    const result = await discoverAccounts(MNEMONIC, NODE, { gapLimit: 3 });
+    expect(result.accounts.map(account => [account.index, account.outputCount, account.balance])).toEqual([
+      [0, 1, 10],
+      [2, 2, 20],
+      [4, 1, 30],
+    ]);
+    expect(result.nextIndex).toBe(5);
+    expect(chain.scans.map(keys => keys.length)).toEqual([3, 6, 8]);
+  });
+
+  it('scans and reports on the given network', async () => {
+    chain.outputs = [{ key: accounts[1].publicKey, amount: 7 }];
+    const result = await discoverAccounts(MNEMONIC, NODE, { gapLimit: 2, network: TESTNET });
+
+    expect(result.accounts.map(account => account.address)).toEqual([publicKeyHexToAddress(accounts[1].publicKey, TESTNET)]);
+    expect(chain.networks.every(network => network === TESTNET)).toBe(true);
+  });
+
+  it('leaves accounts beyond the gap undiscovered', async () => {
+    chain.outputs = [{ key: accounts[3].publicKey, amount: 1 }];
+    const result = await discoverAccounts(MNEMONIC, NODE, { gapLimit: 3 });
+    expect(result).toMatchObject({ accounts: [], nextIndex: 0 });
+  });
+
+  it('rejects a gap limit below one', async () => {
+    await expect(discoverAccounts(MNEMONIC, NODE, { gapLimit: 0 })).rejects.toThrow('Gap limit must be at least 1');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { keccak256 } from 'js-sha3';
+import { encodeAddress, decodeAddress, decodeAddressOrThrow, resolveDestinationKey } from '../src/address';
+import { base58Encode, base58Decode, derivePublicKeyFromPrivateKey } from '../src/index';
+import { MAINNET, TESTNET } from '../src/config';
+import { InvalidAddressError, hexToBytes } from '../src/utils';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey('01'.repeat(31) + '0a');
+const PAYMENT_ID = 'cd'.repeat(32);
+const ADDRESS = encodeAddress(PUBLIC_KEY);
+
+/**
+ * Base58-encode a payload with a correct checksum appended
+ */
+function withChecksum(payload: Uint8Array): string {
+  const data = new Uint8Array(payload.length + 4);
+  data.set(payload);
+  data.set(hexToBytes(keccak256(payload)).subarray(0, 4), payload.length);
+  return base58Encode(data);
+}
+
+/**
+ * Re-encode one full 11-character block as its value plus 2^64, which decodes
+ * to the same 8 bytes; null if no block of the address leaves room for that
+ */
+function nonCanonical(address: string): string | null {
+  const limit = 58n ** 11n;
+  for (let start = 0; start + 11 <= address.length; start += 11) {
+    let value = 0n;
+    for (const char of address.slice(start, start + 11)) {
+      value = value * 58n + BigInt(BASE58_ALPHABET.indexOf(char));
+    }
+    let alias = value + (1n << 64n);
+    if (alias >= limit) continue;
+
+    let block = '';
+    for (let i = 0; i < 11; i++) {
+      block = BASE58_ALPHABET[Number(alias % 58n)] + block;
+      alias /= 58n;
+    }
+    return address.slice(0, start) + block + address.slice(start + 11);
+  }
+  return null;
+}
+
+function expectFailure(address: string, error: string, network = MAINNET) {
+  const result = decodeAddress(address, network);
+  expect(result).toMatchObject({ valid: false, error });
+  expect(() => decodeAddressOrThrow(address, network)).toThrow(`Invalid address (${error})`);
+}
+
+describe('decodeAddress', () => {
+  it('decodes standard and integrated addresses', () => {
+    expect(decodeAddress(ADDRESS)).toEqual({ valid: true, kind: 'standard', address: ADDRESS, publicKey: PUBLIC_KEY });
+
+    const integrated = encodeAddress(PUBLIC_KEY, PAYMENT_ID);
+    expect(decodeAddress(integrated)).toEqual({ valid: true, kind: 'integrated', address: integrated, publicKey: PUBLIC_KEY, paymentId: PAYMENT_ID });
+  });
+
+  it('invalid_base58: characters outside the alphabet or an empty string', () => {
+    expectFailure('', 'invalid_base58');
+    expectFailure(ADDRESS.slice(0, -1) + '0', 'invalid_base58');
+    expectFailure(ADDRESS.slice(0, -1) + 'l', 'invalid_base58');
+    expectFailure(` ${ADDRESS}`, 'invalid_base58');
+  });
+
+  it('invalid_base58: a block that overflows 64 bits', () => {
+    const alias = nonCanonical(ADDRESS);
+    expect(alias).not.toBeNull();
+    expect(base58Decode(alias!)).toEqual(base58Decode(ADDRESS));
+    expect(decodeAddress(alias!)).toMatchObject({ valid: false, error: 'invalid_base58', message: 'Address is not canonically Base58 encoded' });
+  });
+
+  it('wrong_length: an impossible Base58 length or a payload of the wrong size', () => {
+    expectFailure(ADDRESS.slice(0, -1), 'wrong_length');
+
+    const decoded = base58Decode(ADDRESS);
+    const prefixLength = decoded.length - 36;
+    expectFailure(withChecksum(decoded.slice(0, prefixLength + 31)), 'wrong_length');
+
+    // Integrated prefix with a standard-sized payload
+    const integrated = base58Decode(encodeAddress(PUBLIC_KEY, PAYMENT_ID));
+    expectFailure(withChecksum(integrated.slice(0, prefixLength + 32)), 'wrong_length');
+  });
+
+  it('bad_prefix: another network or an unknown prefix', () => {
+    const testnetAddress = encodeAddress(PUBLIC_KEY, undefined, TESTNET);
+    expectFailure(testnetAddress, 'bad_prefix');
+    expect(decodeAddress(testnetAddress, TESTNET).valid).toBe(true);
+    expectFailure(ADDRESS, 'bad_prefix', TESTNET);
+
+    const unknown = new Uint8Array(33);
+    unknown[0] = 0x12;
+    unknown.set(hexToBytes(PUBLIC_KEY), 1);
+    expectFailure(withChecksum(unknown), 'bad_prefix');
+  });
+
+  it('bad_checksum: any changed payload or checksum byte', () => {
+    const decoded = base58Decode(ADDRESS);
+    for (const index of [5, decoded.length - 1]) {
+      const tampered = decoded.slice();
+      tampered[index] ^= 1;
+      expectFailure(base58Encode(tampered), 'bad_checksum');
+    }
+  });
+
+  it('carries the reason on InvalidAddressError', () => {
+    try {
+      decodeAddressOrThrow(ADDRESS.slice(0, -1));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidAddressError);
+      expect((error as InvalidAddressError).details).toEqual({ address: ADDRESS.slice(0, -1), reason: 'wrong_length' });
+    }
+  });
+});
+
+describe('resolveDestinationKey', () => {
+  it('accepts hex keys, standard and integrated addresses', () => {
+    expect(resolveDestinationKey(PUBLIC_KEY.toUpperCase())).toEqual({ publicKey: PUBLIC_KEY });
+    expect(resolveDestinationKey(ADDRESS)).toEqual({ publicKey: PUBLIC_KEY });
+    expect(resolveDestinationKey(encodeAddress(PUBLIC_KEY, PAYMENT_ID))).toEqual({ publicKey: PUBLIC_KEY, paymentId: PAYMENT_ID });
+    expect(() => resolveDestinationKey(encodeAddress(PUBLIC_KEY, undefined, TESTNET))).toThrow('Invalid address (bad_prefix)');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deriveAccount,
+  deriveChildAddress,
+  deriveChildPrivateKey,
+  deriveChildPublicKey,
+  deriveChildPublicKeys,
+  createChildKeyring,
+} from '../src/accounts';
+import { InMemorySigner, MnemonicSigner } from '../src/signer';
+import { verifySchnorrSignature } from '../src/crypto';
+import { PastellaWallet, derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { SignerError, hexToBytes } from '../src/utils';
+
+const ENTROPY = hexToBytes('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef');
+const { mnemonic: MNEMONIC } = PastellaWallet.generateWalletFromEntropy(ENTROPY);
+const MASTER = deriveAccount(MNEMONIC, 0);
+const PREFIX_HASH = new Uint8Array(32).fill(7);
+
+describe('child keys', () => {
+  it('derive a private key whose public key is the watch-only child key', () => {
+    for (const index of [0, 1, 2, 1000, 0xffffffff]) {
+      const publicKey = deriveChildPublicKey(MASTER.publicKey, index);
+      expect(derivePublicKeyFromPrivateKey(deriveChildPrivateKey(MASTER.privateKey, index))).toBe(publicKey);
+      expect(deriveChildAddress(MASTER.publicKey, index)).toBe(publicKeyHexToAddress(publicKey));
+    }
+  });
+
+  it('are distinct from the master key and from accounts', () => {
+    const children = deriveChildPublicKeys(MASTER.publicKey, 5);
+    expect(new Set([MASTER.publicKey, ...children]).size).toBe(6);
+    expect(children).not.toContain(deriveAccount(MNEMONIC, 1).publicKey);
+    expect(deriveChildPublicKeys(MASTER.publicKey, 2, 3)).toEqual(children.slice(3));
+  });
+
+  it('fill a keyring with the master key and the requested children', () => {
+    const keyring = createChildKeyring(MASTER.privateKey, [1, 4]);
+    expect([...keyring.entries()]).toEqual([
+      [MASTER.publicKey, MASTER.privateKey],
+      [deriveChildPublicKey(MASTER.publicKey, 1), deriveChildPrivateKey(MASTER.privateKey, 1)],
+      [deriveChildPublicKey(MASTER.publicKey, 4), deriveChildPrivateKey(MASTER.privateKey, 4)],
+    ]);
+  });
+});
+
+describe('keyring signing', () => {
+  it('signs for child keys with signatures that verify under the child key', async () => {
+    const signer = new MnemonicSigner(MNEMONIC, [1, 4]);
+    const childKey = deriveChildPublicKey(MASTER.publicKey, 4);
+
+    expect(await signer.getPublicKey()).toBe(MASTER.publicKey);
+    expect(await signer.getPublicKeys()).toContain(childKey);
+
+    const signature = await signer.signPrefixHash(PREFIX_HASH, childKey);
+    expect(verifySchnorrSignature(PREFIX_HASH, childKey, signature)).toBe(true);
+    expect(verifySchnorrSignature(PREFIX_HASH, MASTER.publicKey, signature)).toBe(false);
+  });
+
+  it('refuses keys outside the keyring', async () => {
+    const signer = new InMemorySigner(MASTER.privateKey, createChildKeyring(MASTER.privateKey, [1]));
+    const missing = deriveChildPublicKey(MASTER.publicKey, 2);
+    await expect(signer.signPrefixHash(PREFIX_HASH, missing)).rejects.toBeInstanceOf(SignerError);
+  });
+});
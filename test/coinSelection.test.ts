@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  CoinSelector,
+  selectBranchAndBound,
+  selectCoins,
+  selectLargestFirst,
+  selectOldestFirst,
+  selectRandom,
+  selectSmallestFirst,
+} from '../src/coinSelection';
+import { TransactionPicker, parseTransaction, sendFromMnemonic } from '../src/transaction';
+import { Wallet } from '../src/Wallet';
+import { InMemorySigner } from '../src/signer';
+import { setEntropySource } from '../src/entropy';
+import { PastellaWallet, derivePrivateKeyFromMnemonic, derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { hexToBytes } from '../src/utils';
+import { WalletOutput } from '../src/types';
+
+/**
+ * WalletSync stand-in holding the outputs a test places in it
+ */
+const chain = vi.hoisted(() => ({ outputs: [] as WalletOutput[] }));
+
+vi.mock('../src/walletSync', () => ({
+  WalletSync: class {
+    getState() {
+      return { syncErrors: [], currentHeight: 1000 };
+    }
+    getAvailableOutputs() {
+      return chain.outputs;
+    }
+  },
+}));
+
+const { mnemonic: MNEMONIC } = PastellaWallet.generateWalletFromEntropy(
+  hexToBytes('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef')
+);
+const PRIVATE_KEY = derivePrivateKeyFromMnemonic(MNEMONIC);
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey(PRIVATE_KEY);
+const RECIPIENT_KEY = derivePublicKeyFromPrivateKey('02'.repeat(31) + '0b');
+const RECIPIENT = publicKeyHexToAddress(RECIPIENT_KEY);
+const NODE = { ip: '127.0.0.1', port: 21001, ssl: false };
+
+let nextHash = 0;
+
+function output(amount: number, blockHeight = 100): WalletOutput {
+  return {
+    key: PUBLIC_KEY,
+    amount,
+    blockHeight,
+    timestamp: 0,
+    transactionHash: (nextHash++).toString(16).padStart(64, '0'),
+    transactionIndex: 0,
+    outputIndex: 0,
+    unlockTime: 0,
+    transactionPublicKey: PUBLIC_KEY,
+    isSpendable: true,
+  };
+}
+
+function amounts(selected: { output: WalletOutput }[] | null): number[] | null {
+  return selected && selected.map(coin => coin.output.amount);
+}
+
+function stubDaemon(): string[] {
+  const sent: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const { tx_as_hex: txHex } = JSON.parse(init.body as string);
+    sent.push(txHex);
+    return new Response(JSON.stringify({ status: 'OK', transactionHash: parseTransaction(txHex).hash }));
+  }));
+  return sent;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  setEntropySource(null);
+  chain.outputs = [];
+});
+
+describe('coin selection strategies', () => {
+  const candidates = [output(500, 30), output(2_000, 10), output(100, 20), output(1_000, 10)];
+
+  it('largest-first, smallest-first and oldest-first take outputs in their order', () => {
+    expect(amounts(selectLargestFirst(candidates, 2_500))).toEqual([2_000, 1_000]);
+    expect(amounts(selectSmallestFirst(candidates, 1_200))).toEqual([100, 500, 1_000]);
+    expect(amounts(selectOldestFirst(candidates, 3_050))).toEqual([2_000, 1_000, 100]);
+    expect(selectOldestFirst(candidates, 1)[0].reason).toBe('oldest available output (block 10)');
+
+    for (const strategy of ['largest-first', 'smallest-first', 'oldest-first', 'branch-and-bound', 'random'] as const) {
+      expect(selectCoins(candidates, 3_601, strategy)).toBeNull();
+      expect(amounts(selectCoins(candidates, 3_600, strategy)).sort((a, b) => a - b)).toEqual([100, 500, 1_000, 2_000]);
+    }
+    expect(() => selectCoins(candidates, 1, 'newest-first' as never)).toThrow('Unknown coin selection strategy: newest-first');
+  });
+
+  it('branch-and-bound finds an exact match or falls back to largest-first', () => {
+    const exact = selectBranchAndBound(candidates, 1_600);
+    expect(amounts(exact)).toEqual([1_000, 500, 100]);
+    expect(exact.every(coin => coin.reason === 'part of an exact match (no change output)')).toBe(true);
+
+    const fallback = selectBranchAndBound(candidates, 2_550);
+    expect(amounts(fallback)).toEqual([2_000, 1_000]);
+    expect(fallback[0].reason).toBe('largest available output (no exact match found)');
+  });
+
+  it('branch-and-bound skips equal amounts when backtracking', () => {
+    // 19 x 1000 + 600 + 600; without skipping equal amounts the search would
+    // try every combination of 20 from the 40 equal outputs and give up
+    const many = [...Array.from({ length: 40 }, () => output(1_000)), output(600), output(600)];
+    const exact = selectBranchAndBound(many, 20_200);
+
+    expect(amounts(exact)).toEqual([...new Array(19).fill(1_000), 600, 600]);
+    expect(exact[0].reason).toBe('part of an exact match (no change output)');
+  });
+
+  it('random draws its order from the entropy source and consolidates small outputs', () => {
+    setEntropySource(length => new Uint8Array(length).fill(1));
+    const first = amounts(selectRandom(candidates, 1_000));
+    expect(amounts(selectRandom(candidates, 1_000))).toEqual(first);
+
+    const many = Array.from({ length: 25 }, (_, i) => output(1_000 + i));
+    const selected = selectRandom(many, 1_000);
+    expect(selected.slice(1).map(coin => coin.output.amount).sort((a, b) => a - b)).toEqual(
+      many.filter(o => o !== selected[0].output).slice(0, 4).map(o => o.amount)
+    );
+    expect(selected[1].reason).toBe('small output consolidated (25 spendable outputs)');
+
+    setEntropySource(async length => new Uint8Array(length));
+    expect(() => selectRandom(candidates, 1_000)).toThrow('asynchronous');
+  });
+});
+
+describe('TransactionPicker with a custom selector', () => {
+  const candidates = [output(5_000), output(3_000)];
+
+  function pick(selector: CoinSelector) {
+    return new TransactionPicker(candidates, 1_000, 10, PUBLIC_KEY, undefined, selector).pickInputs(6_000, 1_000);
+  }
+
+  it('reports the custom selection and its change', () => {
+    const result = pick(outputs => outputs.map(output => ({ output, reason: 'mine' })));
+    expect(result.change).toBe(1_000);
+    expect(result.selection).toMatchObject({ strategy: 'custom', target: 7_000, candidates: 2, totalSelected: 8_000, change: 1_000 });
+  });
+
+  it('rejects foreign or repeated outputs and short selections', () => {
+    expect(() => pick(() => [{ output: output(9_000), reason: 'foreign' }])).toThrow('not spendable or was already selected');
+    expect(() => pick(outputs => [{ output: outputs[0], reason: 'a' }, { output: outputs[0], reason: 'b' }]))
+      .toThrow('not spendable or was already selected');
+    expect(pick(outputs => [{ output: outputs[0], reason: 'short' }])).toBeNull();
+    expect(pick(() => null)).toBeNull();
+  });
+});
+
+describe('change reported for a send', () => {
+  // 30_000 + 21_000 pays 50_000 plus a flat 1_000 fee exactly
+  const exactSet = () => [output(50_000), output(30_000), output(21_000), output(7_000)];
+
+  it('is zero for a branch-and-bound exact match', async () => {
+    const sent = stubDaemon();
+    chain.outputs = exactSet();
+    const wallet = new Wallet({ ip: NODE.ip, port: NODE.port, publicKey: PUBLIC_KEY, signer: new InMemorySigner(PRIVATE_KEY) });
+
+    const result = await wallet.sendTransaction({
+      destinations: [{ address: RECIPIENT, amount: 50_000 }],
+      fee: 1_000,
+      coinSelection: 'branch-and-bound',
+    });
+
+    expect(parseTransaction(sent[0]).outputs).toEqual([{ key: RECIPIENT_KEY, amount: 50_000 }]);
+    expect(result).toMatchObject({ change: 0, fee: 1_000, inputsUsed: 2 });
+    expect(result.selection).toMatchObject({ strategy: 'branch-and-bound', totalSelected: 51_000, change: 0 });
+  });
+
+  it('is the change output otherwise, from sendFromMnemonic as well', async () => {
+    const sent = stubDaemon();
+    const request = {
+      mnemonic: MNEMONIC,
+      destinations: [{ address: RECIPIENT, amount: 50_000 }],
+      outputs: exactSet(),
+      currentHeight: 1_000,
+      node: NODE,
+      fee: 1_000,
+    };
+
+    expect(await sendFromMnemonic({ ...request, coinSelection: 'branch-and-bound' })).toMatchObject({ change: 0, inputsUsed: 2 });
+
+    const result = await sendFromMnemonic(request);
+    expect(result).toMatchObject({ change: 29_000, inputsUsed: 2 });
+    expect(parseTransaction(sent[1]).outputs).toEqual([{ key: RECIPIENT_KEY, amount: 50_000 }, { key: PUBLIC_KEY, amount: 29_000 }]);
+  });
+});
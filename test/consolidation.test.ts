@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { planConsolidation, ConsolidationExecutor, ConsolidationProgress, ConsolidationSource } from '../src/consolidation';
+import { parseTransaction } from '../src/transaction';
+import { calculateFee } from '../src/fees';
+import { InMemorySigner } from '../src/signer';
+import { setSchnorrNonceMode, getSchnorrNonceMode } from '../src/crypto';
+import { derivePublicKeyFromPrivateKey } from '../src/index';
+import { TransactionFailedError } from '../src/utils';
+import { WalletOutput } from '../src/types';
+
+const PRIVATE_KEY = '01'.repeat(31) + '0a';
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey(PRIVATE_KEY);
+const OTHER_KEY = derivePublicKeyFromPrivateKey('02'.repeat(31) + '0b');
+const NODE = { ip: '127.0.0.1', port: 21001, ssl: false };
+
+function output(amount: number, index: number, key: string = PUBLIC_KEY): WalletOutput {
+  return {
+    key,
+    amount,
+    blockHeight: 100,
+    timestamp: 0,
+    transactionHash: index.toString(16).padStart(64, '0'),
+    transactionIndex: 0,
+    outputIndex: 0,
+    unlockTime: 0,
+    transactionPublicKey: key,
+    isSpendable: true,
+  };
+}
+
+function outputs(amounts: number[]): WalletOutput[] {
+  return amounts.map((amount, i) => output(amount, i + 1));
+}
+
+/**
+ * Wallet outputs and chain height the executor reads; confirm() mines a
+ * broadcast transaction: its inputs leave, its outputs become spendable
+ */
+class MockSource implements ConsolidationSource {
+  outputs: WalletOutput[];
+  height: number = 1000;
+
+  constructor(initial: WalletOutput[]) {
+    this.outputs = initial;
+  }
+
+  getAvailableOutputs(): WalletOutput[] {
+    return [...this.outputs];
+  }
+
+  getState(): { currentHeight: number } {
+    return { currentHeight: this.height };
+  }
+
+  confirm(txHex: string): void {
+    const parsed = parseTransaction(txHex);
+    const spent = new Set(parsed.inputs.map(input => input.type === 'key' ? `${input.transactionHash}:${input.outputIndex}` : ''));
+    this.outputs = this.outputs.filter(output => !spent.has(`${output.transactionHash}:${output.outputIndex}`));
+    parsed.outputs.forEach((created, outputIndex) => {
+      this.outputs.push({ ...output(created.amount, 0, created.key), transactionHash: parsed.hash, outputIndex });
+    });
+  }
+}
+
+/**
+ * Stub the daemon: every broadcast transaction is kept and accepted, and
+ * mined right away when `mine` is set
+ */
+function stubDaemon(source: MockSource, mine: boolean): string[] {
+  const sent: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const { tx_as_hex: txHex } = JSON.parse(init.body as string);
+    sent.push(txHex);
+    if (mine) {
+      source.confirm(txHex);
+    }
+    return new Response(JSON.stringify({ status: 'OK', transactionHash: parseTransaction(txHex).hash }));
+  }));
+  return sent;
+}
+
+const previousMode = getSchnorrNonceMode();
+beforeAll(() => setSchnorrNonceMode('deterministic'));
+afterAll(() => setSchnorrNonceMode(previousMode));
+afterEach(() => vi.unstubAllGlobals());
+
+describe('planConsolidation', () => {
+  it('merges the smallest outputs first into one output per transaction', () => {
+    const plan = planConsolidation(outputs([50_000, 10_000, 40_000, 20_000, 30_000]), { maxInputsPerTransaction: 2 });
+
+    expect(plan.transactions.map(tx => tx.inputs.map(input => input.amount))).toEqual([[10_000, 20_000], [30_000, 40_000]]);
+    for (const tx of plan.transactions) {
+      expect(tx.fee).toBe(calculateFee(tx.size, 'low'));
+      expect(tx.amount).toBe(tx.inputs.reduce((sum, input) => sum + input.amount, 0) - tx.fee);
+    }
+    expect(plan).toMatchObject({ outputsBefore: 5, outputsAfter: 3, skipped: 0, totalFee: plan.transactions[0].fee + plan.transactions[1].fee });
+
+    // 3 outputs left: 2 merged ones and 50_000, then 2, then 1
+    expect(plan.estimatedRounds).toBe(3);
+  });
+
+  it('merges no more than the target output count needs', () => {
+    const plan = planConsolidation(outputs([10_000, 20_000, 30_000, 40_000, 50_000]), { targetOutputCount: 4 });
+    expect(plan.transactions.map(tx => tx.inputs.length)).toEqual([2]);
+    expect(plan).toMatchObject({ outputsAfter: 4, estimatedRounds: 1 });
+
+    expect(planConsolidation(outputs([10_000, 20_000]), { targetOutputCount: 2 }).transactions).toEqual([]);
+    expect(planConsolidation(outputs([10_000])).estimatedRounds).toBe(0);
+  });
+
+  it('leaves outputs at or above maxOutputAmount alone', () => {
+    const plan = planConsolidation(outputs([10_000, 20_000, 5_000_000, 30_000]), { maxOutputAmount: 1_000_000 });
+    expect(plan.transactions.map(tx => tx.inputs.map(input => input.amount))).toEqual([[10_000, 20_000, 30_000]]);
+    expect(plan).toMatchObject({ outputsBefore: 4, outputsAfter: 2, skipped: 0, estimatedRounds: 1 });
+  });
+
+  it('shrinks a transaction to the size limit and returns the cut inputs to the pool', () => {
+    const amounts = new Array(10).fill(10_000);
+    const fourInputs = planConsolidation(outputs(amounts), { maxInputsPerTransaction: 4 }).transactions[0].size;
+    const plan = planConsolidation(outputs(amounts), { maxTransactionSize: fourInputs });
+
+    expect(plan.transactions.map(tx => tx.inputs.length)).toEqual([4, 4, 2]);
+    expect(plan.transactions.every(tx => tx.size <= fourInputs)).toBe(true);
+    const spent = plan.transactions.flatMap(tx => tx.inputs.map(input => input.transactionHash));
+    expect(new Set(spent).size).toBe(10);
+    expect(plan.outputsAfter).toBe(3);
+  });
+
+  it('plans nothing when not even two inputs fit the size limit', () => {
+    const plan = planConsolidation(outputs([10_000, 20_000, 30_000]), { maxTransactionSize: 100 });
+    expect(plan).toMatchObject({ transactions: [], outputsAfter: 3, totalFee: 0, estimatedRounds: 0 });
+  });
+
+  it('skips dust worth less than spending it and counts it', () => {
+    const dust = [100, 150, 200];
+    const plan = planConsolidation(outputs([...dust, 10_000, 20_000, 30_000, 40_000, 5_000_000]), { maxOutputAmount: 1_000_000 });
+
+    expect(plan.skipped).toBe(3);
+    expect(plan.transactions.map(tx => tx.inputs.map(input => input.amount))).toEqual([[10_000, 20_000, 30_000, 40_000]]);
+    expect(plan).toMatchObject({ outputsBefore: 8, outputsAfter: 5, estimatedRounds: 1 });
+
+    // A flat fee has no per-input cost: dust is merged too
+    const flat = planConsolidation(outputs([...dust, 10_000]), { fee: 1000 });
+    expect(flat).toMatchObject({ skipped: 0, outputsAfter: 1, totalFee: 1000 });
+    expect(flat.transactions[0]).toMatchObject({ amount: 10_450 - 1000, fee: 1000 });
+  });
+
+  it('leaves a group that cannot pay its fee as it is', () => {
+    const plan = planConsolidation(outputs([400, 500]), { fee: 1000 });
+    expect(plan).toMatchObject({ transactions: [], skipped: 0, outputsAfter: 2, estimatedRounds: 0 });
+  });
+
+  it('validates the options', () => {
+    expect(() => planConsolidation(outputs([10_000, 20_000]), { maxInputsPerTransaction: 1 })).toThrow('maxInputsPerTransaction must be at least 2');
+    expect(() => planConsolidation(outputs([10_000, 20_000]), { destination: 'PAS1notanaddress' })).toThrow();
+  });
+});
+
+describe('ConsolidationExecutor', () => {
+  it('broadcasts round after round until one output is left', async () => {
+    const source = new MockSource([...outputs([10_000, 20_000, 30_000, 40_000]), output(50_000, 9, OTHER_KEY)]);
+    const sent = stubDaemon(source, true);
+    const phases: string[] = [];
+    const executor = new ConsolidationExecutor({
+      source,
+      signer: new InMemorySigner(PRIVATE_KEY),
+      node: NODE,
+      maxInputsPerTransaction: 2,
+      pollInterval: 1,
+      onProgress: progress => phases.push(progress.phase),
+    });
+
+    const result = await executor.run();
+
+    // Outputs of other keys are not the signer's to spend
+    expect(result).toMatchObject({ rounds: 2, outputsBefore: 4, outputsAfter: 1 });
+    expect(result.transactions.map(tx => [tx.round, tx.inputs])).toEqual([[1, 2], [1, 2], [2, 2]]);
+    expect(result.transactions.map(tx => tx.hash)).toEqual(sent.map(txHex => parseTransaction(txHex).hash));
+    expect(result.feesPaid).toBe(sent.reduce((sum, txHex) => sum + parseTransaction(txHex).fee, 0));
+
+    const merged = source.outputs.filter(output => output.key === PUBLIC_KEY);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].amount).toBe(100_000 - result.feesPaid);
+    expect(merged[0].transactionHash).toBe(result.transactions[2].hash);
+
+    expect(phases.filter((phase, i) => phase !== phases[i - 1])).toEqual(['idle', 'broadcasting', 'waiting', 'broadcasting', 'waiting', 'done']);
+    expect(executor.getProgress()).toMatchObject({ phase: 'done', round: 3, transactionsSent: 3, outputCount: 1, pendingHashes: [] });
+    expect(executor.isActive()).toBe(false);
+  });
+
+  it('waits for the round to become spendable before planning the next', async () => {
+    const source = new MockSource(outputs([10_000, 20_000]));
+    const sent = stubDaemon(source, false);
+    const executor = new ConsolidationExecutor({ source, signer: new InMemorySigner(PRIVATE_KEY), node: NODE, pollInterval: 1 });
+
+    const run = executor.run();
+    await vi.waitFor(() => expect(executor.getProgress().phase).toBe('waiting'));
+    const hash = parseTransaction(sent[0]).hash;
+    expect(executor.getProgress()).toMatchObject({ round: 1, roundTransactions: 1, roundSent: 1, pendingHashes: [hash] });
+    expect(executor.isActive()).toBe(true);
+
+    source.confirm(sent[0]);
+    const result = await run;
+    expect(result).toMatchObject({ rounds: 1, outputsBefore: 2, outputsAfter: 1 });
+    expect(sent).toHaveLength(1);
+  });
+
+  it('fails when the round is not spendable past maturity and the grace period', async () => {
+    const source = new MockSource(outputs([10_000, 20_000]));
+    stubDaemon(source, false);
+    const executor = new ConsolidationExecutor({ source, signer: new InMemorySigner(PRIVATE_KEY), node: NODE, maturityBlocks: 10, pollInterval: 1 });
+
+    const run = executor.run();
+    await vi.waitFor(() => expect(executor.getProgress().phase).toBe('waiting'));
+    source.height = 1000 + 10 + 60 + 1;
+
+    await expect(run).rejects.toThrow(TransactionFailedError);
+    await expect(run).rejects.toThrow('1 consolidation transaction(s) not spendable by block 1070');
+    expect(executor.isActive()).toBe(false);
+  });
+
+  it('cancel() cuts the wait short and rejects the run', async () => {
+    const source = new MockSource(outputs([10_000, 20_000]));
+    stubDaemon(source, false);
+    const progress: ConsolidationProgress[] = [];
+    const executor = new ConsolidationExecutor({
+      source,
+      signer: new InMemorySigner(PRIVATE_KEY),
+      node: NODE,
+      pollInterval: 60_000,
+      onProgress: update => progress.push(update),
+    });
+    executor.cancel();   // Not running: nothing to cancel
+
+    const run = executor.run();
+    await expect(executor.run()).rejects.toThrow('Consolidation is already running');
+    await vi.waitFor(() => expect(executor.getProgress().phase).toBe('waiting'));
+
+    executor.cancel();
+    await expect(run).rejects.toThrow('Consolidation cancelled');
+    expect(executor.isActive()).toBe(false);
+    expect(progress[progress.length - 1].transactionsSent).toBe(1);
+  });
+
+  it('cancel() before a broadcast sends nothing', async () => {
+    const source = new MockSource(outputs([10_000, 20_000]));
+    const sent = stubDaemon(source, true);
+    const executor: ConsolidationExecutor = new ConsolidationExecutor({
+      source,
+      signer: new InMemorySigner(PRIVATE_KEY),
+      node: NODE,
+      onProgress: progress => {
+        if (progress.phase === 'broadcasting') {
+          executor.cancel();
+        }
+      },
+    });
+
+    await expect(executor.run()).rejects.toThrow('Consolidation cancelled');
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  hashToEc,
+  generateKeyImage,
+  bytesToHex,
+  generateSchnorrSignature,
+  verifySchnorrSignature,
+  setSchnorrNonceMode,
+  getSchnorrNonceMode,
+  generateAdaptorSignature,
+  verifyAdaptorSignature,
+  completeAdaptorSignature,
+  extractAdaptorSecret,
+} from '../src/crypto';
+import { setEntropySource } from '../src/entropy';
+import { derivePublicKeyFromPrivateKey } from '../src/index';
+
+// Vectors from the CryptoNote core crypto tests
+describe('hashToEc', () => {
+  it('matches core hash_to_ec', () => {
+    expect(bytesToHex(hashToEc('da66e9ba613919dec28ef367a125bb310d6d83fb9052e71034164b6dc4f392d0')))
+      .toBe('52b3f38753b4e13b74624862e253072cf12f745d43fcfafbe8c217701a6e5875');
+  });
+
+  it('rejects keys that are not 32 bytes', () => {
+    expect(() => hashToEc('da66e9ba')).toThrow();
+  });
+});
+
+describe('generateKeyImage', () => {
+  const vectors = [
+    {
+      publicKey: 'bb55bef919d1c9f74b5b52a8a6995a1dc4af4c0bb8824f5dc889012bc748173d',
+      privateKey: 'e52ece5717f01843e3accc4df651d669e339c31eb8059145e881faae19ad4a0e',
+      keyImage: '5997cf23543ce2e05c327297a47f26e710af868344859a6f8d65683d8a2498b0',
+    },
+    {
+      publicKey: '71e91d548fc24e21ece8388550c209c0862ffd47320317ddd456aea757f8309b',
+      privateKey: '2d4e27a9defb233deb37a7bf0bfdb239cae704f5d0d33222d5e93e619d45af08',
+      keyImage: '174d0e7323ec00fa3e0d8432ffd3614cac829685d32a0a5b8f107cef80043178',
+    },
+    {
+      publicKey: 'e1cd9ccdfdf2b3a45ac2cfd1e29185d22c185742849f52368c3cdd1c0ce499c0',
+      privateKey: '73a8e577d58f7c11992201d4014ac7eef39c1e9f6f6d78673103de60a0c3240b',
+      keyImage: '6865866ed8a25824e042e21dd36e946836b58b03366e489aecf979f444f599b0',
+    },
+  ];
+
+  for (const { publicKey, privateKey, keyImage } of vectors) {
+    it(`matches core generate_key_image for ${publicKey.slice(0, 8)}`, () => {
+      expect(derivePublicKeyFromPrivateKey(privateKey)).toBe(publicKey);
+      expect(generateKeyImage(publicKey, privateKey)).toBe(keyImage);
+    });
+  }
+});
+
+describe('generateSchnorrSignature nonce modes', () => {
+  const privateKey = '01'.repeat(31) + '0a';
+  const publicKey = derivePublicKeyFromPrivateKey(privateKey);
+  const prefixHash = new Uint8Array(32).fill(0x42);
+  const defaultMode = getSchnorrNonceMode();
+
+  afterEach(() => {
+    setEntropySource(null);
+    setSchnorrNonceMode(defaultMode);
+  });
+
+  it('deterministic: matches the golden signature and verifies', () => {
+    expect(publicKey).toBe('eb921b23517592d9507def0dabed0e70f1a295e33b2b92fb20ffb75f13ed2931');
+
+    const signature = generateSchnorrSignature(prefixHash, publicKey, privateKey, 'deterministic');
+    expect(bytesToHex(signature)).toBe(
+      '3f02e724a029635df23ddd8ae8c51a4cea336802985ec4581778845a89ff2809'
+      + '3142189724de41e06c1c30d63c4056ef3681f51ba98fd4cbb5dd8c918c3eac0a'
+    );
+    expect(verifySchnorrSignature(prefixHash, publicKey, signature)).toBe(true);
+
+    setSchnorrNonceMode('deterministic');
+    expect(generateSchnorrSignature(prefixHash, publicKey, privateKey)).toEqual(signature);
+  });
+
+  it('hedged and random: differ across calls and verify', () => {
+    const deterministic = generateSchnorrSignature(prefixHash, publicKey, privateKey, 'deterministic');
+    for (const mode of ['hedged', 'random'] as const) {
+      const first = generateSchnorrSignature(prefixHash, publicKey, privateKey, mode);
+      const second = generateSchnorrSignature(prefixHash, publicKey, privateKey, mode);
+
+      expect(first).not.toEqual(second);
+      expect(first).not.toEqual(deterministic);
+      expect(verifySchnorrSignature(prefixHash, publicKey, first)).toBe(true);
+      expect(verifySchnorrSignature(prefixHash, publicKey, second)).toBe(true);
+    }
+  });
+
+  it('hedged: draws its fresh bytes from the configured entropy source', () => {
+    setEntropySource(length => new Uint8Array(length).fill(7));
+    const first = generateSchnorrSignature(prefixHash, publicKey, privateKey, 'hedged');
+    expect(generateSchnorrSignature(prefixHash, publicKey, privateKey, 'hedged')).toEqual(first);
+
+    setEntropySource(async length => new Uint8Array(length));
+    expect(() => generateSchnorrSignature(prefixHash, publicKey, privateKey, 'hedged')).toThrow('asynchronous');
+  });
+});
+
+describe('generateAdaptorSignature', () => {
+  const privateKey = '01'.repeat(31) + '0a';
+  const publicKey = derivePublicKeyFromPrivateKey(privateKey);
+  const adaptorSecret = '03'.repeat(31) + '0c';
+  const adaptorPoint = derivePublicKeyFromPrivateKey(adaptorSecret);
+  const prefixHash = new Uint8Array(32).fill(0x42);
+
+  afterEach(() => setEntropySource(null));
+
+  it('completes into a signature that reveals the adaptor secret', () => {
+    const preSignature = generateAdaptorSignature(prefixHash, publicKey, privateKey, adaptorPoint);
+    expect(verifyAdaptorSignature(prefixHash, publicKey, adaptorPoint, preSignature)).toBe(true);
+    expect(verifySchnorrSignature(prefixHash, publicKey, preSignature)).toBe(false);
+
+    const signature = completeAdaptorSignature(preSignature, adaptorSecret);
+    expect(verifySchnorrSignature(prefixHash, publicKey, signature)).toBe(true);
+    expect(extractAdaptorSecret(preSignature, signature)).toBe(adaptorSecret);
+  });
+
+  it('draws its fresh nonce bytes from the configured entropy source', () => {
+    setEntropySource(length => new Uint8Array(length).fill(7));
+    const first = generateAdaptorSignature(prefixHash, publicKey, privateKey, adaptorPoint);
+    expect(generateAdaptorSignature(prefixHash, publicKey, privateKey, adaptorPoint)).toEqual(first);
+
+    setEntropySource(length => new Uint8Array(length).fill(8));
+    const second = generateAdaptorSignature(prefixHash, publicKey, privateKey, adaptorPoint);
+    expect(second).not.toEqual(first);
+    expect(verifyAdaptorSignature(prefixHash, publicKey, adaptorPoint, second)).toBe(true);
+
+    setEntropySource(async length => new Uint8Array(length));
+    expect(() => generateAdaptorSignature(prefixHash, publicKey, privateKey, adaptorPoint)).toThrow('asynchronous');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_FEE_POLICY,
+  calculateFee,
+  getFeeRate,
+  getTransactionSize,
+  pickInputsWithFee,
+} from '../src/fees';
+import { TransactionPicker, TransactionSender, createTransaction, parseTransaction } from '../src/transaction';
+import { InMemorySigner } from '../src/signer';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { MIN_FEE } from '../src/config';
+import { WalletOutput } from '../src/types';
+
+const PRIVATE_KEY = '01'.repeat(31) + '0a';
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey(PRIVATE_KEY);
+const RECIPIENT = publicKeyHexToAddress(derivePublicKeyFromPrivateKey('02'.repeat(31) + '0b'));
+const NODE = { ip: '127.0.0.1', port: 21001, ssl: false };
+const HEIGHT = 1_000;
+
+/**
+ * `count` mature outputs of `amount` each, owned by PUBLIC_KEY
+ */
+function outputs(count: number, amount: number): WalletOutput[] {
+  return Array.from({ length: count }, (_, i) => ({
+    key: PUBLIC_KEY,
+    amount,
+    blockHeight: 100,
+    timestamp: 0,
+    transactionHash: i.toString(16).padStart(64, '0'),
+    transactionIndex: 0,
+    outputIndex: 0,
+    unlockTime: 0,
+    transactionPublicKey: PUBLIC_KEY,
+    isSpendable: true,
+  }));
+}
+
+function picker(walletOutputs: WalletOutput[]): TransactionPicker {
+  return new TransactionPicker(walletOutputs, HEIGHT, 10, PUBLIC_KEY);
+}
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('calculateFee', () => {
+  it('charges the tier rate per byte, rounded up, never below the minimum fee', () => {
+    expect(calculateFee(215, 'normal')).toBe(MIN_FEE);
+    expect(calculateFee(215, 'high')).toBe(1_720);
+    expect(calculateFee(1_000, { priority: 'low' })).toBe(2_000);
+    expect(calculateFee(333, { priority: 'normal', policy: { low: 1, normal: 3.5, high: 5 } })).toBe(1_166);
+    expect(calculateFee(0, 'high')).toBe(MIN_FEE);
+  });
+
+  it('rejects a policy without a valid rate', () => {
+    expect(getFeeRate()).toBe(DEFAULT_FEE_POLICY.normal);
+    expect(() => getFeeRate({ priority: 'high', policy: { low: 1, normal: 2, high: -1 } })).toThrow("no valid rate for priority 'high'");
+    expect(() => getFeeRate('urgent' as never)).toThrow("no valid rate for priority 'urgent'");
+  });
+});
+
+describe('pickInputsWithFee', () => {
+  it('pays the minimum fee for a small transaction', () => {
+    const picked = pickInputsWithFee(picker(outputs(1, 100_000)), [{ address: RECIPIENT, amount: 50_000 }], PUBLIC_KEY);
+
+    expect(picked.estimate).toEqual({ fee: MIN_FEE, size: picked.estimate.size, ratePerByte: 4, priority: 'normal' });
+    expect(calculateFee(picked.estimate.size, 'normal')).toBeLessThanOrEqual(MIN_FEE);
+    expect(picked.pickResult.change).toBe(100_000 - 50_000 - MIN_FEE);
+  });
+
+  it('re-picks a many-input wallet until the fee covers the size', () => {
+    const walletOutputs = outputs(40, 10_000);
+    const destinations = [{ address: RECIPIENT, amount: 200_000 }];
+
+    // At the minimum fee 21 inputs would do, but those make the transaction too big for it
+    const atMinimum = picker(walletOutputs).pickInputsForDestinations(destinations, MIN_FEE);
+    expect(atMinimum.inputs).toHaveLength(21);
+    expect(calculateFee(getTransactionSize(atMinimum, PUBLIC_KEY), 'high')).toBeGreaterThan(MIN_FEE);
+
+    const picked = pickInputsWithFee(picker(walletOutputs), destinations, PUBLIC_KEY, 'high');
+    const { fee, size } = picked.estimate;
+    expect(picked.pickResult.inputs.length).toBeGreaterThan(21);
+    expect(size).toBe(getTransactionSize(picked.pickResult, PUBLIC_KEY));
+    expect(fee).toBeGreaterThanOrEqual(calculateFee(size, 'high'));
+    expect(picked.pickResult.fee).toBe(fee);
+    expect(picked.pickResult.totalInput - 200_000 - picked.pickResult.change).toBe(fee);
+  });
+
+  it('uses a flat fee as given', () => {
+    const picked = pickInputsWithFee(picker(outputs(40, 10_000)), [{ address: RECIPIENT, amount: 200_000 }], PUBLIC_KEY, 1_500);
+
+    expect(picked.estimate).toEqual({ fee: 1_500, size: getTransactionSize(picked.pickResult, PUBLIC_KEY), ratePerByte: null, priority: null });
+    expect(picked.pickResult.inputs).toHaveLength(21);
+    expect(picked.pickResult.change).toBe(210_000 - 200_000 - 1_500);
+  });
+
+  it('returns null when the fee cannot be covered', () => {
+    expect(pickInputsWithFee(picker(outputs(2, 10_000)), [{ address: RECIPIENT, amount: 19_500 }], PUBLIC_KEY)).toBeNull();
+    expect(pickInputsWithFee(picker([]), [{ address: RECIPIENT, amount: 1 }], PUBLIC_KEY, 1_000)).toBeNull();
+  });
+});
+
+describe('fees of built transactions', () => {
+  it('match the estimate, the size and inputs minus outputs', async () => {
+    const walletOutputs = outputs(40, 10_000);
+    const destinations = [{ address: RECIPIENT, amount: 200_000 }];
+    const estimate = pickInputsWithFee(picker(walletOutputs), destinations, PUBLIC_KEY, 'high').estimate;
+
+    const built = await createTransaction(walletOutputs, destinations, new InMemorySigner(PRIVATE_KEY), HEIGHT, NODE, 10, 'high');
+    const parsed = parseTransaction(built.txHex);
+    const totalInput = parsed.inputs.reduce((sum, input) => sum + (input.type === 'key' ? input.amount : 0), 0);
+    const totalOutput = parsed.outputs.reduce((sum, output) => sum + output.amount, 0);
+
+    expect(built.fee).toBe(estimate.fee);
+    expect(parsed.fee).toBe(estimate.fee);
+    expect(parsed.fee).toBe(totalInput - totalOutput);
+    expect(built.txHex.length / 2).toBe(estimate.size);
+  });
+
+  it('are reported by TransactionSender from the transaction itself', async () => {
+    const built = await createTransaction(outputs(3, 10_000), [{ address: RECIPIENT, amount: 15_000 }], new InMemorySigner(PRIVATE_KEY), HEIGHT, NODE, 10, 1_234);
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ status: 'OK', transactionHash: built.hash }))));
+
+    expect(await new TransactionSender(NODE).sendTransaction(built.txHex)).toEqual({ hash: built.hash, fee: 1_234 });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FrostKeyShare,
+  FrostDkgRound1Package,
+  frostDkgRound1,
+  frostDkgRound2,
+  frostDkgFinalize,
+  frostCommit,
+  frostSign,
+  frostAggregate,
+  LocalFrostParticipant,
+  FrostSigner,
+} from '../src/frost';
+import { verifySchnorrSignature } from '../src/crypto';
+import { FrostError } from '../src/utils';
+
+const PREFIX_HASH = new Uint8Array(32).fill(0x5a);
+
+/**
+ * Run the whole DKG among participants 1..maxSigners
+ */
+async function runDkg(threshold: number, maxSigners: number, context = 'test'): Promise<FrostKeyShare[]> {
+  const round1 = [];
+  for (let identifier = 1; identifier <= maxSigners; identifier++) {
+    round1.push(await frostDkgRound1(identifier, threshold, maxSigners, context));
+  }
+  const broadcasts = round1.map(result => result.broadcast);
+  const round2 = round1.map(result => frostDkgRound2(result.secret, broadcasts));
+  const allShares = round2.flatMap(result => result.shares);
+
+  return round2.map(result =>
+    frostDkgFinalize(result.secret, allShares.filter(share => share.recipient === result.secret.identifier))
+  );
+}
+
+/**
+ * Both signing rounds for a set of key shares; returns the commitments and signature shares
+ */
+async function signingRounds(keyShares: FrostKeyShare[]) {
+  const nonces = await Promise.all(keyShares.map(frostCommit));
+  const commitments = nonces.map(nonce => nonce.commitment);
+  const shares = keyShares.map((keyShare, i) => frostSign(PREFIX_HASH, keyShare, nonces[i], commitments));
+  return { nonces, commitments, shares };
+}
+
+function subsetsOfAtLeast<T>(items: T[], size: number): T[][] {
+  const subsets: T[][] = [];
+  for (let mask = 1; mask < 1 << items.length; mask++) {
+    const subset = items.filter((_, i) => mask & (1 << i));
+    if (subset.length >= size) {
+      subsets.push(subset);
+    }
+  }
+  return subsets;
+}
+
+function frostError(fn: () => unknown): FrostError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(FrostError);
+    return error as FrostError;
+  }
+  throw new Error('Expected a FrostError');
+}
+
+describe('FROST DKG and signing', () => {
+  for (const [threshold, maxSigners] of [[2, 3], [3, 5]]) {
+    it(`${threshold}-of-${maxSigners}: every qualifying subset produces a valid signature`, async () => {
+      const keyShares = await runDkg(threshold, maxSigners);
+      const { groupPublicKey, verifyingShares } = keyShares[0];
+      for (const keyShare of keyShares) {
+        expect(keyShare).toMatchObject({ groupPublicKey, verifyingShares, threshold, maxSigners });
+      }
+
+      for (const subset of subsetsOfAtLeast(keyShares, threshold)) {
+        const { commitments, shares } = await signingRounds(subset);
+        const signature = frostAggregate(PREFIX_HASH, keyShares[0], commitments, [...shares].reverse());
+        expect(verifySchnorrSignature(PREFIX_HASH, groupPublicKey, signature)).toBe(true);
+      }
+    });
+  }
+
+  it('needs at least threshold signers', async () => {
+    const keyShares = await runDkg(3, 5);
+    const { commitments, shares } = await signingRounds(keyShares.slice(0, 3));
+
+    expect(frostError(() => frostAggregate(PREFIX_HASH, keyShares[0], commitments.slice(0, 2), shares.slice(0, 2))).message)
+      .toBe('Need commitments from at least 3 participants, got 2');
+    expect(frostError(() => frostAggregate(PREFIX_HASH, keyShares[0], commitments, shares.slice(0, 2))).message)
+      .toBe('Missing signature share from participant 3');
+  });
+
+  it('signs prefix hashes through FrostSigner', async () => {
+    const keyShares = await runDkg(2, 3);
+    const signer = new FrostSigner(keyShares[0], keyShares.slice(1).map(keyShare => new LocalFrostParticipant(keyShare)));
+    const groupPublicKey = await signer.getPublicKey();
+
+    for (const fill of [1, 2]) {
+      const prefixHash = new Uint8Array(32).fill(fill);
+      expect(verifySchnorrSignature(prefixHash, groupPublicKey, await signer.signPrefixHash(prefixHash, groupPublicKey))).toBe(true);
+    }
+    await expect(signer.signPrefixHash(PREFIX_HASH, keyShares[0].verifyingShares[1])).rejects.toThrow('No threshold key');
+  });
+});
+
+describe('FROST misbehaviour', () => {
+  it('attributes an invalid signature share to its participant', async () => {
+    const keyShares = await runDkg(3, 5);
+    const { commitments, shares } = await signingRounds([keyShares[0], keyShares[2], keyShares[4]]);
+    const tampered = shares.map(share => share.identifier === 3 ? { ...share, share: shares[0].share } : share);
+
+    const error = frostError(() => frostAggregate(PREFIX_HASH, keyShares[0], commitments, tampered));
+    expect(error.message).toBe('Signature share from participant 3 is invalid');
+    expect(error.details).toEqual({ identifier: 3 });
+
+    // A share made over another message is caught the same way
+    const signers = [keyShares[0], keyShares[2], keyShares[4]];
+    const nonces = await Promise.all(signers.map(frostCommit));
+    const session = nonces.map(nonce => nonce.commitment);
+    const mixed = signers.map((keyShare, i) =>
+      frostSign(i === 2 ? new Uint8Array(32) : PREFIX_HASH, keyShare, nonces[i], session)
+    );
+    expect(frostError(() => frostAggregate(PREFIX_HASH, keyShares[0], session, mixed)).details).toEqual({ identifier: 5 });
+  });
+
+  it('rejects nonce reuse', async () => {
+    const keyShares = await runDkg(2, 3);
+    const nonces = await frostCommit(keyShares[0]);
+    const commitments = [nonces.commitment, (await frostCommit(keyShares[1])).commitment];
+
+    frostSign(PREFIX_HASH, keyShares[0], nonces, commitments);
+    expect(nonces.hiding.every(byte => byte === 0)).toBe(true);
+    expect(frostError(() => frostSign(PREFIX_HASH, keyShares[0], nonces, commitments)).message).toBe('Nonces have already been used');
+    expect(frostError(() => frostSign(PREFIX_HASH, keyShares[1], nonces, commitments)).message).toBe('Nonces belong to a different participant');
+
+    const participant = new LocalFrostParticipant(keyShares[1]);
+    const commitment = await participant.commit();
+    await participant.sign(PREFIX_HASH, [commitments[0], commitment]);
+    await expect(participant.sign(PREFIX_HASH, [commitments[0], commitment])).rejects.toThrow('No pending commitment; call commit first');
+  });
+
+  it('rejects a tampered round 1 proof of knowledge', async () => {
+    const first = await frostDkgRound1(1, 2, 3, 'test');
+    const second = await frostDkgRound1(2, 2, 3, 'test');
+    const third = await frostDkgRound1(3, 2, 3, 'test');
+
+    const proof = second.broadcast.proofOfKnowledge;
+    const tampered: FrostDkgRound1Package = { ...second.broadcast, proofOfKnowledge: proof.slice(0, 64) + third.broadcast.proofOfKnowledge.slice(64) };
+    const error = frostError(() => frostDkgRound2(first.secret, [tampered, third.broadcast]));
+    expect(error.message).toBe('Round 1 package from participant 2 has an invalid proof of knowledge');
+    expect(error.details).toEqual({ identifier: 2 });
+
+    // A proof replayed from another participant or another DKG run fails as well
+    const replayed = { ...third.broadcast, identifier: 2 };
+    expect(frostError(() => frostDkgRound2(first.secret, [replayed, third.broadcast])).message).toContain('participant 2 has an invalid proof of knowledge');
+    const otherRun = await frostDkgRound1(2, 2, 3, 'other');
+    expect(frostError(() => frostDkgRound2(first.secret, [otherRun.broadcast, third.broadcast])).message).toContain('invalid proof of knowledge');
+
+    expect(frostDkgRound2(first.secret, [second.broadcast, third.broadcast]).shares).toHaveLength(2);
+  });
+
+  it('attributes a DKG share that does not match its commitments', async () => {
+    const round1 = await Promise.all([1, 2, 3].map(identifier => frostDkgRound1(identifier, 2, 3)));
+    const round2 = round1.map(result => frostDkgRound2(result.secret, round1.map(r => r.broadcast)));
+    const toFirst = round2.flatMap(result => result.shares).filter(share => share.recipient === 1);
+    toFirst[1] = { ...toFirst[1], share: toFirst[0].share };
+
+    const error = frostError(() => frostDkgFinalize(round2[0].secret, toFirst));
+    expect(error.message).toBe('Share from participant 3 does not match its commitments');
+    expect(error.details).toEqual({ sender: 3 });
+  });
+});
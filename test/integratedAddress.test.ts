@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createIntegratedAddress,
+  decodeIntegratedAddress,
+  extractPaymentId,
+  parseIntegratedAddress,
+  isIntegratedAddress,
+  generatePaymentId,
+  serializePaymentIdNonce,
+  getPaymentIdFromExtra,
+} from '../src/integratedAddress';
+import { TransactionBuilder, TransactionSerializer, parseTransaction } from '../src/transaction';
+import { InMemorySigner } from '../src/signer';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { TESTNET } from '../src/config';
+import { InvalidAddressError, InvalidPaymentIdError, InvalidTransactionError, bytesToHex } from '../src/utils';
+
+const PRIVATE_KEY = '01'.repeat(31) + '0a';
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey(PRIVATE_KEY);
+const ADDRESS = publicKeyHexToAddress(PUBLIC_KEY);
+const RECIPIENT_KEY = derivePublicKeyFromPrivateKey('02'.repeat(31) + '0b');
+const RECIPIENT = publicKeyHexToAddress(RECIPIENT_KEY);
+const PAYMENT_ID = '0123456789abcdef'.repeat(4);
+
+describe('integrated addresses', () => {
+  it('round-trip the public key and payment ID', () => {
+    const integrated = createIntegratedAddress(ADDRESS, PAYMENT_ID.toUpperCase());
+    const info = { integratedAddress: integrated, address: ADDRESS, publicKey: PUBLIC_KEY, paymentId: PAYMENT_ID };
+
+    expect(integrated).not.toBe(ADDRESS);
+    expect(decodeIntegratedAddress(integrated)).toEqual(info);
+    expect(parseIntegratedAddress(integrated)).toEqual(info);
+    expect(extractPaymentId(integrated)).toBe(PAYMENT_ID);
+    expect(isIntegratedAddress(integrated)).toBe(true);
+    expect(isIntegratedAddress(ADDRESS)).toBe(false);
+  });
+
+  it('keep to their network', () => {
+    const testnetAddress = publicKeyHexToAddress(PUBLIC_KEY, TESTNET);
+    const integrated = createIntegratedAddress(testnetAddress, PAYMENT_ID, TESTNET);
+
+    expect(parseIntegratedAddress(integrated, TESTNET).address).toBe(testnetAddress);
+    expect(decodeIntegratedAddress(integrated)).toBeNull();
+    expect(extractPaymentId(integrated)).toBeNull();
+    expect(() => createIntegratedAddress(testnetAddress, PAYMENT_ID)).toThrow(InvalidAddressError);
+  });
+
+  it('reject bad inputs', () => {
+    expect(() => createIntegratedAddress(ADDRESS, 'ab'.repeat(31))).toThrow(InvalidPaymentIdError);
+    expect(() => createIntegratedAddress(ADDRESS, 'zz'.repeat(32))).toThrow(InvalidPaymentIdError);
+    expect(() => parseIntegratedAddress(ADDRESS)).toThrow('not an integrated address');
+
+    const integrated = createIntegratedAddress(ADDRESS, PAYMENT_ID);
+    const corrupted = integrated.slice(0, -1) + (integrated.endsWith('1') ? '2' : '1');
+    expect(() => parseIntegratedAddress(corrupted)).toThrow(InvalidAddressError);
+    expect(decodeIntegratedAddress(corrupted)).toBeNull();
+  });
+
+  it('draw payment IDs from the entropy source', async () => {
+    expect(await generatePaymentId(length => new Uint8Array(length).fill(0xab))).toBe('ab'.repeat(32));
+    expect(await generatePaymentId()).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('payment ID in the extra field', () => {
+  it('is written as a nonce after the transaction public key', () => {
+    expect(bytesToHex(serializePaymentIdNonce(PAYMENT_ID))).toBe('022100' + PAYMENT_ID);
+    expect(bytesToHex(TransactionSerializer.serializeExtra(PUBLIC_KEY, PAYMENT_ID))).toBe('01' + PUBLIC_KEY + '022100' + PAYMENT_ID);
+    expect(() => serializePaymentIdNonce('ab')).toThrow(InvalidPaymentIdError);
+  });
+
+  it('is read back from hex or binary extras and skips other nonces', () => {
+    const extra = '01' + PUBLIC_KEY + '0203aabbcc' + '022100' + PAYMENT_ID;
+    expect(getPaymentIdFromExtra(extra)).toBe(PAYMENT_ID);
+    expect(getPaymentIdFromExtra(TransactionSerializer.serializeExtra(PUBLIC_KEY, PAYMENT_ID))).toBe(PAYMENT_ID);
+    expect(getPaymentIdFromExtra(TransactionSerializer.serializeExtra(PUBLIC_KEY))).toBeNull();
+    expect(getPaymentIdFromExtra('022100' + PAYMENT_ID.slice(2))).toBeNull();   // Truncated
+    expect(getPaymentIdFromExtra('xyz')).toBeNull();
+
+    // Staking data (tag 0x04) before the nonce
+    const staking = '04' + '65' + '01' + '02' + '03' + 'ab'.repeat(64);
+    expect(getPaymentIdFromExtra('01' + PUBLIC_KEY + staking + '022100' + PAYMENT_ID)).toBe(PAYMENT_ID);
+  });
+
+  it('is set by a transaction paying an integrated address, which pays the plain key', async () => {
+    const signer = new InMemorySigner(PRIVATE_KEY);
+    const input = { transactionHash: 'aa'.repeat(32), outputIndex: 0, amount: 100_000, key: PUBLIC_KEY };
+    const integrated = createIntegratedAddress(RECIPIENT, PAYMENT_ID);
+
+    const built = await new TransactionBuilder()
+      .addInput(input, signer)
+      .addOutput(integrated, 60_000)
+      .addOutput(ADDRESS, 30_000)
+      .build();
+
+    const parsed = parseTransaction(built.txHex);
+    expect(parsed.paymentId).toBe(PAYMENT_ID);
+    expect(parsed.publicKey).toBe(PUBLIC_KEY);
+    expect(parsed.outputs).toEqual([{ key: RECIPIENT_KEY, amount: 60_000 }, { key: PUBLIC_KEY, amount: 30_000 }]);
+    expect(getPaymentIdFromExtra(parsed.extra)).toBe(PAYMENT_ID);
+  });
+
+  it('cannot carry two different payment IDs', () => {
+    const builder = new TransactionBuilder().addOutput(createIntegratedAddress(RECIPIENT, PAYMENT_ID), 1);
+    expect(() => builder.addOutput(createIntegratedAddress(RECIPIENT, 'ff'.repeat(32)), 1)).toThrow(InvalidTransactionError);
+    expect(() => builder.addOutput(createIntegratedAddress(ADDRESS, PAYMENT_ID), 1)).not.toThrow();
+  });
+});
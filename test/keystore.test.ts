@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { scrypt } from '@noble/hashes/scrypt';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import {
+  Keystore,
+  createKeystore,
+  unlockKeystore,
+  changeKeystorePassword,
+  parseKeystore,
+  serializeKeystore,
+} from '../src/keystore';
+import { PastellaWallet, derivePublicKeyFromPrivateKey } from '../src/index';
+import { KeystoreError, InvalidPasswordError, hexToBytes, bytesToHex } from '../src/utils';
+
+const PRIVATE_KEY = '01'.repeat(31) + '0a';
+const PASSWORD = 'correct horse';
+const FAST_KDF = { n: 1024, r: 8, p: 1 };
+
+// Private key keystore with salt 01..01 and nonce 02..02, in the format documented in DOCS.md
+const FIXTURE = `{
+  "version": 1,
+  "type": "pastella-keystore",
+  "address": "PAS1bXiH7AYLfcU14GMq38gekAGaRHQmg8HiyoxoPQCi9zGQ1iKotU",
+  "label": "fixture",
+  "creationHeight": 1234,
+  "secretType": "privateKey",
+  "crypto": {
+    "kdf": "scrypt",
+    "kdfparams": {
+      "n": 1024,
+      "r": 8,
+      "p": 1,
+      "dklen": 32,
+      "salt": "0101010101010101010101010101010101010101010101010101010101010101"
+    },
+    "cipher": "xchacha20-poly1305",
+    "cipherparams": {
+      "nonce": "020202020202020202020202020202020202020202020202"
+    },
+    "ciphertext": "ba93f3e52106949275c4e0102a19fd57c3ae451a109f8e8ab0c30c8a6dc28d84eb7cdd245c007298e870044b9266150caa60c02b0cc196d09e22dedd7ae5881cd85379ce11e918b3937ad930c443bfa2"
+  }
+}`;
+
+function edit(changes: (keystore: any) => void): string {
+  const keystore = JSON.parse(FIXTURE);
+  changes(keystore);
+  return JSON.stringify(keystore);
+}
+
+describe('keystore fixture', () => {
+  it('unlocks to the known private key', async () => {
+    const unlocked = await unlockKeystore(FIXTURE, PASSWORD);
+    expect(unlocked).toEqual({
+      secretType: 'privateKey',
+      mnemonic: null,
+      privateKey: PRIVATE_KEY,
+      publicKey: derivePublicKeyFromPrivateKey(PRIVATE_KEY),
+      address: 'PAS1bXiH7AYLfcU14GMq38gekAGaRHQmg8HiyoxoPQCi9zGQ1iKotU',
+      label: 'fixture',
+      creationHeight: 1234,
+    });
+  });
+
+  it('matches the documented construction', () => {
+    const key = scrypt(new TextEncoder().encode(PASSWORD), new Uint8Array(32).fill(1), { N: 1024, r: 8, p: 1, dkLen: 32 });
+    const aad = new TextEncoder().encode('pastella-keystore:1:privateKey:PAS1bXiH7AYLfcU14GMq38gekAGaRHQmg8HiyoxoPQCi9zGQ1iKotU:1234');
+    const ciphertext = xchacha20poly1305(key, new Uint8Array(24).fill(2), aad).encrypt(new TextEncoder().encode(PRIVATE_KEY));
+    expect(bytesToHex(ciphertext)).toBe(JSON.parse(FIXTURE).crypto.ciphertext);
+  });
+
+  it('is reproduced by createKeystore with the same salt and nonce', async () => {
+    let fill = 0;
+    const keystore = await createKeystore({ privateKey: PRIVATE_KEY }, PASSWORD, {
+      label: 'fixture',
+      creationHeight: 1234,
+      kdf: FAST_KDF,
+      entropySource: length => new Uint8Array(length).fill(++fill),
+    });
+    expect(serializeKeystore(keystore)).toBe(FIXTURE);
+  });
+
+  it('rejects a wrong password', async () => {
+    await expect(unlockKeystore(FIXTURE, 'wrong horse')).rejects.toBeInstanceOf(InvalidPasswordError);
+  });
+
+  it('rejects tampered authenticated fields but not an edited label', async () => {
+    const tampered = [
+      edit(keystore => { keystore.creationHeight = 0; }),
+      edit(keystore => { keystore.secretType = 'mnemonic'; }),
+      edit(keystore => { keystore.address = PastellaWallet.generateWalletFromEntropy(new Uint8Array(32).fill(3)).address; }),
+      edit(keystore => { keystore.crypto.ciphertext = '00' + keystore.crypto.ciphertext.slice(2); }),
+    ];
+    for (const keystore of tampered) {
+      await expect(unlockKeystore(keystore, PASSWORD)).rejects.toBeInstanceOf(InvalidPasswordError);
+    }
+
+    const relabelled = await unlockKeystore(edit(keystore => { keystore.label = 'renamed'; }), PASSWORD);
+    expect(relabelled.label).toBe('renamed');
+  });
+});
+
+describe('changeKeystorePassword', () => {
+  it('re-encrypts under the new password with a fresh salt and nonce', async () => {
+    const changed = await changeKeystorePassword(FIXTURE, PASSWORD, 'battery staple');
+    const original = parseKeystore(FIXTURE);
+
+    expect(changed.crypto.kdfparams).toMatchObject(FAST_KDF);
+    expect(changed.crypto.kdfparams.salt).not.toBe(original.crypto.kdfparams.salt);
+    expect(changed.crypto.cipherparams.nonce).not.toBe(original.crypto.cipherparams.nonce);
+    expect({ ...changed, crypto: undefined }).toEqual({ ...original, crypto: undefined });
+
+    await expect(unlockKeystore(changed, PASSWORD)).rejects.toBeInstanceOf(InvalidPasswordError);
+    expect((await unlockKeystore(changed, 'battery staple')).privateKey).toBe(PRIVATE_KEY);
+  });
+
+  it('keeps a mnemonic secret a mnemonic', async () => {
+    const { mnemonic } = PastellaWallet.generateWalletFromEntropy(hexToBytes('ab'.repeat(32)));
+    const keystore = await createKeystore({ mnemonic }, PASSWORD, { kdf: FAST_KDF });
+    const changed = await changeKeystorePassword(keystore, PASSWORD, 'battery staple', { kdf: { n: 2048, r: 8, p: 1 } });
+
+    expect(changed.crypto.kdfparams.n).toBe(2048);
+    expect((await unlockKeystore(changed, 'battery staple')).mnemonic).toBe(mnemonic);
+  });
+});
+
+describe('parseKeystore', () => {
+  const invalid: [string, string | Keystore][] = [
+    ['Keystore is not valid JSON', '{'],
+    ['Not a Pastella keystore', '[]'],
+    ['Unsupported keystore version: 2', edit(keystore => { keystore.version = 2; })],
+    ['Unknown secret type: seed', edit(keystore => { keystore.secretType = 'seed'; })],
+    ['Keystore address or creation height is invalid', edit(keystore => { keystore.creationHeight = '1234'; })],
+    ['Unsupported keystore KDF or cipher', edit(keystore => { keystore.crypto.kdf = 'pbkdf2'; })],
+    ['scrypt N must be a power of two', edit(keystore => { keystore.crypto.kdfparams.n = '1024'; })],
+    ['scrypt parameters need more than', edit(keystore => { keystore.crypto.kdfparams.n = 2 ** 30; })],
+    ['Unsupported derived key length: 64', edit(keystore => { keystore.crypto.kdfparams.dklen = 64; })],
+    ['Keystore salt must be 32 bytes', edit(keystore => { keystore.crypto.kdfparams.salt = '01'; })],
+    ['Keystore nonce must be a hex string', edit(keystore => { delete keystore.crypto.cipherparams; })],
+    ['Keystore ciphertext is too short', edit(keystore => { keystore.crypto.ciphertext = '00'.repeat(16); })],
+  ];
+
+  for (const [message, input] of invalid) {
+    it(`rejects: ${message}`, () => {
+      expect(() => parseKeystore(input)).toThrow(KeystoreError);
+      expect(() => parseKeystore(input)).toThrow(message);
+    });
+  }
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { keccak256 } from 'js-sha3';
+import {
+  MESSAGE_SIGNATURE_PREFIX,
+  hashMessage,
+  signMessage,
+  verifyMessage,
+  encodeMessageSignature,
+  decodeMessageSignature,
+} from '../src/message';
+import { generateSchnorrSignature, verifySchnorrSignature } from '../src/crypto';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress, base58Encode, base58Decode } from '../src/index';
+import { hexToBytes } from '../src/utils';
+import { TESTNET } from '../src/config';
+
+const PRIVATE_KEY = '01'.repeat(31) + '0a';
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey(PRIVATE_KEY);
+const ADDRESS = publicKeyHexToAddress(PUBLIC_KEY);
+const OTHER_ADDRESS = publicKeyHexToAddress(derivePublicKeyFromPrivateKey('02'.repeat(31) + '0b'));
+
+describe('signMessage / verifyMessage', () => {
+  it('verifies hex, raw and compact signatures', () => {
+    const signed = signMessage('hello pastella', PRIVATE_KEY);
+    expect(signed.address).toBe(ADDRESS);
+    expect(signed.encoded.startsWith(MESSAGE_SIGNATURE_PREFIX)).toBe(true);
+
+    expect(verifyMessage('hello pastella', ADDRESS, signed.signature)).toBe(true);
+    expect(verifyMessage('hello pastella', ADDRESS, hexToBytes(signed.signature))).toBe(true);
+    expect(verifyMessage('hello pastella', ADDRESS, signed.encoded)).toBe(true);
+    expect(verifyMessage(new TextEncoder().encode('hello pastella'), ADDRESS, signed.signature)).toBe(true);
+  });
+
+  it('rejects another message, another address and malformed signatures', () => {
+    const signed = signMessage('hello pastella', PRIVATE_KEY);
+
+    expect(verifyMessage('hello pastella!', ADDRESS, signed.signature)).toBe(false);
+    expect(verifyMessage('hello pastella', OTHER_ADDRESS, signed.signature)).toBe(false);
+    expect(verifyMessage('hello pastella', OTHER_ADDRESS, signed.encoded)).toBe(false);
+    expect(verifyMessage('hello pastella', 'PAS1notanaddress', signed.signature)).toBe(false);
+    expect(verifyMessage('hello pastella', ADDRESS, signed.signature.slice(2))).toBe(false);
+    expect(verifyMessage('hello pastella', ADDRESS, new Uint8Array(63))).toBe(false);
+  });
+
+  it('signs and verifies on the given network', () => {
+    const signed = signMessage('hello testnet', PRIVATE_KEY, TESTNET);
+    expect(signed.address).toBe(publicKeyHexToAddress(PUBLIC_KEY, TESTNET));
+
+    expect(verifyMessage('hello testnet', signed.address, signed.signature, TESTNET)).toBe(true);
+    expect(verifyMessage('hello testnet', signed.address, signed.encoded, TESTNET)).toBe(true);
+    expect(verifyMessage('hello testnet', signed.address, signed.signature)).toBe(false);
+    expect(decodeMessageSignature(signed.encoded, TESTNET).address).toBe(signed.address);
+
+    // The compact encoding carries the key, not the network
+    expect(decodeMessageSignature(signed.encoded).address).toBe(ADDRESS);
+  });
+
+  it('cannot be replayed as a transaction signature or the other way round', () => {
+    // Treat the message as a transaction prefix: its prefix hash is plain Keccak-256
+    const prefix = new TextEncoder().encode('transfer 100 PAS');
+    const prefixHash = hexToBytes(keccak256(prefix));
+    expect(hashMessage(prefix)).not.toEqual(prefixHash);
+
+    const messageSignature = hexToBytes(signMessage(prefix, PRIVATE_KEY).signature);
+    expect(verifySchnorrSignature(prefixHash, PUBLIC_KEY, messageSignature)).toBe(false);
+
+    const transactionSignature = generateSchnorrSignature(prefixHash, PUBLIC_KEY, PRIVATE_KEY);
+    expect(verifyMessage(prefix, ADDRESS, transactionSignature)).toBe(false);
+    expect(verifyMessage(prefixHash, ADDRESS, transactionSignature)).toBe(false);
+  });
+
+  it('length-prefixes the message so the domain cannot be extended', () => {
+    expect(hashMessage('ab')).not.toEqual(hashMessage('a'));
+    expect(hashMessage(new Uint8Array(200))).toHaveLength(32);
+  });
+});
+
+describe('compact encoding', () => {
+  it('round-trips the address and signature', () => {
+    const signed = signMessage('hello pastella', PRIVATE_KEY);
+    const decoded = decodeMessageSignature(signed.encoded);
+
+    expect(decoded).toEqual({ address: ADDRESS, publicKey: PUBLIC_KEY, signature: hexToBytes(signed.signature) });
+    expect(encodeMessageSignature(ADDRESS, decoded.signature)).toBe(signed.encoded);
+  });
+
+  it('rejects a wrong prefix, length or checksum', () => {
+    const { encoded } = signMessage('hello pastella', PRIVATE_KEY);
+    const payload = base58Decode(encoded.slice(MESSAGE_SIGNATURE_PREFIX.length));
+    payload[99] ^= 1;
+
+    expect(() => decodeMessageSignature(encoded.slice(1))).toThrow(`Message signature must start with ${MESSAGE_SIGNATURE_PREFIX}`);
+    expect(() => decodeMessageSignature(MESSAGE_SIGNATURE_PREFIX + base58Encode(payload.slice(0, 99)))).toThrow('Invalid message signature length: 99');
+    expect(() => decodeMessageSignature(MESSAGE_SIGNATURE_PREFIX + base58Encode(payload))).toThrow('Message signature checksum mismatch');
+    expect(() => encodeMessageSignature(ADDRESS, new Uint8Array(63))).toThrow('Signature must be 64 bytes, got 63');
+  });
+});
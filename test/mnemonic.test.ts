@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  PastellaWallet,
+  deriveKeysFromMnemonic,
+  publicKeyHexToAddress,
+  setEntropySource,
+  getSecureRandomBytes,
+  getSecureRandomBytesSync,
+} from '../src/index';
+import { hexToBytes } from '../src/utils';
+
+// The published vectors from DOCS.md ("Generate a wallet" > "Test vectors")
+const VECTORS = [
+  {
+    entropy: '0101010101010101010101010101010101010101010101010101010101010101',
+    mnemonic: 'myriad vane vector myriad vane vector myriad vane vector myriad vane vector myriad vane vector myriad vane vector myriad vane vector myriad vane vector vector',
+    privateKey: '0101010101010101010101010101010101010101010101010101010101010101',
+    publicKey: '130ae82201d7072e6fbfc0a1884fb54636554d14945b799125cf7ce38d477f51',
+    address: 'PAS1B6q2Me8cy3QUqegFJFELGa3CE61AKGJRQgyBMe6x3i9X1Pt5D4',
+  },
+  {
+    entropy: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+    mnemonic: 'slower aisle gorilla antics lemon okay potato lullaby abbey family gained bluntly veteran enigma pierce films adept voted vexed enjoy pigment upcoming delayed emulate abbey',
+    privateKey: '0b8cd3511840cc1e498fba7d5c019ccb0023456789abcdef0123456789abcd0f',
+    publicKey: 'f8c7bb219be239d4160b03cef994e29bffee54211df47026694c7aa768c5d369',
+    address: 'PAS1d29gyspeqg89aV1LZnRuNdLoGbKXAhtMdLrB27Qs8VowVK8NGg',
+  },
+  {
+    entropy: 'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    mnemonic: 'powder directed sayings enmity bacon vapidly entrance bumper noodles iguana sleepless nasty flying soil software foamy solved soggy foamy solved soggy jury yawning ankle solved',
+    privateKey: '1c95988d7431ecd670cf7d73f45befc6feffffffffffffffffffffffffffff0f',
+    publicKey: 'db27fe4b7a4beb8c1b8c38a21e943a852304c9bb3035a5f36626b51162a68f9c',
+    address: 'PAS1ZgJTT6qDhXAjhkDXdoRo1BEFGvKsV9yTQEKDsyXf7K6HLhWYbj',
+  },
+];
+
+describe('wallet generation vectors', () => {
+  for (const vector of VECTORS) {
+    it(`entropy ${vector.entropy.slice(0, 8)}... derives the published mnemonic, keys and address`, () => {
+      const wallet = PastellaWallet.generateWalletFromEntropy(hexToBytes(vector.entropy));
+      expect(wallet.mnemonic).toBe(vector.mnemonic);
+      expect(wallet.address).toBe(vector.address);
+
+      const keys = deriveKeysFromMnemonic(vector.mnemonic);
+      expect(keys.privateKey).toBe(vector.privateKey);
+      expect(keys.publicKey).toBe(vector.publicKey);
+      expect(publicKeyHexToAddress(keys.publicKey)).toBe(vector.address);
+    });
+  }
+
+  it('rejects entropy that is not 32 bytes', () => {
+    expect(() => PastellaWallet.generateWalletFromEntropy(new Uint8Array(31))).toThrow('Entropy must be 32 bytes');
+  });
+});
+
+describe('setEntropySource', () => {
+  afterEach(() => setEntropySource(null));
+
+  it('is used for wallet generation', async () => {
+    const requested: number[] = [];
+    setEntropySource(length => {
+      requested.push(length);
+      return new Uint8Array(length).fill(1);
+    });
+
+    const wallet = await PastellaWallet.generateWallet();
+    expect(requested).toEqual([32]);
+    expect(wallet.address).toBe(VECTORS[0].address);
+  });
+
+  it('is used by synchronous callers and rejects async sources there', async () => {
+    setEntropySource(length => new Uint8Array(length).fill(7));
+    expect(getSecureRandomBytesSync(4)).toEqual(new Uint8Array(4).fill(7));
+
+    setEntropySource(async length => new Uint8Array(length));
+    await expect(getSecureRandomBytes(4)).resolves.toHaveLength(4);
+    expect(() => getSecureRandomBytesSync(4)).toThrow('asynchronous');
+  });
+
+  it('rejects a source returning the wrong length', async () => {
+    setEntropySource(() => new Uint8Array(16));
+    await expect(getSecureRandomBytes(32)).rejects.toThrow('Entropy source must return 32 bytes');
+  });
+
+  it('falls back to the platform CSPRNG', async () => {
+    const first = await getSecureRandomBytes(32);
+    const second = await getSecureRandomBytes(32);
+    expect(first).toHaveLength(32);
+    expect(first).not.toEqual(second);
+  });
+});
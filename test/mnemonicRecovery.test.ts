@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { PastellaWallet, diagnoseMnemonic, recoverMnemonic, validateMnemonic } from '../src/index';
+import { InvalidMnemonicError, hexToBytes } from '../src/utils';
+
+const ENTROPY = hexToBytes('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef');
+const { mnemonic: MNEMONIC, address: ADDRESS } = PastellaWallet.generateWalletFromEntropy(ENTROPY);
+const WORDS = MNEMONIC.split(' ');
+
+function withWord(index: number, word: string): string {
+  const words = [...WORDS];
+  words[index] = word;
+  return words.join(' ');
+}
+
+describe('diagnoseMnemonic', () => {
+  it('accepts a valid mnemonic', () => {
+    const diagnosis = diagnoseMnemonic(MNEMONIC);
+    expect(diagnosis).toMatchObject({ valid: true, wordCount: 25, language: 'english', checksumValid: true, errors: [] });
+    expect(diagnosis.expectedChecksumWord).toBe(WORDS[24]);
+    expect(validateMnemonic(MNEMONIC)).toBe(true);
+  });
+
+  it('reports an unknown word with suggestions for it', () => {
+    const typo = WORDS[5].slice(0, -1) + 'q';
+    const diagnosis = diagnoseMnemonic(withWord(5, typo));
+
+    expect(diagnosis.valid).toBe(false);
+    expect(diagnosis.unknownWords).toHaveLength(1);
+    expect(diagnosis.unknownWords[0]).toMatchObject({ index: 5, word: typo });
+    expect(diagnosis.unknownWords[0].suggestions).toContain(WORDS[5]);
+    expect(diagnosis.errors).toContain(`Unknown word at position 6: ${typo}`);
+    expect(diagnosis.expectedChecksumWord).toBeNull();
+  });
+
+  it('reports a wrong checksum word and the expected one', () => {
+    const wrong = WORDS[0] === WORDS[24] ? WORDS[1] : WORDS[0];
+    const diagnosis = diagnoseMnemonic(withWord(24, wrong));
+
+    expect(diagnosis.valid).toBe(false);
+    expect(diagnosis.checksumValid).toBe(false);
+    expect(diagnosis.expectedChecksumWord).toBe(WORDS[24]);
+    expect(diagnosis.errors).toEqual([`Wrong checksum word: expected ${WORDS[24]}, got ${wrong}`]);
+    expect(validateMnemonic(withWord(24, wrong))).toBe(false);
+  });
+
+  it('reports the word count and words from no language', () => {
+    expect(diagnoseMnemonic(WORDS.slice(0, 24).join(' ')).errors).toContain('Mnemonic must have exactly 25 words, got 24');
+    expect(diagnoseMnemonic('').wordCount).toBe(0);
+
+    const diagnosis = diagnoseMnemonic('notaword '.repeat(25));
+    expect(diagnosis.language).toBeNull();
+    expect(diagnosis.unknownWords).toHaveLength(25);
+  });
+
+  it('is carried by the InvalidMnemonicError thrown on import', async () => {
+    const error = await PastellaWallet.importFromMnemonic(withWord(2, 'zzzz')).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidMnemonicError);
+    expect(error.code).toBe('INVALID_MNEMONIC');
+    expect(error.details.unknownWords.map((issue: { index: number }) => issue.index)).toEqual([2]);
+  });
+});
+
+describe('recoverMnemonic', () => {
+  it('restores a missing word', () => {
+    const missing = [...WORDS.slice(0, 7), ...WORDS.slice(8)].join(' ');
+    const candidates = recoverMnemonic(missing, { knownAddress: ADDRESS, maxCandidates: 1 });
+    expect(candidates).toEqual([{ mnemonic: MNEMONIC, address: ADDRESS, position: 7, kind: 'missing' }]);
+  });
+
+  it('restores a missing checksum word without searching', () => {
+    expect(recoverMnemonic(WORDS.slice(0, 24).join(' '), { maxCandidates: 1 }))
+      .toEqual([{ mnemonic: MNEMONIC, address: ADDRESS, position: 24, kind: 'missing' }]);
+  });
+
+  it('replaces a mistyped word, closest suggestion first', () => {
+    const candidates = recoverMnemonic(withWord(10, WORDS[10].slice(0, -1)));
+    expect(candidates.length).toBeGreaterThan(0);
+    expect(candidates.every(candidate => candidate.position === 10 && candidate.kind === 'substituted')).toBe(true);
+    expect(candidates.find(candidate => candidate.address === ADDRESS)?.mnemonic).toBe(MNEMONIC);
+  });
+
+  it('undoes two swapped words when the address is known', () => {
+    const index = WORDS.findIndex((word, i) => i < 23 && word !== WORDS[i + 1]);
+    const swapped = [...WORDS];
+    [swapped[index], swapped[index + 1]] = [swapped[index + 1], swapped[index]];
+
+    const candidates = recoverMnemonic(swapped.join(' '), { knownAddress: ADDRESS });
+    expect(candidates).toEqual([{ mnemonic: MNEMONIC, address: ADDRESS, position: index, kind: 'transposed' }]);
+  });
+
+  it('refuses more than one unknown word', () => {
+    expect(() => recoverMnemonic(withWord(1, 'zzzz').replace(WORDS[3], 'yyyy')))
+      .toThrow('Cannot recover more than one unknown word, got 2');
+    expect(() => recoverMnemonic(WORDS.slice(0, 20).join(' '))).toThrow('Can only recover a single word: got 20 words');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodePaymentUri,
+  encodePaymentQrPayload,
+  parsePaymentUri,
+  paymentRequestToDestination,
+} from '../src/paymentUri';
+import { createIntegratedAddress } from '../src/integratedAddress';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { TESTNET } from '../src/config';
+import { InvalidPaymentUriError } from '../src/utils';
+
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey('01'.repeat(31) + '0a');
+const ADDRESS = publicKeyHexToAddress(PUBLIC_KEY);
+const NOW = 1_700_000_000;
+
+function parseError(uri: string): InvalidPaymentUriError {
+  try {
+    parsePaymentUri(uri, NOW);
+  } catch (error) {
+    return error as InvalidPaymentUriError;
+  }
+  throw new Error(`Expected ${uri} to be rejected`);
+}
+
+describe('encodePaymentUri / parsePaymentUri', () => {
+  it('round-trips every field', () => {
+    const request = {
+      address: ADDRESS,
+      amount: 1_250_000_000,
+      label: 'Coffee Shop',
+      message: 'Order #42 & co — merci',
+      expires: NOW + 600,
+      extra: { ref: 'a b' },
+    };
+    const uri = encodePaymentUri(request);
+
+    expect(uri).toBe(`pastella:${ADDRESS}?amount=12.5&label=Coffee%20Shop&message=Order%20%2342%20%26%20co%20%E2%80%94%20merci&expires=${NOW + 600}&ref=a%20b`);
+    expect(parsePaymentUri(uri, NOW)).toEqual({ ...request, expired: false });
+    expect(parsePaymentUri(uri, NOW + 600).expired).toBe(true);
+  });
+
+  it('writes exact coin amounts and atomic amounts', () => {
+    const amounts: [number, string][] = [[1, '0.00000001'], [100_000_000, '1'], [123_456_789, '1.23456789'], [0, '0']];
+    for (const [atomic, coins] of amounts) {
+      const uri = encodePaymentUri({ address: ADDRESS, amount: atomic });
+      expect(uri).toBe(`pastella:${ADDRESS}?amount=${coins}`);
+      expect(parsePaymentUri(uri).amount).toBe(atomic);
+    }
+
+    const atomicUri = encodePaymentUri({ address: ADDRESS, amount: 123_456_789 }, { amountUnit: 'atomic' });
+    expect(atomicUri).toBe(`pastella:${ADDRESS}?amount_atomic=123456789`);
+    expect(parsePaymentUri(atomicUri).amount).toBe(123_456_789);
+  });
+
+  it('accepts integrated addresses, the // form and testnet addresses', () => {
+    const integrated = createIntegratedAddress(ADDRESS, 'ab'.repeat(32));
+    expect(parsePaymentUri(`pastella:${integrated}?amount=1`).address).toBe(integrated);
+    expect(parsePaymentUri(`PASTELLA://${ADDRESS}`).address).toBe(ADDRESS);
+
+    const testnetAddress = publicKeyHexToAddress(PUBLIC_KEY, TESTNET);
+    const uri = encodePaymentUri({ address: testnetAddress, amount: 5 }, { network: TESTNET });
+    expect(parsePaymentUri(uri, NOW, TESTNET).address).toBe(testnetAddress);
+    expect(() => parsePaymentUri(uri, NOW)).toThrow(`Invalid address: ${testnetAddress}`);
+    expect(() => encodePaymentUri({ address: testnetAddress })).toThrow(InvalidPaymentUriError);
+  });
+});
+
+describe('amount precision', () => {
+  it('rejects more than 8 decimal places', () => {
+    const error = parseError(`pastella:${ADDRESS}?amount=0.000000001`);
+    expect(error).toBeInstanceOf(InvalidPaymentUriError);
+    expect(error.message).toBe('Amount 0.000000001 has more than 8 decimal places');
+    expect(error.details).toEqual({ amount: '0.000000001', decimals: 8 });
+
+    // Trailing zeros beyond the precision are still excess precision
+    expect(parseError(`pastella:${ADDRESS}?amount=1.000000000`).message).toContain('more than 8 decimal places');
+  });
+
+  it('rejects malformed and unsafe amounts', () => {
+    for (const amount of ['-1', '1e8', '.5', '1.', '0x10', '']) {
+      expect(parseError(`pastella:${ADDRESS}?amount=${amount}`).message).toBe(`Invalid amount: ${amount}`);
+    }
+    expect(parseError(`pastella:${ADDRESS}?amount_atomic=1.5`).message).toBe('Invalid atomic amount: 1.5');
+    expect(parseError(`pastella:${ADDRESS}?amount=100000000`).message).toContain('non-negative integer number of atomic units');
+    expect(parseError(`pastella:${ADDRESS}?amount_atomic=9007199254740993`).message).toContain('non-negative integer number of atomic units');
+
+    expect(() => encodePaymentUri({ address: ADDRESS, amount: 1.5 })).toThrow('non-negative integer number of atomic units: 1.5');
+    expect(() => encodePaymentUri({ address: ADDRESS, amount: -1 })).toThrow('non-negative integer number of atomic units: -1');
+  });
+});
+
+describe('parsePaymentUri errors', () => {
+  const cases: [string, string][] = [
+    ['bitcoin:' + ADDRESS, 'Payment URI must start with "pastella:"'],
+    [ADDRESS, 'Payment URI must start with "pastella:"'],
+    [`pastella:${ADDRESS.slice(0, -1)}x`, `Invalid address: ${ADDRESS.slice(0, -1)}x`],
+    [`pastella:${ADDRESS}?label=a&label=b`, 'Duplicate parameter: label'],
+    [`pastella:${ADDRESS}?amount=1&amount_atomic=1`, 'Use either amount or amount_atomic, not both'],
+    [`pastella:${ADDRESS}?expires=soon`, 'Invalid expiry: soon'],
+    [`pastella:${ADDRESS}?req-signature=1`, 'Unsupported required parameter: req-signature'],
+    [`pastella:${ADDRESS}?label=%E2%80`, 'Invalid percent-encoding: %E2%80'],
+  ];
+
+  for (const [uri, message] of cases) {
+    it(message, () => {
+      expect(parseError(uri)).toBeInstanceOf(InvalidPaymentUriError);
+      expect(parseError(uri).message).toBe(message);
+    });
+  }
+});
+
+describe('encoding limits and destinations', () => {
+  it('refuses clashing extras, bad expiries and oversized QR payloads', () => {
+    expect(() => encodePaymentUri({ address: ADDRESS, extra: { amount: '1' } })).toThrow('Extra parameter "amount" clashes with a standard parameter');
+    expect(() => encodePaymentUri({ address: ADDRESS, expires: 0 })).toThrow('Expiry must be a positive Unix timestamp in seconds');
+    expect(encodePaymentQrPayload({ address: ADDRESS, amount: 1 })).toBe(`pastella:${ADDRESS}?amount=0.00000001`);
+    expect(() => encodePaymentQrPayload({ address: ADDRESS, message: 'x'.repeat(3000) })).toThrow('Payment URI is too long for a QR code');
+  });
+
+  it('turns a request into a destination unless it has no amount or expired', () => {
+    const request = parsePaymentUri(`pastella:${ADDRESS}?amount=2&expires=${NOW + 1}`, NOW);
+    expect(paymentRequestToDestination(request, NOW)).toEqual({ address: ADDRESS, amount: 200_000_000 });
+    expect(() => paymentRequestToDestination(request, NOW + 1)).toThrow('Payment request has expired');
+    expect(() => paymentRequestToDestination({ address: ADDRESS }, NOW)).toThrow('Payment request has no amount');
+  });
+});
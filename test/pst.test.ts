@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PartiallySignedTransaction,
+  createPst,
+  signPst,
+  addPstSignature,
+  combinePsts,
+  inspectPst,
+  finalizePst,
+  parsePst,
+  serializePst,
+} from '../src/pst';
+import { TransactionPickResult, parseTransaction } from '../src/transaction';
+import { InMemorySigner } from '../src/signer';
+import { createIntegratedAddress } from '../src/integratedAddress';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { TESTNET } from '../src/config';
+import { InvalidPstError } from '../src/utils';
+import { WalletOutput } from '../src/types';
+
+const KEY_A = '01'.repeat(31) + '0a';
+const KEY_B = '02'.repeat(31) + '0b';
+const PUBLIC_A = derivePublicKeyFromPrivateKey(KEY_A);
+const PUBLIC_B = derivePublicKeyFromPrivateKey(KEY_B);
+const RECIPIENT_KEY = derivePublicKeyFromPrivateKey('03'.repeat(31) + '0c');
+const RECIPIENT = publicKeyHexToAddress(RECIPIENT_KEY);
+const OTHER = publicKeyHexToAddress(derivePublicKeyFromPrivateKey('04'.repeat(31) + '0d'));
+
+/**
+ * One input owned by A, one by B; pays 70_000 to RECIPIENT, change to A
+ */
+function pickResult(amountA = 50_000, destinations = [{ address: RECIPIENT, amount: 70_000 }]): TransactionPickResult {
+  const inputs = [
+    { transactionHash: 'aa'.repeat(32), outputIndex: 0, publicKey: PUBLIC_A, amount: amountA },
+    { transactionHash: 'bb'.repeat(32), outputIndex: 1, publicKey: PUBLIC_B, amount: 40_000 },
+  ].map(({ amount, ...input }) => ({ ...input, output: { key: input.publicKey, amount } as WalletOutput }));
+  const totalInput = amountA + 40_000;
+  const sent = destinations.reduce((sum, destination) => sum + destination.amount, 0);
+  return { inputs, totalInput, fee: 1_000, change: totalInput - sent - 1_000, destinations };
+}
+
+function expectInvalid(pst: PartiallySignedTransaction, message: string) {
+  expect(() => parsePst(pst)).toThrow(InvalidPstError);
+  expect(() => parsePst(pst)).toThrow(message);
+}
+
+describe('PST workflow', () => {
+  it('signs on separate machines, combines and finalizes', async () => {
+    const json = serializePst(createPst(pickResult(), PUBLIC_A));
+
+    const signedA = await signPst(parsePst(json), new InMemorySigner(KEY_A));
+    const signedB = await signPst(JSON.parse(json), new InMemorySigner(KEY_B));
+    expect(inspectPst(signedA)).toMatchObject({ signedInputs: 1, missingInputs: [1], missingKeys: [PUBLIC_B], complete: false });
+    expect(() => finalizePst(signedA)).toThrow('1 of 2 inputs are not signed yet');
+
+    const combined = combinePsts([signedA, signedB]);
+    expect(inspectPst(combined)).toEqual({
+      network: 'mainnet',
+      totalInput: 90_000,
+      totalOutput: 89_000,
+      fee: 1_000,
+      destinations: [{ address: RECIPIENT, amount: 70_000 }],
+      change: 19_000,
+      signedInputs: 2,
+      missingInputs: [],
+      missingKeys: [],
+      complete: true,
+    });
+
+    const parsed = parseTransaction(finalizePst(combined).txHex);
+    expect(parsed.fee).toBe(1_000);
+    expect(parsed.publicKey).toBe(PUBLIC_A);
+    expect(parsed.outputs).toEqual([{ key: RECIPIENT_KEY, amount: 70_000 }, { key: PUBLIC_A, amount: 19_000 }]);
+  });
+
+  it('keeps the payment ID of an integrated destination and checks the network', () => {
+    const paymentId = 'ab'.repeat(32);
+    const pst = createPst(pickResult(50_000, [{ address: createIntegratedAddress(RECIPIENT, paymentId), amount: 70_000 }]), PUBLIC_A);
+    expect(inspectPst(pst).paymentId).toBe(paymentId);
+    expect(() => parsePst(pst, TESTNET)).toThrow(`PST is for mainnet, expected ${TESTNET.name}`);
+  });
+
+  it('accepts only signatures that verify', async () => {
+    const pst = createPst(pickResult(), PUBLIC_A);
+    const other = await signPst(createPst(pickResult(60_000), PUBLIC_A), new InMemorySigner(KEY_A));
+
+    expect(() => addPstSignature(pst, 0, other.inputs[0].signature)).toThrow('Signature does not verify for input 0');
+    expect(() => addPstSignature(pst, 5, other.inputs[0].signature)).toThrow('No input at index 5');
+    expectInvalid({ ...pst, inputs: [{ ...pst.inputs[0], signature: other.inputs[0].signature }, pst.inputs[1]] }, 'Signature does not verify for input 0');
+  });
+});
+
+describe('PST tampering', () => {
+  it('rejects a modified prefix or an output that no longer matches it', () => {
+    const pst = createPst(pickResult(), PUBLIC_A);
+    const prefix = pst.prefix.slice(0, -2) + (pst.prefix.endsWith('00') ? '01' : '00');
+
+    expectInvalid({ ...pst, prefix }, 'PST prefix does not match its inputs and outputs');
+    expectInvalid({ ...pst, transactionPublicKey: PUBLIC_B }, 'PST output 1 is marked as change but does not pay the change key');
+    expectInvalid(
+      { ...pst, transactionPublicKey: PUBLIC_B, outputs: [pst.outputs[0], { ...pst.outputs[1], key: PUBLIC_B }] },
+      'PST prefix does not match its inputs and outputs'
+    );
+
+    // Moving value from change to the destination keeps the totals but changes the prefix
+    const outputs = [{ ...pst.outputs[0], amount: 80_000 }, { ...pst.outputs[1], amount: 9_000 }];
+    expectInvalid({ ...pst, outputs }, 'PST prefix does not match its inputs and outputs');
+    expectInvalid({ ...pst, fee: 2_000 }, 'PST inputs do not equal outputs plus fee');
+  });
+
+  it('rejects a destination address swapped for another', () => {
+    const pst = createPst(pickResult(), PUBLIC_A);
+    expectInvalid({ ...pst, outputs: [{ ...pst.outputs[0], address: OTHER }, pst.outputs[1]] }, 'PST output 0 address does not match its key');
+  });
+
+  it('rejects a destination relabelled as change', () => {
+    const pst = createPst(pickResult(), PUBLIC_A);
+    const { address, ...destination } = pst.outputs[0];
+    expect(address).toBe(RECIPIENT);
+
+    expectInvalid({ ...pst, outputs: [{ ...destination, kind: 'change' }, pst.outputs[1]] }, 'PST output 0 is marked as change but does not pay the change key');
+  });
+
+  it('refuses to combine copies of different transactions', async () => {
+    const first = await signPst(createPst(pickResult(), PUBLIC_A), new InMemorySigner(KEY_A));
+    const second = await signPst(createPst(pickResult(60_000), PUBLIC_A), new InMemorySigner(KEY_B));
+
+    expect(() => combinePsts([first, second])).toThrow('Cannot combine PSTs of different transactions');
+    expect(() => combinePsts([])).toThrow('Nothing to combine');
+  });
+});
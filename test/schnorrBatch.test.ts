@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as ed from '@noble/ed25519';
+import {
+  SchnorrBatchItem,
+  generateSchnorrSignature,
+  verifySchnorrBatch,
+  verifySchnorrSignature,
+  setSchnorrNonceMode,
+  getSchnorrNonceMode,
+  hashToScalar,
+  bytesToHex,
+} from '../src/crypto';
+import { derivePublicKeyFromPrivateKey } from '../src/index';
+import { hexToBytes } from '../src/utils';
+
+const CURVE_ORDER = 2n ** 252n + 27742317777372353535851937790883648493n;
+
+// Key 0 signs four items (fixed-window table), key 1 two and key 2 one (NAF)
+const PRIVATE_KEYS = ['01'.repeat(31) + '0a', '02'.repeat(31) + '0b', '03'.repeat(31) + '0c'];
+const PUBLIC_KEYS = PRIVATE_KEYS.map(derivePublicKeyFromPrivateKey);
+const KEY_USES = [0, 0, 0, 0, 1, 1, 2];
+
+/**
+ * The first 32-byte string from a counter that is not a valid point encoding
+ */
+function undecodableKey(): string {
+  for (let i = 0; ; i++) {
+    const candidate = bytesToHex(hashToScalar(new Uint8Array([i])));
+    try {
+      ed.Point.fromHex(candidate);
+    } catch (error) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Single verification, counting a throw (bad key, unreduced scalar) as a failure
+ */
+function verifySingle(item: SchnorrBatchItem): boolean {
+  try {
+    return verifySchnorrSignature(item.prefixHash, item.publicKey, item.signature);
+  } catch (error) {
+    return false;
+  }
+}
+
+function validItems(): SchnorrBatchItem[] {
+  return KEY_USES.map((k, i) => {
+    const prefixHash = hashToScalar(new Uint8Array([0xee, i]));
+    return { prefixHash, publicKey: PUBLIC_KEYS[k], signature: generateSchnorrSignature(prefixHash, PUBLIC_KEYS[k], PRIVATE_KEYS[k]) };
+  });
+}
+
+function expectAgreement(items: SchnorrBatchItem[], invalid: number[]) {
+  const single = items.map(verifySingle);
+  expect(single.flatMap((ok, i) => (ok ? [] : [i]))).toEqual(invalid);
+  expect(verifySchnorrBatch(items)).toEqual({ valid: invalid.length === 0, invalid });
+}
+
+describe('verifySchnorrBatch', () => {
+  const previousMode = getSchnorrNonceMode();
+  beforeAll(() => setSchnorrNonceMode('deterministic'));
+  afterAll(() => setSchnorrNonceMode(previousMode));
+
+  it('accepts a batch of valid signatures with repeated keys', () => {
+    const items = validItems();
+    expectAgreement(items, []);
+    expectAgreement([...items, { ...items[4], publicKey: items[4].publicKey.toUpperCase() }], []);
+    expect(verifySchnorrBatch([])).toEqual({ valid: true, invalid: [] });
+  });
+
+  it('agrees with single verification on forged signatures', () => {
+    const items = validItems();
+    items[1] = { ...items[1], signature: items[1].signature.slice() };
+    items[1].signature[40] ^= 1;
+    items[4] = { ...items[4], prefixHash: items[5].prefixHash };      // Signature moved to another message
+    items[6] = { ...items[6], publicKey: PUBLIC_KEYS[0] };            // Signature claimed by another key
+
+    expectAgreement(items, [1, 4, 6]);
+  });
+
+  it('agrees with single verification on non-canonical scalars', () => {
+    const items = validItems();
+    for (const [index, offset] of [[2, 32], [5, 0]]) {
+      const signature = items[index].signature.slice();
+      const value = BigInt('0x' + bytesToHex(signature.slice(offset, offset + 32).reverse())) + CURVE_ORDER;
+      signature.set(hexToBytes(value.toString(16).padStart(64, '0')).reverse(), offset);
+      items[index] = { ...items[index], signature };
+    }
+
+    expectAgreement(items, [2, 5]);
+  });
+
+  it('agrees with single verification on undecodable keys', () => {
+    const items = validItems();
+    const badKey = undecodableKey();
+    items[0] = { ...items[0], publicKey: badKey };
+    items[3] = { ...items[3], publicKey: badKey };
+
+    expectAgreement(items, [0, 3]);
+  });
+
+  it('reports malformed items instead of throwing', () => {
+    const items = validItems();
+    items[1] = { ...items[1], signature: items[1].signature.slice(0, 63) };
+    items[2] = { ...items[2], prefixHash: items[2].prefixHash.slice(0, 31) };
+    items[5] = { ...items[5], publicKey: 'zz'.repeat(32) };
+
+    expect(verifySchnorrBatch(items)).toEqual({ valid: false, invalid: [1, 2, 5] });
+  });
+});
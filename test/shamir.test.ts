@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SHARE_WORD_COUNT,
+  createMnemonicShares,
+  combineMnemonicShares,
+  decodeMnemonicShare,
+} from '../src/shamir';
+import { PastellaWallet, convertMnemonicLanguage, publicKeyHexToAddress } from '../src/index';
+import { TESTNET } from '../src/config';
+import { InvalidShareError, hexToBytes } from '../src/utils';
+
+const { mnemonic: MNEMONIC, address: ADDRESS } = PastellaWallet.generateWalletFromEntropy(
+  hexToBytes('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef')
+);
+
+/**
+ * Every subset of `items` with at least `size` elements
+ */
+function subsetsOfAtLeast<T>(items: T[], size: number): T[][] {
+  const subsets: T[][] = [];
+  for (let mask = 1; mask < 1 << items.length; mask++) {
+    const subset = items.filter((_, i) => mask & (1 << i));
+    if (subset.length >= size) {
+      subsets.push(subset);
+    }
+  }
+  return subsets;
+}
+
+describe('createMnemonicShares / combineMnemonicShares', () => {
+  for (const [threshold, count] of [[1, 1], [2, 3], [3, 5]]) {
+    it(`${threshold}-of-${count}: every subset of ${threshold} or more shares recovers the mnemonic`, async () => {
+      const shares = await createMnemonicShares(MNEMONIC, threshold, count);
+      expect(shares).toHaveLength(count);
+
+      for (const subset of subsetsOfAtLeast(shares, threshold)) {
+        expect(combineMnemonicShares([...subset].reverse(), { address: ADDRESS })).toMatchObject({ mnemonic: MNEMONIC, address: ADDRESS });
+      }
+    });
+  }
+
+  it('cannot recover from fewer than threshold shares', async () => {
+    const shares = await createMnemonicShares(MNEMONIC, 3, 5);
+    for (const subset of subsetsOfAtLeast(shares, 1).filter(subset => subset.length < 3)) {
+      expect(() => combineMnemonicShares(subset)).toThrow(`Need 3 distinct shares, got ${subset.length}`);
+    }
+    expect(() => combineMnemonicShares([shares[0], shares[0], shares[1]])).toThrow('Need 3 distinct shares, got 2');
+  });
+
+  it('encodes the threshold, index and address tag in each share', async () => {
+    const shares = await createMnemonicShares(MNEMONIC, 2, 3, { language: 'german' });
+    const decoded = shares.map(decodeMnemonicShare);
+
+    expect(shares[0].split(' ')).toHaveLength(SHARE_WORD_COUNT);
+    expect(decoded.map(share => share.index)).toEqual([1, 2, 3]);
+    expect(new Set(decoded.map(share => `${share.threshold}:${share.identifier}:${share.addressTag}`)).size).toBe(1);
+    expect(decoded[0].language).toBe('german');
+
+    expect(combineMnemonicShares(shares.slice(1)).mnemonic).toBe(convertMnemonicLanguage(MNEMONIC, 'german'));
+    expect(combineMnemonicShares(shares.slice(1), { language: 'english' }).mnemonic).toBe(MNEMONIC);
+  });
+
+  it('returns and checks the address on the given network', async () => {
+    const shares = await createMnemonicShares(MNEMONIC, 2, 3);
+    const combined = combineMnemonicShares(shares.slice(0, 2), { network: TESTNET });
+    const testnetAddress = publicKeyHexToAddress(combined.publicKey, TESTNET);
+
+    expect(combined.address).toBe(testnetAddress);
+    expect(combineMnemonicShares(shares.slice(1), { network: TESTNET, address: testnetAddress }).mnemonic).toBe(MNEMONIC);
+    expect(() => combineMnemonicShares(shares.slice(1), { address: testnetAddress })).toThrow('Recovered key does not match the expected address');
+  });
+
+  it('rejects corrupted, mixed and mismatched shares', async () => {
+    const shares = await createMnemonicShares(MNEMONIC, 2, 3);
+    const other = await createMnemonicShares(MNEMONIC, 2, 3);
+
+    const words = shares[0].split(' ');
+    words[5] = words[5] === words[6] ? words[7] : words[6];
+    expect(() => combineMnemonicShares([words.join(' '), shares[1]])).toThrow('Share 1: Share checksum mismatch');
+    expect(() => combineMnemonicShares([shares[0], other[1]])).toThrow('Shares belong to different splits');
+    expect(() => combineMnemonicShares(shares.slice(0, 2), { address: PastellaWallet.generateWalletFromEntropy(new Uint8Array(32).fill(3)).address }))
+      .toThrow('Recovered key does not match the expected address');
+    expect(() => combineMnemonicShares([])).toThrow(InvalidShareError);
+  });
+
+  it('validates threshold and share count', async () => {
+    await expect(createMnemonicShares(MNEMONIC, 0, 3)).rejects.toThrow('Threshold must be between 1 and 16');
+    await expect(createMnemonicShares(MNEMONIC, 17, 20)).rejects.toThrow('Threshold must be between 1 and 16');
+    await expect(createMnemonicShares(MNEMONIC, 3, 2)).rejects.toThrow('Share count must be between the threshold and 255');
+    await expect(createMnemonicShares(MNEMONIC, 2, 256)).rejects.toThrow('Share count must be between the threshold and 255');
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { InMemorySigner, RemoteSigner } from '../src/signer';
+import { Wallet } from '../src/Wallet';
+import { parseTransaction } from '../src/transaction';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { SignerError, bytesToHex, hexToBytes } from '../src/utils';
+import { WalletOutput } from '../src/types';
+
+/**
+ * WalletSync stand-in holding the outputs a test places in it
+ */
+const chain = vi.hoisted(() => ({ outputs: [] as WalletOutput[] }));
+
+vi.mock('../src/walletSync', () => ({
+  WalletSync: class {
+    async start() {}
+    stop() {}
+    getState() {
+      return { syncErrors: [], currentHeight: 1000 };
+    }
+    getAvailableOutputs() {
+      return chain.outputs;
+    }
+  },
+}));
+
+const PRIVATE_KEY = '01'.repeat(31) + '0a';
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey(PRIVATE_KEY);
+const RECIPIENT = publicKeyHexToAddress(derivePublicKeyFromPrivateKey('02'.repeat(31) + '0b'));
+const SIGNER_URL = 'http://127.0.0.1:7070';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Stub fetch with a handler per path; records every request made
+ */
+function stubFetch(handlers: Record<string, (body: any, init: RequestInit) => Response | Promise<Response>>) {
+  const requests: { url: string; body: any }[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    const body = init.body ? JSON.parse(init.body as string) : undefined;
+    requests.push({ url, body });
+    const handler = handlers[new URL(url).pathname];
+    if (!handler) {
+      return jsonResponse({ error: 'not found' }, 404);
+    }
+    return handler(body, init);
+  }));
+  return requests;
+}
+
+/**
+ * A remote signing service backed by an in-memory key
+ */
+function signingService(signer = new InMemorySigner(PRIVATE_KEY)) {
+  return {
+    '/keys': async () => jsonResponse({ publicKey: (await signer.getPublicKey()).toUpperCase() }),
+    '/sign': async (body: { publicKey: string; prefixHash: string }) => {
+      const signature = await signer.signPrefixHash(hexToBytes(body.prefixHash), body.publicKey);
+      return jsonResponse({ signature: bytesToHex(signature) });
+    },
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  chain.outputs = [];
+});
+
+describe('RemoteSigner', () => {
+  it('fetches keys once and returns verified signatures', async () => {
+    const requests = stubFetch(signingService());
+    const signer = new RemoteSigner({ url: `${SIGNER_URL}/`, headers: { Authorization: 'Bearer t' } });
+    const prefixHash = new Uint8Array(32).fill(5);
+
+    expect(await signer.getPublicKey()).toBe(PUBLIC_KEY);
+    expect(await signer.getPublicKeys()).toEqual([PUBLIC_KEY]);
+    expect(await signer.signPrefixHash(prefixHash, PUBLIC_KEY)).toHaveLength(64);
+
+    expect(requests.map(request => request.url)).toEqual([`${SIGNER_URL}/keys`, `${SIGNER_URL}/sign`]);
+    expect(requests[1].body).toEqual({ publicKey: PUBLIC_KEY, prefixHash: bytesToHex(prefixHash) });
+  });
+
+  it('rejects a malformed key list and retries on the next call', async () => {
+    let response: unknown = { publicKey: PUBLIC_KEY, publicKeys: [PUBLIC_KEY, 'abcd'] };
+    stubFetch({ '/keys': () => jsonResponse(response) });
+    const signer = new RemoteSigner({ url: SIGNER_URL });
+
+    await expect(signer.getPublicKey()).rejects.toThrow('Remote signer returned malformed public keys');
+    response = { publicKey: 42 };
+    await expect(signer.getPublicKeys()).rejects.toThrow(SignerError);
+
+    response = { publicKey: PUBLIC_KEY };
+    expect(await signer.getPublicKey()).toBe(PUBLIC_KEY);
+  });
+
+  it('rejects malformed and invalid signatures', async () => {
+    const otherSigner = new InMemorySigner('03'.repeat(31) + '0c');
+    let signature = 'zz';
+    stubFetch({ '/sign': () => jsonResponse({ signature }) });
+    const signer = new RemoteSigner({ url: SIGNER_URL });
+    const prefixHash = new Uint8Array(32).fill(5);
+
+    await expect(signer.signPrefixHash(prefixHash, PUBLIC_KEY)).rejects.toThrow('Remote signer returned a malformed signature');
+
+    // A valid signature, but by another key
+    signature = bytesToHex(await otherSigner.signPrefixHash(prefixHash, await otherSigner.getPublicKey()));
+    await expect(signer.signPrefixHash(prefixHash, PUBLIC_KEY)).rejects.toThrow('Remote signer returned an invalid signature');
+  });
+
+  it('reports HTTP errors and timeouts as SignerError', async () => {
+    stubFetch({
+      '/keys': () => jsonResponse({}, 503),
+      '/sign': (_, init) => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      }),
+    });
+    const signer = new RemoteSigner({ url: SIGNER_URL, timeout: 20 });
+
+    await expect(signer.getPublicKey()).rejects.toThrow('Remote signer HTTP error! status: 503');
+    const error = await signer.signPrefixHash(new Uint8Array(32), PUBLIC_KEY).catch(e => e);
+    expect(error).toBeInstanceOf(SignerError);
+    expect(error.message).toBe('Remote signer timeout after 20ms');
+  });
+});
+
+describe('Wallet.sendTransaction with a configured signer', () => {
+  it('signs with the wallet signer when the request has no mnemonic', async () => {
+    chain.outputs = [{
+      key: PUBLIC_KEY,
+      amount: 5_000_000,
+      blockHeight: 10,
+      timestamp: 0,
+      transactionHash: 'aa'.repeat(32),
+      transactionIndex: 0,
+      outputIndex: 0,
+      unlockTime: 0,
+      transactionPublicKey: PUBLIC_KEY,
+      isSpendable: true,
+    }];
+    const requests = stubFetch({
+      ...signingService(),
+      '/sendrawtransaction': () => jsonResponse({ status: 'OK', transactionHash: 'bb'.repeat(32) }),
+    });
+
+    const wallet = new Wallet({ ip: '127.0.0.1', port: 21001, publicKey: PUBLIC_KEY, signer: new RemoteSigner({ url: SIGNER_URL }) });
+    const result = await wallet.sendTransaction({ destinations: [{ address: RECIPIENT, amount: 1_000_000 }], fee: 1000 });
+
+    const sent = requests.find(request => request.url.endsWith('/sendrawtransaction'));
+    expect(sent.body.tx_as_hex).toBe(result.txHex);
+    expect(result.hash).toBe('bb'.repeat(32));
+    expect(result.inputsUsed).toBe(1);
+
+    const parsed = parseTransaction(result.txHex);
+    expect(parsed.fee).toBe(1000);
+    expect(parsed.outputs.map(output => output.amount)).toEqual([1_000_000, 3_999_000]);
+    expect(requests.filter(request => request.url.endsWith('/sign'))).toHaveLength(1);
+  });
+
+  it('refuses to send without any signer', async () => {
+    const wallet = new Wallet({ ip: '127.0.0.1', port: 21001, publicKey: PUBLIC_KEY });
+    await expect(wallet.sendTransaction({ destinations: [{ address: RECIPIENT, amount: 1 }] }))
+      .rejects.toThrow('No signer available');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { keccak256 } from 'js-sha3';
+import {
+  calculateUnlockTime,
+  createStakingExtra,
+  createStakingTransaction,
+  prepareStakingOutputs,
+} from '../src/staking';
+import { parseExtraFields, parseTransaction } from '../src/transaction';
+import { InMemorySigner } from '../src/signer';
+import { setSchnorrNonceMode, getSchnorrNonceMode, verifySchnorrSignature } from '../src/crypto';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { MAINNET, MIN_FEE, STAKING_ENABLE_HEIGHT, STAKING_TX_TYPE } from '../src/config';
+import { bytesToHex, hexToBytes } from '../src/utils';
+import { WalletOutput } from '../src/types';
+
+const PRIVATE_KEY = '01'.repeat(31) + '0a';
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey(PRIVATE_KEY);
+const ADDRESS = publicKeyHexToAddress(PUBLIC_KEY);
+const NODE = { ip: '127.0.0.1', port: 21001, ssl: false };
+const HEIGHT = STAKING_ENABLE_HEIGHT + 500;
+const AMOUNT = 1_000_000_000;
+const SIGNATURE = 'ab'.repeat(64);
+
+function output(amount: number, transactionHash: string, outputIndex: number): WalletOutput {
+  return {
+    key: PUBLIC_KEY,
+    amount,
+    blockHeight: 100,
+    timestamp: 0,
+    transactionHash,
+    transactionIndex: 0,
+    outputIndex,
+    unlockTime: 0,
+    transactionPublicKey: PUBLIC_KEY,
+    isSpendable: true,
+  };
+}
+
+/**
+ * Stub the daemon: every broadcast transaction is kept and accepted
+ */
+function stubDaemon(): string[] {
+  const sent: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const { tx_as_hex: txHex } = JSON.parse(init.body as string);
+    sent.push(txHex);
+    return new Response(JSON.stringify({ status: 'OK', transactionHash: parseTransaction(txHex).hash }));
+  }));
+  return sent;
+}
+
+function stakingMessageHash(amount: number, lockDurationDays: number, unlockTime: number): Uint8Array {
+  const message = new Uint8Array(20);
+  const view = new DataView(message.buffer);
+  view.setBigUint64(0, BigInt(amount), true);
+  view.setUint32(8, lockDurationDays, true);
+  view.setBigUint64(12, BigInt(unlockTime), true);
+  return hexToBytes(keccak256(message));
+}
+
+const previousMode = getSchnorrNonceMode();
+beforeAll(() => setSchnorrNonceMode('deterministic'));
+afterAll(() => setSchnorrNonceMode(previousMode));
+afterEach(() => vi.unstubAllGlobals());
+
+describe('createStakingExtra', () => {
+  it('writes the staking type and amounts as varints', () => {
+    expect(bytesToHex(createStakingExtra(300, 128, 30, SIGNATURE))).toBe('04' + '65' + 'ac02' + '8001' + '1e' + SIGNATURE);
+    expect(bytesToHex(createStakingExtra(0, 0, 0, SIGNATURE))).toBe('04' + '65' + '00' + '00' + '00' + SIGNATURE);
+    expect(() => createStakingExtra(1, 1, 30, 'ab')).toThrow('Signature must be 64 bytes');
+  });
+
+  it('reads back through the transaction extra parser', () => {
+    for (const amount of [1, 127, 128, 16_383, 16_384, AMOUNT, Number.MAX_SAFE_INTEGER]) {
+      const [field] = parseExtraFields(createStakingExtra(amount, 2_000_000, 365, SIGNATURE));
+      expect(field).toEqual({
+        tag: 0x04,
+        type: 'staking',
+        staking: { stakingType: STAKING_TX_TYPE, amount, unlockTime: 2_000_000, lockDurationDays: 365, signature: SIGNATURE },
+      });
+    }
+  });
+});
+
+describe('prepareStakingOutputs', () => {
+  it('sends the staking amount, the staking fee and change to the wallet', async () => {
+    const sent = stubDaemon();
+    const outputs = [output(600_000_000, 'aa'.repeat(32), 0), output(500_000_000, 'bb'.repeat(32), 1)];
+
+    const result = await prepareStakingOutputs(AMOUNT, ADDRESS, outputs, new InMemorySigner(PRIVATE_KEY), HEIGHT, NODE);
+    expect(result).toEqual({ success: true, txHash: parseTransaction(sent[0]).hash });
+
+    const parsed = parseTransaction(sent[0]);
+    expect(parsed.outputs).toEqual([
+      { key: PUBLIC_KEY, amount: AMOUNT },
+      { key: PUBLIC_KEY, amount: MIN_FEE },
+      { key: PUBLIC_KEY, amount: 100_000_000 - 2 * MIN_FEE },
+    ]);
+    expect(parsed.fee).toBe(MIN_FEE);
+    expect(parsed.inputs.map(input => input.type === 'key' && input.transactionHash)).toEqual(['aa'.repeat(32), 'bb'.repeat(32)]);
+    for (const signature of parsed.signatures) {
+      expect(verifySchnorrSignature(hexToBytes(parsed.prefixHash), PUBLIC_KEY, hexToBytes(signature))).toBe(true);
+    }
+
+    // Deterministic nonces make the transaction reproducible
+    await prepareStakingOutputs(AMOUNT, ADDRESS, outputs, new InMemorySigner(PRIVATE_KEY), HEIGHT, NODE);
+    expect(sent[1]).toBe(sent[0]);
+  });
+
+  it('reports insufficient funds without sending', async () => {
+    const sent = stubDaemon();
+    const result = await prepareStakingOutputs(AMOUNT, ADDRESS, [output(AMOUNT, 'aa'.repeat(32), 0)], new InMemorySigner(PRIVATE_KEY), HEIGHT, NODE);
+
+    expect(result).toEqual({ success: false, error: `Insufficient funds. Need ${AMOUNT + 2 * MIN_FEE}, have ${AMOUNT}` });
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe('createStakingTransaction', () => {
+  const prepared = [output(AMOUNT, 'cc'.repeat(32), 0), output(MIN_FEE, 'dd'.repeat(32), 1)];
+
+  it('spends the prepared outputs into one locked output with signed staking data', async () => {
+    const sent = stubDaemon();
+    const result = await createStakingTransaction(AMOUNT, 90, ADDRESS, prepared, new InMemorySigner(PRIVATE_KEY), HEIGHT, NODE);
+
+    const parsed = parseTransaction(sent[0]);
+    const unlockTime = calculateUnlockTime(90, HEIGHT);
+    expect(result).toEqual({ success: true, txHash: parsed.hash });
+    expect(unlockTime).toBe(HEIGHT + 90 * 2880);
+
+    expect(parsed).toMatchObject({ unlockTime, fee: MIN_FEE, publicKey: PUBLIC_KEY, outputs: [{ key: PUBLIC_KEY, amount: AMOUNT }] });
+    expect(parsed.inputs.map(input => input.type === 'key' && input.amount)).toEqual([AMOUNT, MIN_FEE]);
+    expect(parsed.extraFields.map(field => field.type)).toEqual(['publicKey', 'staking']);
+    expect(parsed.staking).toMatchObject({ stakingType: STAKING_TX_TYPE, amount: AMOUNT, unlockTime, lockDurationDays: 90 });
+    expect(verifySchnorrSignature(stakingMessageHash(AMOUNT, 90, unlockTime), PUBLIC_KEY, hexToBytes(parsed.staking.signature))).toBe(true);
+    for (const signature of parsed.signatures) {
+      expect(verifySchnorrSignature(hexToBytes(parsed.prefixHash), PUBLIC_KEY, hexToBytes(signature))).toBe(true);
+    }
+
+    await createStakingTransaction(AMOUNT, 90, ADDRESS, prepared, new InMemorySigner(PRIVATE_KEY), HEIGHT, NODE);
+    expect(sent[1]).toBe(sent[0]);
+  });
+
+  it('refuses before the enable height, for unknown lock periods and without prepared outputs', async () => {
+    const sent = stubDaemon();
+    const signer = new InMemorySigner(PRIVATE_KEY);
+
+    expect(await createStakingTransaction(AMOUNT, 90, ADDRESS, prepared, signer, STAKING_ENABLE_HEIGHT - 1, NODE))
+      .toEqual({ success: false, error: `Staking is enabled from block ${STAKING_ENABLE_HEIGHT} on ${MAINNET.name}` });
+    expect(await createStakingTransaction(AMOUNT, 45, ADDRESS, prepared, signer, HEIGHT, NODE))
+      .toEqual({ success: false, error: 'Lock period must be one of 30, 90, 180, 365 days' });
+    expect(await createStakingTransaction(AMOUNT, 90, ADDRESS, prepared.slice(0, 1), signer, HEIGHT, NODE))
+      .toEqual({ success: false, error: 'Precise staking outputs not available. Please prepare outputs first.' });
+    expect(sent).toHaveLength(0);
+  });
+});
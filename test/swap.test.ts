@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { AtomicSwap, SwapDaemon } from '../src/swap';
+import { InMemorySigner } from '../src/signer';
+import { parseTransaction } from '../src/transaction';
+import {
+  generateAdaptorSignature,
+  completeAdaptorSignature,
+  extractAdaptorSecret,
+  verifySchnorrSignature,
+} from '../src/crypto';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress } from '../src/index';
+import { WalletOutput } from '../src/types';
+
+/**
+ * Daemon that keeps broadcast transactions in a pool until mine() puts them in a block
+ */
+class MockDaemon implements SwapDaemon {
+  sent: string[] = [];
+  private pool = new Set<string>();
+  private mined = new Set<string>();
+
+  async sendRawTransaction(txHex: string) {
+    const { hash } = parseTransaction(txHex);
+    this.sent.push(txHex);
+    this.pool.add(hash);
+    return { status: 'OK', transactionHash: hash };
+  }
+
+  async getTransactionsStatus({ transactionHashes }: { transactionHashes: string[] }) {
+    return {
+      status: 'OK',
+      transactionsInBlock: transactionHashes.filter(hash => this.mined.has(hash)).map(hash => ({ hash, blockHeight: 10 })),
+      transactionsInPool: transactionHashes.filter(hash => this.pool.has(hash)),
+      transactionsUnknown: [],
+    } as any;
+  }
+
+  mine(): void {
+    this.pool.forEach(hash => this.mined.add(hash));
+    this.pool.clear();
+  }
+}
+
+const sellerSigner = new InMemorySigner('01'.repeat(31) + '0a');
+const sellerPublicKey = derivePublicKeyFromPrivateKey('01'.repeat(31) + '0a');
+const sellerAddress = publicKeyHexToAddress(sellerPublicKey);
+const buyerAddress = publicKeyHexToAddress(derivePublicKeyFromPrivateKey('02'.repeat(31) + '0b'));
+
+const AMOUNT = 50000;
+const FEE = 1000;
+
+function sellerOutput(hashByte: string): WalletOutput {
+  return {
+    key: sellerPublicKey,
+    amount: 40000,
+    blockHeight: 1,
+    timestamp: 0,
+    transactionHash: hashByte.repeat(64),
+    transactionIndex: 0,
+    outputIndex: 0,
+    unlockTime: 0,
+    transactionPublicKey: '',
+    isSpendable: true,
+  };
+}
+
+function createPair(daemon: MockDaemon, buyerAmount: number = AMOUNT) {
+  const terms = { fee: FEE, sellerAddress, buyerAddress, daemon };
+  return {
+    seller: new AtomicSwap({ ...terms, amount: AMOUNT, role: 'seller' }),
+    buyer: new AtomicSwap({ ...terms, amount: buyerAmount, role: 'buyer' }),
+  };
+}
+
+/**
+ * Run both roles through the key exchange
+ */
+async function exchangeKeys(daemon: MockDaemon) {
+  const { seller, buyer } = createPair(daemon);
+
+  const sellerKeys = await seller.start();
+  const buyerKeys = await buyer.start();
+  const sellerShare = seller.receiveKeys(buyerKeys);
+  const buyerShare = buyer.receiveKeys(sellerKeys);
+  const lockAddress = seller.receiveShare(buyerShare);
+  expect(buyer.receiveShare(sellerShare)).toBe(lockAddress);
+
+  return { seller, buyer, lockAddress };
+}
+
+/**
+ * Run both roles up to 'presigned', relaying every message between them
+ */
+async function presign(daemon: MockDaemon) {
+  const { seller, buyer, lockAddress } = await exchangeKeys(daemon);
+
+  const lock = await seller.prepareLock([sellerOutput('a'), sellerOutput('b')], 100, sellerSigner, 10);
+  buyer.receiveLock(lock);
+
+  const sellerNonces = await seller.presignCommit();
+  const buyerNonces = await buyer.presignCommit();
+  const sellerShares = seller.presignShares(buyerNonces);
+  const buyerShares = buyer.presignShares(sellerNonces);
+  seller.presignFinish(buyerShares);
+  buyer.presignFinish(sellerShares);
+
+  expect(seller.getState()).toBe('presigned');
+  expect(buyer.getState()).toBe('presigned');
+  return { seller, buyer, lockAddress };
+}
+
+/**
+ * What the other chain reveals: a key spends there with a pre-signature
+ * adapted to `secret`'s point, and completing it publishes the secret
+ */
+function revealOnOtherChain(secret: string): string {
+  const otherKey = '07'.repeat(32);
+  const message = new Uint8Array(32).fill(9);
+  const preSignature = generateAdaptorSignature(message, derivePublicKeyFromPrivateKey(otherKey), otherKey, derivePublicKeyFromPrivateKey(secret));
+  const signature = completeAdaptorSignature(preSignature, secret);
+  expect(verifySchnorrSignature(message, derivePublicKeyFromPrivateKey(otherKey), signature)).toBe(true);
+  return extractAdaptorSecret(preSignature, signature);
+}
+
+describe('AtomicSwap', () => {
+  it('locks and lets the buyer claim with the secret the seller revealed', async () => {
+    const daemon = new MockDaemon();
+    const { seller, buyer, lockAddress } = await presign(daemon);
+
+    const lockPst = await seller.broadcastLock();
+    expect(seller.getState()).toBe('locked');
+    expect(await buyer.verifyLock(lockPst)).toBe(false);   // Still in the pool
+
+    daemon.mine();
+    expect(await buyer.verifyLock(lockPst)).toBe(true);
+    expect(buyer.getState()).toBe('locked');
+
+    const lock = parseTransaction(daemon.sent[0]);
+    expect(lock.outputs.some(output => publicKeyHexToAddress(output.key) === lockAddress && output.amount === AMOUNT)).toBe(true);
+
+    const sellerSecret = revealOnOtherChain(seller.getSecret());
+    const result = await buyer.claim(sellerSecret);
+    expect(buyer.getState()).toBe('claimed');
+    expect(result).toEqual({ hash: parseTransaction(daemon.sent[1]).hash, fee: FEE });
+
+    const claim = parseTransaction(daemon.sent[1]);
+    expect(claim.inputs).toHaveLength(1);
+    expect(claim.outputs.map(output => [publicKeyHexToAddress(output.key), output.amount]))
+      .toEqual([[buyerAddress, AMOUNT - FEE]]);
+  });
+
+  it('lets the seller refund with the secret the buyer revealed', async () => {
+    const daemon = new MockDaemon();
+    const { seller, buyer } = await presign(daemon);
+
+    const lockPst = await seller.broadcastLock();
+    daemon.mine();
+    expect(await buyer.verifyLock(lockPst)).toBe(true);
+
+    const buyerSecret = revealOnOtherChain(buyer.getSecret());
+    await seller.refund(buyerSecret);
+    expect(seller.getState()).toBe('refunded');
+
+    const refund = parseTransaction(daemon.sent[1]);
+    expect(refund.outputs.map(output => [publicKeyHexToAddress(output.key), output.amount]))
+      .toEqual([[sellerAddress, AMOUNT - FEE]]);
+  });
+
+  it('rejects a claim or refund with the wrong secret', async () => {
+    const daemon = new MockDaemon();
+    const { seller, buyer } = await presign(daemon);
+
+    const lockPst = await seller.broadcastLock();
+    daemon.mine();
+    await buyer.verifyLock(lockPst);
+
+    await expect(buyer.claim(buyer.getSecret())).rejects.toThrow('Secret does not match its secret point');
+    await expect(seller.refund(seller.getSecret())).rejects.toThrow('Secret does not match its secret point');
+    await expect(seller.refund('00'.repeat(32))).rejects.toThrow('Secret does not match its secret point');
+    await expect(buyer.refund(seller.getSecret())).rejects.toThrow('Only the seller can do this');
+    expect(daemon.sent).toHaveLength(1);   // Only the lock was broadcast
+  });
+
+  it('rejects mismatched terms', async () => {
+    const { seller, buyer } = createPair(new MockDaemon(), AMOUNT + 1);
+    const sellerKeys = await seller.start();
+    const buyerKeys = await buyer.start();
+
+    expect(() => seller.receiveKeys(buyerKeys)).toThrow('Peer disagrees on the swap terms: amount');
+    expect(() => buyer.receiveKeys(sellerKeys)).toThrow('Peer disagrees on the swap terms: amount');
+  });
+
+  it('rejects a lock whose hash differs from the announced one', async () => {
+    const daemon = new MockDaemon();
+    const { buyer } = await presign(daemon);
+
+    // Another swap's lock: valid and mined, but not the transaction announced to this buyer
+    const other = await presign(daemon);
+    const otherLockPst = await other.seller.broadcastLock();
+    daemon.mine();
+
+    await expect(buyer.verifyLock(otherLockPst)).rejects.toThrow('Lock transaction does not match the announced hash');
+    expect(buyer.getState()).toBe('presigned');
+  });
+
+  it('cannot pre-sign when the buyer was announced a different lock', async () => {
+    const { seller, buyer } = await exchangeKeys(new MockDaemon());
+
+    const lock = await seller.prepareLock([sellerOutput('a'), sellerOutput('b')], 100, sellerSigner, 10);
+    buyer.receiveLock({ ...lock, transactionHash: 'ee'.repeat(32) });
+
+    const sellerNonces = await seller.presignCommit();
+    const buyerNonces = await buyer.presignCommit();
+    const sellerShares = seller.presignShares(buyerNonces);
+    const buyerShares = buyer.presignShares(sellerNonces);
+
+    // Each side signed claim and refund transactions spending a different lock
+    expect(() => seller.presignFinish(buyerShares)).toThrow('Signature share from participant 2 is invalid');
+    expect(() => buyer.presignFinish(sellerShares)).toThrow('Signature share from participant 1 is invalid');
+  });
+
+  it('rejects steps taken out of order', async () => {
+    const { seller } = createPair(new MockDaemon());
+    await expect(seller.presignCommit()).rejects.toThrow('Swap is in state created, expected lock-prepared');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TransactionSerializer,
+  SerializedKeyInput,
+  parseTransaction,
+  parseExtraFields,
+} from '../src/transaction';
+import { createStakingExtra } from '../src/staking';
+import { STAKING_TX_TYPE } from '../src/config';
+import { getPaymentIdFromExtra, serializePaymentIdNonce } from '../src/integratedAddress';
+import { InMemorySigner } from '../src/signer';
+import { verifySchnorrSignature } from '../src/crypto';
+import { derivePublicKeyFromPrivateKey } from '../src/index';
+import { InvalidTransactionError, bytesToHex, hexToBytes } from '../src/utils';
+
+const PRIVATE_KEY = '01'.repeat(31) + '0a';
+const PUBLIC_KEY = derivePublicKeyFromPrivateKey(PRIVATE_KEY);
+const RECIPIENT_KEY = derivePublicKeyFromPrivateKey('02'.repeat(31) + '0b');
+const PAYMENT_ID = '0123456789abcdef'.repeat(4);
+const SIGNATURE = 'ab'.repeat(64);
+
+const INPUTS: SerializedKeyInput[] = [
+  { amount: 300_000, outputIndexes: [2], transactionHash: 'aa'.repeat(32), outputIndex: 2, publicKey: PUBLIC_KEY },
+  { amount: 150, outputIndexes: [0], transactionHash: 'bb'.repeat(32), outputIndex: 0, publicKey: PUBLIC_KEY },
+];
+const OUTPUTS = [{ key: RECIPIENT_KEY, amount: 200_000 }, { key: PUBLIC_KEY, amount: 99_150 }];
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function expectInvalid(tx: string | Uint8Array, message?: string) {
+  expect(() => parseTransaction(tx)).toThrow(InvalidTransactionError);
+  if (message) {
+    expect(() => parseTransaction(tx)).toThrow(message);
+  }
+}
+
+describe('parseTransaction', () => {
+  it('reads back a serialized transaction with a payment ID', async () => {
+    const bytes = await TransactionSerializer.serializeTransaction(
+      INPUTS, OUTPUTS, PUBLIC_KEY, new InMemorySigner(PRIVATE_KEY), 12, 1, PAYMENT_ID
+    );
+    const parsed = parseTransaction(bytesToHex(bytes));
+
+    expect(parsed).toMatchObject({ version: 1, unlockTime: 12, outputs: OUTPUTS, fee: 1_000, publicKey: PUBLIC_KEY, paymentId: PAYMENT_ID });
+    expect(parsed.inputs).toEqual(INPUTS.map(({ publicKey, ...input }) => ({ type: 'key', ...input })));
+    expect(parsed.extra).toBe(bytesToHex(TransactionSerializer.serializeExtra(PUBLIC_KEY, PAYMENT_ID)));
+
+    const prefix = TransactionSerializer.serializeTransactionPrefix(INPUTS, OUTPUTS, PUBLIC_KEY, 12, 1, PAYMENT_ID);
+    expect(parsed.prefixHash).toBe(bytesToHex(TransactionSerializer.computeHash(prefix)));
+    expect(parsed.hash).toBe(bytesToHex(TransactionSerializer.computeHash(bytes)));
+    expect(parsed.signatures).toHaveLength(2);
+    for (const signature of parsed.signatures) {
+      expect(verifySchnorrSignature(hexToBytes(parsed.prefixHash), PUBLIC_KEY, hexToBytes(signature))).toBe(true);
+    }
+    expect(parseTransaction(bytes)).toEqual(parsed);
+  });
+
+  it('reads staking data and a payment ID that follows it', () => {
+    const extra = new Uint8Array([
+      ...TransactionSerializer.serializeExtra(PUBLIC_KEY),
+      ...createStakingExtra(1_000_000_000, 5_000_000, 30, SIGNATURE),
+      ...serializePaymentIdNonce(PAYMENT_ID),
+    ]);
+    const prefix = TransactionSerializer.serializeTransactionPrefixWithExtra(INPUTS.slice(0, 1), OUTPUTS.slice(0, 1), extra);
+    const parsed = parseTransaction(new Uint8Array([...prefix, ...new Uint8Array(64)]));
+
+    expect(parsed.staking).toEqual({ stakingType: STAKING_TX_TYPE, amount: 1_000_000_000, unlockTime: 5_000_000, lockDurationDays: 30, signature: SIGNATURE });
+    expect(parsed.paymentId).toBe(PAYMENT_ID);
+    expect(parsed.extraFields.map(field => field.type)).toEqual(['publicKey', 'staking', 'nonce']);
+    expect(getPaymentIdFromExtra(parsed.extra)).toBe(PAYMENT_ID);
+  });
+
+  it('reads a coinbase transaction', () => {
+    const extra = TransactionSerializer.serializeExtra(PUBLIC_KEY);
+    const tx = new Uint8Array([
+      1, ...varint(1_234 + 40),                            // version, unlock time
+      1, 0xff, ...varint(1_234),                           // base input at block 1234
+      1, ...varint(5_000_000_000), 0x02, ...hexToBytes(RECIPIENT_KEY),
+      ...varint(extra.length), ...extra,
+    ]);
+    const parsed = parseTransaction(tx);
+
+    expect(parsed.inputs).toEqual([{ type: 'base', blockIndex: 1_234 }]);
+    expect(parsed.outputs).toEqual([{ key: RECIPIENT_KEY, amount: 5_000_000_000 }]);
+    expect(parsed).toMatchObject({ unlockTime: 1_274, fee: 0, signatures: [], publicKey: PUBLIC_KEY });
+  });
+
+  it('keeps an unknown extra tag and everything after it raw', () => {
+    const extra = new Uint8Array([...TransactionSerializer.serializeExtra(PUBLIC_KEY), 0x7f, 1, 2, ...serializePaymentIdNonce(PAYMENT_ID)]);
+    const fields = parseExtraFields(extra);
+
+    expect(fields.map(field => field.type)).toEqual(['publicKey', 'unknown']);
+    expect(fields[1]).toEqual({ tag: 0x7f, type: 'unknown', data: bytesToHex(extra.subarray(33)) });
+    expect(getPaymentIdFromExtra(extra)).toBeNull();
+  });
+
+  it('rejects truncated transactions and garbage', async () => {
+    const bytes = await TransactionSerializer.serializeTransaction(
+      INPUTS, OUTPUTS, PUBLIC_KEY, new InMemorySigner(PRIVATE_KEY), 0, 1, PAYMENT_ID
+    );
+    for (let length = 0; length < bytes.length; length++) {
+      expectInvalid(bytes.subarray(0, length));
+    }
+    expectInvalid(bytesToHex(bytes.subarray(0, 100)), 'Transaction ends inside the');
+    expectInvalid(bytesToHex(bytes) + '00', '1 unexpected bytes after the signatures');
+
+    expectInvalid('', 'Transaction hex is empty or malformed');
+    expectInvalid('zz', 'Transaction hex is empty or malformed');
+    expectInvalid(bytesToHex(bytes).slice(1), 'Transaction hex is empty or malformed');
+    expectInvalid('0100010500', 'Unknown input tag 0x5 at input 0');
+    expectInvalid('01' + '80'.repeat(10) + '01', 'Varint too long in the unlock time');
+
+    // A known extra field cut short
+    expect(() => parseExtraFields(hexToBytes('01' + PUBLIC_KEY.slice(0, 20)))).toThrow('Transaction ends inside the extra public key');
+    expect(getPaymentIdFromExtra('022100' + PAYMENT_ID.slice(2))).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildVanityWorker } from '../scripts/build-worker.mjs';
+import { VanitySearch, estimateVanityDifficulty, matchesVanityPattern } from '../src/vanity';
+import { derivePublicKeyFromPrivateKey, publicKeyHexToAddress, derivePrivateKeyFromMnemonic } from '../src/index';
+import { TESTNET } from '../src/config';
+
+// The search starts workers from the bundled worker, built as `npm run build` does
+let workDir: string;
+let workerUrl: string;
+
+beforeAll(async () => {
+  workDir = mkdtempSync(join(tmpdir(), 'vanity-'));
+  workerUrl = join(workDir, 'vanity-worker.mjs');
+  await buildVanityWorker(workerUrl);
+});
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('vanity patterns', () => {
+  const mainnetAddress = publicKeyHexToAddress('11'.repeat(32));
+  const testnetAddress = publicKeyHexToAddress('11'.repeat(32), TESTNET);
+
+  it('match the part after the network prefix', () => {
+    const mainnetRegion = mainnetAddress.slice(3);
+    const testnetRegion = testnetAddress.slice(4);
+
+    expect(matchesVanityPattern(mainnetAddress, mainnetRegion.slice(0, 4), { mode: 'prefix' })).toBe(true);
+    expect(matchesVanityPattern(testnetAddress, testnetRegion.slice(0, 4), { mode: 'prefix', network: TESTNET })).toBe(true);
+    expect(matchesVanityPattern(testnetAddress, testnetRegion.slice(-3).toUpperCase(), { mode: 'suffix', network: TESTNET })).toBe(true);
+    expect(matchesVanityPattern(testnetAddress, testnetRegion.slice(-3).toUpperCase(), { mode: 'suffix', network: TESTNET, caseSensitive: true }))
+      .toBe(testnetRegion.slice(-3) === testnetRegion.slice(-3).toUpperCase());
+  });
+
+  it('estimate prefixes from the network address prefix', () => {
+    const mainnetFirst = mainnetAddress[3];
+    const testnetFirst = testnetAddress[4];
+
+    expect(estimateVanityDifficulty(mainnetFirst, { mode: 'prefix', caseSensitive: true }).probability).toBeGreaterThan(0);
+    expect(estimateVanityDifficulty(testnetFirst, { mode: 'prefix', caseSensitive: true, network: TESTNET }).probability).toBeGreaterThan(0);
+    expect(() => estimateVanityDifficulty('z', { mode: 'prefix', caseSensitive: true })).toThrow('can never appear at the start of a PAS address');
+    expect(() => estimateVanityDifficulty('z', { mode: 'prefix', caseSensitive: true, network: TESTNET })).toThrow('of a TPAS address');
+  });
+
+  it('reject characters outside Base58', () => {
+    expect(() => estimateVanityDifficulty('')).toThrow('Vanity pattern must not be empty');
+    expect(() => estimateVanityDifficulty('c0de')).toThrow('Character "0" does not occur in Base58 addresses');
+  });
+});
+
+describe('VanitySearch', () => {
+  it('finds a key for a one-character pattern in a worker', async () => {
+    const search = new VanitySearch({ pattern: 'a', workers: 1, workerUrl });
+
+    const result = await search.start();
+    expect(search.isActive()).toBe(false);
+    expect(result.address.startsWith('PAS')).toBe(true);
+    expect(matchesVanityPattern(result.address, 'a')).toBe(true);
+    expect(derivePublicKeyFromPrivateKey(result.privateKey)).toBe(result.publicKey);
+    expect(publicKeyHexToAddress(result.publicKey)).toBe(result.address);
+    expect(derivePrivateKeyFromMnemonic(result.mnemonic)).toBe(result.privateKey);
+    expect(result.attempts).toBeGreaterThan(0);
+  });
+
+  it('searches testnet addresses when given the network', async () => {
+    const result = await new VanitySearch({ pattern: 'b', network: TESTNET, workers: 1, workerUrl }).start();
+    expect(result.address.startsWith('TPAS')).toBe(true);
+    expect(publicKeyHexToAddress(result.publicKey, TESTNET)).toBe(result.address);
+    expect(matchesVanityPattern(result.address, 'b', { network: TESTNET })).toBe(true);
+  });
+
+  it('rejects start() when cancelled and can be started again', async () => {
+    let search: VanitySearch;
+    const firstProgress = new Promise<void>(resolve => {
+      search = new VanitySearch({ pattern: 'zzzzzzzz', mode: 'suffix', workers: 1, workerUrl, progressInterval: 0, onProgress: () => resolve() });
+    });
+
+    const pending = search!.start();
+    await expect(search!.start()).rejects.toThrow('Vanity search is already running');
+    await firstProgress;
+    expect(search!.isActive()).toBe(true);
+    expect(search!.getProgress().attempts).toBeGreaterThan(0);
+
+    search!.cancel();
+    await expect(pending).rejects.toThrow('Vanity search cancelled');
+    expect(search!.isActive()).toBe(false);
+
+    const restarted = search!.start();
+    search!.cancel();
+    await expect(restarted).rejects.toThrow('Vanity search cancelled');
+  });
+});
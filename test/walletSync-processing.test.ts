@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { processSpends, ProcessingContext } from '../src/walletSync-processing';
+import { generateKeyImage } from '../src/crypto';
+import { derivePublicKeyFromPrivateKey } from '../src/index';
+import { MAINNET } from '../src/config';
+import { WalletBlockInfo, WalletOutput, KeyInput } from '../src/types';
+
+const privateKeyA = '11'.repeat(31) + '01';
+const privateKeyB = '22'.repeat(31) + '02';
+const publicKeyA = derivePublicKeyFromPrivateKey(privateKeyA);
+const publicKeyB = derivePublicKeyFromPrivateKey(privateKeyB);
+
+function makeOutput(key: string, transactionHash: string, amount: number, blockHeight: number): WalletOutput {
+  return {
+    key,
+    amount,
+    blockHeight,
+    timestamp: 0,
+    transactionHash,
+    transactionIndex: 1,
+    outputIndex: 0,
+    unlockTime: 0,
+    transactionPublicKey: '',
+    isSpendable: true,
+  };
+}
+
+function makeContext(keyImages: Map<string, string>): ProcessingContext {
+  return {
+    publicKeys: new Set([publicKeyA, publicKeyB]),
+    keyImages,
+    currentHeight: 10,
+    maturityBlocks: 1,
+    network: MAINNET,
+    // A is older, so amount-only matching would pick it first
+    outputs: new Map([
+      ['a'.repeat(64) + ':0', makeOutput(publicKeyA, 'a'.repeat(64), 100, 1)],
+      ['b'.repeat(64) + ':0', makeOutput(publicKeyB, 'b'.repeat(64), 100, 2)],
+    ]),
+    spends: new Map(),
+    rawTransactionOutputs: new Map(),
+    stakingTxHashes: new Set(),
+    pendingTxData: new Map(),
+  };
+}
+
+function makeBlock(inputs: KeyInput[][]): WalletBlockInfo {
+  return {
+    blockHeight: 10,
+    blockHash: 'c'.repeat(64),
+    blockTimestamp: 1,
+    transactions: inputs.map((txInputs, i) => ({ hash: `${i}`.repeat(64), inputs: txInputs })),
+  } as unknown as WalletBlockInfo;
+}
+
+describe('processSpends', () => {
+  const keyImageB = generateKeyImage(publicKeyB, privateKeyB);
+  const keyImages = new Map([
+    [generateKeyImage(publicKeyA, privateKeyA), publicKeyA],
+    [keyImageB, publicKeyB],
+  ]);
+
+  it('matches an input by its key image and skips foreign key images', () => {
+    const block = makeBlock([
+      [{ amount: 100, keyImage: keyImageB.toUpperCase(), keyOffsets: [] }],
+      [{ amount: 100, keyImage: 'ff'.repeat(32), keyOffsets: [] }],
+    ]);
+
+    const spends = processSpends(block, makeContext(keyImages));
+    expect(spends).toHaveLength(1);
+    expect(spends[0].outputKey).toBe('b'.repeat(64) + ':0');
+    expect(spends[0].matchMethod).toBe('key-image');
+  });
+
+  it('reports the fallback method for inputs without a key image', () => {
+    const block = makeBlock([
+      [{ amount: 100, keyOffsets: [], transactionHash: 'b'.repeat(64), outputIndex: 0 }],
+      [{ amount: 100, keyOffsets: [] }],
+    ]);
+
+    const spends = processSpends(block, makeContext(keyImages));
+    expect(spends.map(spend => [spend.outputKey, spend.matchMethod])).toEqual([
+      ['b'.repeat(64) + ':0', 'exact-utxo'],
+      ['a'.repeat(64) + ':0', 'amount-fifo'],
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PastellaWallet,
+  detectMnemonicLanguage,
+  convertMnemonicLanguage,
+  deriveKeysFromMnemonic,
+  publicKeyHexToAddress,
+} from '../src/index';
+import { WORDLIST_SIZE, registerWordlist, getSupportedLanguages, getWordlist } from '../src/wordlists';
+import { hexToBytes } from '../src/utils';
+
+const ENTROPY = hexToBytes('0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef');
+const ADDRESS = 'PAS1d29gyspeqg89aV1LZnRuNdLoGbKXAhtMdLrB27Qs8VowVK8NGg';
+
+const BUILT_IN = ['english', 'spanish', 'german', 'french', 'portuguese', 'japanese', 'chinese', 'russian'];
+
+describe('built-in wordlists', () => {
+  it('are all registered with 1626 unique words and unique prefixes', () => {
+    expect(getSupportedLanguages()).toEqual(expect.arrayContaining(BUILT_IN));
+    for (const language of BUILT_IN) {
+      const { words, prefixLength } = getWordlist(language);
+      expect(words).toHaveLength(WORDLIST_SIZE);
+      expect(new Set(words).size).toBe(WORDLIST_SIZE);
+      expect(new Set(words.map(word => word.slice(0, prefixLength))).size).toBe(WORDLIST_SIZE);
+    }
+  });
+
+  for (const language of BUILT_IN) {
+    it(`${language}: detects the language and keeps the address across conversion`, () => {
+      const { mnemonic, address } = PastellaWallet.generateWalletFromEntropy(ENTROPY, language);
+      expect(address).toBe(ADDRESS);
+      expect(detectMnemonicLanguage(mnemonic)).toBe(language);
+      expect(publicKeyHexToAddress(deriveKeysFromMnemonic(mnemonic).publicKey)).toBe(ADDRESS);
+
+      const english = convertMnemonicLanguage(mnemonic, 'english');
+      expect(detectMnemonicLanguage(english)).toBe('english');
+      expect(convertMnemonicLanguage(english, language)).toBe(mnemonic);
+    });
+  }
+
+  it('rejects words from no list and a broken checksum', () => {
+    expect(() => detectMnemonicLanguage('notaword '.repeat(25))).toThrow('do not belong to any supported language');
+
+    const words = PastellaWallet.generateWalletFromEntropy(ENTROPY).mnemonic.split(' ');
+    words[24] = words[0] === words[24] ? words[1] : words[0];
+    expect(() => convertMnemonicLanguage(words.join(' '), 'german')).toThrow('Invalid mnemonic checksum');
+  });
+});
+
+describe('registerWordlist', () => {
+  const customWords = Array.from({ length: WORDLIST_SIZE }, (_, i) => `zz${i.toString(36).padStart(3, '0')}`);
+
+  it('validates size, duplicates and prefixes', () => {
+    expect(() => registerWordlist({ language: 'bad', name: 'Bad', prefixLength: 0, words: customWords.slice(1) }))
+      .toThrow(`exactly ${WORDLIST_SIZE} words`);
+    expect(() => registerWordlist({ language: 'bad', name: 'Bad', prefixLength: 0, words: [...customWords.slice(1), customWords[0].replace(/.$/, '1')] }))
+      .toThrow('duplicate words');
+    expect(() => registerWordlist({ language: 'bad', name: 'Bad', prefixLength: 3, words: customWords }))
+      .toThrow('prefixes of length 3 are not unique');
+  });
+
+  it('makes a custom list usable for generation, detection and conversion', () => {
+    registerWordlist({ language: 'custom', name: 'Custom', prefixLength: 5, words: customWords });
+
+    const { mnemonic, address } = PastellaWallet.generateWalletFromEntropy(ENTROPY, 'custom');
+    expect(address).toBe(ADDRESS);
+    expect(detectMnemonicLanguage(mnemonic)).toBe('custom');
+    expect(convertMnemonicLanguage(mnemonic, 'english')).toBe(PastellaWallet.generateWalletFromEntropy(ENTROPY).mnemonic);
+  });
+});